@@ -0,0 +1,58 @@
+-- AlterTable
+ALTER TABLE "Milestone" ADD COLUMN     "childId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Photo" ADD COLUMN     "childId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Child" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT,
+    "birthDate" TIMESTAMP(3),
+    "dueDate" TIMESTAMP(3),
+    "gender" "BabyGender",
+    "imageUrl" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Child_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Child_userId_idx" ON "Child"("userId");
+
+-- CreateIndex
+CREATE INDEX "Milestone_childId_idx" ON "Milestone"("childId");
+
+-- CreateIndex
+CREATE INDEX "Photo_childId_idx" ON "Photo"("childId");
+
+-- AddForeignKey
+ALTER TABLE "Child" ADD CONSTRAINT "Child_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Milestone" ADD CONSTRAINT "Milestone_childId_fkey" FOREIGN KEY ("childId") REFERENCES "Child"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Photo" ADD CONSTRAINT "Photo_childId_fkey" FOREIGN KEY ("childId") REFERENCES "Child"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Migrate single-baby profiles: create one child per profile with baby details
+INSERT INTO "Child" ("id", "userId", "name", "birthDate", "dueDate", "gender", "imageUrl", "createdAt", "updatedAt")
+SELECT gen_random_uuid()::text, "userId", "babyName", "babyBirthDate", "dueDate", "babyGender", "babyImageUrl", "createdAt", CURRENT_TIMESTAMP
+FROM "UserProfile"
+WHERE "babyName" IS NOT NULL
+   OR "babyBirthDate" IS NOT NULL
+   OR "dueDate" IS NOT NULL
+   OR "babyGender" IS NOT NULL;
+
+-- Attach existing milestones and photos to the user's migrated child
+UPDATE "Milestone" m
+SET "childId" = c."id"
+FROM "Child" c
+WHERE c."userId" = m."userId";
+
+UPDATE "Photo" p
+SET "childId" = c."id"
+FROM "Child" c
+WHERE c."userId" = p."userId";
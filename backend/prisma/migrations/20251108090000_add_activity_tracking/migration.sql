@@ -0,0 +1,97 @@
+-- CreateEnum
+CREATE TYPE "FeedType" AS ENUM ('BREAST', 'BOTTLE', 'SOLIDS');
+
+-- CreateEnum
+CREATE TYPE "BreastSide" AS ENUM ('LEFT', 'RIGHT', 'BOTH');
+
+-- CreateEnum
+CREATE TYPE "BottleContent" AS ENUM ('BREAST_MILK', 'FORMULA', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "DiaperType" AS ENUM ('WET', 'DIRTY', 'MIXED', 'DRY');
+
+-- CreateTable
+CREATE TABLE "FeedEvent" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "childId" TEXT,
+    "type" "FeedType" NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL,
+    "endedAt" TIMESTAMP(3),
+    "durationMinutes" INTEGER,
+    "breastSide" "BreastSide",
+    "volumeMl" INTEGER,
+    "bottleContent" "BottleContent",
+    "foods" TEXT[],
+    "amount" TEXT,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "FeedEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SleepSession" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "childId" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL,
+    "endedAt" TIMESTAMP(3),
+    "location" TEXT,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SleepSession_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "DiaperChange" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "childId" TEXT,
+    "changedAt" TIMESTAMP(3) NOT NULL,
+    "type" "DiaperType" NOT NULL,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DiaperChange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "FeedEvent_userId_startedAt_idx" ON "FeedEvent"("userId", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "FeedEvent_childId_startedAt_idx" ON "FeedEvent"("childId", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "SleepSession_userId_startedAt_idx" ON "SleepSession"("userId", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "SleepSession_childId_startedAt_idx" ON "SleepSession"("childId", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "DiaperChange_userId_changedAt_idx" ON "DiaperChange"("userId", "changedAt");
+
+-- CreateIndex
+CREATE INDEX "DiaperChange_childId_changedAt_idx" ON "DiaperChange"("childId", "changedAt");
+
+-- AddForeignKey
+ALTER TABLE "FeedEvent" ADD CONSTRAINT "FeedEvent_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FeedEvent" ADD CONSTRAINT "FeedEvent_childId_fkey" FOREIGN KEY ("childId") REFERENCES "Child"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SleepSession" ADD CONSTRAINT "SleepSession_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SleepSession" ADD CONSTRAINT "SleepSession_childId_fkey" FOREIGN KEY ("childId") REFERENCES "Child"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DiaperChange" ADD CONSTRAINT "DiaperChange_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DiaperChange" ADD CONSTRAINT "DiaperChange_childId_fkey" FOREIGN KEY ("childId") REFERENCES "Child"("id") ON DELETE SET NULL ON UPDATE CASCADE;
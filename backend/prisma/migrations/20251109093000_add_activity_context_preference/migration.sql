@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "UserProfile" ADD COLUMN     "activityContextEnabled" BOOLEAN NOT NULL DEFAULT true;
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "GrowthMeasurement" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "childId" TEXT,
+    "measuredAt" TIMESTAMP(3) NOT NULL,
+    "weightKg" DOUBLE PRECISION,
+    "lengthCm" DOUBLE PRECISION,
+    "headCircumferenceCm" DOUBLE PRECISION,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "GrowthMeasurement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "GrowthMeasurement_userId_measuredAt_idx" ON "GrowthMeasurement"("userId", "measuredAt");
+
+-- CreateIndex
+CREATE INDEX "GrowthMeasurement_childId_measuredAt_idx" ON "GrowthMeasurement"("childId", "measuredAt");
+
+-- AddForeignKey
+ALTER TABLE "GrowthMeasurement" ADD CONSTRAINT "GrowthMeasurement_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GrowthMeasurement" ADD CONSTRAINT "GrowthMeasurement_childId_fkey" FOREIGN KEY ("childId") REFERENCES "Child"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,62 @@
+-- AlterTable
+ALTER TABLE "UserProfile" ADD COLUMN     "country" TEXT;
+
+-- CreateTable
+CREATE TABLE "ImmunizationRecord" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "childId" TEXT,
+    "scheduleDoseId" TEXT,
+    "vaccineCode" TEXT NOT NULL,
+    "doseNumber" INTEGER,
+    "administeredAt" TIMESTAMP(3) NOT NULL,
+    "provider" TEXT,
+    "lotNumber" TEXT,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ImmunizationRecord_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ImmunizationScheduleDose" (
+    "id" TEXT NOT NULL,
+    "country" TEXT NOT NULL,
+    "vaccineCode" TEXT NOT NULL,
+    "vaccineName" TEXT NOT NULL,
+    "doseNumber" INTEGER NOT NULL,
+    "dueAge" JSONB NOT NULL,
+    "overdueAge" JSONB NOT NULL,
+    "notes" TEXT,
+    "sources" TEXT[],
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ImmunizationScheduleDose_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ImmunizationRecord_userId_administeredAt_idx" ON "ImmunizationRecord"("userId", "administeredAt");
+
+-- CreateIndex
+CREATE INDEX "ImmunizationRecord_childId_administeredAt_idx" ON "ImmunizationRecord"("childId", "administeredAt");
+
+-- CreateIndex
+CREATE INDEX "ImmunizationRecord_scheduleDoseId_idx" ON "ImmunizationRecord"("scheduleDoseId");
+
+-- CreateIndex
+CREATE INDEX "ImmunizationScheduleDose_country_idx" ON "ImmunizationScheduleDose"("country");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ImmunizationScheduleDose_country_vaccineCode_doseNumber_key" ON "ImmunizationScheduleDose"("country", "vaccineCode", "doseNumber");
+
+-- AddForeignKey
+ALTER TABLE "ImmunizationRecord" ADD CONSTRAINT "ImmunizationRecord_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ImmunizationRecord" ADD CONSTRAINT "ImmunizationRecord_childId_fkey" FOREIGN KEY ("childId") REFERENCES "Child"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ImmunizationRecord" ADD CONSTRAINT "ImmunizationRecord_scheduleDoseId_fkey" FOREIGN KEY ("scheduleDoseId") REFERENCES "ImmunizationScheduleDose"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "PushProvider" AS ENUM ('FCM', 'APNS');
+
+-- CreateEnum
+CREATE TYPE "DevicePlatform" AS ENUM ('IOS', 'ANDROID', 'WEB');
+
+-- AlterTable
+ALTER TABLE "UserProfile" ADD COLUMN     "quietHoursEnd" TEXT,
+ADD COLUMN     "quietHoursStart" TEXT,
+ADD COLUMN     "timeZone" TEXT;
+
+-- CreateTable
+CREATE TABLE "DeviceToken" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "provider" "PushProvider" NOT NULL,
+    "platform" "DevicePlatform" NOT NULL,
+    "appVersion" TEXT,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DeviceToken_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DeviceToken_token_key" ON "DeviceToken"("token");
+
+-- CreateIndex
+CREATE INDEX "DeviceToken_userId_idx" ON "DeviceToken"("userId");
+
+-- AddForeignKey
+ALTER TABLE "DeviceToken" ADD CONSTRAINT "DeviceToken_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,41 @@
+-- CreateTable
+CREATE TABLE "TipSet" (
+    "id" TEXT NOT NULL,
+    "cohortKey" TEXT NOT NULL,
+    "ageWeeks" INTEGER NOT NULL,
+    "concerns" TEXT[],
+    "parentingPhilosophy" TEXT,
+    "upcomingMilestones" TEXT[],
+    "tips" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TipSet_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TipDigest" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "childId" TEXT,
+    "tipSetId" TEXT NOT NULL,
+    "weekStart" DATE NOT NULL,
+    "ageWeeks" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TipDigest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TipSet_cohortKey_key" ON "TipSet"("cohortKey");
+
+-- CreateIndex
+CREATE INDEX "TipDigest_userId_weekStart_idx" ON "TipDigest"("userId", "weekStart");
+
+-- AddForeignKey
+ALTER TABLE "TipDigest" ADD CONSTRAINT "TipDigest_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TipDigest" ADD CONSTRAINT "TipDigest_childId_fkey" FOREIGN KEY ("childId") REFERENCES "Child"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TipDigest" ADD CONSTRAINT "TipDigest_tipSetId_fkey" FOREIGN KEY ("tipSetId") REFERENCES "TipSet"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,46 @@
+-- CreateTable
+CREATE TABLE "PrenatalChecklistItem" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "templateKey" TEXT,
+    "title" TEXT NOT NULL,
+    "notes" TEXT,
+    "dueWeek" INTEGER,
+    "completedAt" TIMESTAMP(3),
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PrenatalChecklistItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PregnancyWeekContent" (
+    "id" TEXT NOT NULL,
+    "week" INTEGER NOT NULL,
+    "trimester" INTEGER NOT NULL,
+    "babySize" TEXT,
+    "babyLengthCm" DOUBLE PRECISION,
+    "babyWeightG" DOUBLE PRECISION,
+    "fetalDevelopment" TEXT NOT NULL,
+    "commonSymptoms" TEXT[],
+    "prenatalAppointments" TEXT[],
+    "tips" TEXT[],
+    "sources" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PregnancyWeekContent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PrenatalChecklistItem_userId_dueWeek_idx" ON "PrenatalChecklistItem"("userId", "dueWeek");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PrenatalChecklistItem_userId_templateKey_key" ON "PrenatalChecklistItem"("userId", "templateKey");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PregnancyWeekContent_week_key" ON "PregnancyWeekContent"("week");
+
+-- AddForeignKey
+ALTER TABLE "PrenatalChecklistItem" ADD CONSTRAINT "PrenatalChecklistItem_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
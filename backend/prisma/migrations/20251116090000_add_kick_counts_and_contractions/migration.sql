@@ -0,0 +1,55 @@
+-- CreateTable
+CREATE TABLE "KickCountSession" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL,
+    "endedAt" TIMESTAMP(3),
+    "kicks" TIMESTAMP(3)[],
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "KickCountSession_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ContractionSession" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL,
+    "endedAt" TIMESTAMP(3),
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ContractionSession_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Contraction" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL,
+    "endedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Contraction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "KickCountSession_userId_startedAt_idx" ON "KickCountSession"("userId", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "ContractionSession_userId_startedAt_idx" ON "ContractionSession"("userId", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "Contraction_sessionId_startedAt_idx" ON "Contraction"("sessionId", "startedAt");
+
+-- AddForeignKey
+ALTER TABLE "KickCountSession" ADD CONSTRAINT "KickCountSession_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ContractionSession" ADD CONSTRAINT "ContractionSession_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Contraction" ADD CONSTRAINT "Contraction_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "ContractionSession"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "MemoryCategory" AS ENUM ('HEALTH', 'MEDICAL_ADVICE', 'FAMILY', 'ROUTINE', 'PREFERENCE', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "MemorySource" AS ENUM ('EXTRACTED', 'USER');
+
+-- AlterTable
+ALTER TABLE "UserProfile" ADD COLUMN "memoryEnabled" BOOLEAN NOT NULL DEFAULT true;
+
+-- CreateTable
+CREATE TABLE "UserMemory" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "category" "MemoryCategory" NOT NULL,
+    "content" TEXT NOT NULL,
+    "source" "MemorySource" NOT NULL,
+    "sourceSessionId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "UserMemory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "UserMemory_userId_category_idx" ON "UserMemory"("userId", "category");
+
+-- AddForeignKey
+ALTER TABLE "UserMemory" ADD CONSTRAINT "UserMemory_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
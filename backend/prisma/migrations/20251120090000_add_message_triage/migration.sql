@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "TriageLevel" AS ENUM ('URGENT', 'EMERGENCY');
+
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN     "triageLevel" "TriageLevel",
+ADD COLUMN     "triageRule" TEXT;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "UserProfile" ADD COLUMN     "ttsVoice" TEXT NOT NULL DEFAULT 'alloy',
+ADD COLUMN     "ttsSpeed" DOUBLE PRECISION NOT NULL DEFAULT 1;
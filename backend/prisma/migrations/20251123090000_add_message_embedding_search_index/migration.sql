@@ -0,0 +1,5 @@
+-- DropIndex
+DROP INDEX "MessageEmbedding_userId_model_idx";
+
+-- CreateIndex
+CREATE INDEX "MessageEmbedding_userId_model_createdAt_idx" ON "MessageEmbedding"("userId", "model", "createdAt");
@@ -0,0 +1,20 @@
+-- Remove digests created twice for the same week, keeping the first
+DELETE FROM "TipDigest" d
+USING "TipDigest" earlier
+WHERE d."userId" = earlier."userId"
+  AND d."childId" IS NOT DISTINCT FROM earlier."childId"
+  AND d."weekStart" = earlier."weekStart"
+  AND (d."createdAt", d."id") > (earlier."createdAt", earlier."id");
+
+-- DropIndex
+DROP INDEX "TipDigest_userId_weekStart_idx";
+
+-- CreateIndex
+-- NULLS NOT DISTINCT: a user has one digest per week for accounts without children too
+CREATE UNIQUE INDEX "TipDigest_userId_childId_weekStart_key" ON "TipDigest"("userId", "childId", "weekStart") NULLS NOT DISTINCT;
+
+-- Deleting a child removes its digests (setting childId to null could collide with the account's own digest)
+ALTER TABLE "TipDigest" DROP CONSTRAINT "TipDigest_childId_fkey";
+
+-- AddForeignKey
+ALTER TABLE "TipDigest" ADD CONSTRAINT "TipDigest_childId_fkey" FOREIGN KEY ("childId") REFERENCES "Child"("id") ON DELETE CASCADE ON UPDATE CASCADE;
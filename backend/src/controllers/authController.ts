@@ -1,16 +1,30 @@
 /**
  * Authentication Controller
  *
- * Handles user authentication operations including registration and login.
+ * Handles user authentication operations including registration, login,
+ * email verification, password reset and session management.
  * Uses bcrypt for password hashing and JWT for token generation.
+ * Refresh tokens are stored per device session and rotated on every use.
  */
 
 import { Request, Response } from 'express';
 import bcrypt from 'bcrypt';
 import { PrismaClient } from '@prisma/client';
 import { validationResult } from 'express-validator';
-import { generateAccessToken, generateRefreshToken } from '../utils/jwt';
+import { generateAccessToken } from '../utils/jwt';
 import { getPresignedUrl } from '../utils/s3';
+import { generateOneTimeToken, hashToken, isOneTimeTokenUsable } from '../utils/tokens';
+import { APP_URL, sendMail } from '../services/mailer';
+import { isVerificationTokenUsable, sendVerificationEmail } from '../services/emailVerification';
+import {
+  createSession,
+  getDeviceInfo,
+  listSessions,
+  revokeAllSessions,
+  revokeSession,
+  rotateRefreshToken,
+} from '../services/authSessions';
+import { AuthenticatedRequest } from '../middleware/auth';
 
 // Initialize Prisma Client for database operations
 const prisma = new PrismaClient();
@@ -19,15 +33,20 @@ const prisma = new PrismaClient();
 // 10 rounds provides good security while maintaining reasonable performance
 const SALT_ROUNDS = 10;
 
+// Password reset tokens are valid for 1 hour
+const PASSWORD_RESET_TOKEN_TTL_MS = 60 * 60 * 1000;
+
 /**
  * Register a new user account
  *
- * Creates a new user with hashed password and empty profile.
- * Does NOT automatically log in user - they must verify email first (future feature).
+ * Creates a new user with hashed password and empty profile, logs them in,
+ * and sends an email verification link. Unverified users can use the app,
+ * but sensitive features (email change, subscriptions) stay locked until they verify.
  *
  * Request body:
  * - email: string (valid email format)
  * - password: string (min 8 chars, must contain at least 1 number)
+ * - deviceName: string (optional, shown in the session list)
  *
  * @param req - Express request object with user registration data
  * @param res - Express response object
@@ -88,9 +107,14 @@ export const register = async (req: Request, res: Response): Promise<void> => {
       },
     });
 
-    // Generate JWT tokens for auto-login after registration
-    const accessToken = generateAccessToken(user.id, user.email);
-    const refreshToken = generateRefreshToken(user.id);
+    // Send verification email in background (don't block registration)
+    sendVerificationEmail(user.id, user.email).catch((mailError) => {
+      console.error('Failed to send verification email:', mailError);
+    });
+
+    // Start a device session and generate JWT tokens for auto-login after registration
+    const { sessionId, refreshToken } = await createSession(user, getDeviceInfo(req));
+    const accessToken = generateAccessToken(user.id, user.email, user.emailVerified, sessionId);
 
     // Return 201 Created with tokens and user data
     // Auto-login user after successful registration
@@ -102,6 +126,7 @@ export const register = async (req: Request, res: Response): Promise<void> => {
         id: user.id,
         email: user.email,
         subscriptionTier: user.subscriptionTier,
+        emailVerified: user.emailVerified, // Always false for new users
         onboardingComplete: user.onboardingComplete, // Always false for new users
         createdAt: user.createdAt,
         updatedAt: user.updatedAt,
@@ -124,10 +149,12 @@ export const register = async (req: Request, res: Response): Promise<void> => {
  *
  * Validates credentials and returns JWT tokens for authentication.
  * Generates both access token (7 days) and refresh token (30 days).
+ * Each login starts a new device session that can be listed and revoked.
  *
  * Request body:
  * - email: string
  * - password: string
+ * - deviceName: string (optional, shown in the session list)
  *
  * @param req - Express request object with login credentials
  * @param res - Express response object
@@ -203,9 +230,9 @@ export const login = async (req: Request, res: Response): Promise<void> => {
 
     // Generate JWT tokens for authenticated session
     // Access token (7 days): Used for API requests
-    // Refresh token (30 days): Used to get new access tokens
-    const accessToken = generateAccessToken(user.id, user.email);
-    const refreshToken = generateRefreshToken(user.id);
+    // Refresh token (30 days): Used to get new access tokens, bound to this device session
+    const { sessionId, refreshToken } = await createSession(user, getDeviceInfo(req));
+    const accessToken = generateAccessToken(user.id, user.email, user.emailVerified, sessionId);
 
     // Return 200 OK with tokens and user data
     res.status(200).json({
@@ -217,6 +244,7 @@ export const login = async (req: Request, res: Response): Promise<void> => {
         email: user.email,
         subscriptionTier: user.subscriptionTier,
         subscriptionStatus: user.subscriptionStatus,
+        emailVerified: user.emailVerified,
         // Use onboardingComplete field from User model
         onboardingComplete: user.onboardingComplete,
         // Include profile data if available
@@ -248,21 +276,23 @@ export const login = async (req: Request, res: Response): Promise<void> => {
  * Refresh access token using refresh token
  *
  * Allows users to get a new access token without logging in again.
- * Validates refresh token and issues new access token.
+ * The refresh token is rotated: a new refresh token is returned and the
+ * presented one stops working. Presenting an already-rotated token revokes
+ * the whole session, since it means the token was copied.
  *
  * Request body:
  * - refreshToken: string (JWT refresh token)
  *
  * @param req - Express request object with refresh token
  * @param res - Express response object
- * @returns 200 with new access token, or 400/401/500 with error
+ * @returns 200 with new access and refresh tokens, or 400/401/500 with error
  */
 export const refreshAccessToken = async (
   req: Request,
   res: Response,
 ): Promise<void> => {
   try {
-    const { refreshToken } = req.body;
+    const { refreshToken } = req.body as { refreshToken?: string };
 
     // Validate refresh token is provided
     if (!refreshToken) {
@@ -273,83 +303,433 @@ export const refreshAccessToken = async (
       return;
     }
 
-    // Verify refresh token (will throw if invalid/expired)
-    // Note: verifyRefreshToken is imported but needs to be added to jwt.ts
-    // For now, we'll implement basic validation
-    const { verifyRefreshToken } = require('../utils/jwt');
-    const decoded = verifyRefreshToken(refreshToken);
+    const result = await rotateRefreshToken(refreshToken, getDeviceInfo(req));
 
-    // Look up user to ensure they still exist and are active
-    const user = await prisma.user.findUnique({
-      where: { id: decoded.userId },
-    });
+    if (result.status === 'reuse_detected') {
+      res.status(401).json({
+        error: 'Invalid refresh token',
+        message: 'Refresh token has already been used. This session has been signed out for your security.',
+      });
+      return;
+    }
 
-    if (!user) {
+    if (result.status === 'invalid') {
       res.status(401).json({
         error: 'Invalid refresh token',
-        message: 'User not found. Please log in again.',
+        message: 'Refresh token is invalid, expired or revoked. Please log in again.',
       });
       return;
     }
 
-    // Generate new access token
-    const newAccessToken = generateAccessToken(user.id, user.email);
+    const { user, sessionId } = result;
+
+    // Generate new access token for the same session
+    const newAccessToken = generateAccessToken(user.id, user.email, user.emailVerified, sessionId);
 
-    // Return new access token
+    // Return new access token and rotated refresh token
     res.status(200).json({
       message: 'Token refreshed successfully',
       accessToken: newAccessToken,
+      refreshToken: result.refreshToken,
     });
   } catch (error) {
     // Log error for debugging
     console.error('Token refresh error:', error);
 
-    // Return 401 for invalid/expired refresh tokens
-    res.status(401).json({
-      error: 'Invalid refresh token',
-      message: 'Refresh token is invalid or expired. Please log in again.',
+    res.status(500).json({
+      error: 'Token refresh failed',
+      message: 'An error occurred while refreshing your session. Please try again.',
+    });
+  }
+};
+
+/**
+ * List active sessions
+ *
+ * Returns the authenticated user's signed-in devices.
+ * The session of the current access token is flagged with current: true.
+ *
+ * @param req - Express request object with authenticated user
+ * @param res - Express response object
+ * @returns 200 with sessions, or 500 with error
+ */
+export const getSessions = async (
+  req: AuthenticatedRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const sessions = await listSessions(req.user!.userId, req.user!.sessionId);
+
+    res.status(200).json({ sessions });
+  } catch (error) {
+    console.error('List sessions error:', error);
+
+    res.status(500).json({
+      error: 'Failed to list sessions',
+      message: 'An error occurred while loading your sessions. Please try again.',
+    });
+  }
+};
+
+/**
+ * Revoke a session
+ *
+ * Signs out one device: its refresh token and access tokens stop working immediately.
+ *
+ * URL params:
+ * - id: string (session ID)
+ *
+ * @param req - Express request object with authenticated user
+ * @param res - Express response object
+ * @returns 200 when revoked, or 404/500 with error
+ */
+export const deleteSession = async (
+  req: AuthenticatedRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const revoked = await revokeSession(req.user!.userId, req.params.id, 'user_revoked');
+
+    if (!revoked) {
+      res.status(404).json({
+        error: 'Session not found',
+        message: 'This session does not exist or has already been signed out.',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      message: 'Session revoked successfully',
+    });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+
+    res.status(500).json({
+      error: 'Failed to revoke session',
+      message: 'An error occurred while signing out the session. Please try again.',
     });
   }
 };
 
 /**
- * Verify email endpoint (stub for MVP)
+ * Verify email address
+ *
+ * Consumes a verification token from the email sent on registration (or resend)
+ * and marks the user's email as verified. The token only counts if the user's
+ * email hasn't changed since it was issued.
  *
- * Future implementation: Verify email address using token sent via email.
- * For MVP: Simple stub that returns success.
+ * No token is issued: anyone holding the link could log in with it. Clients pick up
+ * the verified flag by calling /auth/refresh with their refresh token.
+ *
+ * Request body:
+ * - token: string (verification token from email)
  *
- * @param req - Express request object
+ * @param req - Express request object with verification token
  * @param res - Express response object
+ * @returns 200 when verified, or 400/500 with error
  */
 export const verifyEmail = async (
   req: Request,
   res: Response,
 ): Promise<void> => {
-  // TODO: Implement email verification in post-MVP
-  // For now, return success stub
+  try {
+    // Validate request body using express-validator
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array(),
+      });
+      return;
+    }
+
+    const { token } = req.body as { token: string };
+
+    const verificationToken = await prisma.emailVerificationToken.findUnique({
+      where: { tokenHash: hashToken(token) },
+      include: { user: { select: { email: true } } },
+    });
+
+    // Unknown, used, expired and stale (email changed) tokens all get the same response
+    if (!isVerificationTokenUsable(verificationToken, verificationToken?.user.email)) {
+      res.status(400).json({
+        error: 'Invalid or expired token',
+        message: 'This verification link is invalid or has expired. Please request a new one.',
+      });
+      return;
+    }
+
+    // Mark token used only if still unused, then flag the user as verified
+    const user = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.emailVerificationToken.updateMany({
+        where: { id: verificationToken.id, usedAt: null },
+        data: { usedAt: new Date() },
+      });
+
+      if (count === 0) {
+        return null;
+      }
+
+      return tx.user.update({
+        where: { id: verificationToken.userId },
+        data: {
+          emailVerified: true,
+          emailVerifiedAt: new Date(),
+        },
+      });
+    });
+
+    if (!user) {
+      res.status(400).json({
+        error: 'Invalid or expired token',
+        message: 'This verification link is invalid or has expired. Please request a new one.',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      message: 'Email verified successfully',
+      emailVerified: true,
+    });
+  } catch (error) {
+    console.error('Email verification error:', error);
+
+    res.status(500).json({
+      error: 'Email verification failed',
+      message: 'An error occurred while verifying your email. Please try again.',
+    });
+  }
+};
+
+/**
+ * Resend the verification email
+ *
+ * Issues a new verification token for the authenticated user, replacing any
+ * previous one. Requires authentication.
+ *
+ * @param req - Express request object with authenticated user
+ * @param res - Express response object
+ * @returns 200 when sent, 400 if already verified, or 404/500 with error
+ */
+export const resendVerificationEmail = async (
+  req: AuthenticatedRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const userId = req.user!.userId;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true, emailVerified: true },
+    });
+
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    if (user.emailVerified) {
+      res.status(400).json({
+        error: 'Email already verified',
+        message: 'Your email address is already verified.',
+      });
+      return;
+    }
+
+    await sendVerificationEmail(user.id, user.email);
+
+    res.status(200).json({
+      message: 'Verification email sent',
+    });
+  } catch (error) {
+    console.error('Resend verification email error:', error);
+
+    res.status(500).json({
+      error: 'Failed to send verification email',
+      message: 'An error occurred while sending the verification email. Please try again.',
+    });
+  }
+};
+
+/**
+ * Issues a password reset token and emails it, if the email is registered
+ * Any earlier unused tokens for the same user are invalidated.
+ *
+ * @param email - Email address the reset was requested for
+ */
+async function issuePasswordReset(email: string): Promise<void> {
+  const user = await prisma.user.findUnique({
+    where: { email },
+    select: { id: true, email: true },
+  });
+
+  if (!user) {
+    return;
+  }
+
+  // Generate token and store only its hash
+  const { token, tokenHash } = generateOneTimeToken();
+
+  // Replace any outstanding tokens so only the newest link works
+  await prisma.$transaction([
+    prisma.passwordResetToken.deleteMany({
+      where: { userId: user.id, usedAt: null },
+    }),
+    prisma.passwordResetToken.create({
+      data: {
+        userId: user.id,
+        tokenHash,
+        expiresAt: new Date(Date.now() + PASSWORD_RESET_TOKEN_TTL_MS),
+      },
+    }),
+  ]);
+
+  const resetUrl = `${APP_URL}/reset-password?token=${token}`;
+  await sendMail({
+    to: user.email,
+    subject: 'Reset your password',
+    text:
+      'We received a request to reset your AI Parenting Assistant password.\n\n' +
+      `Reset your password: ${resetUrl}\n\n` +
+      `Or enter this code in the app: ${token}\n\n` +
+      'This link expires in 1 hour. If you did not request a reset, you can ignore this email.',
+  });
+}
+
+/**
+ * Request a password reset
+ *
+ * Issues a single-use reset token (valid for 1 hour) and emails it to the user.
+ * Any earlier unused tokens for the same user are invalidated.
+ *
+ * Always returns the same response whether or not the email is registered,
+ * so the endpoint cannot be used to enumerate accounts. The account lookup,
+ * token and email all happen after the response, so response times don't
+ * reveal whether the account exists either.
+ *
+ * Request body:
+ * - email: string
+ *
+ * @param req - Express request object with email address
+ * @param res - Express response object
+ * @returns 200 with generic message, or 400 with error
+ */
+export const requestPasswordReset = (
+  req: Request,
+  res: Response,
+): void => {
+  // Validate request body using express-validator
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({
+      error: 'Validation failed',
+      details: errors.array(),
+    });
+    return;
+  }
+
+  const { email } = req.body as { email: string };
+
+  // Same response for registered and unknown emails
   res.status(200).json({
-    message: 'Email verification not yet implemented',
-    note: 'This feature will be added in post-MVP phase',
+    message: 'If an account exists for this email, a password reset link has been sent.',
+  });
+
+  issuePasswordReset(email).catch((error) => {
+    console.error('Password reset request error:', error);
   });
 };
 
 /**
- * Reset password endpoint (stub for MVP)
+ * Confirm a password reset
  *
- * Future implementation: Send password reset email with token.
- * For MVP: Simple stub that returns success.
+ * Consumes a reset token and sets a new password.
+ * Revokes all sessions and bumps the user's token version so all existing
+ * refresh tokens stop working.
  *
- * @param req - Express request object
+ * Request body:
+ * - token: string (reset token from email)
+ * - newPassword: string (min 8 chars, must contain at least 1 number)
+ *
+ * @param req - Express request object with token and new password
  * @param res - Express response object
+ * @returns 200 on success, or 400/500 with error
  */
-export const resetPassword = async (
+export const confirmPasswordReset = async (
   req: Request,
   res: Response,
 ): Promise<void> => {
-  // TODO: Implement password reset in post-MVP
-  // For now, return success stub
-  res.status(200).json({
-    message: 'Password reset not yet implemented',
-    note: 'This feature will be added in post-MVP phase',
-  });
+  try {
+    // Validate request body using express-validator
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array(),
+      });
+      return;
+    }
+
+    const { token, newPassword } = req.body as { token: string; newPassword: string };
+
+    const resetToken = await prisma.passwordResetToken.findUnique({
+      where: { tokenHash: hashToken(token) },
+    });
+
+    // Unknown, used and expired tokens all get the same response
+    if (!isOneTimeTokenUsable(resetToken)) {
+      res.status(400).json({
+        error: 'Invalid or expired token',
+        message: 'This password reset link is invalid or has expired. Please request a new one.',
+      });
+      return;
+    }
+
+    const passwordHash = await bcrypt.hash(newPassword, SALT_ROUNDS);
+
+    // Mark token used only if still unused, so concurrent requests can't both succeed
+    const consumed = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.passwordResetToken.updateMany({
+        where: { id: resetToken.id, usedAt: null },
+        data: { usedAt: new Date() },
+      });
+
+      if (count === 0) {
+        return false;
+      }
+
+      // Set new password and revoke all existing refresh tokens
+      await tx.user.update({
+        where: { id: resetToken.userId },
+        data: {
+          passwordHash,
+          tokenVersion: { increment: 1 },
+        },
+      });
+
+      return true;
+    });
+
+    if (!consumed) {
+      res.status(400).json({
+        error: 'Invalid or expired token',
+        message: 'This password reset link is invalid or has expired. Please request a new one.',
+      });
+      return;
+    }
+
+    // Sign out every device so they show up as revoked in the session list
+    await revokeAllSessions(resetToken.userId, 'password_reset');
+
+    res.status(200).json({
+      message: 'Password has been reset. Please log in with your new password.',
+    });
+  } catch (error) {
+    console.error('Password reset confirm error:', error);
+
+    res.status(500).json({
+      error: 'Password reset failed',
+      message: 'An error occurred while resetting your password. Please try again.',
+    });
+  }
 };
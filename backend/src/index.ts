@@ -16,10 +16,21 @@ import chatRoutes from './routes/chat';
 import usageRoutes from './routes/usage';
 import photosRoutes from './routes/photos';
 import milestonesRoutes from './routes/milestones';
+import familyRoutes from './routes/family';
+import childrenRoutes from './routes/children';
+import trackingRoutes from './routes/tracking';
+import growthRoutes from './routes/growth';
+import immunizationRoutes from './routes/immunizations';
+import notificationRoutes from './routes/notifications';
+import tipsRoutes from './routes/tips';
+import pregnancyRoutes from './routes/pregnancy';
+import searchRoutes from './routes/search';
 import subscriptionRoutes from './routes/subscription';
 import webhookRoutes from './routes/webhook';
 import { authenticateToken, AuthenticatedRequest } from './middleware/auth';
+import { localizeErrors } from './middleware/localizeErrors';
 import { initializeVoiceSocket } from './sockets/voice';
+import { startJobRunner } from './jobs/runner';
 
 // Load environment variables from .env file
 dotenv.config();
@@ -46,6 +57,12 @@ const PORT = process.env.PORT || 3000;
  */
 app.use(cors());
 
+/**
+ * Error localization middleware
+ * Translates error messages into the language of the Accept-Language header (en, es, pt)
+ */
+app.use(localizeErrors);
+
 /**
  * Stripe webhook route - MUST be registered BEFORE express.json()
  * Uses raw body for webhook signature verification
@@ -111,6 +128,15 @@ app.get('/', (_req: Request, res: Response) => {
       usage: '/usage/*',
       photos: '/photos/*',
       milestones: '/milestones/*',
+      family: '/family/*',
+      children: '/children/*',
+      tracking: '/tracking/*',
+      growth: '/growth/*',
+      immunizations: '/immunizations/*',
+      notifications: '/notifications/*',
+      tips: '/tips/*',
+      pregnancy: '/pregnancy/*',
+      search: '/search',
       subscription: '/subscription/*',
       webhook: '/stripe/webhook',
     },
@@ -164,6 +190,78 @@ app.use('/photos', photosRoutes);
  */
 app.use('/milestones', milestonesRoutes);
 
+/**
+ * Family routes
+ * Handles shared family accounts, invitations and member roles
+ * All family endpoints are prefixed with /family
+ * Requires authentication
+ */
+app.use('/family', familyRoutes);
+
+/**
+ * Children routes
+ * Handles the children of an account (twins, siblings)
+ * All children endpoints are prefixed with /children
+ * Requires authentication
+ */
+app.use('/children', childrenRoutes);
+
+/**
+ * Activity tracking routes
+ * Handles feeding, sleep and diaper logs with daily and weekly summaries
+ * All tracking endpoints are prefixed with /tracking
+ * Requires authentication
+ */
+app.use('/tracking', trackingRoutes);
+
+/**
+ * Growth routes
+ * Handles weight, length and head circumference measurements with WHO percentiles
+ * All growth endpoints are prefixed with /growth
+ * Requires authentication
+ */
+app.use('/growth', growthRoutes);
+
+/**
+ * Immunization routes
+ * Handles vaccination schedules, records and due/overdue doses
+ * All immunization endpoints are prefixed with /immunizations
+ * Requires authentication
+ */
+app.use('/immunizations', immunizationRoutes);
+
+/**
+ * Notification routes
+ * Handles push notification device registration and test notifications
+ * All notification endpoints are prefixed with /notifications
+ * Requires authentication
+ */
+app.use('/notifications', notificationRoutes);
+
+/**
+ * Tips routes
+ * Handles the weekly personalized tips digest
+ * All tips endpoints are prefixed with /tips
+ * Requires authentication
+ */
+app.use('/tips', tipsRoutes);
+
+/**
+ * Pregnancy routes
+ * Handles week-by-week pregnancy content, the prenatal checklist, kick counts and contraction timing
+ * All pregnancy endpoints are prefixed with /pregnancy
+ * Requires authentication (except week content)
+ */
+app.use('/pregnancy', pregnancyRoutes);
+
+/**
+ * Search routes
+ * Handles search across chat messages, milestones, photos and milestone content
+ * All search endpoints are prefixed with /search
+ * Requires authentication
+ */
+app.use('/search', searchRoutes);
+
 /**
  * Subscription routes
  * Handles Stripe subscription management for premium features
@@ -259,6 +357,15 @@ httpServer.listen(PORT, () => {
   console.log(`🔌 Socket.io enabled on /voice namespace`);
 });
 
+/**
+ * Start the background job runner in this process
+ * JOB_RUNNER=worker leaves jobs to the separate worker (npm run worker);
+ * JOB_RUNNER=off disables background jobs entirely
+ */
+if (process.env.JOB_RUNNER !== 'worker' && process.env.JOB_RUNNER !== 'off') {
+  startJobRunner();
+}
+
 /**
  * Export app and io for testing purposes
  * Allows the app to be imported in test files without starting the server
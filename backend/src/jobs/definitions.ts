@@ -0,0 +1,85 @@
+/**
+ * Job Definitions
+ *
+ * Registry of background job handlers and their cron schedules (UTC).
+ * Add new jobs here; one-off jobs (like send-notification) have no schedule and
+ * are enqueued by other code with enqueueJob().
+ */
+
+import { JobDefinition } from './types';
+import { SEND_NOTIFICATION_JOB, milestoneRemindersJob, sendNotificationJob, weeklyTipsJob } from './notifications';
+import {
+  backfillConversationTitlesJob,
+  backfillMessageEmbeddingsJob,
+  pruneAuthSessionsJob,
+  pruneJobHistoryJob,
+  pruneUsageRecordsJob,
+  pruneVoiceAudioJob,
+} from './maintenance';
+
+export const JOB_DEFINITIONS: JobDefinition[] = [
+  {
+    name: SEND_NOTIFICATION_JOB,
+    handler: sendNotificationJob,
+  },
+  {
+    // Sundays 17:00 UTC
+    name: 'milestone-reminders',
+    handler: milestoneRemindersJob,
+    schedule: '0 17 * * 0',
+  },
+  {
+    // Mondays 15:00 UTC
+    name: 'weekly-tips',
+    handler: weeklyTipsJob,
+    schedule: '0 15 * * 1',
+  },
+  {
+    // Daily 03:30 UTC
+    name: 'prune-usage-records',
+    handler: pruneUsageRecordsJob,
+    schedule: '30 3 * * *',
+  },
+  {
+    // Daily 03:45 UTC
+    name: 'prune-job-history',
+    handler: pruneJobHistoryJob,
+    schedule: '45 3 * * *',
+  },
+  {
+    // Daily 04:00 UTC
+    name: 'prune-voice-audio',
+    handler: pruneVoiceAudioJob,
+    schedule: '0 4 * * *',
+  },
+  {
+    // Daily 04:15 UTC
+    name: 'prune-auth-sessions',
+    handler: pruneAuthSessionsJob,
+    schedule: '15 4 * * *',
+  },
+  {
+    // Hourly
+    name: 'backfill-conversation-titles',
+    handler: backfillConversationTitlesJob,
+    schedule: '15 * * * *',
+    maxAttempts: 2,
+  },
+  {
+    // Hourly
+    name: 'backfill-message-embeddings',
+    handler: backfillMessageEmbeddingsJob,
+    schedule: '45 * * * *',
+    maxAttempts: 2,
+  },
+];
+
+/**
+ * Looks up a job definition by name
+ *
+ * @param name - Job name
+ * @returns Definition, or undefined if no handler is registered
+ */
+export function getJobDefinition(name: string): JobDefinition | undefined {
+  return JOB_DEFINITIONS.find((definition) => definition.name === name);
+}
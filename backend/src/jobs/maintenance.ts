@@ -0,0 +1,134 @@
+/**
+ * Maintenance Jobs
+ *
+ * - prune-usage-records: Deletes daily usage records older than USAGE_RETENTION_DAYS.
+ * - prune-job-history: Deletes finished jobs and their runs older than JOB_HISTORY_RETENTION_DAYS.
+ * - backfill-conversation-titles: Titles conversations that are missing one.
+ * - backfill-message-embeddings: Embeds messages for conversation search that are missing one.
+ * - prune-voice-audio: Deletes voice recordings older than VOICE_AUDIO_RETENTION_DAYS.
+ * - prune-auth-sessions: Deletes sessions and refresh tokens revoked or expired more than
+ *   AUTH_SESSION_RETENTION_DAYS ago.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { pruneFinishedJobs } from './queue';
+import { JobHandler } from './types';
+import { pruneSessions } from '../services/authSessions';
+import { backfillConversationTitles } from '../services/conversationTitles';
+import { backfillMessageEmbeddings } from '../services/messageEmbeddings';
+import { pruneVoiceAudio } from '../services/voiceAudio';
+
+// Initialize Prisma Client for database operations
+const prisma = new PrismaClient();
+
+// Milliseconds per day
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Titles generated per backfill run (each costs one or two OpenAI requests)
+const TITLE_BACKFILL_BATCH_SIZE = 50;
+
+// Messages embedded per backfill run (100 per OpenAI request)
+const EMBEDDING_BACKFILL_BATCH_SIZE = 1000;
+
+// Sessions with messages in the last 30 minutes are still in progress and titled by the chat flow
+const TITLE_BACKFILL_IDLE_MS = 30 * 60 * 1000;
+
+/**
+ * Reads a retention period from the environment
+ *
+ * @param name - Environment variable
+ * @param defaultDays - Retention when unset or invalid
+ * @returns Retention in days
+ */
+function getRetentionDays(name: string, defaultDays: number): number {
+  const days = parseInt(process.env[name] || '');
+  return days > 0 ? days : defaultDays;
+}
+
+/**
+ * Deletes old daily usage records
+ * The default keeps the 90 days shown by GET /usage/history.
+ */
+export const pruneUsageRecordsJob: JobHandler = async (_payload, context) => {
+  const retentionDays = getRetentionDays('USAGE_RETENTION_DAYS', 90);
+  const cutoff = new Date(context.now.getTime() - retentionDays * MS_PER_DAY);
+  cutoff.setUTCHours(0, 0, 0, 0);
+
+  const { count } = await prisma.usageTracking.deleteMany({
+    where: { date: { lt: cutoff } },
+  });
+
+  console.log(`🧹 Deleted ${count} usage records before ${cutoff.toISOString().slice(0, 10)}`);
+
+  return { deleted: count, cutoff: cutoff.toISOString() };
+};
+
+/**
+ * Deletes old finished jobs and their run history
+ */
+export const pruneJobHistoryJob: JobHandler = async (_payload, context) => {
+  const retentionDays = getRetentionDays('JOB_HISTORY_RETENTION_DAYS', 30);
+  const cutoff = new Date(context.now.getTime() - retentionDays * MS_PER_DAY);
+
+  const deleted = await pruneFinishedJobs(cutoff);
+
+  console.log(`🧹 Deleted ${deleted} finished jobs before ${cutoff.toISOString()}`);
+
+  return { deleted, cutoff: cutoff.toISOString() };
+};
+
+/**
+ * Generates missing conversation titles in batches
+ */
+export const backfillConversationTitlesJob: JobHandler = async (_payload, context) => {
+  const result = await backfillConversationTitles({
+    limit: TITLE_BACKFILL_BATCH_SIZE,
+    idleBefore: new Date(context.now.getTime() - TITLE_BACKFILL_IDLE_MS),
+  });
+
+  // Retry later if every session failed (e.g. OpenAI is unavailable)
+  if (result.processed === 0 && result.errors.length > 0) {
+    throw new Error(`Title generation failed for ${result.errors.length} sessions: ${result.errors[0]}`);
+  }
+
+  return { ...result };
+};
+
+/**
+ * Embeds messages without an embedding for the current model in batches
+ * Covers messages saved before search existed and ones whose embedding failed.
+ */
+export const backfillMessageEmbeddingsJob: JobHandler = async () => {
+  const result = await backfillMessageEmbeddings(EMBEDDING_BACKFILL_BATCH_SIZE);
+
+  console.log(`🔎 Embedded ${result.processed} messages${result.hasMore ? ' (more waiting)' : ''}`);
+
+  return { ...result };
+};
+
+/**
+ * Deletes voice recordings past their retention period
+ * The transcripts stay; only the audio is removed.
+ */
+export const pruneVoiceAudioJob: JobHandler = async (_payload, context) => {
+  const { deleted, cutoff } = await pruneVoiceAudio(context.now);
+
+  console.log(`🧹 Deleted ${deleted} voice recordings before ${cutoff.toISOString()}`);
+
+  return { deleted, cutoff: cutoff.toISOString() };
+};
+
+/**
+ * Deletes revoked and expired login sessions and expired refresh tokens
+ * Revoked sessions are kept for a while so the reason stays visible for auditing.
+ */
+export const pruneAuthSessionsJob: JobHandler = async (_payload, context) => {
+  const retentionDays = getRetentionDays('AUTH_SESSION_RETENTION_DAYS', 30);
+  const cutoff = new Date(context.now.getTime() - retentionDays * MS_PER_DAY);
+
+  const { sessions, refreshTokens } = await pruneSessions(cutoff);
+
+  console.log(`🧹 Deleted ${sessions} sessions and ${refreshTokens} refresh tokens before ${cutoff.toISOString()}`);
+
+  return { sessions, refreshTokens, cutoff: cutoff.toISOString() };
+};
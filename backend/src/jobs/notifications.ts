@@ -0,0 +1,200 @@
+/**
+ * Notification Jobs
+ *
+ * - send-notification: Sends one push notification to a user. Notifications held back
+ *   by quiet hours are re-queued for the end of the quiet period.
+ * - milestone-reminders: Reminds parents who haven't logged a milestone in a week.
+ * - weekly-tips: Builds each parent's weekly tip digest and notifies them.
+ *
+ * The weekly jobs fan out one send-notification job per user, keyed by the fan-out job's ID,
+ * so a retried fan-out never notifies a user twice.
+ */
+
+import { PrismaClient, UserMode } from '@prisma/client';
+import { enqueueJob } from './queue';
+import { JobHandler } from './types';
+import { UserNotification, sendNotificationToUser } from '../services/notifications';
+import { getFamilyAccess } from '../services/family';
+import { resolveChildForRecord } from '../services/children';
+import { getWeeklyDigest } from '../services/tips';
+import { NotificationCategory, isCategoryEnabled, parseNotificationPreferences } from '../utils/notifications';
+import { WeeklyTip } from '../utils/tips';
+import { truncate } from '../utils/chatContext';
+
+// Initialize Prisma Client for database operations
+const prisma = new PrismaClient();
+
+export const SEND_NOTIFICATION_JOB = 'send-notification';
+
+// Milliseconds per day
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Push notification bodies are cut off by the OS beyond roughly this length
+const MAX_NOTIFICATION_BODY_LENGTH = 180;
+
+/**
+ * Queues a notification for a user
+ *
+ * @param userId - Recipient
+ * @param notification - Notification content and category
+ * @param idempotencyKey - Key that prevents sending the same notification twice
+ */
+async function queueNotification(userId: string, notification: UserNotification, idempotencyKey: string): Promise<void> {
+  await enqueueJob(
+    SEND_NOTIFICATION_JOB,
+    {
+      userId,
+      category: notification.category,
+      title: notification.title,
+      body: notification.body,
+      data: notification.data ?? {},
+    },
+    { idempotencyKey, maxAttempts: 3 },
+  );
+}
+
+/**
+ * Loads parents who can receive a notification of a category
+ * Only parents with a registered device, a baby birth date and the category enabled.
+ *
+ * @param category - Notification category
+ * @returns Matching profiles
+ */
+async function loadRecipients(
+  category: NotificationCategory,
+): Promise<{ userId: string; babyName: string | null; babyBirthDate: Date }[]> {
+  const profiles = await prisma.userProfile.findMany({
+    where: {
+      mode: UserMode.PARENTING,
+      babyBirthDate: { not: null },
+      user: { deviceTokens: { some: {} } },
+    },
+    select: { userId: true, babyName: true, babyBirthDate: true, notificationPreferences: true },
+  });
+
+  return profiles
+    .filter((profile) => isCategoryEnabled(parseNotificationPreferences(profile.notificationPreferences), category))
+    .map((profile) => ({ userId: profile.userId, babyName: profile.babyName, babyBirthDate: profile.babyBirthDate! }));
+}
+
+/**
+ * Sends one notification
+ *
+ * Payload: { userId, category, title, body, data, deferred? }
+ */
+export const sendNotificationJob: JobHandler = async (payload, context) => {
+  const notification: UserNotification = {
+    category: (payload.category as NotificationCategory | null) ?? null,
+    title: payload.title as string,
+    body: payload.body as string,
+    data: payload.data as Record<string, string> | undefined,
+  };
+
+  const result = await sendNotificationToUser(payload.userId as string, notification, { now: context.now });
+
+  // Transient provider errors on every device: retry later
+  if (result.status === 'failed') {
+    throw new Error(`Push delivery failed on all ${result.failed} devices`);
+  }
+
+  // Try once more when quiet hours are over
+  if (result.reason === 'quiet_hours' && result.deliverAfter && !payload.deferred) {
+    await enqueueJob(
+      SEND_NOTIFICATION_JOB,
+      { ...payload, deferred: true },
+      {
+        runAt: result.deliverAfter,
+        idempotencyKey: context.idempotencyKey ? `${context.idempotencyKey}:deferred` : undefined,
+        maxAttempts: 3,
+      },
+    );
+  }
+
+  return { ...result, deliverAfter: result.deliverAfter?.toISOString() };
+};
+
+/**
+ * Reminds parents to log milestones when their family logged none in the past week
+ */
+export const milestoneRemindersJob: JobHandler = async (_payload, context) => {
+  const since = new Date(context.now.getTime() - 7 * MS_PER_DAY);
+  const recipients = await loadRecipients('milestoneReminders');
+  let queued = 0;
+
+  for (const recipient of recipients) {
+    const access = await getFamilyAccess(recipient.userId);
+    const recentMilestones = await prisma.milestone.count({
+      where: {
+        userId: { in: access.memberIds },
+        createdAt: { gte: since },
+      },
+    });
+
+    if (recentMilestones > 0) {
+      continue;
+    }
+
+    await queueNotification(
+      recipient.userId,
+      {
+        category: 'milestoneReminders',
+        title: 'Any new milestones this week?',
+        body: `Don't forget to log ${recipient.babyName || 'your baby'}'s milestones this week!`,
+        data: { type: 'milestone_reminder', screen: 'milestones' },
+      },
+      `milestone-reminder:${context.jobId}:${recipient.userId}`,
+    );
+    queued++;
+  }
+
+  console.log(`🏆 Queued ${queued} milestone reminders (${recipients.length} recipients checked)`);
+
+  return { recipients: recipients.length, queued };
+};
+
+/**
+ * Sends each parent their weekly tip digest
+ * Digests are built (and tip sets generated per cohort) here, so GET /tips is instant afterwards.
+ */
+export const weeklyTipsJob: JobHandler = async (_payload, context) => {
+  const recipients = await loadRecipients('weeklyTipsGuidance');
+  let queued = 0;
+  let failed = 0;
+
+  for (const recipient of recipients) {
+    const childId = await resolveChildForRecord(recipient.userId);
+    const result = await getWeeklyDigest(recipient.userId, childId ?? null, context.now);
+
+    if (result.status === 'generation_failed') {
+      failed++;
+      continue;
+    }
+    if (result.status !== 'ok') {
+      continue;
+    }
+
+    const [firstTip] = result.digest.tipSet.tips as unknown as WeeklyTip[];
+    const name = recipient.babyName || 'your baby';
+
+    await queueNotification(
+      recipient.userId,
+      {
+        category: 'weeklyTipsGuidance',
+        title: `This week's tips for ${name}`,
+        body: truncate(`${firstTip.title}: ${firstTip.body}`, MAX_NOTIFICATION_BODY_LENGTH),
+        data: { type: 'weekly_tip', screen: 'tips', digestId: result.digest.id },
+      },
+      `weekly-tip:${context.jobId}:${recipient.userId}`,
+    );
+    queued++;
+  }
+
+  console.log(`💡 Queued ${queued} weekly tips (${recipients.length} recipients checked, ${failed} failed)`);
+
+  // Nothing could be generated (e.g. OpenAI is down): retry the whole run later
+  if (queued === 0 && failed > 0) {
+    throw new Error(`Tip generation failed for all ${failed} recipients`);
+  }
+
+  return { recipients: recipients.length, queued, failed };
+};
@@ -0,0 +1,274 @@
+/**
+ * Job Queue
+ *
+ * Postgres-backed queue for background jobs (see the Job and JobRun models).
+ *
+ * - Enqueuing with an idempotency key returns the existing job instead of adding a duplicate,
+ *   so cron ticks and fan-out jobs can safely run more than once.
+ * - Workers claim a due job with a conditional update on its updatedAt, so two workers
+ *   never run the same job. Jobs whose worker stopped responding are reclaimed after a timeout.
+ * - Results are only recorded while the worker still holds its claim, so a worker that
+ *   outlived the timeout can't overwrite the outcome of the worker that reclaimed the job.
+ * - Failed attempts are retried with exponential backoff until maxAttempts.
+ */
+
+import { PrismaClient, Prisma, Job, JobStatus, JobRunStatus } from '@prisma/client';
+import { getRetryDelayMs } from '../utils/jobs';
+
+// Initialize Prisma Client for database operations
+const prisma = new PrismaClient();
+
+// Attempts before a job is marked FAILED (unless set when enqueuing)
+export const DEFAULT_MAX_ATTEMPTS = 5;
+
+// A RUNNING job whose lock is older than this is assumed abandoned and claimed again
+// (override with JOB_LOCK_TIMEOUT_MS for jobs that legitimately run longer)
+const DEFAULT_LOCK_TIMEOUT_MS = 15 * 60 * 1000;
+
+/**
+ * Options for enqueuing a job
+ */
+export interface EnqueueOptions {
+  runAt?: Date; // Earliest time to run (default: now)
+  idempotencyKey?: string; // Skip enqueuing if a job with this key already exists
+  maxAttempts?: number;
+}
+
+/**
+ * Outcome of recording a failed attempt
+ */
+export type FailJobResult =
+  | { status: 'retrying'; retryAt: Date }
+  | { status: 'failed' }
+  | { status: 'lock_lost' };
+
+/**
+ * Matches a job only while the worker still holds the claim it was given
+ * The attempt count changes with every claim, so a reclaimed job never matches.
+ *
+ * @param job - Claimed job
+ * @param workerId - Worker that claimed the job
+ * @returns Where clause for updating the claimed job
+ */
+function heldBy(job: Job, workerId: string): Prisma.JobWhereInput {
+  return {
+    id: job.id,
+    status: JobStatus.RUNNING,
+    lockedBy: workerId,
+    lockedAt: job.lockedAt,
+    attempts: job.attempts,
+  };
+}
+
+/**
+ * Adds a job to the queue
+ *
+ * @param name - Handler name
+ * @param payload - Handler input
+ * @param options - Run time, idempotency key and retry limit
+ * @returns The new job, or the existing job with the same idempotency key
+ */
+export async function enqueueJob(
+  name: string,
+  payload: Prisma.InputJsonObject = {},
+  options: EnqueueOptions = {},
+): Promise<Job> {
+  const data = {
+    name,
+    payload,
+    runAt: options.runAt ?? new Date(),
+    maxAttempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    idempotencyKey: options.idempotencyKey,
+  };
+
+  if (!options.idempotencyKey) {
+    return prisma.job.create({ data });
+  }
+
+  try {
+    return await prisma.job.upsert({
+      where: { idempotencyKey: options.idempotencyKey },
+      update: {},
+      create: data,
+    });
+  } catch (error) {
+    // Another process created the job between the lookup and the insert
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return prisma.job.findUniqueOrThrow({ where: { idempotencyKey: options.idempotencyKey } });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Claims the next due job for a worker
+ *
+ * @param workerId - Worker claiming the job
+ * @param now - Current time
+ * @returns Claimed job (status RUNNING, attempts incremented), or null if none is due
+ */
+export async function claimNextJob(workerId: string, now: Date = new Date()): Promise<Job | null> {
+  const lockTimeoutMs = parseInt(process.env.JOB_LOCK_TIMEOUT_MS || '') || DEFAULT_LOCK_TIMEOUT_MS;
+  const staleBefore = new Date(now.getTime() - lockTimeoutMs);
+
+  // Retry a few times in case other workers claim the same candidates first
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const candidate = await prisma.job.findFirst({
+      where: {
+        OR: [
+          { status: JobStatus.PENDING, runAt: { lte: now } },
+          { status: JobStatus.RUNNING, lockedAt: { lt: staleBefore } },
+        ],
+      },
+      orderBy: { runAt: 'asc' },
+    });
+
+    if (!candidate) {
+      return null;
+    }
+
+    const claimed = await prisma.job.updateMany({
+      where: { id: candidate.id, status: candidate.status, updatedAt: candidate.updatedAt },
+      data: {
+        status: JobStatus.RUNNING,
+        lockedAt: now,
+        lockedBy: workerId,
+        attempts: { increment: 1 },
+      },
+    });
+
+    if (claimed.count === 1) {
+      if (candidate.status === JobStatus.RUNNING) {
+        console.warn(`⚠️ Reclaimed job ${candidate.id} (${candidate.name}) from unresponsive worker ${candidate.lockedBy}`);
+      }
+      return prisma.job.findUnique({ where: { id: candidate.id } });
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Records a successful attempt and completes the job
+ *
+ * @param job - Claimed job
+ * @param workerId - Worker that ran the job
+ * @param startedAt - When the attempt started
+ * @param result - Handler result to store in the run history
+ * @returns false if the worker lost its claim (the job was reclaimed) and nothing was recorded
+ */
+export async function completeJob(
+  job: Job,
+  workerId: string,
+  startedAt: Date,
+  result?: Prisma.InputJsonValue,
+): Promise<boolean> {
+  const finishedAt = new Date();
+
+  return prisma.$transaction(async (tx) => {
+    const { count } = await tx.job.updateMany({
+      where: heldBy(job, workerId),
+      data: {
+        status: JobStatus.COMPLETED,
+        completedAt: finishedAt,
+        lockedAt: null,
+        lockedBy: null,
+        lastError: null,
+      },
+    });
+
+    if (count === 0) {
+      return false;
+    }
+
+    await tx.jobRun.create({
+      data: {
+        jobId: job.id,
+        name: job.name,
+        attempt: job.attempts,
+        status: JobRunStatus.SUCCEEDED,
+        workerId,
+        startedAt,
+        finishedAt,
+        durationMs: finishedAt.getTime() - startedAt.getTime(),
+        result,
+      },
+    });
+
+    return true;
+  });
+}
+
+/**
+ * Records a failed attempt and schedules a retry, or fails the job for good
+ *
+ * @param job - Claimed job
+ * @param workerId - Worker that ran the job
+ * @param startedAt - When the attempt started
+ * @param error - Error thrown by the handler
+ * @returns When the job will be retried, whether it failed for good, or that the worker
+ *   lost its claim (the job was reclaimed) and nothing was recorded
+ */
+export async function failJob(
+  job: Job,
+  workerId: string,
+  startedAt: Date,
+  error: unknown,
+): Promise<FailJobResult> {
+  const finishedAt = new Date();
+  const message = error instanceof Error ? error.message : String(error);
+  const retryAt = job.attempts < job.maxAttempts
+    ? new Date(finishedAt.getTime() + getRetryDelayMs(job.attempts))
+    : null;
+
+  return prisma.$transaction(async (tx): Promise<FailJobResult> => {
+    const { count } = await tx.job.updateMany({
+      where: heldBy(job, workerId),
+      data: {
+        status: retryAt ? JobStatus.PENDING : JobStatus.FAILED,
+        runAt: retryAt ?? undefined,
+        completedAt: retryAt ? null : finishedAt,
+        lockedAt: null,
+        lockedBy: null,
+        lastError: message,
+      },
+    });
+
+    if (count === 0) {
+      return { status: 'lock_lost' };
+    }
+
+    await tx.jobRun.create({
+      data: {
+        jobId: job.id,
+        name: job.name,
+        attempt: job.attempts,
+        status: JobRunStatus.FAILED,
+        workerId,
+        startedAt,
+        finishedAt,
+        durationMs: finishedAt.getTime() - startedAt.getTime(),
+        error: message,
+      },
+    });
+
+    return retryAt ? { status: 'retrying', retryAt } : { status: 'failed' };
+  });
+}
+
+/**
+ * Deletes finished jobs (and their run history) older than a cutoff
+ *
+ * @param before - Jobs completed or failed before this time are deleted
+ * @returns Number of deleted jobs
+ */
+export async function pruneFinishedJobs(before: Date): Promise<number> {
+  const { count } = await prisma.job.deleteMany({
+    where: {
+      status: { in: [JobStatus.COMPLETED, JobStatus.FAILED] },
+      completedAt: { lt: before },
+    },
+  });
+
+  return count;
+}
@@ -0,0 +1,186 @@
+/**
+ * Job Runner
+ *
+ * Polls the job queue and runs due jobs one at a time, and keeps the next occurrence
+ * of every scheduled job enqueued.
+ *
+ * Scheduled occurrences are enqueued ahead of time with the idempotency key
+ * "cron:<name>:<time>", so any number of API processes and workers can run the
+ * scheduler without creating duplicates, and an occurrence that falls due while
+ * everything is down still runs on the next start.
+ *
+ * The runner starts inside the API server (JOB_RUNNER=inline, default) or in the
+ * separate worker entry point (src/worker.ts, with JOB_RUNNER=worker on the API servers).
+ */
+
+import os from 'os';
+import { Prisma } from '@prisma/client';
+import { claimNextJob, completeJob, enqueueJob, failJob } from './queue';
+import { JOB_DEFINITIONS, getJobDefinition } from './definitions';
+import { getNextCronTime } from '../utils/jobs';
+
+// How often to enqueue the next occurrence of scheduled jobs
+const SCHEDULE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * State of the running job runner
+ */
+interface RunnerState {
+  workerId: string;
+  stopping: boolean;
+  pollTimer: NodeJS.Timeout | null;
+  scheduleTimer: NodeJS.Timeout | null;
+  currentPoll: Promise<void> | null;
+}
+
+// Active runner (null when stopped)
+let runner: RunnerState | null = null;
+
+/**
+ * Enqueues the next occurrence of every scheduled job
+ *
+ * @param now - Current time
+ */
+export async function scheduleRecurringJobs(now: Date = new Date()): Promise<void> {
+  for (const definition of JOB_DEFINITIONS) {
+    if (!definition.schedule) {
+      continue;
+    }
+
+    const runAt = getNextCronTime(definition.schedule, now);
+    await enqueueJob(definition.name, {}, {
+      runAt,
+      idempotencyKey: `cron:${definition.name}:${runAt.toISOString()}`,
+      maxAttempts: definition.maxAttempts,
+    });
+  }
+}
+
+/**
+ * Claims and runs the next due job
+ *
+ * @param workerId - Worker running the job
+ * @returns true if a job was run, false if none was due
+ */
+export async function runNextJob(workerId: string): Promise<boolean> {
+  const job = await claimNextJob(workerId);
+  if (!job) {
+    return false;
+  }
+
+  const startedAt = new Date();
+  const definition = getJobDefinition(job.name);
+
+  try {
+    if (!definition) {
+      throw new Error(`No handler registered for job "${job.name}"`);
+    }
+
+    // Reclaimed from a worker that stopped responding on its last attempt
+    if (job.attempts > job.maxAttempts) {
+      throw new Error('Worker stopped responding while running the job');
+    }
+
+    const result = await definition.handler(job.payload as Prisma.JsonObject, {
+      jobId: job.id,
+      attempt: job.attempts,
+      idempotencyKey: job.idempotencyKey,
+      now: startedAt,
+    });
+
+    if (await completeJob(job, workerId, startedAt, result ?? undefined)) {
+      console.log(`✅ Job ${job.name} (${job.id}) completed in ${Date.now() - startedAt.getTime()}ms`);
+    } else {
+      console.warn(`⚠️ Job ${job.name} (${job.id}) finished after another worker reclaimed it, result not recorded`);
+    }
+  } catch (error) {
+    const outcome = await failJob(job, workerId, startedAt, error);
+    if (outcome.status === 'lock_lost') {
+      console.warn(`⚠️ Job ${job.name} (${job.id}) failed after another worker reclaimed it, failure not recorded:`, error);
+    } else {
+      console.error(
+        `Job ${job.name} (${job.id}) attempt ${job.attempts} failed` +
+          (outcome.status === 'retrying' ? `, retrying at ${outcome.retryAt.toISOString()}:` : ', giving up:'),
+        error,
+      );
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Runs due jobs until the queue is empty, then schedules the next poll
+ *
+ * @param state - Runner state
+ * @param pollIntervalMs - Delay between polls when the queue is empty
+ */
+async function poll(state: RunnerState, pollIntervalMs: number): Promise<void> {
+  try {
+    while (!state.stopping && (await runNextJob(state.workerId))) {
+      // Keep going while jobs are due
+    }
+  } catch (error) {
+    console.error('Error polling job queue:', error);
+  }
+
+  if (!state.stopping) {
+    state.pollTimer = setTimeout(() => {
+      state.currentPoll = poll(state, pollIntervalMs);
+    }, pollIntervalMs);
+  }
+}
+
+/**
+ * Starts polling the job queue and scheduling recurring jobs
+ * Does nothing if the runner is already started.
+ *
+ * @param options - Worker ID (default: hostname and process ID)
+ */
+export function startJobRunner(options: { workerId?: string } = {}): void {
+  if (runner) {
+    return;
+  }
+
+  const pollIntervalMs = parseInt(process.env.JOB_POLL_INTERVAL_MS || '') || 5000;
+  const state: RunnerState = {
+    workerId: options.workerId ?? `${os.hostname()}:${process.pid}`,
+    stopping: false,
+    pollTimer: null,
+    scheduleTimer: null,
+    currentPoll: null,
+  };
+  runner = state;
+
+  const schedule = (): void => {
+    scheduleRecurringJobs().catch((error) => {
+      console.error('Error scheduling recurring jobs:', error);
+    });
+  };
+
+  schedule();
+  state.scheduleTimer = setInterval(schedule, SCHEDULE_INTERVAL_MS);
+  state.currentPoll = poll(state, pollIntervalMs);
+
+  console.log(`⏱️ Job runner started (worker ${state.workerId})`);
+}
+
+/**
+ * Stops the job runner after the current job finishes
+ */
+export async function stopJobRunner(): Promise<void> {
+  if (!runner) {
+    return;
+  }
+
+  const state = runner;
+  runner = null;
+  state.stopping = true;
+
+  if (state.pollTimer) clearTimeout(state.pollTimer);
+  if (state.scheduleTimer) clearInterval(state.scheduleTimer);
+
+  await state.currentPoll;
+
+  console.log(`⏹️ Job runner stopped (worker ${state.workerId})`);
+}
@@ -0,0 +1,37 @@
+/**
+ * Job Types
+ *
+ * Shared types for background job definitions and handlers.
+ */
+
+import { Prisma } from '@prisma/client';
+
+/**
+ * Information about the job attempt passed to a handler
+ */
+export interface JobContext {
+  jobId: string;
+  attempt: number; // 1 for the first attempt
+  idempotencyKey: string | null;
+  now: Date; // Time the attempt started
+}
+
+/**
+ * Runs a job
+ * Throw to fail the attempt (it is retried with backoff); the return value is
+ * stored in the run history.
+ */
+export type JobHandler = (
+  payload: Prisma.JsonObject,
+  context: JobContext,
+) => Promise<Prisma.InputJsonValue | void>;
+
+/**
+ * A kind of background job
+ */
+export interface JobDefinition {
+  name: string; // Unique handler name stored on Job.name
+  handler: JobHandler;
+  schedule?: string; // Cron expression (UTC) for recurring jobs
+  maxAttempts?: number; // Retry limit for scheduled runs (default: DEFAULT_MAX_ATTEMPTS)
+}
@@ -7,7 +7,12 @@
  */
 
 import { Request, Response, NextFunction } from 'express';
+import { PrismaClient } from '@prisma/client';
 import { verifyAccessToken, AccessTokenPayload } from '../utils/jwt';
+import { isSessionActive } from '../services/authSessions';
+
+// Initialize Prisma Client for database operations
+const prisma = new PrismaClient();
 
 /**
  * Extended Express Request interface with user data
@@ -34,7 +39,7 @@ export interface AuthenticatedRequest extends Request {
  * @param req - Express request object
  * @param res - Express response object
  * @param next - Express next function to pass control to next middleware
- * @returns 401 if no token provided, 403 if token invalid/expired
+ * @returns 401 if no token provided or its session was revoked, 403 if token invalid/expired
  */
 export const authenticateToken = (
   req: AuthenticatedRequest,
@@ -60,17 +65,11 @@ export const authenticateToken = (
     return;
   }
 
+  let decoded: AccessTokenPayload;
   try {
     // Verify token signature and expiration
     // verifyAccessToken() throws error if token is invalid or expired
-    const decoded = verifyAccessToken(token);
-
-    // Attach decoded user data to request object
-    // This makes user ID and email available to route handlers
-    req.user = decoded;
-
-    // Continue to next middleware or route handler
-    next();
+    decoded = verifyAccessToken(token);
   } catch (error) {
     // Token verification failed (invalid signature or expired)
     // Return 403 Forbidden to indicate invalid/expired token
@@ -78,7 +77,40 @@ export const authenticateToken = (
       error: 'Invalid or expired token',
       message: 'Please log in again to get a new token.',
     });
+    return;
   }
+
+  // Tokens of a revoked session (signed out device, password change) stop working right away
+  // Every token is issued for a session, so tokens without one are rejected too
+  const sessionCheck = decoded.sessionId
+    ? isSessionActive(decoded.userId, decoded.sessionId)
+    : Promise.resolve(false);
+
+  sessionCheck
+    .then((active) => {
+      // Return 401 so the client tries to refresh, which fails and signs it out
+      if (!active) {
+        res.status(401).json({
+          error: 'Session revoked',
+          message: 'This device was signed out. Please log in again.',
+        });
+        return;
+      }
+
+      // Attach decoded user data to request object
+      // This makes user ID and email available to route handlers
+      req.user = decoded;
+
+      // Continue to next middleware or route handler
+      next();
+    })
+    .catch((error) => {
+      console.error('Error checking session:', error);
+      res.status(500).json({
+        error: 'Failed to check session',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
+    });
 };
 
 /**
@@ -118,3 +150,54 @@ export const optionalAuth = (
     next();
   }
 };
+
+/**
+ * Verified email middleware for sensitive routes
+ *
+ * Must be used after authenticateToken. Rejects users whose email address is not
+ * verified yet (e.g. changing email, starting a subscription). The status is read
+ * from the database, not the access token: a token issued before an email change
+ * still says the old address was verified.
+ *
+ * Usage:
+ * ```typescript
+ * router.put('/email', authenticateToken, requireVerifiedEmail, handler);
+ * ```
+ *
+ * @param req - Express request object (with user set by authenticateToken)
+ * @param res - Express response object
+ * @param next - Express next function to pass control to next middleware
+ * @returns 403 if the email address is not verified, 500 if the lookup fails
+ */
+export const requireVerifiedEmail = (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const lookup = req.user
+    ? prisma.user.findUnique({
+        where: { id: req.user.userId },
+        select: { emailVerified: true },
+      })
+    : Promise.resolve(null);
+
+  lookup
+    .then((user) => {
+      if (!user?.emailVerified) {
+        res.status(403).json({
+          error: 'Email not verified',
+          message: 'Please verify your email address to use this feature.',
+        });
+        return;
+      }
+
+      next();
+    })
+    .catch((error) => {
+      console.error('Error checking email verification:', error);
+      res.status(500).json({
+        error: 'Failed to check email verification',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
+    });
+};
@@ -0,0 +1,37 @@
+/**
+ * Error Localization Middleware
+ *
+ * Translates the messages of error responses (status 400 and above) into the
+ * language the client asks for with the Accept-Language header, using the error
+ * catalog (utils/errorCatalog.ts). Successful responses are not changed.
+ */
+
+import { NextFunction, Request, Response } from 'express';
+import { localizeErrorBody } from '../utils/errorCatalog';
+import { DEFAULT_LANGUAGE, parseAcceptLanguage } from '../utils/language';
+
+/**
+ * Wraps res.json so error bodies are localized
+ *
+ * @param req - Express request (Accept-Language header)
+ * @param res - Express response
+ * @param next - Express next function
+ */
+export function localizeErrors(req: Request, res: Response, next: NextFunction): void {
+  const language = parseAcceptLanguage(req.headers['accept-language']);
+
+  if (language && language !== DEFAULT_LANGUAGE) {
+    const json = res.json.bind(res);
+
+    res.json = (body: unknown): Response => {
+      if (res.statusCode < 400) {
+        return json(body);
+      }
+
+      res.setHeader('Content-Language', language);
+      return json(localizeErrorBody(body, language));
+    };
+  }
+
+  next();
+}
@@ -7,6 +7,7 @@
  * Rate limits:
  * - Login: 5 attempts per 15 minutes per IP
  * - Register: 3 attempts per hour per IP
+ * - Verification email resend: 3 per hour per IP
  */
 
 import rateLimit from 'express-rate-limit';
@@ -121,3 +122,31 @@ export const authRateLimiter = rateLimit({
   standardHeaders: true,
   legacyHeaders: false,
 });
+
+/**
+ * Rate limiter for resending the verification email
+ *
+ * Each request sends an email, so this is as strict as registration
+ * to prevent the endpoint from being used to spam inboxes.
+ */
+export const verificationEmailRateLimiter = rateLimit({
+  // Time window: 1 hour
+  windowMs: 60 * 60 * 1000,
+
+  // Maximum requests per window: 3 emails
+  max: 3,
+
+  // Message returned when limit is exceeded
+  message: {
+    error: 'Too many verification emails',
+    message: 'Please wait 1 hour before requesting another verification email.',
+    retryAfter: '1 hour',
+  },
+
+  // Return 429 Too Many Requests status code
+  statusCode: 429,
+
+  // Standard headers
+  standardHeaders: true,
+  legacyHeaders: false,
+});
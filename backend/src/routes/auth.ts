@@ -4,9 +4,13 @@
  * Defines all authentication-related API endpoints:
  * - POST /auth/register - Create new user account
  * - POST /auth/login - Log in existing user
- * - POST /auth/refresh - Refresh access token
- * - POST /auth/verify-email - Verify email (stub)
- * - POST /auth/reset-password - Reset password (stub)
+ * - POST /auth/refresh - Refresh access token (rotates the refresh token)
+ * - GET /auth/sessions - List signed-in devices
+ * - DELETE /auth/sessions/:id - Sign out a device
+ * - POST /auth/verify-email - Verify email with token
+ * - POST /auth/resend-verification - Resend verification email
+ * - POST /auth/reset-password - Request password reset email
+ * - POST /auth/reset-password/confirm - Set new password with reset token
  */
 
 import { Router } from 'express';
@@ -16,13 +20,19 @@ import {
   login,
   refreshAccessToken,
   verifyEmail,
-  resetPassword,
+  resendVerificationEmail,
+  requestPasswordReset,
+  confirmPasswordReset,
+  getSessions,
+  deleteSession,
 } from '../controllers/authController';
 import {
   loginRateLimiter,
   registerRateLimiter,
   authRateLimiter,
+  verificationEmailRateLimiter,
 } from '../middleware/rateLimiter';
+import { authenticateToken } from '../middleware/auth';
 
 // Create Express router for auth routes
 const router = Router();
@@ -105,12 +115,14 @@ router.post(
  *
  * Refresh access token using refresh token.
  * Allows users to stay logged in without re-entering credentials.
+ * Each refresh token works once: the response carries a replacement that the
+ * client must store. Reusing an old refresh token signs out the whole session.
  *
  * Request body:
  * - refreshToken: string (JWT refresh token)
  *
  * Response:
- * - 200: New access token issued
+ * - 200: New access token and refresh token issued
  * - 400: Validation error
  * - 401: Invalid or expired refresh token
  * - 500: Server error
@@ -126,17 +138,60 @@ router.post(
   refreshAccessToken,
 );
 
+/**
+ * GET /auth/sessions
+ *
+ * List the authenticated user's active sessions (one per signed-in device).
+ *
+ * Headers:
+ * - Authorization: Bearer <JWT_TOKEN>
+ *
+ * Response:
+ * - 200: { sessions: [{ id, deviceName, userAgent, ipAddress, createdAt, lastUsedAt, expiresAt, current }] }
+ * - 401/403: Missing or invalid token
+ * - 500: Server error
+ */
+router.get('/sessions', authenticateToken, getSessions);
+
+/**
+ * DELETE /auth/sessions/:id
+ *
+ * Sign out one device by revoking its session.
+ * The device's refresh token stops working immediately.
+ *
+ * Headers:
+ * - Authorization: Bearer <JWT_TOKEN>
+ *
+ * Response:
+ * - 200: Session revoked
+ * - 401/403: Missing or invalid token
+ * - 404: Session not found or already revoked
+ * - 429: Too many requests
+ * - 500: Server error
+ */
+router.delete(
+  '/sessions/:id',
+  // Require authentication
+  authenticateToken,
+  // Apply general auth rate limiter: 10 attempts per 15 minutes
+  authRateLimiter,
+  deleteSession,
+);
+
 /**
  * POST /auth/verify-email
  *
- * Verify user email address (stub for MVP).
- * Future: Will validate email verification token sent via email.
+ * Verify user email address with the token sent by email.
+ * Tokens are single-use and expire after 24 hours.
  *
  * Request body:
  * - token: string (email verification token)
  *
  * Response:
- * - 200: Stub response (not yet implemented)
+ * - 200: Email verified, new access token returned
+ * - 400: Validation error or invalid/expired token
+ * - 429: Too many requests
+ * - 500: Server error
  */
 router.post(
   '/verify-email',
@@ -149,17 +204,44 @@ router.post(
   verifyEmail,
 );
 
+/**
+ * POST /auth/resend-verification
+ *
+ * Send a new verification email to the authenticated user.
+ *
+ * Headers:
+ * - Authorization: Bearer <JWT_TOKEN>
+ *
+ * Response:
+ * - 200: Verification email sent
+ * - 400: Email already verified
+ * - 401/403: Missing or invalid token
+ * - 429: Too many requests
+ * - 500: Server error
+ */
+router.post(
+  '/resend-verification',
+  // Require authentication
+  authenticateToken,
+  // Apply verification email limiter: 3 emails per hour
+  verificationEmailRateLimiter,
+  resendVerificationEmail,
+);
+
 /**
  * POST /auth/reset-password
  *
- * Request password reset (stub for MVP).
- * Future: Will send password reset email with token.
+ * Request a password reset email.
+ * Always responds with the same message so registered emails can't be discovered.
  *
  * Request body:
  * - email: string
  *
  * Response:
- * - 200: Stub response (not yet implemented)
+ * - 200: Reset email sent if the account exists
+ * - 400: Validation error
+ * - 429: Too many requests
+ * - 500: Server error
  */
 router.post(
   '/reset-password',
@@ -172,7 +254,42 @@ router.post(
       .withMessage('Please provide a valid email address')
       .normalizeEmail(),
   ],
-  resetPassword,
+  requestPasswordReset,
+);
+
+/**
+ * POST /auth/reset-password/confirm
+ *
+ * Set a new password using the token from the reset email.
+ * Tokens are single-use and expire after 1 hour.
+ * All existing refresh tokens are revoked on success.
+ *
+ * Request body:
+ * - token: string (reset token from email)
+ * - newPassword: string (min 8 chars, at least 1 number)
+ *
+ * Response:
+ * - 200: Password reset
+ * - 400: Validation error or invalid/expired token
+ * - 429: Too many requests
+ * - 500: Server error
+ */
+router.post(
+  '/reset-password/confirm',
+  // Apply general auth rate limiter: 10 attempts per 15 minutes
+  authRateLimiter,
+  [
+    // Validate token is provided
+    body('token').notEmpty().withMessage('Reset token is required'),
+
+    // Same password rules as registration
+    body('newPassword')
+      .isLength({ min: 8 })
+      .withMessage('Password must be at least 8 characters long')
+      .matches(/\d/)
+      .withMessage('Password must contain at least one number'),
+  ],
+  confirmPasswordReset,
 );
 
 // Export router to be mounted in main app
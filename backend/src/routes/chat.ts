@@ -2,7 +2,7 @@
  * Chat Routes
  *
  * Endpoints for chat messaging with AI assistant.
- * Includes message sending, history retrieval, and session management.
+ * Includes message sending (plain or streamed over SSE), history retrieval, and session management.
  */
 
 import express, { Request, Response } from 'express';
@@ -12,14 +12,26 @@ import fs from 'fs/promises';
 import { authenticateToken } from '../middleware/auth';
 import {
   generateChatResponse,
+  streamChatResponse,
   transcribeAudio,
   ChatMessage,
+  UserProfile,
   analyzePhoto,
-  generateConversationTitle,
-  generateConversationSummary,
-  searchConversations
 } from '../services/openai';
 import { checkUsageLimit, incrementUsage } from '../utils/usageLimit';
+import { findAccessibleChild } from '../services/children';
+import { buildRecentContext } from '../services/chatContext';
+import { backfillConversationTitles, updateConversationMetadata } from '../services/conversationTitles';
+import { indexMessages, searchConversations } from '../services/messageEmbeddings';
+import { getRelevantMemories, rememberFromExchange } from '../services/memories';
+import { buildConversationContext } from '../services/conversationSummary';
+import { saveTriageReply, triageUserMessage } from '../services/triage';
+import { deleteVoiceAudio } from '../services/voiceAudio';
+import { getPresignedUrls } from '../utils/s3';
+import { TriageResult, buildTriageSubject } from '../utils/triage';
+import { describePregnancyProgress, getPregnancyProgress } from '../utils/pregnancy';
+import { parseLanguage } from '../utils/language';
+import { openSseStream, writeSseEvent } from '../utils/sse';
 
 const router = express.Router();
 const prisma = new PrismaClient();
@@ -57,315 +69,428 @@ const upload = multer({
 });
 
 /**
- * POST /chat/message
- *
- * Send a message and receive AI response.
- * Checks daily usage limits, saves messages, and generates AI response.
+ * A chat turn that passed validation and usage checks.
+ * Holds everything needed to call the model and persist the result.
+ */
+interface PreparedChatTurn {
+  userId: string;
+  sessionId: string;
+  content: string | undefined;
+  photoUrls: string[];
+  photoAnalysisText: string;
+  conversationHistory: ChatMessage[];
+  userProfile: UserProfile;
+  memoryEnabled: boolean; // Remember facts from this turn (memoryEnabled profile preference)
+  triage: TriageResult | null; // Medical red flag matched by the message
+}
+
+/**
+ * Error produced while preparing a chat turn.
+ * Carries the HTTP status and JSON body to return to the client.
+ */
+interface ChatTurnError {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+/**
+ * Validates a chat message request and builds the model context.
  *
- * Request body:
- * - content: string (message text, max 2000 chars)
- * - sessionId: string (conversation session ID)
+ * Checks the request body and daily usage limit, analyzes attached photos,
+ * loads the session history within the token budget (older turns as a running summary)
+ * and builds the profile for the system prompt,
+ * including recent activity logs unless the parent turned that off.
+ * If a childId is given, the prompt uses that child's name and age instead of the profile's baby.
+ * Shared by POST /chat/message and POST /chat/message/stream.
  *
- * Returns: AI response message
+ * @param req - Express request with authenticated user and message body
+ * @returns Prepared turn, or an error describing the response to send
  */
-router.post('/message', authenticateToken, async (req: Request, res: Response) => {
-  try {
-    // Extract userId from JWT token (set by authenticateToken middleware)
-    const userId = (req as any).user?.userId;
-    if (!userId) {
-      return res.status(401).json({ error: 'Unauthorized - user ID not found' });
-    }
+async function prepareChatTurn(
+  req: Request
+): Promise<{ turn: PreparedChatTurn } | { error: ChatTurnError }> {
+  // Extract userId from JWT token (set by authenticateToken middleware)
+  const userId = (req as any).user?.userId;
+  if (!userId) {
+    return { error: { status: 401, body: { error: 'Unauthorized - user ID not found' } } };
+  }
 
-    // Extract and validate request body
-    const { content, sessionId, photoUrls } = req.body;
+  // Extract and validate request body
+  const { content, sessionId, photoUrls, childId } = req.body;
 
-    // Allow empty content if photos are provided
-    if ((!content || typeof content !== 'string') && (!photoUrls || photoUrls.length === 0)) {
-      return res.status(400).json({ error: 'Message content or photos are required' });
-    }
+  // Allow empty content if photos are provided
+  if ((!content || typeof content !== 'string') && (!photoUrls || photoUrls.length === 0)) {
+    return { error: { status: 400, body: { error: 'Message content or photos are required' } } };
+  }
 
-    // Validate content length if provided
-    if (content && content.trim().length === 0 && (!photoUrls || photoUrls.length === 0)) {
-      return res.status(400).json({ error: 'Message content cannot be empty without photos' });
-    }
+  // Validate content length if provided
+  if (content && content.trim().length === 0 && (!photoUrls || photoUrls.length === 0)) {
+    return { error: { status: 400, body: { error: 'Message content cannot be empty without photos' } } };
+  }
 
-    // Validate content length if provided
-    if (content && content.length > 2000) {
-      return res.status(400).json({ error: 'Message content exceeds maximum length of 2000 characters' });
-    }
+  // Validate content length if provided
+  if (content && content.length > 2000) {
+    return { error: { status: 400, body: { error: 'Message content exceeds maximum length of 2000 characters' } } };
+  }
 
-    if (!sessionId || typeof sessionId !== 'string') {
-      return res.status(400).json({ error: 'Session ID is required' });
-    }
+  if (!sessionId || typeof sessionId !== 'string') {
+    return { error: { status: 400, body: { error: 'Session ID is required' } } };
+  }
 
-    // Check usage limit before processing message
-    const usageCheck = await checkUsageLimit(userId, 'message');
-    if (!usageCheck.allowed) {
-      return res.status(429).json({
-        error: 'limit_reached',
-        resetTime: usageCheck.resetTime,
-        remaining: usageCheck.remaining || 0,
-        message: `You've reached your daily message limit. ${usageCheck.unlimited ? '' : `Resets at ${usageCheck.resetTime}. `}Upgrade to Premium for unlimited messaging!`,
-      });
-    }
+  if (childId !== undefined && typeof childId !== 'string') {
+    return { error: { status: 400, body: { error: 'childId must be a string' } } };
+  }
 
-    // Fetch user data including profile for AI context
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      include: { profile: true },
-    });
+  // Check usage limit before processing message
+  const usageCheck = await checkUsageLimit(userId, 'message');
+  if (!usageCheck.allowed) {
+    return {
+      error: {
+        status: 429,
+        body: {
+          error: 'limit_reached',
+          resetTime: usageCheck.resetTime,
+          remaining: usageCheck.remaining || 0,
+          message: `You've reached your daily message limit. ${usageCheck.unlimited ? '' : `Resets at ${usageCheck.resetTime}. `}Upgrade to Premium for unlimited messaging!`,
+        },
+      },
+    };
+  }
 
-    if (!user) {
-      return res.status(404).json({ error: 'User not found' });
-    }
+  // Fetch user data including profile for AI context
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    include: { profile: true },
+  });
 
-    // Analyze photos with AI Vision if photoUrls provided
-    let photoAnalysisText = '';
-    if (photoUrls && Array.isArray(photoUrls) && photoUrls.length > 0) {
-      console.log(`📸 Analyzing ${photoUrls.length} photo(s) with AI Vision...`);
-
-      // Calculate baby age for context
-      let babyAge = '';
-      if (user.profile?.babyBirthDate) {
-        const today = new Date();
-        const ageInDays = Math.floor((today.getTime() - user.profile.babyBirthDate.getTime()) / (1000 * 60 * 60 * 24));
-        const ageInMonths = Math.floor(ageInDays / 30);
-        const ageInWeeks = Math.floor(ageInDays / 7);
-
-        if (ageInMonths < 3) {
-          babyAge = `${ageInWeeks} weeks old`;
-        } else {
-          babyAge = `${ageInMonths} months old`;
-        }
-      } else if (user.profile?.dueDate) {
-        const today = new Date();
-        const weeksPregnant = Math.floor((user.profile.dueDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24 * 7));
-        const weeksElapsed = 40 - weeksPregnant;
-        babyAge = `${weeksElapsed} weeks pregnant`;
-      }
+  if (!user) {
+    return { error: { status: 404, body: { error: 'User not found' } } };
+  }
 
-      // Analyze each photo
-      const analysisResults: string[] = [];
-      for (const photoUrl of photoUrls) {
-        try {
-          const { analysis } = await analyzePhoto(photoUrl, {
-            babyAge: babyAge,
-            concerns: content || 'General photo analysis',
-          });
-          analysisResults.push(analysis);
-        } catch (error) {
-          console.error('Error analyzing photo:', error);
-          analysisResults.push('Unable to analyze this photo.');
-        }
+  // Child the conversation is about (defaults to the profile's baby)
+  const child = childId ? await findAccessibleChild(userId, childId) : null;
+  if (childId && !child) {
+    return { error: { status: 404, body: { error: 'Child not found' } } };
+  }
+
+  const babyName = child ? child.name : user.profile?.babyName;
+  const babyBirthDate = child ? child.birthDate : user.profile?.babyBirthDate;
+  const dueDate = child ? child.dueDate : user.profile?.dueDate;
+
+  // Analyze photos with AI Vision if photoUrls provided
+  let photoAnalysisText = '';
+  if (photoUrls && Array.isArray(photoUrls) && photoUrls.length > 0) {
+    console.log(`📸 Analyzing ${photoUrls.length} photo(s) with AI Vision...`);
+
+    // Calculate baby age for context
+    let babyAge = '';
+    if (babyBirthDate) {
+      const today = new Date();
+      const ageInDays = Math.floor((today.getTime() - babyBirthDate.getTime()) / (1000 * 60 * 60 * 24));
+      const ageInMonths = Math.floor(ageInDays / 30);
+      const ageInWeeks = Math.floor(ageInDays / 7);
+
+      if (ageInMonths < 3) {
+        babyAge = `${ageInWeeks} weeks old`;
+      } else {
+        babyAge = `${ageInMonths} months old`;
       }
+    } else if (dueDate) {
+      babyAge = describePregnancyProgress(getPregnancyProgress(dueDate));
+    }
 
-      // Combine analysis results
-      photoAnalysisText = analysisResults.join('\n\n');
-      console.log(`✅ Photo analysis complete`);
+    // Analyze each photo
+    const analysisResults: string[] = [];
+    for (const photoUrl of photoUrls) {
+      try {
+        const { analysis } = await analyzePhoto(photoUrl, {
+          babyAge: babyAge,
+          concerns: content || 'General photo analysis',
+        });
+        analysisResults.push(analysis);
+      } catch (error) {
+        console.error('Error analyzing photo:', error);
+        analysisResults.push('Unable to analyze this photo.');
+      }
     }
 
-    // Fetch last 10 messages from this session for context
-    const recentMessages = await prisma.message.findMany({
-      where: {
-        userId: userId,
-        sessionId: sessionId,
-      },
-      orderBy: {
-        timestamp: 'desc',
-      },
-      take: 10,
-    });
+    // Combine analysis results
+    photoAnalysisText = analysisResults.join('\n\n');
+    console.log(`✅ Photo analysis complete`);
+  }
 
-    // Reverse to get chronological order (oldest first)
-    recentMessages.reverse();
+  // Recent messages of this session within the token budget, plus a summary of older turns
+  const { history: conversationHistory, summary: conversationSummary } = await buildConversationContext(userId, sessionId);
 
-    // Convert to ChatMessage format for OpenAI
-    const conversationHistory: ChatMessage[] = recentMessages.map((msg) => ({
-      role: msg.role === 'USER' ? 'user' : 'assistant',
-      content: msg.content,
-    }));
+  // Build message content with photo analysis if available
+  let messageContent = content || '';
+  if (photoAnalysisText) {
+    // Prepend photo analysis to user's message
+    messageContent = `[PHOTO ANALYSIS]\n${photoAnalysisText}\n\n${content ? `[USER'S QUESTION]\n${content}` : 'Please provide guidance based on this photo analysis.'}`;
+  }
 
-    // Build message content with photo analysis if available
-    let messageContent = content || '';
-    if (photoAnalysisText) {
-      // Prepend photo analysis to user's message
-      messageContent = `[PHOTO ANALYSIS]\n${photoAnalysisText}\n\n${content ? `[USER'S QUESTION]\n${content}` : 'Please provide guidance based on this photo analysis.'}`;
-    }
+  // Add current user message to history
+  conversationHistory.push({
+    role: 'user',
+    content: messageContent,
+  });
+
+  // Build user profile for system prompt
+  // A selected child decides the mode: born children get parenting guidance, expected ones pregnancy guidance
+  let mode = user.profile?.mode;
+  if (child?.birthDate) {
+    mode = 'PARENTING';
+  } else if (child?.dueDate) {
+    mode = 'PREGNANCY';
+  }
 
-    // Add current user message to history
-    conversationHistory.push({
-      role: 'user',
-      content: messageContent,
+  // Check the message for medical red flags before the model sees it
+  const language = parseLanguage(user.profile?.preferredLanguage);
+  const triage = content
+    ? triageUserMessage(userId, content, buildTriageSubject({ mode, babyBirthDate }), language)
+    : null;
+
+  const userProfile: UserProfile = {
+    mode,
+    babyName,
+    babyBirthDate,
+    dueDate,
+    parentingPhilosophy: user.profile?.parentingPhilosophy as string | undefined,
+    religiousViews: user.profile?.religiousViews as string | undefined,
+    culturalBackground: user.profile?.culturalBackground,
+    concerns: user.profile?.concerns,
+    // Recent logs, milestones and photos, unless the parent turned this off
+    recentContext: user.profile?.activityContextEnabled === false
+      ? undefined
+      : await buildRecentContext(userId, child?.id),
+    // Facts from earlier conversations, unless the parent turned memory off
+    memories: user.profile?.memoryEnabled === false
+      ? undefined
+      : await getRelevantMemories(userId, content || ''),
+    conversationSummary: conversationSummary ?? undefined,
+    triage: triage ?? undefined,
+    language,
+  };
+
+  return {
+    turn: {
+      userId,
+      sessionId,
+      content,
+      photoUrls: photoUrls && Array.isArray(photoUrls) ? photoUrls : [],
+      photoAnalysisText,
+      conversationHistory,
+      userProfile,
+      memoryEnabled: user.profile?.memoryEnabled !== false,
+      triage,
+    },
+  };
+}
+
+/**
+ * Saves the user message and assistant reply of a completed turn and counts usage.
+ * A message that matched a medical red flag is flagged, and the urgent-care reply
+ * is saved between it and the assistant reply.
+ *
+ * @param turn - Prepared chat turn
+ * @param aiResponse - Assistant reply text
+ * @param tokensUsed - Tokens consumed by the completion
+ * @returns The saved user message, urgent-care reply (if any) and assistant message
+ */
+async function saveChatTurn(turn: PreparedChatTurn, aiResponse: string, tokensUsed: number) {
+  const { userId, sessionId, content, photoUrls, triage } = turn;
+
+  // Consecutive timestamps keep the messages in order
+  const savedAt = Date.now();
+
+  // Save user message to database
+  const userMessage = await prisma.message.create({
+    data: {
+      userId: userId,
+      sessionId: sessionId,
+      role: 'USER',
+      content: content || '📸 Photos',
+      contentType: photoUrls.length > 0 ? 'IMAGE' : 'TEXT',
+      mediaUrls: photoUrls,
+      tokensUsed: 0, // User messages don't consume tokens
+      timestamp: new Date(savedAt),
+      triageLevel: triage?.level,
+      triageRule: triage?.rule,
+    },
+  });
+
+  // Save the urgent-care reply for a red-flag message
+  const triageMessage = triage ? await saveTriageReply(userId, sessionId, triage, new Date(savedAt + 1)) : null;
+
+  // Save assistant response to database
+  const assistantMessage = await prisma.message.create({
+    data: {
+      userId: userId,
+      sessionId: sessionId,
+      role: 'ASSISTANT',
+      content: aiResponse,
+      contentType: 'TEXT',
+      mediaUrls: [],
+      tokensUsed: tokensUsed,
+      timestamp: new Date(savedAt + 2),
+    },
+  });
+
+  // Increment usage counter (works for both FREE and PREMIUM tiers)
+  await incrementUsage(userId, 'message', 1);
+
+  // Embed for conversation search in the background (the backfill job retries failures)
+  indexMessages([userMessage, assistantMessage]).catch((error) => {
+    console.error('Error embedding messages:', error);
+  });
+
+  // Remember durable facts from the exchange in the background
+  if (turn.memoryEnabled && content) {
+    rememberFromExchange(userId, sessionId, content, aiResponse).catch((error) => {
+      console.error('Error extracting memories:', error);
     });
+  }
 
-    // Build user profile for system prompt
-    const userProfile = {
-      mode: user.profile?.mode,
-      babyName: user.profile?.babyName,
-      babyBirthDate: user.profile?.babyBirthDate,
-      dueDate: user.profile?.dueDate,
-      parentingPhilosophy: user.profile?.parentingPhilosophy as string | undefined,
-      religiousViews: user.profile?.religiousViews as string | undefined,
-      culturalBackground: user.profile?.culturalBackground,
-      concerns: user.profile?.concerns,
-    };
+  return { userMessage, triageMessage, assistantMessage };
+}
+
+/**
+ * POST /chat/message
+ *
+ * Send a message and receive AI response.
+ * Checks daily usage limits, saves messages, and generates AI response.
+ *
+ * Request body:
+ * - content: string (message text, max 2000 chars)
+ * - sessionId: string (conversation session ID)
+ * - childId: string (optional - child the question is about; defaults to the profile's baby)
+ *
+ * Returns: AI response message. If the message matched a medical red flag, also
+ * `triage` (level, advice, steps) and `triageMessage`, the urgent-care reply saved before it.
+ */
+router.post('/message', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const prepared = await prepareChatTurn(req);
+    if ('error' in prepared) {
+      return res.status(prepared.error.status).json(prepared.error.body);
+    }
+    const { turn } = prepared;
 
     // Generate AI response using OpenAI service
     const { response: aiResponse, tokensUsed } = await generateChatResponse(
-      conversationHistory,
-      userProfile
+      turn.conversationHistory,
+      turn.userProfile
     );
 
-    // Save user message to database
-    const userMessage = await prisma.message.create({
-      data: {
-        userId: userId,
-        sessionId: sessionId,
-        role: 'USER',
-        content: content || '📸 Photos',
-        contentType: photoUrls && photoUrls.length > 0 ? 'IMAGE' : 'TEXT',
-        mediaUrls: photoUrls && Array.isArray(photoUrls) ? photoUrls : [],
-        tokensUsed: 0, // User messages don't consume tokens
-        timestamp: new Date(),
-      },
+    const { userMessage, triageMessage, assistantMessage } = await saveChatTurn(turn, aiResponse, tokensUsed);
+
+    // Auto-generate conversation title and summary in the background
+    updateConversationMetadata(turn.userId, turn.sessionId, false).catch((error) => {
+      console.error('Error updating conversation metadata:', error);
     });
 
-    // Save assistant response to database
-    const assistantMessage = await prisma.message.create({
-      data: {
-        userId: userId,
-        sessionId: sessionId,
-        role: 'ASSISTANT',
-        content: aiResponse,
-        contentType: 'TEXT',
-        mediaUrls: [],
-        tokensUsed: tokensUsed,
-        timestamp: new Date(),
+    // Return AI response
+    return res.status(200).json({
+      message: 'Message sent successfully',
+      userMessage: {
+        id: userMessage.id,
+        content: userMessage.content,
+        contentType: userMessage.contentType,
+        mediaUrls: userMessage.mediaUrls,
+        timestamp: userMessage.timestamp,
       },
+      assistantMessage: {
+        id: assistantMessage.id,
+        content: assistantMessage.content,
+        contentType: assistantMessage.contentType,
+        mediaUrls: assistantMessage.mediaUrls,
+        timestamp: assistantMessage.timestamp,
+      },
+      triage: turn.triage ?? undefined,
+      triageMessage: triageMessage
+        ? { id: triageMessage.id, content: triageMessage.content, timestamp: triageMessage.timestamp }
+        : undefined,
+      tokensUsed: tokensUsed,
+      photoAnalysis: turn.photoAnalysisText || undefined,
     });
+  } catch (error) {
+    console.error('Error sending message:', error);
 
-    // Increment usage counter (works for both FREE and PREMIUM tiers)
-    await incrementUsage(userId, 'message', 1);
-
-    // Auto-generate conversation title and summary after second message
-    // This runs asynchronously in the background (don't await)
-    const messageCount = await prisma.message.count({
-      where: {
-        userId: userId,
-        sessionId: sessionId,
-      },
+    return res.status(500).json({
+      error: 'Failed to send message',
+      details: error instanceof Error ? error.message : 'Unknown error',
     });
+  }
+});
 
-    // Generate title if conversation has 2+ messages but no title yet
-    // Check if title already exists
-    const hasTitle = await prisma.message.findFirst({
-      where: {
-        userId: userId,
-        sessionId: sessionId,
-        conversationTitle: { not: null },
-      },
+/**
+ * POST /chat/message/stream
+ *
+ * Send a message and stream the AI response as Server-Sent Events.
+ * Same request body, validation and usage limits as POST /chat/message;
+ * validation errors are returned as regular JSON before the stream opens.
+ *
+ * Request body:
+ * - content: string (message text, max 2000 chars)
+ * - sessionId: string (conversation session ID)
+ * - photoUrls: string[] (optional)
+ * - childId: string (optional)
+ *
+ * Events:
+ * - triage: { level, rule, title, advice, actions, callEmergencyServices } - sent first
+ *   when the message matched a medical red flag
+ * - token: { content } - next piece of the assistant reply
+ * - done: { userMessage, assistantMessage, triageMessage, conversationTitle, tokensUsed, photoAnalysis }
+ * - error: { error, details } - generation failed, nothing was saved
+ *
+ * If the client disconnects mid-stream the completion is cancelled and nothing is saved.
+ */
+router.post('/message/stream', authenticateToken, async (req: Request, res: Response) => {
+  let streamOpen = false;
+  const abortController = new AbortController();
+
+  try {
+    const prepared = await prepareChatTurn(req);
+    if ('error' in prepared) {
+      return res.status(prepared.error.status).json(prepared.error.body);
+    }
+    const { turn } = prepared;
+
+    // Open the event stream
+    openSseStream(res);
+    streamOpen = true;
+
+    // Cancel the completion if the client goes away
+    res.on('close', () => {
+      if (!res.writableEnded) {
+        abortController.abort();
+      }
     });
 
-    if (messageCount >= 2 && !hasTitle) {
-      console.log(`🏷️ Auto-generating title for session ${sessionId}...`);
-
-      // Run title generation in background (don't block response)
-      (async () => {
-        try {
-          // Get the first two messages for title generation
-          const messages = await prisma.message.findMany({
-            where: {
-              userId: userId,
-              sessionId: sessionId,
-            },
-            orderBy: {
-              timestamp: 'asc',
-            },
-            take: 2,
-            select: {
-              role: true,
-              content: true,
-            },
-          });
-
-          // Convert to ChatMessage format
-          const chatMessages: ChatMessage[] = messages.map((msg) => ({
-            role: msg.role === 'USER' ? 'user' : 'assistant',
-            content: msg.content,
-          }));
-
-          // Generate title
-          const title = await generateConversationTitle(chatMessages);
-          console.log(`✅ Generated title: "${title}"`);
-
-          // Update all messages with title (so any message can show the conversation title)
-          await prisma.message.updateMany({
-            where: {
-              userId: userId,
-              sessionId: sessionId,
-            },
-            data: {
-              conversationTitle: title,
-            },
-          });
-        } catch (error) {
-          console.error('Error generating conversation title:', error);
-        }
-      })();
+    // Urgent-care instructions go out before the reply starts
+    if (turn.triage) {
+      writeSseEvent(res, 'triage', turn.triage);
     }
 
-    // Generate or update summary for conversations with 4+ messages
-    // Update every 2 exchanges to keep summary fresh
-    if (messageCount >= 4 && messageCount % 2 === 0) {
-      console.log(`📝 Updating conversation summary for session ${sessionId}...`);
-
-      // Run summary generation in background (don't block response)
-      (async () => {
-        try {
-          // Get all messages for summary
-          const messages = await prisma.message.findMany({
-            where: {
-              userId: userId,
-              sessionId: sessionId,
-            },
-            orderBy: {
-              timestamp: 'asc',
-            },
-            select: {
-              role: true,
-              content: true,
-            },
-          });
-
-          // Convert to ChatMessage format
-          const chatMessages: ChatMessage[] = messages.map((msg) => ({
-            role: msg.role === 'USER' ? 'user' : 'assistant',
-            content: msg.content,
-          }));
-
-          // Generate summary
-          const summary = await generateConversationSummary(chatMessages);
-          console.log(`✅ Generated summary`);
-
-          // Update all messages with summary (for search functionality)
-          await prisma.message.updateMany({
-            where: {
-              userId: userId,
-              sessionId: sessionId,
-            },
-            data: {
-              conversationSummary: summary,
-            },
-          });
-        } catch (error) {
-          console.error('Error generating conversation summary:', error);
-        }
-      })();
+    // Stream tokens to the client as they arrive
+    const { response: aiResponse, tokensUsed } = await streamChatResponse(
+      turn.conversationHistory,
+      turn.userProfile,
+      (token) => writeSseEvent(res, 'token', { content: token }),
+      abortController.signal
+    );
+
+    if (abortController.signal.aborted) {
+      console.log(`⚠️ Client disconnected, discarding streamed reply for session ${turn.sessionId}`);
+      return;
     }
 
-    // Return AI response
-    return res.status(200).json({
-      message: 'Message sent successfully',
+    const { userMessage, triageMessage, assistantMessage } = await saveChatTurn(turn, aiResponse, tokensUsed);
+
+    // Wait for the title so the final event can carry it
+    const conversationTitle = await updateConversationMetadata(turn.userId, turn.sessionId, true);
+
+    writeSseEvent(res, 'done', {
       userMessage: {
         id: userMessage.id,
         content: userMessage.content,
@@ -380,16 +505,32 @@ router.post('/message', authenticateToken, async (req: Request, res: Response) =
         mediaUrls: assistantMessage.mediaUrls,
         timestamp: assistantMessage.timestamp,
       },
-      tokensUsed: tokensUsed,
-      photoAnalysis: photoAnalysisText || undefined,
+      triageMessage: triageMessage
+        ? { id: triageMessage.id, content: triageMessage.content, timestamp: triageMessage.timestamp }
+        : undefined,
+      conversationTitle,
+      tokensUsed,
+      photoAnalysis: turn.photoAnalysisText || undefined,
     });
+    return res.end();
   } catch (error) {
-    console.error('Error sending message:', error);
+    if (abortController.signal.aborted) {
+      return;
+    }
 
-    return res.status(500).json({
+    console.error('Error streaming message:', error);
+
+    const body = {
       error: 'Failed to send message',
       details: error instanceof Error ? error.message : 'Unknown error',
-    });
+    };
+
+    // Once the stream is open the status code is already sent, so report via an event
+    if (streamOpen) {
+      writeSseEvent(res, 'error', body);
+      return res.end();
+    }
+    return res.status(500).json(body);
   }
 });
 
@@ -404,7 +545,8 @@ router.post('/message', authenticateToken, async (req: Request, res: Response) =
  * - limit: number (default: 50, max: 100)
  * - offset: number (default: 0)
  *
- * Returns: Array of messages ordered by timestamp (newest first)
+ * Returns: Array of messages ordered by timestamp (newest first). User messages of
+ * voice conversations have a playable URL of the recording in mediaUrls while it is kept.
  */
 router.get('/history', authenticateToken, async (req: Request, res: Response) => {
   try {
@@ -452,8 +594,17 @@ router.get('/history', authenticateToken, async (req: Request, res: Response) =>
       where: where,
     });
 
+    // Voice messages store the recording's storage key; return a playable URL
+    const messagesWithMedia = await Promise.all(
+      messages.map(async (msg) =>
+        msg.contentType === 'VOICE' && msg.mediaUrls.length > 0
+          ? { ...msg, mediaUrls: await getPresignedUrls(msg.mediaUrls) }
+          : msg
+      )
+    );
+
     return res.status(200).json({
-      messages: messages,
+      messages: messagesWithMedia,
       pagination: {
         total: totalCount,
         limit: limit,
@@ -619,6 +770,11 @@ router.delete('/session', authenticateToken, async (req: Request, res: Response)
       return res.status(400).json({ error: 'Session ID is required' });
     }
 
+    // Delete the session's voice recordings (failures are logged, the messages are deleted anyway)
+    await deleteVoiceAudio({ userId: userId, sessionId: sessionId }).catch((error) => {
+      console.error('Error deleting voice audio:', error);
+    });
+
     // Delete all messages in this session for this user
     const deleteResult = await prisma.message.deleteMany({
       where: {
@@ -651,7 +807,8 @@ router.delete('/session', authenticateToken, async (req: Request, res: Response)
  * - audio: File (audio file - .mp3, .m4a, .wav, .webm)
  * - sessionId: string (conversation session ID)
  *
- * Returns: Transcription text and AI response
+ * Returns: Transcription text and AI response (plus `triage` and `triageMessage` when the
+ * transcription matched a medical red flag, as in POST /chat/message)
  */
 router.post('/voice', authenticateToken, upload.single('audio'), async (req: Request, res: Response) => {
   let filePath: string | undefined;
@@ -704,9 +861,10 @@ router.post('/voice', authenticateToken, upload.single('audio'), async (req: Req
       return res.status(404).json({ error: 'User not found' });
     }
 
-    // Transcribe audio using Whisper API
+    // Transcribe audio using Whisper API (auto-detects the language if the parent hasn't set one)
+    const language = parseLanguage(user.profile?.preferredLanguage);
     console.log(`Transcribing audio file: ${req.file.originalname} (${req.file.size} bytes)`);
-    const transcription = await transcribeAudio(filePath);
+    const transcription = await transcribeAudio(filePath, language);
     console.log(`Transcription complete: "${transcription}"`);
 
     // Clean up uploaded file after transcription
@@ -723,26 +881,8 @@ router.post('/voice', authenticateToken, upload.single('audio'), async (req: Req
       });
     }
 
-    // Fetch last 10 messages from this session for context
-    const recentMessages = await prisma.message.findMany({
-      where: {
-        userId: userId,
-        sessionId: sessionId,
-      },
-      orderBy: {
-        timestamp: 'desc',
-      },
-      take: 10,
-    });
-
-    // Reverse to get chronological order (oldest first)
-    recentMessages.reverse();
-
-    // Convert to ChatMessage format for OpenAI
-    const conversationHistory: ChatMessage[] = recentMessages.map((msg) => ({
-      role: msg.role === 'USER' ? 'user' : 'assistant',
-      content: msg.content,
-    }));
+    // Recent messages of this session within the token budget, plus a summary of older turns
+    const { history: conversationHistory, summary: conversationSummary } = await buildConversationContext(userId, sessionId);
 
     // Add transcribed message to history
     conversationHistory.push({
@@ -750,6 +890,12 @@ router.post('/voice', authenticateToken, upload.single('audio'), async (req: Req
       content: transcription,
     });
 
+    // Check the transcription for medical red flags before the model sees it
+    const triage = triageUserMessage(userId, transcription, buildTriageSubject({
+      mode: user.profile?.mode,
+      babyBirthDate: user.profile?.babyBirthDate,
+    }), language);
+
     // Build user profile for system prompt
     const userProfile = {
       mode: user.profile?.mode,
@@ -760,6 +906,15 @@ router.post('/voice', authenticateToken, upload.single('audio'), async (req: Req
       religiousViews: user.profile?.religiousViews as string | undefined,
       culturalBackground: user.profile?.culturalBackground,
       concerns: user.profile?.concerns,
+      recentContext: user.profile?.activityContextEnabled === false
+        ? undefined
+        : await buildRecentContext(userId),
+      memories: user.profile?.memoryEnabled === false
+        ? undefined
+        : await getRelevantMemories(userId, transcription),
+      conversationSummary: conversationSummary ?? undefined,
+      triage: triage ?? undefined,
+      language,
     };
 
     // Generate AI response using OpenAI service
@@ -768,6 +923,9 @@ router.post('/voice', authenticateToken, upload.single('audio'), async (req: Req
       userProfile
     );
 
+    // Consecutive timestamps keep the messages in order
+    const savedAt = Date.now();
+
     // Save user voice message to database (with VOICE content type)
     const userMessage = await prisma.message.create({
       data: {
@@ -778,10 +936,15 @@ router.post('/voice', authenticateToken, upload.single('audio'), async (req: Req
         contentType: 'VOICE',
         mediaUrls: [], // Could store audio URL if we wanted to save it
         tokensUsed: 0,
-        timestamp: new Date(),
+        timestamp: new Date(savedAt),
+        triageLevel: triage?.level,
+        triageRule: triage?.rule,
       },
     });
 
+    // Save the urgent-care reply for a red-flag message
+    const triageMessage = triage ? await saveTriageReply(userId, sessionId, triage, new Date(savedAt + 1)) : null;
+
     // Save assistant response to database
     const assistantMessage = await prisma.message.create({
       data: {
@@ -792,13 +955,25 @@ router.post('/voice', authenticateToken, upload.single('audio'), async (req: Req
         contentType: 'TEXT',
         mediaUrls: [],
         tokensUsed: tokensUsed,
-        timestamp: new Date(),
+        timestamp: new Date(savedAt + 2),
       },
     });
 
     // Increment usage counter (works for both FREE and PREMIUM tiers)
     await incrementUsage(userId, 'message', 1);
 
+    // Embed for conversation search in the background (the backfill job retries failures)
+    indexMessages([userMessage, assistantMessage]).catch((error) => {
+      console.error('Error embedding messages:', error);
+    });
+
+    // Remember durable facts from the exchange in the background
+    if (user.profile?.memoryEnabled !== false) {
+      rememberFromExchange(userId, sessionId, transcription, aiResponse).catch((error) => {
+        console.error('Error extracting memories:', error);
+      });
+    }
+
     // Return transcription and AI response
     return res.status(200).json({
       message: 'Voice message transcribed and processed successfully',
@@ -814,6 +989,10 @@ router.post('/voice', authenticateToken, upload.single('audio'), async (req: Req
         content: assistantMessage.content,
         timestamp: assistantMessage.timestamp,
       },
+      triage: triage ?? undefined,
+      triageMessage: triageMessage
+        ? { id: triageMessage.id, content: triageMessage.content, timestamp: triageMessage.timestamp }
+        : undefined,
       tokensUsed: tokensUsed,
     });
   } catch (error) {
@@ -834,13 +1013,17 @@ router.post('/voice', authenticateToken, upload.single('audio'), async (req: Req
 /**
  * POST /chat/conversations/search
  *
- * AI-powered semantic search through conversation history.
- * Uses AI to understand search intent and find relevant conversations.
+ * Semantic search through conversation history.
+ * Finds the conversations whose messages are closest in meaning to the query
+ * (embedding nearest neighbours), so "trouble napping" also finds "won't sleep during the day".
  *
  * Request body:
  * - query: string (search query, e.g., "sleep training", "feeding advice")
+ * - limit: number (optional, default 20, max 50)
+ * - offset: number (optional, default 0)
  *
- * Returns: Array of matching conversations ranked by relevance
+ * Returns: Matching conversations ranked by relevance, each with the best-matching
+ * message as a snippet (highlights are character ranges of query terms in the snippet)
  */
 router.post('/conversations/search', authenticateToken, async (req: Request, res: Response) => {
   try {
@@ -857,76 +1040,23 @@ router.post('/conversations/search', authenticateToken, async (req: Request, res
       return res.status(400).json({ error: 'Search query is required' });
     }
 
-    // Fetch all conversations for this user
-    const sessions = await prisma.message.groupBy({
-      by: ['sessionId'],
-      where: {
-        userId: userId,
-      },
-      _max: {
-        timestamp: true,
-      },
-    });
-
-    // Get title, summary, and message content for each session
-    const conversationsWithMetadata = await Promise.all(
-      sessions.map(async (session) => {
-        // Get messages for this session
-        const messages = await prisma.message.findMany({
-          where: {
-            userId: userId,
-            sessionId: session.sessionId,
-          },
-          orderBy: {
-            timestamp: 'asc',
-          },
-          select: {
-            conversationTitle: true,
-            conversationSummary: true,
-            content: true,
-            role: true,
-          },
-        });
+    const { limit: rawLimit, offset: rawOffset } = req.body as { limit?: unknown; offset?: unknown };
+    const limit = Math.min(parseInt(String(rawLimit)) || 20, 50);
+    const offset = Math.max(parseInt(String(rawOffset)) || 0, 0);
 
-        const firstMessage = messages[0];
-
-        // Get title or use first message content as fallback
-        const title = firstMessage?.conversationTitle ||
-                     (firstMessage?.content.substring(0, 50) + '...') ||
-                     'Untitled Conversation';
-
-        // Get summary or combine all message content as fallback
-        const summary = firstMessage?.conversationSummary ||
-                       messages.map(m => m.content).join(' ').substring(0, 500);
-
-        return {
-          sessionId: session.sessionId,
-          title: title,
-          summary: summary,
-          lastMessageAt: session._max.timestamp,
-        };
-      })
-    );
-
-    // All conversations are now searchable (we use message content as fallback)
-    const searchableConversations = conversationsWithMetadata.filter(
-      (conv) => conv.summary && conv.summary.length > 0
-    );
-
-    // Use AI to search and rank conversations
-    const rankedSessionIds = await searchConversations(
-      query,
-      searchableConversations.map((conv) => ({
-        sessionId: conv.sessionId,
-        title: conv.title,
-        summary: conv.summary,
-      }))
-    );
+    const { results, total } = await searchConversations(userId, query.trim(), limit, offset);
 
     return res.status(200).json({
       query: query,
-      rankedSessionIds: rankedSessionIds,
-      total: rankedSessionIds.length,
+      results,
+      rankedSessionIds: results.map((result) => result.sessionId),
+      total,
+      pagination: {
+        limit,
+        offset,
+        total,
+        hasMore: offset + limit < total,
+      },
     });
   } catch (error) {
     console.error('Error searching conversations:', error);
@@ -943,6 +1073,7 @@ router.post('/conversations/search', authenticateToken, async (req: Request, res
  *
  * One-time migration endpoint to generate titles and summaries for all existing conversations.
  * This endpoint processes all conversations that don't have titles yet.
+ * The backfill-conversation-titles job does the same for all users every hour.
  *
  * Returns: Progress information and number of conversations processed
  */
@@ -956,103 +1087,14 @@ router.post('/conversations/generate-titles', authenticateToken, async (req: Req
 
     console.log(`🔄 Starting title generation for user ${userId}...`);
 
-    // Get all unique sessions for this user
-    const sessions = await prisma.message.groupBy({
-      by: ['sessionId'],
-      where: {
-        userId: userId,
-      },
-      _count: {
-        id: true,
-      },
-    });
-
-    let processedCount = 0;
-    let skippedCount = 0;
-    const errors: string[] = [];
-
-    // Process each session
-    for (const session of sessions) {
-      try {
-        // Check if this session already has a title
-        const hasTitle = await prisma.message.findFirst({
-          where: {
-            userId: userId,
-            sessionId: session.sessionId,
-            conversationTitle: { not: null },
-          },
-        });
-
-        // Skip if already has title
-        if (hasTitle) {
-          skippedCount++;
-          continue;
-        }
-
-        // Get messages for this session
-        const messages = await prisma.message.findMany({
-          where: {
-            userId: userId,
-            sessionId: session.sessionId,
-          },
-          orderBy: {
-            timestamp: 'asc',
-          },
-          select: {
-            role: true,
-            content: true,
-          },
-        });
-
-        // Need at least 2 messages to generate a title
-        if (messages.length < 2) {
-          skippedCount++;
-          continue;
-        }
-
-        // Convert to ChatMessage format
-        const chatMessages: ChatMessage[] = messages.map((msg) => ({
-          role: msg.role === 'USER' ? 'user' : 'assistant',
-          content: msg.content,
-        }));
-
-        // Generate title using first 2 messages
-        const titleMessages = chatMessages.slice(0, 2);
-        const title = await generateConversationTitle(titleMessages);
-        console.log(`✅ Generated title for session ${session.sessionId}: "${title}"`);
-
-        // Generate summary if we have enough messages (4+)
-        let summary: string | null = null;
-        if (messages.length >= 4) {
-          summary = await generateConversationSummary(chatMessages);
-          console.log(`📝 Generated summary for session ${session.sessionId}`);
-        }
-
-        // Update all messages in this session with title and summary
-        await prisma.message.updateMany({
-          where: {
-            userId: userId,
-            sessionId: session.sessionId,
-          },
-          data: {
-            conversationTitle: title,
-            ...(summary && { conversationSummary: summary }),
-          },
-        });
-
-        processedCount++;
-      } catch (error) {
-        console.error(`Error processing session ${session.sessionId}:`, error);
-        errors.push(`Session ${session.sessionId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      }
-    }
+    const result = await backfillConversationTitles({ userId });
 
     return res.status(200).json({
       message: 'Title generation completed',
-      total: sessions.length,
-      processed: processedCount,
-      skipped: skippedCount,
-      errors: errors.length > 0 ? errors : undefined,
+      total: result.total,
+      processed: result.processed,
+      skipped: result.skipped,
+      errors: result.errors.length > 0 ? result.errors : undefined,
     });
   } catch (error) {
     console.error('Error generating titles:', error);
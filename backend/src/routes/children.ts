@@ -0,0 +1,337 @@
+/**
+ * Children API Routes
+ *
+ * Handles CRUD operations for the children of an account (twins, siblings).
+ * Milestones, photos and chat messages can be attached to a specific child.
+ *
+ * Children are shared within a family: every member can see them,
+ * owners and co-parents can add, edit and remove them, viewers are read-only.
+ */
+
+import express, { Response } from 'express';
+import { PrismaClient, BabyGender, Child } from '@prisma/client';
+import { authenticateToken, AuthenticatedRequest } from '../middleware/auth';
+import { getPresignedUrl } from '../utils/s3';
+import { getFamilyAccess } from '../services/family';
+import { syncProfileFromPrimaryChild } from '../services/children';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+/**
+ * Child fields accepted in create and update requests
+ */
+interface ChildInput {
+  name?: string | null;
+  birthDate?: string | null;
+  dueDate?: string | null;
+  gender?: BabyGender | null;
+}
+
+/**
+ * Child as returned by the API (image as presigned URL)
+ */
+interface ChildResponse {
+  id: string;
+  name: string | null;
+  birthDate: Date | null;
+  dueDate: Date | null;
+  gender: BabyGender | null;
+  imageUrl: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Parses and validates child fields from a request body
+ * Only fields present in the body are returned, so it works for partial updates.
+ *
+ * @param body - Request body
+ * @returns Prisma data for the provided fields, or an error message
+ */
+function parseChildInput(
+  body: ChildInput,
+): { data: Partial<Pick<Child, 'name' | 'birthDate' | 'dueDate' | 'gender'>> } | { error: string } {
+  const data: Partial<Pick<Child, 'name' | 'birthDate' | 'dueDate' | 'gender'>> = {};
+
+  if (body.name !== undefined) {
+    if (body.name !== null && typeof body.name !== 'string') {
+      return { error: 'name must be a string' };
+    }
+    data.name = body.name ? body.name.trim().slice(0, 100) || null : null;
+  }
+
+  if (body.birthDate !== undefined) {
+    if (body.birthDate === null) {
+      data.birthDate = null;
+    } else {
+      const birthDate = new Date(body.birthDate);
+      if (isNaN(birthDate.getTime())) {
+        return { error: 'birthDate must be a valid ISO date string' };
+      }
+      if (birthDate > new Date()) {
+        return { error: 'birthDate cannot be in the future' };
+      }
+      data.birthDate = birthDate;
+    }
+  }
+
+  if (body.dueDate !== undefined) {
+    if (body.dueDate === null) {
+      data.dueDate = null;
+    } else {
+      const dueDate = new Date(body.dueDate);
+      if (isNaN(dueDate.getTime())) {
+        return { error: 'dueDate must be a valid ISO date string' };
+      }
+      data.dueDate = dueDate;
+    }
+  }
+
+  if (body.gender !== undefined) {
+    if (body.gender !== null && !Object.values(BabyGender).includes(body.gender)) {
+      return { error: `gender must be one of: ${Object.values(BabyGender).join(', ')}` };
+    }
+    data.gender = body.gender;
+  }
+
+  return { data };
+}
+
+/**
+ * Formats a child for API responses
+ * Replaces the image S3 key with a presigned URL.
+ *
+ * @param child - Child record
+ * @returns Child data for the client
+ */
+async function formatChild(child: Child): Promise<ChildResponse> {
+  let imageUrl: string | null = null;
+
+  if (child.imageUrl) {
+    try {
+      imageUrl = await getPresignedUrl(child.imageUrl);
+    } catch (error) {
+      console.error('Error generating presigned URL for child image:', error);
+    }
+  }
+
+  return {
+    id: child.id,
+    name: child.name,
+    birthDate: child.birthDate,
+    dueDate: child.dueDate,
+    gender: child.gender,
+    imageUrl,
+    createdAt: child.createdAt,
+    updatedAt: child.updatedAt,
+  };
+}
+
+/**
+ * GET /children
+ * Retrieve the children of the user's family (or the user's own if not in a family)
+ *
+ * Returns children ordered by when they were added (oldest first).
+ */
+router.get(
+  '/',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+
+      const access = await getFamilyAccess(userId);
+
+      const children = await prisma.child.findMany({
+        where: { userId: { in: access.memberIds } },
+        orderBy: { createdAt: 'asc' },
+      });
+
+      res.status(200).json({
+        children: await Promise.all(children.map(formatChild)),
+        count: children.length,
+      });
+    } catch (error) {
+      console.error('Error fetching children:', error);
+      res.status(500).json({ error: 'Failed to fetch children' });
+    }
+  }
+);
+
+/**
+ * POST /children
+ * Add a child
+ *
+ * Request body:
+ * - name: string - optional
+ * - birthDate: ISO date string - optional (cannot be in the future)
+ * - dueDate: ISO date string - optional (for a child not born yet)
+ * - gender: BabyGender - optional
+ *
+ * At least a name, birthDate or dueDate is required.
+ * Family viewers cannot add children.
+ */
+router.post(
+  '/',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+
+      const access = await getFamilyAccess(userId);
+      if (!access.canEdit) {
+        return res.status(403).json({
+          error: 'Forbidden',
+          message: 'Family viewers cannot add children',
+        });
+      }
+
+      const parsed = parseChildInput(req.body as ChildInput);
+      if ('error' in parsed) {
+        return res.status(400).json({ error: 'Invalid child data', message: parsed.error });
+      }
+
+      if (!parsed.data.name && !parsed.data.birthDate && !parsed.data.dueDate) {
+        return res.status(400).json({
+          error: 'Missing required fields',
+          message: 'Provide at least one of: name, birthDate, dueDate',
+        });
+      }
+
+      console.log(`👶 Adding child for user ${userId}`);
+
+      const child = await prisma.child.create({
+        data: { userId, ...parsed.data },
+      });
+
+      // First child is mirrored on the profile for single-baby clients
+      await syncProfileFromPrimaryChild(userId);
+
+      console.log(`✅ Added child ${child.id}`);
+
+      res.status(201).json({
+        message: 'Child added successfully',
+        child: await formatChild(child),
+      });
+    } catch (error) {
+      console.error('Error adding child:', error);
+      res.status(500).json({ error: 'Failed to add child' });
+    }
+  }
+);
+
+/**
+ * PUT /children/:id
+ * Update a child
+ *
+ * Request body (all fields optional, only provided fields will be updated):
+ * - name, birthDate, dueDate, gender (null clears a field)
+ *
+ * Verifies the child belongs to the user's family and the user may edit it.
+ */
+router.put(
+  '/:id',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+      const childId = req.params.id;
+
+      const existingChild = await prisma.child.findUnique({
+        where: { id: childId },
+        select: { id: true, userId: true },
+      });
+
+      if (!existingChild) {
+        return res.status(404).json({ error: 'Child not found' });
+      }
+
+      // Verify child belongs to the user's family and user can edit (security check)
+      const access = await getFamilyAccess(userId);
+      if (!access.memberIds.includes(existingChild.userId) || !access.canEdit) {
+        return res.status(403).json({
+          error: 'Forbidden',
+          message: 'You do not have permission to update this child',
+        });
+      }
+
+      const parsed = parseChildInput(req.body as ChildInput);
+      if ('error' in parsed) {
+        return res.status(400).json({ error: 'Invalid child data', message: parsed.error });
+      }
+
+      const child = await prisma.child.update({
+        where: { id: childId },
+        data: parsed.data,
+      });
+
+      await syncProfileFromPrimaryChild(child.userId);
+
+      console.log(`✅ Updated child ${childId}`);
+
+      res.status(200).json({
+        message: 'Child updated successfully',
+        child: await formatChild(child),
+      });
+    } catch (error) {
+      console.error('Error updating child:', error);
+      res.status(500).json({ error: 'Failed to update child' });
+    }
+  }
+);
+
+/**
+ * DELETE /children/:id
+ * Remove a child
+ *
+ * The child's milestones and photos are kept but no longer attached to a child.
+ * Verifies the child belongs to the user's family and the user may edit it.
+ */
+router.delete(
+  '/:id',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+      const childId = req.params.id;
+
+      const child = await prisma.child.findUnique({
+        where: { id: childId },
+        select: { id: true, userId: true },
+      });
+
+      if (!child) {
+        return res.status(404).json({ error: 'Child not found' });
+      }
+
+      // Verify child belongs to the user's family and user can edit (security check)
+      const access = await getFamilyAccess(userId);
+      if (!access.memberIds.includes(child.userId) || !access.canEdit) {
+        return res.status(403).json({
+          error: 'Forbidden',
+          message: 'You do not have permission to remove this child',
+        });
+      }
+
+      await prisma.child.delete({
+        where: { id: childId },
+      });
+
+      // Next child (if any) becomes the one mirrored on the profile
+      await syncProfileFromPrimaryChild(child.userId);
+
+      console.log(`✅ Removed child ${childId}`);
+
+      res.status(200).json({
+        message: 'Child removed successfully',
+        childId,
+      });
+    } catch (error) {
+      console.error('Error removing child:', error);
+      res.status(500).json({ error: 'Failed to remove child' });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,666 @@
+/**
+ * Family API Routes
+ *
+ * Shared family accounts for partners, co-parents and relatives.
+ * Members of a family share milestones and photos; chat history stays private.
+ *
+ * - GET /family - Current family with members (and pending invitations for the owner)
+ * - POST /family - Create a family (creator becomes OWNER)
+ * - PUT /family - Rename the family (owner only)
+ * - DELETE /family - Disband the family (owner only)
+ * - POST /family/invitations - Create an invite code or email invitation (owner only)
+ * - DELETE /family/invitations/:id - Revoke a pending invitation (owner only)
+ * - POST /family/join - Join a family with an invite code or email token
+ * - POST /family/leave - Leave the current family
+ * - PUT /family/members/:userId - Change a member's role (owner only)
+ * - DELETE /family/members/:userId - Remove a member (owner only)
+ */
+
+import express, { Response } from 'express';
+import { PrismaClient, Family, FamilyMember, FamilyRole } from '@prisma/client';
+import { authenticateToken, requireVerifiedEmail, AuthenticatedRequest } from '../middleware/auth';
+import { authRateLimiter } from '../middleware/rateLimiter';
+import {
+  ASSIGNABLE_ROLES,
+  acceptInvitation,
+  createInviteCode,
+  isAssignableRole,
+  sendEmailInvitation,
+} from '../services/family';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+/**
+ * Looks up the requesting user's membership
+ *
+ * @param userId - Requesting user
+ * @returns Membership with family, or null if the user is not in a family
+ */
+async function findMembership(
+  userId: string,
+): Promise<(FamilyMember & { family: Family }) | null> {
+  return prisma.familyMember.findUnique({
+    where: { userId },
+    include: { family: true },
+  });
+}
+
+/**
+ * GET /family
+ * Retrieve the user's family with its members
+ *
+ * Pending invitations are only included for the owner.
+ * Returns { family: null } if the user is not in a family.
+ */
+router.get(
+  '/',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+
+      const membership = await findMembership(userId);
+
+      if (!membership) {
+        return res.status(200).json({ family: null });
+      }
+
+      const members = await prisma.familyMember.findMany({
+        where: { familyId: membership.familyId },
+        orderBy: { joinedAt: 'asc' },
+        include: {
+          user: { select: { email: true } },
+        },
+      });
+
+      // Only the owner manages invitations
+      const invitations = membership.role === FamilyRole.OWNER
+        ? await prisma.familyInvitation.findMany({
+            where: {
+              familyId: membership.familyId,
+              acceptedAt: null,
+              revokedAt: null,
+              expiresAt: { gt: new Date() },
+            },
+            orderBy: { createdAt: 'desc' },
+            select: {
+              id: true,
+              email: true,
+              role: true,
+              expiresAt: true,
+              createdAt: true,
+            },
+          })
+        : undefined;
+
+      res.status(200).json({
+        family: {
+          id: membership.family.id,
+          name: membership.family.name,
+          role: membership.role,
+          createdAt: membership.family.createdAt,
+          members: members.map((member) => ({
+            userId: member.userId,
+            email: member.user.email,
+            role: member.role,
+            joinedAt: member.joinedAt,
+          })),
+          invitations,
+        },
+      });
+    } catch (error) {
+      console.error('Error fetching family:', error);
+      res.status(500).json({ error: 'Failed to fetch family' });
+    }
+  }
+);
+
+/**
+ * POST /family
+ * Create a new family with the authenticated user as OWNER
+ *
+ * Request body:
+ * - name: string - required
+ *
+ * A user can only belong to one family at a time.
+ */
+router.post(
+  '/',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+      const { name } = req.body as { name?: string };
+
+      if (!name || typeof name !== 'string' || !name.trim()) {
+        return res.status(400).json({
+          error: 'Missing required fields',
+          required: ['name'],
+        });
+      }
+
+      const existingMembership = await findMembership(userId);
+
+      if (existingMembership) {
+        return res.status(409).json({
+          error: 'Already in a family',
+          message: 'Leave your current family before creating a new one',
+        });
+      }
+
+      console.log(`👪 Creating family for user ${userId}`);
+
+      const family = await prisma.family.create({
+        data: {
+          name: name.trim().slice(0, 100),
+          members: {
+            create: { userId, role: FamilyRole.OWNER },
+          },
+        },
+      });
+
+      console.log(`✅ Created family ${family.id}`);
+
+      res.status(201).json({
+        message: 'Family created successfully',
+        family: {
+          id: family.id,
+          name: family.name,
+          role: FamilyRole.OWNER,
+          createdAt: family.createdAt,
+        },
+      });
+    } catch (error) {
+      console.error('Error creating family:', error);
+      res.status(500).json({ error: 'Failed to create family' });
+    }
+  }
+);
+
+/**
+ * PUT /family
+ * Rename the family (owner only)
+ *
+ * Request body:
+ * - name: string - required
+ */
+router.put(
+  '/',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+      const { name } = req.body as { name?: string };
+
+      if (!name || typeof name !== 'string' || !name.trim()) {
+        return res.status(400).json({
+          error: 'Missing required fields',
+          required: ['name'],
+        });
+      }
+
+      const membership = await findMembership(userId);
+
+      if (!membership) {
+        return res.status(404).json({ error: 'Family not found' });
+      }
+
+      if (membership.role !== FamilyRole.OWNER) {
+        return res.status(403).json({
+          error: 'Forbidden',
+          message: 'Only the family owner can rename the family',
+        });
+      }
+
+      const family = await prisma.family.update({
+        where: { id: membership.familyId },
+        data: { name: name.trim().slice(0, 100) },
+      });
+
+      res.status(200).json({
+        message: 'Family updated successfully',
+        family: {
+          id: family.id,
+          name: family.name,
+          role: membership.role,
+          createdAt: family.createdAt,
+        },
+      });
+    } catch (error) {
+      console.error('Error updating family:', error);
+      res.status(500).json({ error: 'Failed to update family' });
+    }
+  }
+);
+
+/**
+ * DELETE /family
+ * Disband the family (owner only)
+ *
+ * Removes all memberships and pending invitations.
+ * Milestones and photos are kept by the members who created them.
+ */
+router.delete(
+  '/',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+
+      const membership = await findMembership(userId);
+
+      if (!membership) {
+        return res.status(404).json({ error: 'Family not found' });
+      }
+
+      if (membership.role !== FamilyRole.OWNER) {
+        return res.status(403).json({
+          error: 'Forbidden',
+          message: 'Only the family owner can disband the family',
+        });
+      }
+
+      console.log(`🗑️ Disbanding family ${membership.familyId}`);
+
+      // Members and invitations are removed by cascade
+      await prisma.family.delete({
+        where: { id: membership.familyId },
+      });
+
+      res.status(200).json({
+        message: 'Family disbanded successfully',
+        familyId: membership.familyId,
+      });
+    } catch (error) {
+      console.error('Error disbanding family:', error);
+      res.status(500).json({ error: 'Failed to disband family' });
+    }
+  }
+);
+
+/**
+ * POST /family/invitations
+ * Invite someone to the family (owner only)
+ *
+ * Request body:
+ * - role: 'CO_PARENT' | 'VIEWER' - optional (default: CO_PARENT)
+ * - email: string - optional
+ *
+ * With email: sends an invitation link that only that email's account can accept.
+ * Without email: returns a short invite code to share in person or by message.
+ * Invitations are single-use and expire after 7 days.
+ */
+router.post(
+  '/invitations',
+  authenticateToken,
+  requireVerifiedEmail,
+  authRateLimiter,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+      const { email, role = FamilyRole.CO_PARENT } = req.body as {
+        email?: string;
+        role?: FamilyRole;
+      };
+
+      if (!isAssignableRole(role)) {
+        return res.status(400).json({
+          error: 'Invalid role',
+          validRoles: ASSIGNABLE_ROLES,
+        });
+      }
+
+      if (email !== undefined && (typeof email !== 'string' || !/^\S+@\S+\.\S+$/.test(email))) {
+        return res.status(400).json({
+          error: 'Invalid email',
+          message: 'Please provide a valid email address',
+        });
+      }
+
+      const membership = await findMembership(userId);
+
+      if (!membership) {
+        return res.status(404).json({
+          error: 'Family not found',
+          message: 'Create a family before inviting members',
+        });
+      }
+
+      if (membership.role !== FamilyRole.OWNER) {
+        return res.status(403).json({
+          error: 'Forbidden',
+          message: 'Only the family owner can invite members',
+        });
+      }
+
+      if (email) {
+        console.log(`👪 Sending family invitation for family ${membership.familyId}`);
+
+        const invitation = await sendEmailInvitation(
+          membership.familyId,
+          membership.family.name,
+          { id: userId, email: req.user!.email },
+          email,
+          role,
+        );
+
+        return res.status(201).json({
+          message: 'Invitation sent',
+          invitation: {
+            id: invitation.id,
+            email: email.toLowerCase(),
+            role,
+            expiresAt: invitation.expiresAt,
+          },
+        });
+      }
+
+      console.log(`👪 Creating invite code for family ${membership.familyId}`);
+
+      const invitation = await createInviteCode(membership.familyId, userId, role);
+
+      res.status(201).json({
+        message: 'Invite code created',
+        invitation: {
+          id: invitation.id,
+          code: invitation.code, // Only shown once; share it with the person to invite
+          role,
+          expiresAt: invitation.expiresAt,
+        },
+      });
+    } catch (error) {
+      console.error('Error creating family invitation:', error);
+      res.status(500).json({ error: 'Failed to create invitation' });
+    }
+  }
+);
+
+/**
+ * DELETE /family/invitations/:id
+ * Revoke a pending invitation (owner only)
+ */
+router.delete(
+  '/invitations/:id',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+      const invitationId = req.params.id;
+
+      const membership = await findMembership(userId);
+
+      if (!membership || membership.role !== FamilyRole.OWNER) {
+        return res.status(403).json({
+          error: 'Forbidden',
+          message: 'Only the family owner can revoke invitations',
+        });
+      }
+
+      // Only pending invitations of the owner's own family
+      const { count } = await prisma.familyInvitation.updateMany({
+        where: {
+          id: invitationId,
+          familyId: membership.familyId,
+          acceptedAt: null,
+          revokedAt: null,
+        },
+        data: { revokedAt: new Date() },
+      });
+
+      if (count === 0) {
+        return res.status(404).json({ error: 'Invitation not found' });
+      }
+
+      res.status(200).json({
+        message: 'Invitation revoked successfully',
+        invitationId,
+      });
+    } catch (error) {
+      console.error('Error revoking family invitation:', error);
+      res.status(500).json({ error: 'Failed to revoke invitation' });
+    }
+  }
+);
+
+/**
+ * POST /family/join
+ * Join a family with an invite code or the token from an invitation email
+ *
+ * Request body:
+ * - code: string - required (invite code or email token)
+ */
+router.post(
+  '/join',
+  authenticateToken,
+  authRateLimiter,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+      const { code } = req.body as { code?: string };
+
+      if (!code || typeof code !== 'string') {
+        return res.status(400).json({
+          error: 'Missing required fields',
+          required: ['code'],
+        });
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { id: true, email: true },
+      });
+
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+
+      const result = await acceptInvitation(user, code);
+
+      switch (result.status) {
+        case 'already_member':
+          return res.status(409).json({
+            error: 'Already in a family',
+            message: 'Leave your current family before joining another one',
+          });
+        case 'email_mismatch':
+          return res.status(403).json({
+            error: 'Forbidden',
+            message: 'This invitation was sent to a different email address',
+          });
+        case 'invalid':
+          return res.status(400).json({
+            error: 'Invalid or expired invitation',
+            message: 'This invitation is invalid, has expired or has already been used',
+          });
+      }
+
+      console.log(`✅ User ${userId} joined family ${result.familyId} as ${result.role}`);
+
+      const family = await prisma.family.findUnique({
+        where: { id: result.familyId },
+      });
+
+      res.status(200).json({
+        message: 'Joined family successfully',
+        family: {
+          id: result.familyId,
+          name: family?.name,
+          role: result.role,
+          createdAt: family?.createdAt,
+        },
+      });
+    } catch (error) {
+      console.error('Error joining family:', error);
+      res.status(500).json({ error: 'Failed to join family' });
+    }
+  }
+);
+
+/**
+ * POST /family/leave
+ * Leave the current family
+ *
+ * The owner can only leave once they are the last member (the family is then deleted);
+ * otherwise they must remove members or disband the family.
+ * The leaving member keeps their own milestones and photos and loses access to the others'.
+ */
+router.post(
+  '/leave',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+
+      const membership = await findMembership(userId);
+
+      if (!membership) {
+        return res.status(404).json({ error: 'Family not found' });
+      }
+
+      if (membership.role === FamilyRole.OWNER) {
+        const memberCount = await prisma.familyMember.count({
+          where: { familyId: membership.familyId },
+        });
+
+        if (memberCount > 1) {
+          return res.status(400).json({
+            error: 'Owner cannot leave',
+            message: 'Remove the other members or disband the family before leaving',
+          });
+        }
+
+        // Last member: delete the family with its pending invitations
+        await prisma.family.delete({
+          where: { id: membership.familyId },
+        });
+      } else {
+        await prisma.familyMember.delete({
+          where: { id: membership.id },
+        });
+      }
+
+      console.log(`✅ User ${userId} left family ${membership.familyId}`);
+
+      res.status(200).json({
+        message: 'Left family successfully',
+        familyId: membership.familyId,
+      });
+    } catch (error) {
+      console.error('Error leaving family:', error);
+      res.status(500).json({ error: 'Failed to leave family' });
+    }
+  }
+);
+
+/**
+ * PUT /family/members/:userId
+ * Change a member's role (owner only)
+ *
+ * Request body:
+ * - role: 'CO_PARENT' | 'VIEWER' - required
+ */
+router.put(
+  '/members/:userId',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+      const memberUserId = req.params.userId;
+      const { role } = req.body as { role?: FamilyRole };
+
+      if (!isAssignableRole(role)) {
+        return res.status(400).json({
+          error: 'Invalid role',
+          validRoles: ASSIGNABLE_ROLES,
+        });
+      }
+
+      const membership = await findMembership(userId);
+
+      if (!membership || membership.role !== FamilyRole.OWNER) {
+        return res.status(403).json({
+          error: 'Forbidden',
+          message: 'Only the family owner can change member roles',
+        });
+      }
+
+      if (memberUserId === userId) {
+        return res.status(400).json({
+          error: 'Invalid member',
+          message: 'The owner role cannot be changed',
+        });
+      }
+
+      const { count } = await prisma.familyMember.updateMany({
+        where: { userId: memberUserId, familyId: membership.familyId },
+        data: { role },
+      });
+
+      if (count === 0) {
+        return res.status(404).json({ error: 'Member not found' });
+      }
+
+      res.status(200).json({
+        message: 'Member role updated successfully',
+        member: { userId: memberUserId, role },
+      });
+    } catch (error) {
+      console.error('Error updating family member:', error);
+      res.status(500).json({ error: 'Failed to update member' });
+    }
+  }
+);
+
+/**
+ * DELETE /family/members/:userId
+ * Remove a member from the family (owner only)
+ *
+ * The removed member keeps their own milestones and photos.
+ */
+router.delete(
+  '/members/:userId',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+      const memberUserId = req.params.userId;
+
+      const membership = await findMembership(userId);
+
+      if (!membership || membership.role !== FamilyRole.OWNER) {
+        return res.status(403).json({
+          error: 'Forbidden',
+          message: 'Only the family owner can remove members',
+        });
+      }
+
+      if (memberUserId === userId) {
+        return res.status(400).json({
+          error: 'Invalid member',
+          message: 'Use POST /family/leave or DELETE /family instead',
+        });
+      }
+
+      const { count } = await prisma.familyMember.deleteMany({
+        where: { userId: memberUserId, familyId: membership.familyId },
+      });
+
+      if (count === 0) {
+        return res.status(404).json({ error: 'Member not found' });
+      }
+
+      console.log(`✅ Removed user ${memberUserId} from family ${membership.familyId}`);
+
+      res.status(200).json({
+        message: 'Member removed successfully',
+        userId: memberUserId,
+      });
+    } catch (error) {
+      console.error('Error removing family member:', error);
+      res.status(500).json({ error: 'Failed to remove member' });
+    }
+  }
+);
+
+export default router;
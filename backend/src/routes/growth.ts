@@ -0,0 +1,540 @@
+/**
+ * Growth API Routes
+ *
+ * Handles weight, length and head circumference measurements with
+ * WHO percentiles and z-scores, plus growth chart data.
+ *
+ * Percentiles use the child's gender and age at the time of measurement
+ * (from the child record, or the profile's baby for records without a child).
+ * Records are scoped like milestones: visible to the user's family,
+ * editable by owners and co-parents.
+ *
+ * - GET /growth - List measurements with percentiles
+ * - POST /growth - Log a measurement
+ * - PUT /growth/:id - Update a measurement
+ * - DELETE /growth/:id - Delete a measurement
+ * - GET /growth/chart - Measurement points and percentile curves for one indicator
+ */
+
+import express, { Response } from 'express';
+import { PrismaClient, Prisma, BabyGender, GrowthMeasurement } from '@prisma/client';
+import { authenticateToken, AuthenticatedRequest } from '../middleware/auth';
+import { getFamilyAccess } from '../services/family';
+import { findAccessibleChild, resolveChildForRecord } from '../services/children';
+import {
+  GROWTH_INDICATORS,
+  GrowthIndicator,
+  GrowthPercentile,
+  calculateAgeInMonths,
+  calculateGrowthPercentile,
+  getIndicatorUnit,
+  getPercentileCurves,
+} from '../utils/growth';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+// Measurement field for each indicator
+const INDICATOR_FIELDS: Record<GrowthIndicator, 'weightKg' | 'lengthCm' | 'headCircumferenceCm'> = {
+  weight: 'weightKg',
+  length: 'lengthCm',
+  headCircumference: 'headCircumferenceCm',
+};
+
+// Plausible ranges for babies and toddlers, to catch unit mistakes (lb/in) and typos
+const MEASUREMENT_RANGES: Record<GrowthIndicator, { min: number; max: number }> = {
+  weight: { min: 0.3, max: 40 },
+  length: { min: 20, max: 130 },
+  headCircumference: { min: 20, max: 60 },
+};
+
+/**
+ * Birth date and gender that percentiles are calculated against
+ */
+interface GrowthSubject {
+  birthDate: Date | null;
+  gender: BabyGender | null;
+}
+
+/**
+ * Measurement as returned by the API, with age and percentiles
+ */
+interface MeasurementResponse extends GrowthMeasurement {
+  ageMonths: number | null; // Fractional months, e.g. 4.5
+  percentiles: Record<GrowthIndicator, GrowthPercentile | null>;
+}
+
+/**
+ * Measurement fields accepted in create and update requests
+ */
+interface MeasurementInput {
+  measuredAt?: string;
+  weightKg?: number | null;
+  lengthCm?: number | null;
+  headCircumferenceCm?: number | null;
+  notes?: string | null;
+  childId?: string;
+}
+
+/**
+ * Parses and validates measurement fields from a request body
+ * Only fields present in the body are returned, so it works for partial updates.
+ *
+ * @param body - Request body
+ * @returns Prisma data for the provided fields, or an error message
+ */
+function parseMeasurementInput(
+  body: MeasurementInput,
+): { data: Prisma.GrowthMeasurementUncheckedUpdateInput } | { error: string } {
+  const data: Prisma.GrowthMeasurementUncheckedUpdateInput = {};
+
+  if (body.measuredAt !== undefined) {
+    const measuredAt = new Date(body.measuredAt);
+    if (typeof body.measuredAt !== 'string' || isNaN(measuredAt.getTime())) {
+      return { error: 'measuredAt must be a valid ISO date string' };
+    }
+    if (measuredAt > new Date()) {
+      return { error: 'measuredAt cannot be in the future' };
+    }
+    data.measuredAt = measuredAt;
+  }
+
+  for (const indicator of GROWTH_INDICATORS) {
+    const field = INDICATOR_FIELDS[indicator];
+    const value = body[field];
+    if (value === undefined) continue;
+
+    if (value !== null) {
+      const { min, max } = MEASUREMENT_RANGES[indicator];
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+        return { error: `${field} must be a number between ${min} and ${max} (${getIndicatorUnit(indicator)})` };
+      }
+    }
+    data[field] = value;
+  }
+
+  if (body.notes !== undefined) {
+    if (body.notes !== null && typeof body.notes !== 'string') {
+      return { error: 'notes must be a string' };
+    }
+    data.notes = body.notes?.trim() || null;
+  }
+
+  return { data };
+}
+
+/**
+ * Loads the birth date and gender for each measurement
+ * Measurements of a child use the child record; others use the logging user's profile.
+ *
+ * @param measurements - Measurements to look up
+ * @returns Map from measurement ID to its subject
+ */
+async function loadGrowthSubjects(
+  measurements: Pick<GrowthMeasurement, 'id' | 'userId' | 'childId'>[],
+): Promise<Map<string, GrowthSubject>> {
+  const childIds = [...new Set(measurements.flatMap((m) => (m.childId ? [m.childId] : [])))];
+  const profileUserIds = [...new Set(measurements.filter((m) => !m.childId).map((m) => m.userId))];
+
+  const [children, profiles] = await Promise.all([
+    childIds.length > 0
+      ? prisma.child.findMany({
+          where: { id: { in: childIds } },
+          select: { id: true, birthDate: true, gender: true },
+        })
+      : [],
+    profileUserIds.length > 0
+      ? prisma.userProfile.findMany({
+          where: { userId: { in: profileUserIds } },
+          select: { userId: true, babyBirthDate: true, babyGender: true },
+        })
+      : [],
+  ]);
+
+  const childById = new Map(children.map((child) => [child.id, child]));
+  const profileByUserId = new Map(profiles.map((profile) => [profile.userId, profile]));
+
+  const subjects = new Map<string, GrowthSubject>();
+  for (const measurement of measurements) {
+    if (measurement.childId) {
+      const child = childById.get(measurement.childId);
+      subjects.set(measurement.id, { birthDate: child?.birthDate ?? null, gender: child?.gender ?? null });
+    } else {
+      const profile = profileByUserId.get(measurement.userId);
+      subjects.set(measurement.id, { birthDate: profile?.babyBirthDate ?? null, gender: profile?.babyGender ?? null });
+    }
+  }
+
+  return subjects;
+}
+
+/**
+ * Returns the age in months at a measurement, if it was taken after birth
+ *
+ * @param subject - Birth date and gender
+ * @param measuredAt - When the measurement was taken
+ * @returns Age in fractional months (2 decimals), or null if unknown
+ */
+function getAgeAtMeasurement(subject: GrowthSubject, measuredAt: Date): number | null {
+  if (!subject.birthDate || measuredAt < subject.birthDate) {
+    return null;
+  }
+
+  return Math.round(calculateAgeInMonths(subject.birthDate, measuredAt) * 100) / 100;
+}
+
+/**
+ * Adds age and WHO percentiles to a measurement
+ *
+ * @param measurement - Measurement record
+ * @param subject - Birth date and gender of the measured child
+ * @returns Measurement for the client
+ */
+function formatMeasurement(measurement: GrowthMeasurement, subject: GrowthSubject): MeasurementResponse {
+  const ageMonths = getAgeAtMeasurement(subject, measurement.measuredAt);
+
+  const percentileFor = (indicator: GrowthIndicator): GrowthPercentile | null => {
+    const value = measurement[INDICATOR_FIELDS[indicator]];
+    if (value === null || ageMonths === null) return null;
+    return calculateGrowthPercentile(indicator, subject.gender, ageMonths, value);
+  };
+
+  return {
+    ...measurement,
+    ageMonths,
+    percentiles: {
+      weight: percentileFor('weight'),
+      length: percentileFor('length'),
+      headCircumference: percentileFor('headCircumference'),
+    },
+  };
+}
+
+/**
+ * GET /growth
+ * List measurements with WHO percentiles, most recent first
+ *
+ * Query params:
+ * - childId: filter by child - optional
+ * - from, to: ISO date strings - optional (measuredAt >= from, measuredAt < to)
+ * - limit (default 50, max 200), offset (default 0)
+ *
+ * Percentiles are null when the gender isn't MALE/FEMALE, the birth date is unknown,
+ * or the child is older than the WHO tables cover (24 months).
+ */
+router.get(
+  '/',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+      const childId = req.query.childId as string | undefined;
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200); // Max 200 records per request
+      const offset = parseInt(req.query.offset as string) || 0;
+
+      const from = req.query.from ? new Date(req.query.from as string) : undefined;
+      const to = req.query.to ? new Date(req.query.to as string) : undefined;
+      if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+        return res.status(400).json({ error: 'Invalid query', message: 'from and to must be valid ISO date strings' });
+      }
+
+      const access = await getFamilyAccess(userId);
+
+      const where: Prisma.GrowthMeasurementWhereInput = {
+        userId: { in: access.memberIds },
+        ...(childId && { childId }),
+        measuredAt: { gte: from, lt: to },
+      };
+
+      const [measurements, total] = await Promise.all([
+        prisma.growthMeasurement.findMany({
+          where,
+          orderBy: { measuredAt: 'desc' },
+          take: limit,
+          skip: offset,
+        }),
+        prisma.growthMeasurement.count({ where }),
+      ]);
+
+      const subjects = await loadGrowthSubjects(measurements);
+
+      res.status(200).json({
+        measurements: measurements.map((m) => formatMeasurement(m, subjects.get(m.id)!)),
+        pagination: { limit, offset, total, hasMore: offset + measurements.length < total },
+      });
+    } catch (error) {
+      console.error('Error fetching growth measurements:', error);
+      res.status(500).json({ error: 'Failed to fetch growth measurements' });
+    }
+  }
+);
+
+/**
+ * GET /growth/chart
+ * Measurement points and WHO percentile curves for one indicator
+ *
+ * Query params:
+ * - indicator: weight | length | headCircumference - required
+ * - childId: child to chart - optional (defaults to the family's only child, or the profile's baby)
+ *
+ * Curves are the 3rd, 15th, 50th, 85th and 97th percentiles for each month from 0 to 24.
+ * Curves are empty when the gender has no WHO reference (OTHER, PREFER_NOT_TO_SAY or unset).
+ */
+router.get(
+  '/chart',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+      const indicator = req.query.indicator as GrowthIndicator;
+
+      if (!GROWTH_INDICATORS.includes(indicator)) {
+        return res.status(400).json({ error: 'Invalid indicator', validIndicators: GROWTH_INDICATORS });
+      }
+
+      const childId = await resolveChildForRecord(userId, req.query.childId as string | undefined);
+      if (childId === undefined) {
+        return res.status(404).json({ error: 'Child not found' });
+      }
+
+      const access = await getFamilyAccess(userId);
+
+      // Chart a child, or the profile's baby for accounts without children
+      let subject: GrowthSubject;
+      if (childId) {
+        const child = await findAccessibleChild(userId, childId);
+        subject = { birthDate: child?.birthDate ?? null, gender: child?.gender ?? null };
+      } else {
+        const profile = await prisma.userProfile.findUnique({
+          where: { userId },
+          select: { babyBirthDate: true, babyGender: true },
+        });
+        subject = { birthDate: profile?.babyBirthDate ?? null, gender: profile?.babyGender ?? null };
+      }
+
+      const field = INDICATOR_FIELDS[indicator];
+      const measurements = await prisma.growthMeasurement.findMany({
+        where: {
+          userId: childId ? { in: access.memberIds } : userId,
+          childId,
+          [field]: { not: null },
+        },
+        orderBy: { measuredAt: 'asc' },
+      });
+
+      const points = measurements.map((measurement) => {
+        const ageMonths = getAgeAtMeasurement(subject, measurement.measuredAt);
+        const value = measurement[field]!;
+        const percentile = ageMonths !== null
+          ? calculateGrowthPercentile(indicator, subject.gender, ageMonths, value)
+          : null;
+
+        return {
+          measurementId: measurement.id,
+          measuredAt: measurement.measuredAt,
+          ageMonths,
+          value,
+          zScore: percentile?.zScore ?? null,
+          percentile: percentile?.percentile ?? null,
+        };
+      });
+
+      res.status(200).json({
+        indicator,
+        unit: getIndicatorUnit(indicator),
+        childId,
+        gender: subject.gender,
+        birthDate: subject.birthDate,
+        points,
+        curves: getPercentileCurves(indicator, subject.gender),
+      });
+    } catch (error) {
+      console.error('Error building growth chart:', error);
+      res.status(500).json({ error: 'Failed to build growth chart' });
+    }
+  }
+);
+
+/**
+ * POST /growth
+ * Log a growth measurement
+ *
+ * Request body:
+ * - measuredAt: ISO date string - optional (default: now)
+ * - weightKg: number - optional
+ * - lengthCm: number - optional
+ * - headCircumferenceCm: number - optional
+ * - notes: string - optional
+ * - childId: string - optional (required to pick a child when the family has several)
+ *
+ * At least one of weightKg, lengthCm, headCircumferenceCm is required.
+ */
+router.post(
+  '/',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+      const body = req.body as MeasurementInput;
+
+      const access = await getFamilyAccess(userId);
+      if (!access.canEdit) {
+        return res.status(403).json({ error: 'Forbidden', message: 'Family viewers cannot log measurements' });
+      }
+
+      const parsed = parseMeasurementInput(body);
+      if ('error' in parsed) {
+        return res.status(400).json({ error: 'Invalid measurement', message: parsed.error });
+      }
+
+      const { weightKg, lengthCm, headCircumferenceCm } = parsed.data;
+      if (weightKg == null && lengthCm == null && headCircumferenceCm == null) {
+        return res.status(400).json({
+          error: 'Missing required fields',
+          message: 'Provide at least one of: weightKg, lengthCm, headCircumferenceCm',
+        });
+      }
+
+      const childId = await resolveChildForRecord(userId, body.childId);
+      if (childId === undefined) {
+        return res.status(404).json({ error: 'Child not found' });
+      }
+
+      const measurement = await prisma.growthMeasurement.create({
+        data: {
+          ...(parsed.data as Prisma.GrowthMeasurementUncheckedCreateInput),
+          userId,
+          childId,
+          measuredAt: (parsed.data.measuredAt as Date | undefined) ?? new Date(),
+        },
+      });
+
+      console.log(`📏 Logged growth measurement ${measurement.id} for user ${userId}`);
+
+      const subjects = await loadGrowthSubjects([measurement]);
+
+      res.status(201).json({
+        message: 'Measurement logged successfully',
+        measurement: formatMeasurement(measurement, subjects.get(measurement.id)!),
+      });
+    } catch (error) {
+      console.error('Error logging growth measurement:', error);
+      res.status(500).json({ error: 'Failed to log growth measurement' });
+    }
+  }
+);
+
+/**
+ * PUT /growth/:id
+ * Update a growth measurement
+ *
+ * Request body: any fields of POST /growth except childId (null clears a measurement)
+ * At least one measurement must remain set.
+ */
+router.put(
+  '/:id',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+      const measurementId = req.params.id;
+
+      const existingMeasurement = await prisma.growthMeasurement.findUnique({
+        where: { id: measurementId },
+      });
+
+      if (!existingMeasurement) {
+        return res.status(404).json({ error: 'Measurement not found' });
+      }
+
+      // Verify measurement belongs to the user's family and user can edit (security check)
+      const access = await getFamilyAccess(userId);
+      if (!access.memberIds.includes(existingMeasurement.userId) || !access.canEdit) {
+        return res.status(403).json({
+          error: 'Forbidden',
+          message: 'You do not have permission to update this measurement',
+        });
+      }
+
+      const parsed = parseMeasurementInput(req.body as MeasurementInput);
+      if ('error' in parsed) {
+        return res.status(400).json({ error: 'Invalid measurement', message: parsed.error });
+      }
+
+      const remaining = GROWTH_INDICATORS.some((indicator) => {
+        const field = INDICATOR_FIELDS[indicator];
+        return parsed.data[field] !== undefined ? parsed.data[field] !== null : existingMeasurement[field] !== null;
+      });
+      if (!remaining) {
+        return res.status(400).json({
+          error: 'Invalid measurement',
+          message: 'At least one of weightKg, lengthCm, headCircumferenceCm must remain set',
+        });
+      }
+
+      const measurement = await prisma.growthMeasurement.update({
+        where: { id: measurementId },
+        data: parsed.data,
+      });
+
+      const subjects = await loadGrowthSubjects([measurement]);
+
+      res.status(200).json({
+        message: 'Measurement updated successfully',
+        measurement: formatMeasurement(measurement, subjects.get(measurement.id)!),
+      });
+    } catch (error) {
+      console.error('Error updating growth measurement:', error);
+      res.status(500).json({ error: 'Failed to update growth measurement' });
+    }
+  }
+);
+
+/**
+ * DELETE /growth/:id
+ * Delete a growth measurement
+ *
+ * Verifies the measurement belongs to the user's family and the user may edit it.
+ */
+router.delete(
+  '/:id',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+      const measurementId = req.params.id;
+
+      const measurement = await prisma.growthMeasurement.findUnique({
+        where: { id: measurementId },
+        select: { id: true, userId: true },
+      });
+
+      if (!measurement) {
+        return res.status(404).json({ error: 'Measurement not found' });
+      }
+
+      // Verify measurement belongs to the user's family and user can edit (security check)
+      const access = await getFamilyAccess(userId);
+      if (!access.memberIds.includes(measurement.userId) || !access.canEdit) {
+        return res.status(403).json({
+          error: 'Forbidden',
+          message: 'You do not have permission to delete this measurement',
+        });
+      }
+
+      await prisma.growthMeasurement.delete({
+        where: { id: measurementId },
+      });
+
+      res.status(200).json({
+        message: 'Measurement deleted successfully',
+        measurementId,
+      });
+    } catch (error) {
+      console.error('Error deleting growth measurement:', error);
+      res.status(500).json({ error: 'Failed to delete growth measurement' });
+    }
+  }
+);
+
+export default router;
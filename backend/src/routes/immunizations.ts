@@ -0,0 +1,543 @@
+/**
+ * Immunization API Routes
+ *
+ * Handles the reference vaccination schedule, per-child vaccination records,
+ * and computed upcoming/due/overdue doses.
+ *
+ * Schedules are per country (seeded from data/immunization-schedules.json with
+ * npm run seed:immunizations). The country comes from the query, the user's profile,
+ * or defaults to US. Records are scoped like milestones: visible to the user's family,
+ * editable by owners and co-parents.
+ *
+ * - GET /immunizations/schedule - Reference schedule for a country
+ * - GET /immunizations/status - Dose statuses for a child
+ * - GET /immunizations/records - List vaccination records
+ * - POST /immunizations/records - Record a vaccination
+ * - PUT /immunizations/records/:id - Update a vaccination record
+ * - DELETE /immunizations/records/:id - Delete a vaccination record
+ */
+
+import express, { Response } from 'express';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { authenticateToken, AuthenticatedRequest } from '../middleware/auth';
+import { getFamilyAccess } from '../services/family';
+import { findAccessibleChild, resolveChildForRecord } from '../services/children';
+import { ScheduleDose, computeDoseStatuses, isScheduleAge } from '../utils/immunizations';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+// Schedule used when neither the request nor the profile names a country
+const DEFAULT_SCHEDULE_COUNTRY = 'US';
+
+// Default and maximum look-ahead for upcoming doses (days)
+const DEFAULT_UPCOMING_DAYS = 30;
+const MAX_UPCOMING_DAYS = 365;
+
+/**
+ * Vaccination record fields accepted in create and update requests
+ */
+interface RecordInput {
+  scheduleDoseId?: string | null;
+  vaccineCode?: string;
+  doseNumber?: number | null;
+  administeredAt?: string;
+  provider?: string | null;
+  lotNumber?: string | null;
+  notes?: string | null;
+  childId?: string;
+}
+
+/**
+ * Picks the schedule country for a request
+ *
+ * @param userId - Requesting user
+ * @param requestedCountry - Country from the query string, if any
+ * @returns ISO country code, or null if the requested value is malformed
+ */
+async function resolveScheduleCountry(userId: string, requestedCountry: unknown): Promise<string | null> {
+  if (requestedCountry !== undefined) {
+    if (typeof requestedCountry !== 'string' || !/^[A-Za-z]{2}$/.test(requestedCountry)) {
+      return null;
+    }
+    return requestedCountry.toUpperCase();
+  }
+
+  const profile = await prisma.userProfile.findUnique({
+    where: { userId },
+    select: { country: true },
+  });
+
+  return profile?.country ?? DEFAULT_SCHEDULE_COUNTRY;
+}
+
+/**
+ * Loads a country's reference schedule
+ * Doses with malformed ages are skipped (and logged) rather than failing the request.
+ *
+ * @param country - ISO country code
+ * @returns Schedule doses in schedule order
+ */
+async function loadSchedule(country: string): Promise<ScheduleDose[]> {
+  const rows = await prisma.immunizationScheduleDose.findMany({
+    where: { country },
+    orderBy: { sortOrder: 'asc' },
+  });
+
+  const doses: ScheduleDose[] = [];
+  for (const row of rows) {
+    if (!isScheduleAge(row.dueAge) || !isScheduleAge(row.overdueAge)) {
+      console.error(`Invalid schedule ages for dose ${row.id} (${row.country} ${row.vaccineCode})`);
+      continue;
+    }
+
+    doses.push({
+      id: row.id,
+      vaccineCode: row.vaccineCode,
+      vaccineName: row.vaccineName,
+      doseNumber: row.doseNumber,
+      dueAge: row.dueAge,
+      overdueAge: row.overdueAge,
+      notes: row.notes,
+    });
+  }
+
+  return doses;
+}
+
+/**
+ * Parses and validates vaccination record fields from a request body
+ * Only fields present in the body are returned, so it works for partial updates.
+ *
+ * @param body - Request body
+ * @returns Prisma data for the provided fields, or an error message
+ */
+function parseRecordInput(
+  body: RecordInput,
+): { data: Prisma.ImmunizationRecordUncheckedUpdateInput } | { error: string } {
+  const data: Prisma.ImmunizationRecordUncheckedUpdateInput = {};
+
+  if (body.vaccineCode !== undefined) {
+    if (typeof body.vaccineCode !== 'string' || !body.vaccineCode.trim() || body.vaccineCode.length > 50) {
+      return { error: 'vaccineCode must be a non-empty string of up to 50 characters' };
+    }
+    data.vaccineCode = body.vaccineCode.trim();
+  }
+
+  if (body.doseNumber !== undefined) {
+    if (body.doseNumber !== null && (!Number.isInteger(body.doseNumber) || body.doseNumber < 1 || body.doseNumber > 20)) {
+      return { error: 'doseNumber must be an integer between 1 and 20' };
+    }
+    data.doseNumber = body.doseNumber;
+  }
+
+  if (body.administeredAt !== undefined) {
+    const administeredAt = new Date(body.administeredAt);
+    if (typeof body.administeredAt !== 'string' || isNaN(administeredAt.getTime())) {
+      return { error: 'administeredAt must be a valid ISO date string' };
+    }
+    if (administeredAt > new Date()) {
+      return { error: 'administeredAt cannot be in the future' };
+    }
+    data.administeredAt = administeredAt;
+  }
+
+  for (const field of ['provider', 'lotNumber', 'notes'] as const) {
+    const value = body[field];
+    if (value === undefined) continue;
+
+    if (value !== null && typeof value !== 'string') {
+      return { error: `${field} must be a string` };
+    }
+    data[field] = value?.trim() || null;
+  }
+
+  return { data };
+}
+
+/**
+ * Copies vaccine code and dose number from a schedule dose
+ *
+ * @param scheduleDoseId - Schedule dose to link, or null to unlink
+ * @returns Fields to store, or null if the dose doesn't exist
+ */
+async function linkScheduleDose(
+  scheduleDoseId: string | null,
+): Promise<Prisma.ImmunizationRecordUncheckedUpdateInput | null> {
+  if (!scheduleDoseId) {
+    return { scheduleDoseId: null };
+  }
+
+  const dose = await prisma.immunizationScheduleDose.findUnique({
+    where: { id: scheduleDoseId },
+    select: { id: true, vaccineCode: true, doseNumber: true },
+  });
+
+  if (!dose) {
+    return null;
+  }
+
+  return { scheduleDoseId: dose.id, vaccineCode: dose.vaccineCode, doseNumber: dose.doseNumber };
+}
+
+/**
+ * GET /immunizations/schedule
+ * Retrieve the reference immunization schedule
+ *
+ * Query params:
+ * - country: ISO country code (e.g. US, GB) - optional (default: profile country, then US)
+ *
+ * Returns the schedule doses and the list of countries with a schedule.
+ */
+router.get(
+  '/schedule',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+
+      const country = await resolveScheduleCountry(userId, req.query.country);
+      if (!country) {
+        return res.status(400).json({ error: 'Invalid country', message: 'country must be a 2-letter ISO code' });
+      }
+
+      const [doses, countries] = await Promise.all([
+        loadSchedule(country),
+        prisma.immunizationScheduleDose.findMany({
+          distinct: ['country'],
+          select: { country: true },
+          orderBy: { country: 'asc' },
+        }),
+      ]);
+
+      res.status(200).json({
+        country,
+        doses,
+        availableCountries: countries.map((row) => row.country),
+      });
+    } catch (error) {
+      console.error('Error fetching immunization schedule:', error);
+      res.status(500).json({ error: 'Failed to fetch immunization schedule' });
+    }
+  }
+);
+
+/**
+ * GET /immunizations/status
+ * Compute upcoming, due and overdue doses for a child
+ *
+ * Query params:
+ * - childId: child to check - optional (defaults to the family's only child, or the profile's baby)
+ * - country: ISO country code - optional (default: profile country, then US)
+ * - upcomingDays: look-ahead for upcoming doses (default 30, max 365)
+ *
+ * Requires the child's birth date.
+ * Returns doses grouped by status plus counts, each with due and overdue dates.
+ */
+router.get(
+  '/status',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+      const upcomingDays = Math.min(parseInt(req.query.upcomingDays as string) || DEFAULT_UPCOMING_DAYS, MAX_UPCOMING_DAYS);
+
+      const country = await resolveScheduleCountry(userId, req.query.country);
+      if (!country) {
+        return res.status(400).json({ error: 'Invalid country', message: 'country must be a 2-letter ISO code' });
+      }
+
+      const childId = await resolveChildForRecord(userId, req.query.childId as string | undefined);
+      if (childId === undefined) {
+        return res.status(404).json({ error: 'Child not found' });
+      }
+
+      // Check a child, or the profile's baby for accounts without children
+      let birthDate: Date | null;
+      if (childId) {
+        const child = await findAccessibleChild(userId, childId);
+        birthDate = child?.birthDate ?? null;
+      } else {
+        const profile = await prisma.userProfile.findUnique({
+          where: { userId },
+          select: { babyBirthDate: true },
+        });
+        birthDate = profile?.babyBirthDate ?? null;
+      }
+
+      if (!birthDate) {
+        return res.status(400).json({
+          error: 'Birth date required',
+          message: 'Add the baby\'s birth date to see the vaccination schedule',
+        });
+      }
+
+      const access = await getFamilyAccess(userId);
+
+      const [doses, records] = await Promise.all([
+        loadSchedule(country),
+        prisma.immunizationRecord.findMany({
+          where: {
+            userId: childId ? { in: access.memberIds } : userId,
+            childId,
+          },
+          orderBy: { administeredAt: 'asc' },
+        }),
+      ]);
+
+      if (doses.length === 0) {
+        return res.status(404).json({ error: 'No immunization schedule for this country', country });
+      }
+
+      const statuses = computeDoseStatuses(doses, records, birthDate, new Date(), upcomingDays);
+      const byStatus = (status: string): typeof statuses => statuses.filter((entry) => entry.status === status);
+
+      res.status(200).json({
+        country,
+        childId,
+        birthDate,
+        overdue: byStatus('OVERDUE'),
+        due: byStatus('DUE'),
+        upcoming: byStatus('UPCOMING'),
+        scheduled: byStatus('SCHEDULED'),
+        completed: byStatus('COMPLETED'),
+        counts: {
+          overdue: byStatus('OVERDUE').length,
+          due: byStatus('DUE').length,
+          upcoming: byStatus('UPCOMING').length,
+          scheduled: byStatus('SCHEDULED').length,
+          completed: byStatus('COMPLETED').length,
+        },
+      });
+    } catch (error) {
+      console.error('Error computing immunization status:', error);
+      res.status(500).json({ error: 'Failed to compute immunization status' });
+    }
+  }
+);
+
+/**
+ * GET /immunizations/records
+ * List vaccination records, most recent first
+ *
+ * Query params:
+ * - childId: filter by child - optional
+ */
+router.get(
+  '/records',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+      const childId = req.query.childId as string | undefined;
+
+      const access = await getFamilyAccess(userId);
+
+      const records = await prisma.immunizationRecord.findMany({
+        where: {
+          userId: { in: access.memberIds },
+          ...(childId && { childId }),
+        },
+        include: {
+          scheduleDose: {
+            select: { country: true, vaccineName: true },
+          },
+        },
+        orderBy: { administeredAt: 'desc' },
+      });
+
+      res.status(200).json({
+        records,
+        count: records.length,
+      });
+    } catch (error) {
+      console.error('Error fetching immunization records:', error);
+      res.status(500).json({ error: 'Failed to fetch immunization records' });
+    }
+  }
+);
+
+/**
+ * POST /immunizations/records
+ * Record a vaccination
+ *
+ * Request body:
+ * - scheduleDoseId: string - optional (links the record to a schedule dose)
+ * - vaccineCode: string - required without scheduleDoseId (e.g. "DTaP", "Flu")
+ * - doseNumber: number - optional
+ * - administeredAt: ISO date string - required
+ * - provider, lotNumber, notes: string - optional
+ * - childId: string - optional (required to pick a child when the family has several)
+ */
+router.post(
+  '/records',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+      const body = req.body as RecordInput;
+
+      const access = await getFamilyAccess(userId);
+      if (!access.canEdit) {
+        return res.status(403).json({ error: 'Forbidden', message: 'Family viewers cannot record vaccinations' });
+      }
+
+      const parsed = parseRecordInput(body);
+      if ('error' in parsed) {
+        return res.status(400).json({ error: 'Invalid vaccination record', message: parsed.error });
+      }
+
+      let data = parsed.data;
+      if (body.scheduleDoseId) {
+        const link = await linkScheduleDose(body.scheduleDoseId);
+        if (!link) {
+          return res.status(404).json({ error: 'Schedule dose not found' });
+        }
+        data = { ...data, ...link };
+      }
+
+      if (!data.vaccineCode || !data.administeredAt) {
+        return res.status(400).json({
+          error: 'Missing required fields',
+          required: ['administeredAt', 'vaccineCode (or scheduleDoseId)'],
+        });
+      }
+
+      const childId = await resolveChildForRecord(userId, body.childId);
+      if (childId === undefined) {
+        return res.status(404).json({ error: 'Child not found' });
+      }
+
+      const record = await prisma.immunizationRecord.create({
+        data: {
+          ...(data as Prisma.ImmunizationRecordUncheckedCreateInput),
+          userId,
+          childId,
+        },
+      });
+
+      console.log(`💉 Recorded ${record.vaccineCode} for user ${userId}`);
+
+      res.status(201).json({
+        message: 'Vaccination recorded successfully',
+        record,
+      });
+    } catch (error) {
+      console.error('Error recording vaccination:', error);
+      res.status(500).json({ error: 'Failed to record vaccination' });
+    }
+  }
+);
+
+/**
+ * PUT /immunizations/records/:id
+ * Update a vaccination record
+ *
+ * Request body: any fields of POST /immunizations/records except childId
+ * (scheduleDoseId: null unlinks the record from the schedule)
+ */
+router.put(
+  '/records/:id',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+      const recordId = req.params.id;
+      const body = req.body as RecordInput;
+
+      const existingRecord = await prisma.immunizationRecord.findUnique({
+        where: { id: recordId },
+        select: { id: true, userId: true },
+      });
+
+      if (!existingRecord) {
+        return res.status(404).json({ error: 'Vaccination record not found' });
+      }
+
+      // Verify record belongs to the user's family and user can edit (security check)
+      const access = await getFamilyAccess(userId);
+      if (!access.memberIds.includes(existingRecord.userId) || !access.canEdit) {
+        return res.status(403).json({
+          error: 'Forbidden',
+          message: 'You do not have permission to update this vaccination record',
+        });
+      }
+
+      const parsed = parseRecordInput(body);
+      if ('error' in parsed) {
+        return res.status(400).json({ error: 'Invalid vaccination record', message: parsed.error });
+      }
+
+      let data = parsed.data;
+      if (body.scheduleDoseId !== undefined) {
+        const link = await linkScheduleDose(body.scheduleDoseId);
+        if (!link) {
+          return res.status(404).json({ error: 'Schedule dose not found' });
+        }
+        data = { ...data, ...link };
+      }
+
+      const record = await prisma.immunizationRecord.update({
+        where: { id: recordId },
+        data,
+      });
+
+      res.status(200).json({
+        message: 'Vaccination record updated successfully',
+        record,
+      });
+    } catch (error) {
+      console.error('Error updating vaccination record:', error);
+      res.status(500).json({ error: 'Failed to update vaccination record' });
+    }
+  }
+);
+
+/**
+ * DELETE /immunizations/records/:id
+ * Delete a vaccination record
+ *
+ * Verifies the record belongs to the user's family and the user may edit it.
+ */
+router.delete(
+  '/records/:id',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+      const recordId = req.params.id;
+
+      const record = await prisma.immunizationRecord.findUnique({
+        where: { id: recordId },
+        select: { id: true, userId: true },
+      });
+
+      if (!record) {
+        return res.status(404).json({ error: 'Vaccination record not found' });
+      }
+
+      // Verify record belongs to the user's family and user can edit (security check)
+      const access = await getFamilyAccess(userId);
+      if (!access.memberIds.includes(record.userId) || !access.canEdit) {
+        return res.status(403).json({
+          error: 'Forbidden',
+          message: 'You do not have permission to delete this vaccination record',
+        });
+      }
+
+      await prisma.immunizationRecord.delete({
+        where: { id: recordId },
+      });
+
+      res.status(200).json({
+        message: 'Vaccination record deleted successfully',
+        recordId,
+      });
+    } catch (error) {
+      console.error('Error deleting vaccination record:', error);
+      res.status(500).json({ error: 'Failed to delete vaccination record' });
+    }
+  }
+);
+
+export default router;
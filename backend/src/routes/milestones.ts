@@ -3,6 +3,9 @@
  *
  * Handles milestone CRUD operations for tracking baby development.
  * Milestones track physical, feeding, sleep, social, and health achievements.
+ *
+ * Milestones are shared within a family: every member can see them,
+ * owners and co-parents can create, edit and delete them, viewers are read-only.
  */
 
 import express, { Response } from 'express';
@@ -10,17 +13,20 @@ import { PrismaClient, MilestoneType } from '@prisma/client';
 import { authenticateToken, AuthenticatedRequest } from '../middleware/auth';
 import { getPresignedUrl } from '../utils/s3';
 import { suggestMilestones } from '../utils/milestones';
+import { getFamilyAccess } from '../services/family';
+import { findAccessibleChild } from '../services/children';
 
 const router = express.Router();
 const prisma = new PrismaClient();
 
 /**
  * GET /milestones
- * Retrieve user's milestones with optional filters
+ * Retrieve milestones of the user's family (or the user's own if not in a family)
  *
  * Query params:
  * - type: filter by milestone type (PHYSICAL, FEEDING, SLEEP, SOCIAL, HEALTH) - optional
  * - confirmed: filter by confirmed status (true/false) - optional
+ * - childId: filter by child - optional
  *
  * Returns milestones ordered by achievedDate descending (most recent first).
  * Generates presigned URLs for any photos associated with milestones.
@@ -35,11 +41,15 @@ router.get(
       // Parse optional filter parameters
       const typeFilter = req.query.type as MilestoneType | undefined;
       const confirmedFilter = req.query.confirmed as string | undefined;
+      const childIdFilter = req.query.childId as string | undefined;
 
       console.log(`🏆 Fetching milestones for user ${userId}`);
 
-      // Build where clause with userId and optional filters
-      const whereClause: any = { userId };
+      // Resolve which members' milestones the user can see
+      const access = await getFamilyAccess(userId);
+
+      // Build where clause with family members and optional filters
+      const whereClause: any = { userId: { in: access.memberIds } };
 
       // Filter by milestone type if provided
       if (typeFilter && Object.values(MilestoneType).includes(typeFilter)) {
@@ -51,12 +61,18 @@ router.get(
         whereClause.confirmed = confirmedFilter === 'true';
       }
 
+      // Filter by child if provided
+      if (childIdFilter) {
+        whereClause.childId = childIdFilter;
+      }
+
       // Fetch milestones from database
       const milestones = await prisma.milestone.findMany({
         where: whereClause,
         orderBy: { achievedDate: 'desc' }, // Most recent milestones first
         select: {
           id: true,
+          childId: true,
           type: true,
           name: true,
           achievedDate: true,
@@ -79,6 +95,7 @@ router.get(
 
           return {
             id: milestone.id,
+            childId: milestone.childId,
             type: milestone.type,
             name: milestone.name,
             achievedDate: milestone.achievedDate,
@@ -116,8 +133,10 @@ router.get(
  * - notes: string - optional
  * - photoUrls: string[] (S3 keys) - optional
  * - confirmed: boolean - optional (default: true)
+ * - childId: string - optional (child the milestone belongs to)
  *
  * Validates achievedDate is not in the future.
+ * Family viewers cannot create milestones.
  * Returns created milestone with generated ID.
  */
 router.post(
@@ -135,8 +154,18 @@ router.post(
         notes,
         photoUrls,
         confirmed,
+        childId,
       } = req.body;
 
+      // Viewers have read-only access to family milestones
+      const access = await getFamilyAccess(userId);
+      if (!access.canEdit) {
+        return res.status(403).json({
+          error: 'Forbidden',
+          message: 'Family viewers cannot add milestones',
+        });
+      }
+
       // Validate required fields
       if (!type || !name || !achievedDate) {
         return res.status(400).json({
@@ -173,12 +202,18 @@ router.post(
         });
       }
 
+      // Validate child belongs to the user's family
+      if (childId && !(await findAccessibleChild(userId, childId))) {
+        return res.status(404).json({ error: 'Child not found' });
+      }
+
       console.log(`🏆 Creating milestone for user ${userId}: ${name} (${type})`);
 
       // Create milestone in database
       const milestone = await prisma.milestone.create({
         data: {
           userId,
+          childId: childId || null,
           type,
           name,
           achievedDate: achievedDateObj,
@@ -203,6 +238,7 @@ router.post(
         message: 'Milestone created successfully',
         milestone: {
           id: milestone.id,
+          childId: milestone.childId,
           type: milestone.type,
           name: milestone.name,
           achievedDate: milestone.achievedDate,
@@ -229,8 +265,9 @@ router.post(
  * - name: string - optional
  * - achievedDate: ISO date string - optional
  * - notes: string - optional
+ * - childId: string | null - optional (move to another child, or detach)
  *
- * Verifies milestone belongs to authenticated user before updating.
+ * Verifies milestone belongs to the user's family and the user may edit it.
  * Returns updated milestone.
  */
 router.put(
@@ -242,7 +279,7 @@ router.put(
       const milestoneId = req.params.id;
 
       // Extract update data from request body
-      const { name, achievedDate, notes } = req.body;
+      const { name, achievedDate, notes, childId } = req.body;
 
       console.log(`🏆 Updating milestone ${milestoneId} for user ${userId}`);
 
@@ -257,8 +294,9 @@ router.put(
         return res.status(404).json({ error: 'Milestone not found' });
       }
 
-      // Verify milestone belongs to the authenticated user (security check)
-      if (existingMilestone.userId !== userId) {
+      // Verify milestone belongs to the user's family and user can edit (security check)
+      const access = await getFamilyAccess(userId);
+      if (!access.memberIds.includes(existingMilestone.userId) || !access.canEdit) {
         return res.status(403).json({
           error: 'Forbidden',
           message: 'You do not have permission to update this milestone',
@@ -300,6 +338,15 @@ router.put(
         updateData.notes = notes || null;
       }
 
+      if (childId !== undefined) {
+        // Validate child belongs to the user's family
+        if (childId && !(await findAccessibleChild(userId, childId))) {
+          return res.status(404).json({ error: 'Child not found' });
+        }
+
+        updateData.childId = childId || null;
+      }
+
       // Update milestone in database
       const updatedMilestone = await prisma.milestone.update({
         where: { id: milestoneId },
@@ -320,6 +367,7 @@ router.put(
         message: 'Milestone updated successfully',
         milestone: {
           id: updatedMilestone.id,
+          childId: updatedMilestone.childId,
           type: updatedMilestone.type,
           name: updatedMilestone.name,
           achievedDate: updatedMilestone.achievedDate,
@@ -342,7 +390,7 @@ router.put(
  * DELETE /milestones/:id
  * Delete a specific milestone
  *
- * Verifies milestone belongs to authenticated user before deletion.
+ * Verifies milestone belongs to the user's family and the user may edit it.
  * Permanently removes milestone from database.
  */
 router.delete(
@@ -366,8 +414,9 @@ router.delete(
         return res.status(404).json({ error: 'Milestone not found' });
       }
 
-      // Verify milestone belongs to the authenticated user (security check)
-      if (milestone.userId !== userId) {
+      // Verify milestone belongs to the user's family and user can edit (security check)
+      const access = await getFamilyAccess(userId);
+      if (!access.memberIds.includes(milestone.userId) || !access.canEdit) {
         return res.status(403).json({
           error: 'Forbidden',
           message: 'You do not have permission to delete this milestone',
@@ -477,8 +526,12 @@ router.get(
  * GET /milestones/suggestions
  * Get age-appropriate milestone suggestions for baby
  *
- * Returns milestone suggestions based on baby's age from user profile.
- * Filters out milestones that have already been confirmed by the user.
+ * Query params:
+ * - childId: child to suggest milestones for - optional (default: baby from user profile)
+ *
+ * Returns milestone suggestions based on the child's age.
+ * Filters out milestones that have already been confirmed for that child
+ * (or by the user's family when no child is selected).
  * Suggestions are not saved to database until user confirms them.
  */
 router.get(
@@ -488,27 +541,41 @@ router.get(
     try {
       const userId = req.user!.userId;
 
+      const childId = req.query.childId as string | undefined;
+
       console.log(`🏆 Fetching milestone suggestions for user ${userId}`);
 
-      // Fetch user profile to get baby's birth date
-      const userProfile = await prisma.userProfile.findUnique({
-        where: { userId },
-        select: { babyBirthDate: true },
-      });
+      // Get birth date from the selected child, or the baby in the user profile
+      let babyBirthDate: Date | null | undefined;
+      if (childId) {
+        const child = await findAccessibleChild(userId, childId);
+        if (!child) {
+          return res.status(404).json({ error: 'Child not found' });
+        }
+        babyBirthDate = child.birthDate;
+      } else {
+        const userProfile = await prisma.userProfile.findUnique({
+          where: { userId },
+          select: { babyBirthDate: true },
+        });
+        babyBirthDate = userProfile?.babyBirthDate;
+      }
 
-      // Check if user has set baby birth date
-      if (!userProfile || !userProfile.babyBirthDate) {
+      // Check if baby birth date is set
+      if (!babyBirthDate) {
         return res.status(400).json({
           error: 'Baby birth date not set',
           message: 'Please set baby birth date in your profile to get milestone suggestions',
         });
       }
 
-      // Fetch all confirmed milestones to exclude from suggestions
+      // Fetch all confirmed family milestones (of this child, if selected) to exclude from suggestions
+      const access = await getFamilyAccess(userId);
       const confirmedMilestones = await prisma.milestone.findMany({
         where: {
-          userId,
+          userId: { in: access.memberIds },
           confirmed: true,
+          ...(childId && { childId }),
         },
         select: { name: true },
       });
@@ -518,7 +585,7 @@ router.get(
 
       // Get age-appropriate suggestions
       const suggestions = suggestMilestones(
-        userProfile.babyBirthDate,
+        babyBirthDate,
         loggedMilestoneNames
       );
 
@@ -0,0 +1,223 @@
+/**
+ * Notification API Routes
+ *
+ * Handles push notification device registration and test notifications.
+ * Which notifications a user receives is configured with PUT /user/preferences
+ * (notificationPreferences, quiet hours and time zone).
+ *
+ * - GET /notifications/devices - List the user's registered devices
+ * - POST /notifications/devices - Register (or refresh) a device token
+ * - DELETE /notifications/devices/:id - Unregister a device
+ * - POST /notifications/test - Send a test notification to the user's devices
+ */
+
+import express, { Response } from 'express';
+import { PrismaClient, DevicePlatform, PushProvider } from '@prisma/client';
+import { authenticateToken, AuthenticatedRequest } from '../middleware/auth';
+import { sendNotificationToUser } from '../services/notifications';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+// Provider tokens are a few hundred characters; reject anything far larger
+const MAX_TOKEN_LENGTH = 4096;
+
+/**
+ * GET /notifications/devices
+ * List the user's registered devices
+ *
+ * Tokens are not returned; the app identifies its own device by id.
+ */
+router.get(
+  '/devices',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+
+      const devices = await prisma.deviceToken.findMany({
+        where: { userId },
+        select: {
+          id: true,
+          provider: true,
+          platform: true,
+          appVersion: true,
+          lastSeenAt: true,
+          createdAt: true,
+        },
+        orderBy: { lastSeenAt: 'desc' },
+      });
+
+      res.status(200).json({
+        devices,
+        count: devices.length,
+      });
+    } catch (error) {
+      console.error('Error fetching devices:', error);
+      res.status(500).json({ error: 'Failed to fetch devices' });
+    }
+  }
+);
+
+/**
+ * POST /notifications/devices
+ * Register a device token for push notifications
+ *
+ * Request body:
+ * - token: string - required (token from the push provider SDK)
+ * - platform: DevicePlatform (IOS | ANDROID | WEB) - required
+ * - provider: PushProvider (FCM | APNS) - optional (default: FCM)
+ * - appVersion: string - optional
+ *
+ * Call on every app start and whenever the SDK refreshes the token.
+ * A token already registered to another account moves to this user
+ * (the device signed in with a different account).
+ */
+router.post(
+  '/devices',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+      const { token, platform, provider = PushProvider.FCM, appVersion } = req.body as {
+        token?: unknown;
+        platform?: unknown;
+        provider?: unknown;
+        appVersion?: unknown;
+      };
+
+      if (typeof token !== 'string' || !token.trim() || token.length > MAX_TOKEN_LENGTH) {
+        return res.status(400).json({ error: 'Invalid token', message: 'token must be a non-empty string' });
+      }
+
+      if (!Object.values(DevicePlatform).includes(platform as DevicePlatform)) {
+        return res.status(400).json({
+          error: 'Invalid platform',
+          validPlatforms: Object.values(DevicePlatform),
+        });
+      }
+
+      if (!Object.values(PushProvider).includes(provider as PushProvider)) {
+        return res.status(400).json({
+          error: 'Invalid provider',
+          validProviders: Object.values(PushProvider),
+        });
+      }
+
+      if (appVersion !== undefined && appVersion !== null && typeof appVersion !== 'string') {
+        return res.status(400).json({ error: 'appVersion must be a string' });
+      }
+
+      const data = {
+        userId,
+        platform: platform as DevicePlatform,
+        provider: provider as PushProvider,
+        appVersion: appVersion?.trim() || null,
+        lastSeenAt: new Date(),
+      };
+
+      const device = await prisma.deviceToken.upsert({
+        where: { token: token.trim() },
+        update: data,
+        create: { ...data, token: token.trim() },
+        select: {
+          id: true,
+          provider: true,
+          platform: true,
+          appVersion: true,
+          lastSeenAt: true,
+          createdAt: true,
+        },
+      });
+
+      console.log(`📱 Registered ${device.platform} device for user ${userId}`);
+
+      res.status(201).json({
+        message: 'Device registered successfully',
+        device,
+      });
+    } catch (error) {
+      console.error('Error registering device:', error);
+      res.status(500).json({ error: 'Failed to register device' });
+    }
+  }
+);
+
+/**
+ * DELETE /notifications/devices/:id
+ * Unregister a device (e.g. on logout)
+ */
+router.delete(
+  '/devices/:id',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+      const deviceId = req.params.id;
+
+      const device = await prisma.deviceToken.findUnique({
+        where: { id: deviceId },
+        select: { id: true, userId: true },
+      });
+
+      // Don't reveal devices of other users
+      if (!device || device.userId !== userId) {
+        return res.status(404).json({ error: 'Device not found' });
+      }
+
+      await prisma.deviceToken.delete({
+        where: { id: deviceId },
+      });
+
+      res.status(200).json({
+        message: 'Device unregistered successfully',
+        deviceId,
+      });
+    } catch (error) {
+      console.error('Error unregistering device:', error);
+      res.status(500).json({ error: 'Failed to unregister device' });
+    }
+  }
+);
+
+/**
+ * POST /notifications/test
+ * Send a test notification to all of the user's devices
+ *
+ * Ignores category preferences and quiet hours, since the user asked for it.
+ * Returns the delivery summary.
+ */
+router.post(
+  '/test',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+
+      const result = await sendNotificationToUser(
+        userId,
+        {
+          category: null,
+          title: 'Notifications are working',
+          body: 'You will receive updates and reminders on this device.',
+          data: { type: 'test' },
+        },
+        { ignoreQuietHours: true },
+      );
+
+      if (result.reason === 'no_devices') {
+        return res.status(404).json({
+          error: 'No devices registered',
+          message: 'Register a device token before sending a test notification',
+        });
+      }
+
+      res.status(200).json(result);
+    } catch (error) {
+      console.error('Error sending test notification:', error);
+      res.status(500).json({ error: 'Failed to send test notification' });
+    }
+  }
+);
+
+export default router;
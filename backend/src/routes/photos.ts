@@ -3,6 +3,9 @@
  *
  * Handles photo uploads to S3, photo listing, deletion, and AI vision analysis.
  * Uses Multer middleware for multipart file handling.
+ *
+ * Photos are shared within a family: every member can see them,
+ * owners and co-parents can upload and delete them, viewers are read-only.
  */
 
 import express, { Response } from 'express';
@@ -11,6 +14,8 @@ import { PrismaClient } from '@prisma/client';
 import { authenticateToken, AuthenticatedRequest } from '../middleware/auth';
 import { uploadToS3, deleteFromS3, getPresignedUrl } from '../utils/s3';
 import { analyzePhoto, categorizePhoto } from '../services/openai';
+import { getFamilyAccess } from '../services/family';
+import { findAccessibleChild } from '../services/children';
 
 const router = express.Router();
 const prisma = new PrismaClient();
@@ -40,6 +45,11 @@ const upload = multer({
  * Upload single or multiple photos (max 3) to S3
  *
  * Free users limited to 100 photos total.
+ * Family viewers cannot upload photos.
+ *
+ * Form fields:
+ * - photos: image files (max 3)
+ * - childId: string - optional (child shown in the photos)
  * Compresses images before upload to save storage.
  * Returns photo objects with presigned URLs for immediate display.
  */
@@ -57,6 +67,15 @@ router.post(
         return res.status(400).json({ error: 'No files uploaded' });
       }
 
+      // Viewers have read-only access to family photos
+      const access = await getFamilyAccess(userId);
+      if (!access.canEdit) {
+        return res.status(403).json({
+          error: 'Forbidden',
+          message: 'Family viewers cannot upload photos',
+        });
+      }
+
       console.log(`📸 Uploading ${files.length} photo(s) for user ${userId}`);
 
       // Check user's subscription tier for photo limits
@@ -86,6 +105,13 @@ router.post(
         }
       }
 
+      // Validate child belongs to the user's family
+      const childId = req.body.childId as string | undefined;
+      const child = childId ? await findAccessibleChild(userId, childId) : null;
+      if (childId && !child) {
+        return res.status(404).json({ error: 'Child not found' });
+      }
+
       // Fetch user profile for AI context
       const userProfile = await prisma.userProfile.findUnique({
         where: { userId },
@@ -95,12 +121,16 @@ router.post(
         },
       });
 
+      // Selected child's details take precedence over the profile's baby
+      const babyBirthDate = child ? child.birthDate : userProfile?.babyBirthDate;
+      const babyName = child ? child.name : userProfile?.babyName;
+
       // Calculate baby age for context
       let babyAge: string | undefined;
-      if (userProfile?.babyBirthDate) {
+      if (babyBirthDate) {
         const today = new Date();
         const ageInDays = Math.floor(
-          (today.getTime() - userProfile.babyBirthDate.getTime()) / (1000 * 60 * 60 * 24)
+          (today.getTime() - babyBirthDate.getTime()) / (1000 * 60 * 60 * 24)
         );
         const ageInMonths = Math.floor(ageInDays / 30);
         const ageInWeeks = Math.floor(ageInDays / 7);
@@ -134,7 +164,7 @@ router.post(
           console.log(`🤖 Categorizing photo with AI...`);
           const categorization = await categorizePhoto(presignedUrl, {
             babyAge,
-            babyName: userProfile?.babyName || undefined,
+            babyName: babyName || undefined,
           });
 
           console.log(`✅ Photo categorized: ${categorization.categories.join(', ')}`);
@@ -143,6 +173,7 @@ router.post(
           const photo = await prisma.photo.create({
             data: {
               userId,
+              childId: child?.id,
               s3Key,
               metadata: {
                 originalName: file.originalname,
@@ -164,6 +195,7 @@ router.post(
 
           uploadedPhotos.push({
             id: photo.id,
+            childId: photo.childId,
             url: presignedUrl,
             s3Key: photo.s3Key,
             uploadedAt: photo.uploadedAt,
@@ -203,13 +235,15 @@ router.post(
 
 /**
  * GET /photos/list
- * Retrieve user's photo list with pagination and optional filters
+ * Retrieve photos of the user's family (or the user's own if not in a family)
+ * with pagination and optional filters
  *
  * Query params:
  * - limit: number of photos per page (default: 20, max: 100)
  * - offset: number of photos to skip (default: 0)
  * - milestoneId: filter by specific milestone (optional)
  * - albumId: filter by specific album (optional)
+ * - childId: filter by child (optional)
  *
  * Returns photos with presigned URLs for immediate display.
  */
@@ -227,11 +261,15 @@ router.get(
       // Parse optional filter parameters
       const milestoneId = req.query.milestoneId as string | undefined;
       const albumId = req.query.albumId as string | undefined;
+      const childId = req.query.childId as string | undefined;
 
       console.log(`📸 Fetching photos for user ${userId} (limit: ${limit}, offset: ${offset})`);
 
-      // Build where clause with userId and optional filters
-      const whereClause: any = { userId };
+      // Resolve which members' photos the user can see
+      const access = await getFamilyAccess(userId);
+
+      // Build where clause with family members and optional filters
+      const whereClause: any = { userId: { in: access.memberIds } };
 
       if (milestoneId) {
         whereClause.milestoneId = milestoneId;
@@ -241,6 +279,10 @@ router.get(
         whereClause.albumId = albumId;
       }
 
+      if (childId) {
+        whereClause.childId = childId;
+      }
+
       // Fetch photos from database with pagination
       const photos = await prisma.photo.findMany({
         where: whereClause,
@@ -254,6 +296,7 @@ router.get(
           metadata: true,
           milestoneId: true,
           albumId: true,
+          childId: true,
           analysisResults: true,
         },
       });
@@ -271,6 +314,7 @@ router.get(
             metadata: photo.metadata,
             milestoneId: photo.milestoneId,
             albumId: photo.albumId,
+            childId: photo.childId,
             analysisResults: photo.analysisResults,
           };
         })
@@ -301,7 +345,7 @@ router.get(
  * DELETE /photos/:id
  * Delete a specific photo from S3 and database
  *
- * Verifies photo ownership before deletion for security.
+ * Verifies photo belongs to the user's family and the user may edit it.
  * Permanently removes photo from S3 bucket and database.
  */
 router.delete(
@@ -329,8 +373,9 @@ router.delete(
         return res.status(404).json({ error: 'Photo not found' });
       }
 
-      // Verify photo belongs to the authenticated user (security check)
-      if (photo.userId !== userId) {
+      // Verify photo belongs to the user's family and user can edit (security check)
+      const access = await getFamilyAccess(userId);
+      if (!access.memberIds.includes(photo.userId) || !access.canEdit) {
         return res.status(403).json({
           error: 'Forbidden',
           message: 'You do not have permission to delete this photo',
@@ -372,6 +417,12 @@ router.delete(
  * Accepts a single photo, uploads to S3 for permanent storage,
  * then sends to GPT-4o Vision API for baby-related analysis.
  * Saves analysis results to database for future reference.
+ * Family viewers cannot upload photos for analysis.
+ *
+ * Form fields:
+ * - photo: image file
+ * - concerns: string - optional
+ * - childId: string - optional (child shown in the photo)
  */
 router.post(
   '/analyze',
@@ -387,11 +438,27 @@ router.post(
         return res.status(400).json({ error: 'No photo uploaded' });
       }
 
+      // Viewers have read-only access to family photos
+      const access = await getFamilyAccess(userId);
+      if (!access.canEdit) {
+        return res.status(403).json({
+          error: 'Forbidden',
+          message: 'Family viewers cannot upload photos',
+        });
+      }
+
       console.log(`🔍 Analyzing photo for user ${userId}: ${file.originalname}`);
 
       // Get optional user context from request body
       const concerns = req.body.concerns as string | undefined;
 
+      // Validate child belongs to the user's family
+      const childId = req.body.childId as string | undefined;
+      const child = childId ? await findAccessibleChild(userId, childId) : null;
+      if (childId && !child) {
+        return res.status(404).json({ error: 'Child not found' });
+      }
+
       // Fetch user profile to get baby age for context
       const userProfile = await prisma.userProfile.findUnique({
         where: { userId },
@@ -401,12 +468,15 @@ router.post(
         },
       });
 
+      // Selected child's birth date takes precedence over the profile's baby
+      const babyBirthDate = child ? child.birthDate : userProfile?.babyBirthDate;
+
       // Calculate baby age for analysis context
       let babyAge: string | undefined;
-      if (userProfile?.babyBirthDate) {
+      if (babyBirthDate) {
         const today = new Date();
         const ageInDays = Math.floor(
-          (today.getTime() - userProfile.babyBirthDate.getTime()) / (1000 * 60 * 60 * 24)
+          (today.getTime() - babyBirthDate.getTime()) / (1000 * 60 * 60 * 24)
         );
         const ageInMonths = Math.floor(ageInDays / 30);
         const ageInWeeks = Math.floor(ageInDays / 7);
@@ -432,6 +502,7 @@ router.post(
       const photo = await prisma.photo.create({
         data: {
           userId,
+          childId: child?.id,
           s3Key,
           metadata: {
             originalName: file.originalname,
@@ -470,6 +541,7 @@ router.post(
       // Return analysis results and photo URL
       res.status(200).json({
         photoId: photo.id,
+        childId: photo.childId,
         photoUrl: presignedUrl,
         analysis,
         disclaimer,
@@ -0,0 +1,1175 @@
+/**
+ * Pregnancy API Routes
+ *
+ * Week-by-week pregnancy content (seeded from data/pregnancy-weeks.json), the
+ * current week from the due date, and a prenatal checklist.
+ *
+ * The checklist belongs to the pregnant user. Default items (PRENATAL_CHECKLIST_TEMPLATES)
+ * are added the first time the checklist is opened; users can add, edit and remove items.
+ *
+ * Kick counts and contraction timing sessions are scoped like activity tracking:
+ * visible to the user's family, recorded by owners and co-parents. Only one session
+ * of each kind can run at a time per family.
+ *
+ * - GET /pregnancy/week/:n - Reference content for week n (1-42)
+ * - GET /pregnancy/current - Progress and content for the current week
+ * - GET /pregnancy/checklist - Prenatal checklist
+ * - POST /pregnancy/checklist - Add a checklist item
+ * - PUT /pregnancy/checklist/:id - Update or tick off a checklist item
+ * - DELETE /pregnancy/checklist/:id - Remove a checklist item
+ * - GET/POST /pregnancy/kicks - List or start kick count sessions
+ * - POST /pregnancy/kicks/:id/record, POST /pregnancy/kicks/:id/stop - Record a kick, stop counting
+ * - GET /pregnancy/kicks/:id/analysis - Kicks and time to 10 kicks
+ * - DELETE /pregnancy/kicks/:id - Delete a kick count session
+ * - GET/POST /pregnancy/contractions - List or start contraction timing sessions
+ * - POST /pregnancy/contractions/:id/record, POST /pregnancy/contractions/:id/stop - Time a contraction, stop timing
+ * - GET /pregnancy/contractions/:id/analysis - Contractions, frequency, duration and the 5-1-1 pattern
+ * - DELETE /pregnancy/contractions/:id - Delete a contraction timing session
+ */
+
+import express, { Response } from 'express';
+import { PrismaClient, PrenatalChecklistItem, KickCountSession, ContractionSession, Contraction } from '@prisma/client';
+import { authenticateToken, AuthenticatedRequest } from '../middleware/auth';
+import { findAccessibleChild } from '../services/children';
+import { getFamilyAccess } from '../services/family';
+import {
+  MAX_PREGNANCY_WEEK,
+  MIN_PREGNANCY_WEEK,
+  PRENATAL_CHECKLIST_TEMPLATES,
+  getPregnancyProgress,
+  parsePregnancyWeek,
+} from '../utils/pregnancy';
+import { ContractionAnalysis, KickAnalysis, analyzeContractions, analyzeKickSession } from '../utils/pregnancyTracking';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+// Week content fields returned by the API
+const WEEK_CONTENT_SELECT = {
+  week: true,
+  trimester: true,
+  babySize: true,
+  babyLengthCm: true,
+  babyWeightG: true,
+  fetalDevelopment: true,
+  commonSymptoms: true,
+  prenatalAppointments: true,
+  tips: true,
+  sources: true,
+} as const;
+
+// Incomplete checklist items due within this many weeks are shown on GET /pregnancy/current
+const CHECKLIST_LOOKAHEAD_WEEKS = 2;
+
+// Allowed clock difference between the phone and the server for recorded times
+const MAX_CLOCK_SKEW_MS = 60 * 1000;
+
+/**
+ * Checklist fields accepted in create and update requests
+ */
+interface ChecklistItemInput {
+  title?: string;
+  notes?: string | null;
+  dueWeek?: number | null;
+  completed?: boolean;
+}
+
+/**
+ * Parses and validates checklist item fields from a request body
+ * Only fields present in the body are returned, so it works for partial updates.
+ *
+ * @param body - Request body
+ * @returns Prisma data for the provided fields, or an error message
+ */
+function parseChecklistItemInput(
+  body: ChecklistItemInput,
+): { data: Partial<Pick<PrenatalChecklistItem, 'title' | 'notes' | 'dueWeek' | 'completedAt'>> } | { error: string } {
+  const data: Partial<Pick<PrenatalChecklistItem, 'title' | 'notes' | 'dueWeek' | 'completedAt'>> = {};
+
+  if (body.title !== undefined) {
+    if (typeof body.title !== 'string' || !body.title.trim()) {
+      return { error: 'title must be a non-empty string' };
+    }
+    data.title = body.title.trim().slice(0, 200);
+  }
+
+  if (body.notes !== undefined) {
+    if (body.notes !== null && typeof body.notes !== 'string') {
+      return { error: 'notes must be a string' };
+    }
+    data.notes = body.notes?.trim() || null;
+  }
+
+  if (body.dueWeek !== undefined) {
+    if (
+      body.dueWeek !== null &&
+      (!Number.isInteger(body.dueWeek) || body.dueWeek < MIN_PREGNANCY_WEEK || body.dueWeek > MAX_PREGNANCY_WEEK)
+    ) {
+      return { error: `dueWeek must be a whole number between ${MIN_PREGNANCY_WEEK} and ${MAX_PREGNANCY_WEEK}` };
+    }
+    data.dueWeek = body.dueWeek;
+  }
+
+  if (body.completed !== undefined) {
+    if (typeof body.completed !== 'boolean') {
+      return { error: 'completed must be a boolean' };
+    }
+    data.completedAt = body.completed ? new Date() : null;
+  }
+
+  return { data };
+}
+
+/**
+ * Formats a checklist item for API responses
+ *
+ * @param item - Checklist item
+ * @param currentWeek - Current week of pregnancy (null when not pregnant)
+ * @returns Item with completed and overdue flags
+ */
+function formatChecklistItem(
+  item: PrenatalChecklistItem,
+  currentWeek: number | null,
+): PrenatalChecklistItem & { completed: boolean; overdue: boolean } {
+  return {
+    ...item,
+    completed: item.completedAt !== null,
+    overdue: item.completedAt === null && item.dueWeek !== null && currentWeek !== null && currentWeek > item.dueWeek,
+  };
+}
+
+/**
+ * Parses an optional timestamp of a kick, contraction or session
+ * Times can't be in the future (beyond a small clock difference).
+ *
+ * @param value - Raw value from the request
+ * @param field - Field name for the error message
+ * @returns Date, undefined if not provided, or an error message
+ */
+function parseEventTime(value: unknown, field: string): { value: Date | undefined } | { error: string } {
+  if (value === undefined || value === null) {
+    return { value: undefined };
+  }
+
+  const date = new Date(value as string);
+  if (typeof value !== 'string' || isNaN(date.getTime())) {
+    return { error: `${field} must be a valid ISO date string` };
+  }
+  if (date.getTime() > Date.now() + MAX_CLOCK_SKEW_MS) {
+    return { error: `${field} cannot be in the future` };
+  }
+
+  return { value: date };
+}
+
+/**
+ * Parses optional session notes
+ *
+ * @param value - Raw value from the request
+ * @returns Trimmed notes (empty becomes null), undefined if not provided, or an error message
+ */
+function parseNotes(value: unknown): { value: string | null | undefined } | { error: string } {
+  if (value === undefined) {
+    return { value: undefined };
+  }
+  if (value !== null && typeof value !== 'string') {
+    return { error: 'notes must be a string' };
+  }
+
+  return { value: value?.trim() || null };
+}
+
+/**
+ * Formats a kick count session for API responses
+ *
+ * @param session - Kick count session
+ * @returns Session with kicks in order and its analysis
+ */
+function formatKickSession(session: KickCountSession): KickCountSession & { analysis: KickAnalysis } {
+  return {
+    ...session,
+    kicks: [...session.kicks].sort((a, b) => a.getTime() - b.getTime()),
+    analysis: analyzeKickSession(session),
+  };
+}
+
+/**
+ * Formats a contraction timing session for API responses
+ *
+ * @param session - Session with its contractions
+ * @param includeContractions - Whether to return every contraction (detail view) or only the analysis
+ * @returns Session with its analysis
+ */
+function formatContractionSession(
+  session: ContractionSession & { contractions: Contraction[] },
+  includeContractions: boolean,
+): ContractionSession & { contractions?: Contraction[]; analysis: ContractionAnalysis } {
+  const { contractions, ...fields } = session;
+
+  return {
+    ...fields,
+    ...(includeContractions && {
+      contractions: [...contractions].sort((a, b) => a.startedAt.getTime() - b.startedAt.getTime()),
+    }),
+    analysis: analyzeContractions(contractions),
+  };
+}
+
+/**
+ * Loads a user's checklist, adding the default items the first time
+ * (and again if the user removed every item).
+ *
+ * @param userId - Pregnant user
+ * @returns Checklist items by due week (items without one last)
+ */
+async function loadChecklist(userId: string): Promise<PrenatalChecklistItem[]> {
+  const count = await prisma.prenatalChecklistItem.count({ where: { userId } });
+
+  if (count === 0) {
+    // skipDuplicates: concurrent first requests would otherwise add the defaults twice
+    await prisma.prenatalChecklistItem.createMany({
+      data: PRENATAL_CHECKLIST_TEMPLATES.map((template, index) => ({
+        userId,
+        templateKey: template.key,
+        title: template.title,
+        notes: template.notes ?? null,
+        dueWeek: template.dueWeek,
+        sortOrder: index,
+      })),
+      skipDuplicates: true,
+    });
+  }
+
+  return prisma.prenatalChecklistItem.findMany({
+    where: { userId },
+    orderBy: [{ dueWeek: { sort: 'asc', nulls: 'last' } }, { sortOrder: 'asc' }, { createdAt: 'asc' }],
+  });
+}
+
+/**
+ * Returns the current week of the user's own pregnancy
+ *
+ * @param userId - User to look up
+ * @returns Completed weeks, or null if the user isn't in pregnancy mode with a due date
+ */
+async function getCurrentPregnancyWeek(userId: string): Promise<number | null> {
+  const profile = await prisma.userProfile.findUnique({
+    where: { userId },
+    select: { mode: true, dueDate: true },
+  });
+
+  if (profile?.mode !== 'PREGNANCY' || !profile.dueDate) {
+    return null;
+  }
+  return getPregnancyProgress(profile.dueDate).weeks;
+}
+
+/**
+ * GET /pregnancy/week/:n
+ * Get reference content for one week of pregnancy
+ *
+ * Returns fetal development, common symptoms, prenatal appointments and tips,
+ * plus the neighbouring week numbers for navigation.
+ *
+ * This endpoint is PUBLIC (no authentication) to allow previewing pregnancy content.
+ */
+router.get(
+  '/week/:n',
+  async (req, res: Response) => {
+    try {
+      const week = parsePregnancyWeek(req.params.n);
+      if (week === null) {
+        return res.status(400).json({
+          error: 'Invalid week',
+          message: `Week must be a whole number between ${MIN_PREGNANCY_WEEK} and ${MAX_PREGNANCY_WEEK}`,
+        });
+      }
+
+      const content = await prisma.pregnancyWeekContent.findUnique({
+        where: { week },
+        select: WEEK_CONTENT_SELECT,
+      });
+
+      if (!content) {
+        console.log(`❌ Pregnancy content not found for week ${week}`);
+        return res.status(404).json({
+          error: 'Pregnancy content not found',
+          message: `No content found for week ${week}`,
+        });
+      }
+
+      res.status(200).json({
+        week: content,
+        previousWeek: week > MIN_PREGNANCY_WEEK ? week - 1 : null,
+        nextWeek: week < MAX_PREGNANCY_WEEK ? week + 1 : null,
+      });
+    } catch (error) {
+      console.error('Error fetching pregnancy week content:', error);
+      res.status(500).json({ error: 'Failed to fetch pregnancy content' });
+    }
+  }
+);
+
+/**
+ * GET /pregnancy/current
+ * Get pregnancy progress and this week's content
+ *
+ * Query params:
+ * - childId: expected child to use the due date of - optional (default: due date from user profile)
+ *
+ * Returns the due date, progress (completed weeks and days, trimester, days until due),
+ * this week's content (null if not seeded) and incomplete checklist items due soon.
+ */
+router.get(
+  '/current',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+      const childId = req.query.childId as string | undefined;
+
+      // Get due date from the selected child, or the user profile in pregnancy mode
+      let dueDate: Date | null;
+      if (childId) {
+        const child = await findAccessibleChild(userId, childId);
+        if (!child) {
+          return res.status(404).json({ error: 'Child not found' });
+        }
+        if (child.birthDate) {
+          return res.status(400).json({
+            error: 'Baby already born',
+            message: 'Pregnancy content is only available for children who are not born yet',
+          });
+        }
+        dueDate = child.dueDate;
+      } else {
+        const profile = await prisma.userProfile.findUnique({
+          where: { userId },
+          select: { mode: true, dueDate: true },
+        });
+
+        if (profile?.mode !== 'PREGNANCY') {
+          return res.status(400).json({
+            error: 'Not in pregnancy mode',
+            message: 'Pregnancy content is only available in pregnancy mode',
+          });
+        }
+        dueDate = profile.dueDate;
+      }
+
+      if (!dueDate) {
+        return res.status(400).json({
+          error: 'Due date not set',
+          message: 'Please set the due date in your profile to see pregnancy progress',
+        });
+      }
+
+      const progress = getPregnancyProgress(dueDate);
+
+      const [content, checklist] = await Promise.all([
+        prisma.pregnancyWeekContent.findUnique({
+          where: { week: progress.contentWeek },
+          select: WEEK_CONTENT_SELECT,
+        }),
+        loadChecklist(userId),
+      ]);
+
+      const dueSoon = checklist.filter((item) =>
+        item.completedAt === null &&
+        item.dueWeek !== null &&
+        item.dueWeek <= progress.weeks + CHECKLIST_LOOKAHEAD_WEEKS
+      );
+
+      res.status(200).json({
+        dueDate,
+        progress,
+        week: content,
+        checklist: {
+          total: checklist.length,
+          completed: checklist.filter((item) => item.completedAt !== null).length,
+          dueSoon: dueSoon.map((item) => formatChecklistItem(item, progress.weeks)),
+        },
+      });
+    } catch (error) {
+      console.error('Error fetching current pregnancy week:', error);
+      res.status(500).json({ error: 'Failed to fetch pregnancy progress' });
+    }
+  }
+);
+
+/**
+ * GET /pregnancy/checklist
+ * Get the prenatal checklist
+ *
+ * The default items are added the first time the checklist is opened.
+ * Items are flagged overdue when their due week has passed (only in pregnancy mode with a due date).
+ */
+router.get(
+  '/checklist',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+
+      const [items, currentWeek] = await Promise.all([
+        loadChecklist(userId),
+        getCurrentPregnancyWeek(userId),
+      ]);
+
+      res.status(200).json({
+        items: items.map((item) => formatChecklistItem(item, currentWeek)),
+        currentWeek,
+        total: items.length,
+        completed: items.filter((item) => item.completedAt !== null).length,
+      });
+    } catch (error) {
+      console.error('Error fetching prenatal checklist:', error);
+      res.status(500).json({ error: 'Failed to fetch prenatal checklist' });
+    }
+  }
+);
+
+/**
+ * POST /pregnancy/checklist
+ * Add an item to the prenatal checklist
+ *
+ * Request body:
+ * - title: string - required
+ * - notes: string - optional
+ * - dueWeek: week of pregnancy it should be done by (1-42) - optional
+ * - completed: boolean - optional (default false)
+ */
+router.post(
+  '/checklist',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+      const body = req.body as ChecklistItemInput;
+
+      if (body.title === undefined) {
+        return res.status(400).json({ error: 'Invalid checklist item', message: 'title is required' });
+      }
+
+      const parsed = parseChecklistItemInput(body);
+      if ('error' in parsed) {
+        return res.status(400).json({ error: 'Invalid checklist item', message: parsed.error });
+      }
+
+      const item = await prisma.prenatalChecklistItem.create({
+        data: {
+          userId,
+          title: parsed.data.title!,
+          notes: parsed.data.notes ?? null,
+          dueWeek: parsed.data.dueWeek ?? null,
+          completedAt: parsed.data.completedAt ?? null,
+        },
+      });
+
+      const currentWeek = await getCurrentPregnancyWeek(userId);
+
+      res.status(201).json({
+        message: 'Checklist item added successfully',
+        item: formatChecklistItem(item, currentWeek),
+      });
+    } catch (error) {
+      console.error('Error adding prenatal checklist item:', error);
+      res.status(500).json({ error: 'Failed to add checklist item' });
+    }
+  }
+);
+
+/**
+ * PUT /pregnancy/checklist/:id
+ * Update a checklist item or tick it off
+ *
+ * Request body: any fields of POST /pregnancy/checklist (completed: false reopens the item)
+ */
+router.put(
+  '/checklist/:id',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+      const itemId = req.params.id;
+
+      const existingItem = await prisma.prenatalChecklistItem.findUnique({
+        where: { id: itemId },
+        select: { id: true, userId: true, completedAt: true },
+      });
+
+      if (!existingItem || existingItem.userId !== userId) {
+        return res.status(404).json({ error: 'Checklist item not found' });
+      }
+
+      const parsed = parseChecklistItemInput(req.body as ChecklistItemInput);
+      if ('error' in parsed) {
+        return res.status(400).json({ error: 'Invalid checklist item', message: parsed.error });
+      }
+
+      // Keep the original completion time when an already completed item is ticked again
+      if (parsed.data.completedAt && existingItem.completedAt) {
+        delete parsed.data.completedAt;
+      }
+
+      const item = await prisma.prenatalChecklistItem.update({
+        where: { id: itemId },
+        data: parsed.data,
+      });
+
+      const currentWeek = await getCurrentPregnancyWeek(userId);
+
+      res.status(200).json({
+        message: 'Checklist item updated successfully',
+        item: formatChecklistItem(item, currentWeek),
+      });
+    } catch (error) {
+      console.error('Error updating prenatal checklist item:', error);
+      res.status(500).json({ error: 'Failed to update checklist item' });
+    }
+  }
+);
+
+/**
+ * DELETE /pregnancy/checklist/:id
+ * Remove a checklist item
+ */
+router.delete(
+  '/checklist/:id',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+      const itemId = req.params.id;
+
+      const item = await prisma.prenatalChecklistItem.findUnique({
+        where: { id: itemId },
+        select: { id: true, userId: true },
+      });
+
+      if (!item || item.userId !== userId) {
+        return res.status(404).json({ error: 'Checklist item not found' });
+      }
+
+      await prisma.prenatalChecklistItem.delete({ where: { id: itemId } });
+
+      res.status(200).json({ message: 'Checklist item deleted successfully' });
+    } catch (error) {
+      console.error('Error deleting prenatal checklist item:', error);
+      res.status(500).json({ error: 'Failed to delete checklist item' });
+    }
+  }
+);
+
+/**
+ * GET /pregnancy/kicks
+ * List the family's kick count sessions, newest first
+ *
+ * Query params:
+ * - limit (default 20, max 100), offset (default 0)
+ */
+router.get(
+  '/kicks',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+      const offset = parseInt(req.query.offset as string) || 0;
+
+      const access = await getFamilyAccess(userId);
+      const where = { userId: { in: access.memberIds } };
+
+      const [sessions, total] = await Promise.all([
+        prisma.kickCountSession.findMany({
+          where,
+          orderBy: { startedAt: 'desc' },
+          take: limit,
+          skip: offset,
+        }),
+        prisma.kickCountSession.count({ where }),
+      ]);
+
+      res.status(200).json({
+        sessions: sessions.map(formatKickSession),
+        pagination: { limit, offset, total, hasMore: offset + sessions.length < total },
+      });
+    } catch (error) {
+      console.error('Error fetching kick count sessions:', error);
+      res.status(500).json({ error: 'Failed to fetch kick count sessions' });
+    }
+  }
+);
+
+/**
+ * POST /pregnancy/kicks
+ * Start a kick count session
+ *
+ * Request body:
+ * - startedAt: ISO date string - optional (default: now)
+ * - notes: string - optional
+ *
+ * Only one kick count can run at a time (409 otherwise).
+ */
+router.post(
+  '/kicks',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+      const body = req.body as Record<string, unknown>;
+
+      const access = await getFamilyAccess(userId);
+      if (!access.canEdit) {
+        return res.status(403).json({ error: 'Forbidden', message: 'Family viewers cannot record kick counts' });
+      }
+
+      const startedAt = parseEventTime(body.startedAt, 'startedAt');
+      const notes = parseNotes(body.notes);
+      if ('error' in startedAt || 'error' in notes) {
+        return res.status(400).json({
+          error: 'Invalid kick count session',
+          message: 'error' in startedAt ? startedAt.error : (notes as { error: string }).error,
+        });
+      }
+
+      const ongoingSession = await prisma.kickCountSession.findFirst({
+        where: { userId: { in: access.memberIds }, endedAt: null },
+        select: { id: true },
+      });
+
+      if (ongoingSession) {
+        return res.status(409).json({
+          error: 'Kick count already in progress',
+          message: 'Stop the current kick count before starting a new one',
+          sessionId: ongoingSession.id,
+        });
+      }
+
+      const session = await prisma.kickCountSession.create({
+        data: {
+          userId,
+          startedAt: startedAt.value ?? new Date(),
+          notes: notes.value ?? null,
+        },
+      });
+
+      console.log(`👣 Started kick count ${session.id} for user ${userId}`);
+
+      res.status(201).json({ message: 'Kick count started', session: formatKickSession(session) });
+    } catch (error) {
+      console.error('Error starting kick count:', error);
+      res.status(500).json({ error: 'Failed to start kick count' });
+    }
+  }
+);
+
+/**
+ * Loads a kick count session the user may record in
+ *
+ * @param userId - Requesting user
+ * @param sessionId - Session to load
+ * @returns Session, or the status and body of the error response
+ */
+async function loadEditableKickSession(
+  userId: string,
+  sessionId: string,
+): Promise<{ session: KickCountSession } | { error: { status: number; body: Record<string, string> } }> {
+  const session = await prisma.kickCountSession.findUnique({ where: { id: sessionId } });
+  if (!session) {
+    return { error: { status: 404, body: { error: 'Kick count session not found' } } };
+  }
+
+  // Verify session belongs to the user's family and user can edit (security check)
+  const access = await getFamilyAccess(userId);
+  if (!access.memberIds.includes(session.userId) || !access.canEdit) {
+    return {
+      error: {
+        status: 403,
+        body: { error: 'Forbidden', message: 'You do not have permission to update this kick count' },
+      },
+    };
+  }
+
+  return { session };
+}
+
+/**
+ * POST /pregnancy/kicks/:id/record
+ * Record a kick (any movement: kick, roll, swish or jab)
+ *
+ * Request body:
+ * - at: ISO date string - optional (default: now)
+ */
+router.post(
+  '/kicks/:id/record',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+      const body = req.body as Record<string, unknown>;
+
+      const loaded = await loadEditableKickSession(userId, req.params.id);
+      if ('error' in loaded) {
+        return res.status(loaded.error.status).json(loaded.error.body);
+      }
+
+      if (loaded.session.endedAt) {
+        return res.status(400).json({ error: 'Kick count already stopped', message: 'Start a new kick count' });
+      }
+
+      const at = parseEventTime(body.at, 'at');
+      if ('error' in at) {
+        return res.status(400).json({ error: 'Invalid kick', message: at.error });
+      }
+
+      const kickTime = at.value ?? new Date();
+      if (kickTime < loaded.session.startedAt) {
+        return res.status(400).json({ error: 'Invalid kick', message: 'at cannot be before the session started' });
+      }
+
+      // push appends atomically, so quick taps from two phones don't overwrite each other
+      const session = await prisma.kickCountSession.update({
+        where: { id: loaded.session.id },
+        data: { kicks: { push: kickTime } },
+      });
+
+      res.status(200).json({ message: 'Kick recorded', session: formatKickSession(session) });
+    } catch (error) {
+      console.error('Error recording kick:', error);
+      res.status(500).json({ error: 'Failed to record kick' });
+    }
+  }
+);
+
+/**
+ * POST /pregnancy/kicks/:id/stop
+ * Stop a kick count session
+ *
+ * Request body:
+ * - notes: string - optional
+ */
+router.post(
+  '/kicks/:id/stop',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+      const body = req.body as Record<string, unknown>;
+
+      const loaded = await loadEditableKickSession(userId, req.params.id);
+      if ('error' in loaded) {
+        return res.status(loaded.error.status).json(loaded.error.body);
+      }
+
+      const notes = parseNotes(body.notes);
+      if ('error' in notes) {
+        return res.status(400).json({ error: 'Invalid kick count session', message: notes.error });
+      }
+
+      const session = await prisma.kickCountSession.update({
+        where: { id: loaded.session.id },
+        data: {
+          endedAt: loaded.session.endedAt ?? new Date(),
+          ...(notes.value !== undefined && { notes: notes.value }),
+        },
+      });
+
+      const formatted = formatKickSession(session);
+      console.log(`👣 Stopped kick count ${session.id}: ${formatted.analysis.kickCount} kicks (${formatted.analysis.status})`);
+
+      res.status(200).json({ message: 'Kick count stopped', session: formatted });
+    } catch (error) {
+      console.error('Error stopping kick count:', error);
+      res.status(500).json({ error: 'Failed to stop kick count' });
+    }
+  }
+);
+
+/**
+ * GET /pregnancy/kicks/:id/analysis
+ * Get a kick count session with its analysis
+ *
+ * analysis.status is "reached" when 10 kicks were felt within 2 hours, "not_reached"
+ * when the session ended (or ran past 2 hours) without them, "in_progress" otherwise.
+ */
+router.get(
+  '/kicks/:id/analysis',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+
+      const session = await prisma.kickCountSession.findUnique({ where: { id: req.params.id } });
+      const access = await getFamilyAccess(userId);
+
+      if (!session || !access.memberIds.includes(session.userId)) {
+        return res.status(404).json({ error: 'Kick count session not found' });
+      }
+
+      const formatted = formatKickSession(session);
+
+      res.status(200).json({ session: formatted, analysis: formatted.analysis });
+    } catch (error) {
+      console.error('Error analyzing kick count:', error);
+      res.status(500).json({ error: 'Failed to analyze kick count' });
+    }
+  }
+);
+
+/**
+ * DELETE /pregnancy/kicks/:id
+ * Delete a kick count session
+ */
+router.delete(
+  '/kicks/:id',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+
+      const loaded = await loadEditableKickSession(userId, req.params.id);
+      if ('error' in loaded) {
+        return res.status(loaded.error.status).json(loaded.error.body);
+      }
+
+      await prisma.kickCountSession.delete({ where: { id: loaded.session.id } });
+
+      res.status(200).json({ message: 'Kick count session deleted successfully' });
+    } catch (error) {
+      console.error('Error deleting kick count session:', error);
+      res.status(500).json({ error: 'Failed to delete kick count session' });
+    }
+  }
+);
+
+/**
+ * GET /pregnancy/contractions
+ * List the family's contraction timing sessions, newest first
+ * Sessions include their analysis but not every contraction (see /:id/analysis).
+ *
+ * Query params:
+ * - limit (default 20, max 100), offset (default 0)
+ */
+router.get(
+  '/contractions',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+      const offset = parseInt(req.query.offset as string) || 0;
+
+      const access = await getFamilyAccess(userId);
+      const where = { userId: { in: access.memberIds } };
+
+      const [sessions, total] = await Promise.all([
+        prisma.contractionSession.findMany({
+          where,
+          include: { contractions: true },
+          orderBy: { startedAt: 'desc' },
+          take: limit,
+          skip: offset,
+        }),
+        prisma.contractionSession.count({ where }),
+      ]);
+
+      res.status(200).json({
+        sessions: sessions.map((session) => formatContractionSession(session, false)),
+        pagination: { limit, offset, total, hasMore: offset + sessions.length < total },
+      });
+    } catch (error) {
+      console.error('Error fetching contraction sessions:', error);
+      res.status(500).json({ error: 'Failed to fetch contraction sessions' });
+    }
+  }
+);
+
+/**
+ * POST /pregnancy/contractions
+ * Start timing contractions
+ *
+ * Request body:
+ * - startedAt: ISO date string - optional (default: now)
+ * - notes: string - optional
+ *
+ * Only one contraction timing session can run at a time (409 otherwise).
+ */
+router.post(
+  '/contractions',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+      const body = req.body as Record<string, unknown>;
+
+      const access = await getFamilyAccess(userId);
+      if (!access.canEdit) {
+        return res.status(403).json({ error: 'Forbidden', message: 'Family viewers cannot time contractions' });
+      }
+
+      const startedAt = parseEventTime(body.startedAt, 'startedAt');
+      const notes = parseNotes(body.notes);
+      if ('error' in startedAt || 'error' in notes) {
+        return res.status(400).json({
+          error: 'Invalid contraction session',
+          message: 'error' in startedAt ? startedAt.error : (notes as { error: string }).error,
+        });
+      }
+
+      const ongoingSession = await prisma.contractionSession.findFirst({
+        where: { userId: { in: access.memberIds }, endedAt: null },
+        select: { id: true },
+      });
+
+      if (ongoingSession) {
+        return res.status(409).json({
+          error: 'Contraction timing already in progress',
+          message: 'Stop the current session before starting a new one',
+          sessionId: ongoingSession.id,
+        });
+      }
+
+      const session = await prisma.contractionSession.create({
+        data: {
+          userId,
+          startedAt: startedAt.value ?? new Date(),
+          notes: notes.value ?? null,
+        },
+        include: { contractions: true },
+      });
+
+      console.log(`⏱️  Started contraction timing ${session.id} for user ${userId}`);
+
+      res.status(201).json({ message: 'Contraction timing started', session: formatContractionSession(session, true) });
+    } catch (error) {
+      console.error('Error starting contraction timing:', error);
+      res.status(500).json({ error: 'Failed to start contraction timing' });
+    }
+  }
+);
+
+/**
+ * Loads a contraction timing session the user may record in
+ *
+ * @param userId - Requesting user
+ * @param sessionId - Session to load
+ * @returns Session, or the status and body of the error response
+ */
+async function loadEditableContractionSession(
+  userId: string,
+  sessionId: string,
+): Promise<{ session: ContractionSession } | { error: { status: number; body: Record<string, string> } }> {
+  const session = await prisma.contractionSession.findUnique({ where: { id: sessionId } });
+  if (!session) {
+    return { error: { status: 404, body: { error: 'Contraction session not found' } } };
+  }
+
+  // Verify session belongs to the user's family and user can edit (security check)
+  const access = await getFamilyAccess(userId);
+  if (!access.memberIds.includes(session.userId) || !access.canEdit) {
+    return {
+      error: {
+        status: 403,
+        body: { error: 'Forbidden', message: 'You do not have permission to update this contraction session' },
+      },
+    };
+  }
+
+  return { session };
+}
+
+/**
+ * POST /pregnancy/contractions/:id/record
+ * Time a contraction: the first call starts a contraction, the next one ends it
+ *
+ * Request body (all optional):
+ * - startedAt: ISO date string - when the contraction started (default: now)
+ * - endedAt: ISO date string - when it ended; with startedAt, logs a whole contraction at once
+ *
+ * While a contraction is in progress, the call ends it (at endedAt, default now).
+ */
+router.post(
+  '/contractions/:id/record',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+      const body = req.body as Record<string, unknown>;
+
+      const loaded = await loadEditableContractionSession(userId, req.params.id);
+      if ('error' in loaded) {
+        return res.status(loaded.error.status).json(loaded.error.body);
+      }
+
+      if (loaded.session.endedAt) {
+        return res.status(400).json({ error: 'Contraction timing already stopped', message: 'Start a new session' });
+      }
+
+      const startedAt = parseEventTime(body.startedAt, 'startedAt');
+      const endedAt = parseEventTime(body.endedAt, 'endedAt');
+      if ('error' in startedAt || 'error' in endedAt) {
+        return res.status(400).json({
+          error: 'Invalid contraction',
+          message: 'error' in startedAt ? startedAt.error : (endedAt as { error: string }).error,
+        });
+      }
+
+      const openContraction = await prisma.contraction.findFirst({
+        where: { sessionId: loaded.session.id, endedAt: null },
+      });
+
+      let contraction: Contraction;
+      if (openContraction) {
+        // End the contraction in progress
+        const end = endedAt.value ?? new Date();
+        if (end < openContraction.startedAt) {
+          return res.status(400).json({ error: 'Invalid contraction', message: 'endedAt cannot be before the contraction started' });
+        }
+
+        contraction = await prisma.contraction.update({
+          where: { id: openContraction.id },
+          data: { endedAt: end },
+        });
+      } else {
+        // Start a new contraction (or log a whole one)
+        const start = startedAt.value ?? new Date();
+        if (start < loaded.session.startedAt) {
+          return res.status(400).json({ error: 'Invalid contraction', message: 'startedAt cannot be before the session started' });
+        }
+        if (endedAt.value && endedAt.value < start) {
+          return res.status(400).json({ error: 'Invalid contraction', message: 'endedAt cannot be before startedAt' });
+        }
+
+        contraction = await prisma.contraction.create({
+          data: { sessionId: loaded.session.id, startedAt: start, endedAt: endedAt.value ?? null },
+        });
+      }
+
+      const contractions = await prisma.contraction.findMany({ where: { sessionId: loaded.session.id } });
+
+      res.status(200).json({
+        message: contraction.endedAt ? 'Contraction recorded' : 'Contraction started',
+        contraction,
+        analysis: analyzeContractions(contractions),
+      });
+    } catch (error) {
+      console.error('Error recording contraction:', error);
+      res.status(500).json({ error: 'Failed to record contraction' });
+    }
+  }
+);
+
+/**
+ * POST /pregnancy/contractions/:id/stop
+ * Stop timing contractions (a contraction still in progress ends now)
+ *
+ * Request body:
+ * - notes: string - optional
+ */
+router.post(
+  '/contractions/:id/stop',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+      const body = req.body as Record<string, unknown>;
+
+      const loaded = await loadEditableContractionSession(userId, req.params.id);
+      if ('error' in loaded) {
+        return res.status(loaded.error.status).json(loaded.error.body);
+      }
+
+      const notes = parseNotes(body.notes);
+      if ('error' in notes) {
+        return res.status(400).json({ error: 'Invalid contraction session', message: notes.error });
+      }
+
+      const now = new Date();
+
+      await prisma.contraction.updateMany({
+        where: { sessionId: loaded.session.id, endedAt: null },
+        data: { endedAt: now },
+      });
+
+      const session = await prisma.contractionSession.update({
+        where: { id: loaded.session.id },
+        data: {
+          endedAt: loaded.session.endedAt ?? now,
+          ...(notes.value !== undefined && { notes: notes.value }),
+        },
+        include: { contractions: true },
+      });
+
+      console.log(`⏱️  Stopped contraction timing ${session.id}: ${session.contractions.length} contractions`);
+
+      res.status(200).json({ message: 'Contraction timing stopped', session: formatContractionSession(session, true) });
+    } catch (error) {
+      console.error('Error stopping contraction timing:', error);
+      res.status(500).json({ error: 'Failed to stop contraction timing' });
+    }
+  }
+);
+
+/**
+ * GET /pregnancy/contractions/:id/analysis
+ * Get a contraction timing session with every contraction and its analysis
+ *
+ * analysis: count, average duration (seconds) and interval (minutes, start to start)
+ * overall and over the last hour, whether the last hour's intervals are regular,
+ * and whether the 5-1-1 pattern (5 minutes apart, 1 minute long, for 1 hour) was met.
+ */
+router.get(
+  '/contractions/:id/analysis',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+
+      const session = await prisma.contractionSession.findUnique({
+        where: { id: req.params.id },
+        include: { contractions: true },
+      });
+      const access = await getFamilyAccess(userId);
+
+      if (!session || !access.memberIds.includes(session.userId)) {
+        return res.status(404).json({ error: 'Contraction session not found' });
+      }
+
+      const formatted = formatContractionSession(session, true);
+
+      res.status(200).json({ session: formatted, analysis: formatted.analysis });
+    } catch (error) {
+      console.error('Error analyzing contractions:', error);
+      res.status(500).json({ error: 'Failed to analyze contractions' });
+    }
+  }
+);
+
+/**
+ * DELETE /pregnancy/contractions/:id
+ * Delete a contraction timing session and its contractions
+ */
+router.delete(
+  '/contractions/:id',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+
+      const loaded = await loadEditableContractionSession(userId, req.params.id);
+      if ('error' in loaded) {
+        return res.status(loaded.error.status).json(loaded.error.body);
+      }
+
+      await prisma.contractionSession.delete({ where: { id: loaded.session.id } });
+
+      res.status(200).json({ message: 'Contraction session deleted successfully' });
+    } catch (error) {
+      console.error('Error deleting contraction session:', error);
+      res.status(500).json({ error: 'Failed to delete contraction session' });
+    }
+  }
+);
+
+export default router;
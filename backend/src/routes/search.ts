@@ -0,0 +1,146 @@
+/**
+ * Search API Routes
+ *
+ * One search box across chat messages, milestones, photos (by their AI
+ * categorization tags) and milestone reference content. Queries are free text:
+ * "rash photo from March" searches photo tags for "rash" in the most recent March,
+ * ranking photos first.
+ *
+ * - GET /search - Ranked results of every type with type and month facets
+ */
+
+import express, { Response } from 'express';
+import { authenticateToken, AuthenticatedRequest } from '../middleware/auth';
+import { searchEverything } from '../services/search';
+import { DateRange, SEARCH_RESULT_TYPES, SearchResultType, parseSearchQuery } from '../utils/search';
+
+const router = express.Router();
+
+/**
+ * Parses the types query param
+ *
+ * @param value - Comma-separated types, or undefined for all
+ * @returns Types, or an error message
+ */
+function parseTypes(value: unknown): { value: SearchResultType[] } | { error: string } {
+  if (value === undefined || value === '') {
+    return { value: SEARCH_RESULT_TYPES };
+  }
+  if (typeof value !== 'string') {
+    return { error: 'types must be a comma-separated list' };
+  }
+
+  const types = value.split(',').map((type) => type.trim()).filter((type) => type.length > 0);
+  const invalid = types.filter((type) => !SEARCH_RESULT_TYPES.includes(type as SearchResultType));
+  if (invalid.length > 0) {
+    return { error: `Unknown types: ${invalid.join(', ')}. Valid types: ${SEARCH_RESULT_TYPES.join(', ')}` };
+  }
+
+  return { value: types as SearchResultType[] };
+}
+
+/**
+ * Parses the from/to query params into a date range
+ * `to` is inclusive of the whole day when given as a date (YYYY-MM-DD).
+ *
+ * @param from - Start of the range (ISO date string) - optional
+ * @param to - End of the range (ISO date string) - optional
+ * @returns Range (null if neither is given), or an error message
+ */
+function parseDateRange(from: unknown, to: unknown): { value: DateRange | null } | { error: string } {
+  if (from === undefined && to === undefined) {
+    return { value: null };
+  }
+
+  const fromDate = from === undefined ? new Date(0) : new Date(from as string);
+  let toDate = to === undefined ? new Date(8640000000000000) : new Date(to as string);
+
+  if (isNaN(fromDate.getTime()) || isNaN(toDate.getTime())) {
+    return { error: 'from and to must be valid ISO date strings' };
+  }
+  if (typeof to === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(to)) {
+    toDate = new Date(toDate.getTime() + 24 * 60 * 60 * 1000);
+  }
+  if (fromDate >= toDate) {
+    return { error: 'from must be before to' };
+  }
+
+  return { value: { from: fromDate, to: toDate } };
+}
+
+/**
+ * GET /search
+ * Search messages, milestones, photos and milestone content
+ *
+ * Query params:
+ * - q: search text (required), e.g. "first steps", "sleep regression chat", "rash photo from March"
+ * - types: comma-separated result types to include (message, milestone, photo, milestone_content; default all)
+ * - from, to: ISO dates limiting results to a period (overrides a month or year in q)
+ * - limit (default 20, max 50), offset (default 0)
+ *
+ * Words naming a type ("photo", "chat", "milestone") rank that type first; a month
+ * or year in q limits dated results to it. Results are ranked by how well they
+ * match; facets count all matches by type and by month.
+ */
+router.get(
+  '/',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+      const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 50);
+      const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+
+      if (!q) {
+        return res.status(400).json({ error: 'Search query is required', message: 'Provide search text in q' });
+      }
+
+      const types = parseTypes(req.query.types);
+      const dateRange = parseDateRange(req.query.from, req.query.to);
+      if ('error' in types || 'error' in dateRange) {
+        return res.status(400).json({
+          error: 'Invalid search filters',
+          message: 'error' in types ? types.error : (dateRange as { error: string }).error,
+        });
+      }
+
+      const query = parseSearchQuery(q);
+
+      // Queries that only name a type or a period ("photos from March") list that type or period
+      if (query.terms.length === 0 && query.typeHints.length === 0 && !query.dateRange) {
+        return res.status(400).json({
+          error: 'Search query is required',
+          message: 'Search for a word of at least 3 letters',
+        });
+      }
+      const searchTypes = query.terms.length === 0 && query.typeHints.length > 0
+        ? types.value.filter((type) => query.typeHints.includes(type))
+        : types.value;
+
+      const { results, total, facets } = await searchEverything(userId, query, {
+        types: searchTypes,
+        dateRange: dateRange.value ?? query.dateRange,
+        limit,
+        offset,
+      });
+
+      res.status(200).json({
+        query: q,
+        interpreted: {
+          terms: query.terms,
+          typeHints: query.typeHints,
+          dateRange: dateRange.value ?? query.dateRange,
+        },
+        results,
+        facets,
+        pagination: { limit, offset, total, hasMore: offset + results.length < total },
+      });
+    } catch (error) {
+      console.error('Error searching:', error);
+      res.status(500).json({ error: 'Failed to search' });
+    }
+  }
+);
+
+export default router;
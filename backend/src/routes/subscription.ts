@@ -14,7 +14,7 @@ import {
   createSubscription,
   cancelSubscription,
 } from '../controllers/subscriptionController';
-import { authenticateToken } from '../middleware/auth';
+import { authenticateToken, requireVerifiedEmail } from '../middleware/auth';
 import { authRateLimiter } from '../middleware/rateLimiter';
 
 // Create Express router for subscription routes
@@ -48,7 +48,7 @@ router.get(
  * POST /subscription/create
  *
  * Creates a new Stripe subscription for the user.
- * Requires payment method ID from mobile app (Stripe SDK).
+ * Requires payment method ID from mobile app (Stripe SDK) and a verified email.
  *
  * Headers:
  * - Authorization: Bearer <JWT_TOKEN>
@@ -61,6 +61,7 @@ router.get(
  * - 200: Subscription created successfully
  * - 400: Validation error or user already has active subscription
  * - 401: Unauthorized
+ * - 403: Email not verified
  * - 404: User not found
  * - 500: Server error
  */
@@ -68,6 +69,8 @@ router.post(
   '/create',
   // Require authentication
   authenticateToken,
+  // Require verified email before taking payment
+  requireVerifiedEmail,
   // Apply rate limiter: 10 requests per 15 minutes
   authRateLimiter,
   [
@@ -0,0 +1,102 @@
+/**
+ * Tips API Routes
+ *
+ * Weekly personalized tips based on the baby's age, the parent's concerns and
+ * parenting philosophy, and upcoming milestones. The current week's digest is
+ * generated on first request (or by the weekly-tips job) and kept for the feed.
+ *
+ * - GET /tips - This week's tips and past weekly digests
+ */
+
+import express, { Response } from 'express';
+import { Prisma, PrismaClient, TipDigest, TipSet } from '@prisma/client';
+import { authenticateToken, AuthenticatedRequest } from '../middleware/auth';
+import { resolveChildForRecord } from '../services/children';
+import { getWeeklyDigest } from '../services/tips';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+/**
+ * Shapes a digest for API responses
+ *
+ * @param digest - Digest with its tip set
+ * @returns Digest with the week as a YYYY-MM-DD string and its tips
+ */
+function formatDigest(digest: TipDigest & { tipSet: TipSet }): {
+  id: string;
+  childId: string | null;
+  weekStart: string;
+  ageWeeks: number;
+  tips: Prisma.JsonValue;
+  createdAt: Date;
+} {
+  return {
+    id: digest.id,
+    childId: digest.childId,
+    weekStart: digest.weekStart.toISOString().slice(0, 10),
+    ageWeeks: digest.ageWeeks,
+    tips: digest.tipSet.tips,
+    createdAt: digest.createdAt,
+  };
+}
+
+/**
+ * GET /tips
+ * This week's tips and the feed of past weekly digests, newest first
+ *
+ * Query params:
+ * - childId: child to get tips for - optional (defaults to the family's only child, or the profile's baby)
+ * - limit: number of past digests (default 10, max 52)
+ * - offset: pagination offset (default 0)
+ *
+ * current is null when the baby's birth date is unknown (currentUnavailableReason: "no_birth_date")
+ * or tips could not be generated right now ("generation_failed").
+ */
+router.get(
+  '/',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+      const limit = Math.min(parseInt(req.query.limit as string) || 10, 52);
+      const offset = parseInt(req.query.offset as string) || 0;
+
+      const childId = await resolveChildForRecord(userId, req.query.childId as string | undefined);
+      if (childId === undefined) {
+        return res.status(404).json({ error: 'Child not found' });
+      }
+
+      const current = await getWeeklyDigest(userId, childId);
+
+      const where = {
+        userId,
+        childId,
+        ...(current.status === 'ok' && { id: { not: current.digest.id } }),
+      };
+
+      const [digests, total] = await Promise.all([
+        prisma.tipDigest.findMany({
+          where,
+          include: { tipSet: true },
+          orderBy: { weekStart: 'desc' },
+          take: limit,
+          skip: offset,
+        }),
+        prisma.tipDigest.count({ where }),
+      ]);
+
+      res.status(200).json({
+        current: current.status === 'ok' ? formatDigest(current.digest) : null,
+        ...(current.status !== 'ok' && { currentUnavailableReason: current.status }),
+        digests: digests.map(formatDigest),
+        pagination: { limit, offset, total, hasMore: offset + digests.length < total },
+      });
+    } catch (error) {
+      console.error('Error fetching tips:', error);
+      res.status(500).json({ error: 'Failed to fetch tips' });
+    }
+  }
+);
+
+export default router;
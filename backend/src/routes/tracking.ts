@@ -0,0 +1,1125 @@
+/**
+ * Activity Tracking API Routes
+ *
+ * Handles logging of feeds, sleep sessions and diaper changes,
+ * plus daily and weekly aggregates (feeds per day, total sleep hours, ...).
+ *
+ * Records are scoped like milestones: visible to the user's family, editable by
+ * owners and co-parents. Each record belongs to a child when the account has children
+ * (the only child is picked automatically; with several children pass childId).
+ *
+ * - GET/POST /tracking/feeds, PUT/DELETE /tracking/feeds/:id
+ * - GET/POST /tracking/sleep, PUT/DELETE /tracking/sleep/:id
+ * - GET/POST /tracking/diapers, PUT/DELETE /tracking/diapers/:id
+ * - GET /tracking/summary/daily - Per-day aggregates for a date range
+ * - GET /tracking/summary/weekly - Totals and averages for a week
+ */
+
+import express, { Response } from 'express';
+import {
+  PrismaClient,
+  Prisma,
+  FeedType,
+  BreastSide,
+  BottleContent,
+  DiaperType,
+} from '@prisma/client';
+import { authenticateToken, AuthenticatedRequest } from '../middleware/auth';
+import { getFamilyAccess, FamilyAccess } from '../services/family';
+import { resolveChildForRecord } from '../services/children';
+import { addDays, isDateKey, startOfDay, summarizeDays, summarizeWeek, toDateKey } from '../utils/tracking';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+// Maximum number of days in a daily summary request
+const MAX_SUMMARY_DAYS = 31;
+
+/**
+ * Parsed query parameters shared by all list endpoints
+ */
+interface ListQuery {
+  from?: Date;
+  to?: Date;
+  childId?: string;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Result of parsing a request: parsed value or an error message for a 400 response
+ */
+type Parsed<T> = { value: T } | { error: string };
+
+/**
+ * Parses an optional ISO date field
+ *
+ * @param value - Raw value from the request
+ * @param field - Field name for the error message
+ * @returns Date, null (explicitly cleared), undefined (not provided), or an error
+ */
+function parseDateField(value: unknown, field: string): Parsed<Date | null | undefined> {
+  if (value === undefined) return { value: undefined };
+  if (value === null) return { value: null };
+
+  const date = new Date(value as string);
+  if (typeof value !== 'string' || isNaN(date.getTime())) {
+    return { error: `${field} must be a valid ISO date string` };
+  }
+
+  return { value: date };
+}
+
+/**
+ * Parses an optional non-negative integer field
+ *
+ * @param value - Raw value from the request
+ * @param field - Field name for the error message
+ * @param max - Largest accepted value
+ * @returns Number, null, undefined, or an error
+ */
+function parseIntField(value: unknown, field: string, max: number): Parsed<number | null | undefined> {
+  if (value === undefined) return { value: undefined };
+  if (value === null) return { value: null };
+
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || value > max) {
+    return { error: `${field} must be an integer between 0 and ${max}` };
+  }
+
+  return { value };
+}
+
+/**
+ * Parses an optional enum field
+ *
+ * @param value - Raw value from the request
+ * @param field - Field name for the error message
+ * @param values - Allowed enum values
+ * @returns Enum value, null, undefined, or an error
+ */
+function parseEnumField<T extends string>(
+  value: unknown,
+  field: string,
+  values: T[],
+): Parsed<T | null | undefined> {
+  if (value === undefined) return { value: undefined };
+  if (value === null) return { value: null };
+
+  if (!values.includes(value as T)) {
+    return { error: `${field} must be one of: ${values.join(', ')}` };
+  }
+
+  return { value: value as T };
+}
+
+/**
+ * Parses an optional text field
+ *
+ * @param value - Raw value from the request
+ * @param field - Field name for the error message
+ * @returns Trimmed text (empty becomes null), null, undefined, or an error
+ */
+function parseTextField(value: unknown, field: string): Parsed<string | null | undefined> {
+  if (value === undefined) return { value: undefined };
+  if (value === null) return { value: null };
+
+  if (typeof value !== 'string') {
+    return { error: `${field} must be a string` };
+  }
+
+  return { value: value.trim() || null };
+}
+
+/**
+ * Parses from/to/childId/limit/offset query parameters
+ *
+ * @param query - Express request query
+ * @returns Parsed list query, or an error
+ */
+function parseListQuery(query: AuthenticatedRequest['query']): Parsed<ListQuery> {
+  const from = parseDateField(query.from, 'from');
+  if ('error' in from) return from;
+
+  const to = parseDateField(query.to, 'to');
+  if ('error' in to) return to;
+
+  return {
+    value: {
+      from: from.value ?? undefined,
+      to: to.value ?? undefined,
+      childId: typeof query.childId === 'string' ? query.childId : undefined,
+      limit: Math.min(parseInt(query.limit as string) || 50, 200), // Max 200 records per request
+      offset: parseInt(query.offset as string) || 0,
+    },
+  };
+}
+
+/**
+ * Parses tzOffset (minutes behind UTC, as Date.getTimezoneOffset() returns)
+ *
+ * @param value - Raw query value
+ * @returns Offset in minutes (default 0 = UTC), or an error
+ */
+function parseTzOffset(value: unknown): Parsed<number> {
+  if (value === undefined) return { value: 0 };
+
+  const tzOffset = Number(value);
+  if (!Number.isInteger(tzOffset) || tzOffset < -14 * 60 || tzOffset > 12 * 60) {
+    return { error: 'tzOffset must be minutes behind UTC, as returned by Date.getTimezoneOffset()' };
+  }
+
+  return { value: tzOffset };
+}
+
+/**
+ * Checks that a record is visible to the user and that they may change it
+ *
+ * @param access - Requesting user's family access
+ * @param ownerId - User who logged the record
+ * @returns true if the user may edit or delete the record
+ */
+function canModifyRecord(access: FamilyAccess, ownerId: string): boolean {
+  return access.memberIds.includes(ownerId) && access.canEdit;
+}
+
+/**
+ * Validates fields of a feed create/update request
+ *
+ * @param body - Request body
+ * @returns Prisma data for the provided fields, or an error
+ */
+function parseFeedInput(body: Record<string, unknown>): Parsed<Prisma.FeedEventUncheckedUpdateInput> {
+  const type = parseEnumField(body.type, 'type', Object.values(FeedType));
+  if ('error' in type) return type;
+  if (type.value === null) return { error: 'type cannot be cleared' };
+
+  const startedAt = parseDateField(body.startedAt, 'startedAt');
+  if ('error' in startedAt) return startedAt;
+  if (startedAt.value === null) return { error: 'startedAt cannot be cleared' };
+
+  const endedAt = parseDateField(body.endedAt, 'endedAt');
+  if ('error' in endedAt) return endedAt;
+
+  const durationMinutes = parseIntField(body.durationMinutes, 'durationMinutes', 600);
+  if ('error' in durationMinutes) return durationMinutes;
+
+  const breastSide = parseEnumField(body.breastSide, 'breastSide', Object.values(BreastSide));
+  if ('error' in breastSide) return breastSide;
+
+  const volumeMl = parseIntField(body.volumeMl, 'volumeMl', 1000);
+  if ('error' in volumeMl) return volumeMl;
+
+  const bottleContent = parseEnumField(body.bottleContent, 'bottleContent', Object.values(BottleContent));
+  if ('error' in bottleContent) return bottleContent;
+
+  if (body.foods !== undefined && (!Array.isArray(body.foods) || body.foods.some((food) => typeof food !== 'string'))) {
+    return { error: 'foods must be an array of strings' };
+  }
+
+  const amount = parseTextField(body.amount, 'amount');
+  if ('error' in amount) return amount;
+
+  const notes = parseTextField(body.notes, 'notes');
+  if ('error' in notes) return notes;
+
+  return {
+    value: {
+      type: type.value,
+      startedAt: startedAt.value,
+      endedAt: endedAt.value,
+      durationMinutes: durationMinutes.value,
+      breastSide: breastSide.value,
+      volumeMl: volumeMl.value,
+      bottleContent: bottleContent.value,
+      foods: body.foods as string[] | undefined,
+      amount: amount.value,
+      notes: notes.value,
+    },
+  };
+}
+
+/**
+ * Validates fields of a sleep session create/update request
+ *
+ * @param body - Request body
+ * @returns Prisma data for the provided fields, or an error
+ */
+function parseSleepInput(body: Record<string, unknown>): Parsed<Prisma.SleepSessionUncheckedUpdateInput> {
+  const startedAt = parseDateField(body.startedAt, 'startedAt');
+  if ('error' in startedAt) return startedAt;
+  if (startedAt.value === null) return { error: 'startedAt cannot be cleared' };
+
+  const endedAt = parseDateField(body.endedAt, 'endedAt');
+  if ('error' in endedAt) return endedAt;
+
+  const location = parseTextField(body.location, 'location');
+  if ('error' in location) return location;
+
+  const notes = parseTextField(body.notes, 'notes');
+  if ('error' in notes) return notes;
+
+  return {
+    value: {
+      startedAt: startedAt.value,
+      endedAt: endedAt.value,
+      location: location.value,
+      notes: notes.value,
+    },
+  };
+}
+
+/**
+ * Validates fields of a diaper change create/update request
+ *
+ * @param body - Request body
+ * @returns Prisma data for the provided fields, or an error
+ */
+function parseDiaperInput(body: Record<string, unknown>): Parsed<Prisma.DiaperChangeUncheckedUpdateInput> {
+  const type = parseEnumField(body.type, 'type', Object.values(DiaperType));
+  if ('error' in type) return type;
+  if (type.value === null) return { error: 'type cannot be cleared' };
+
+  const changedAt = parseDateField(body.changedAt, 'changedAt');
+  if ('error' in changedAt) return changedAt;
+  if (changedAt.value === null) return { error: 'changedAt cannot be cleared' };
+
+  const notes = parseTextField(body.notes, 'notes');
+  if ('error' in notes) return notes;
+
+  return {
+    value: {
+      type: type.value,
+      changedAt: changedAt.value,
+      notes: notes.value,
+    },
+  };
+}
+
+/**
+ * Checks that an end time is not before the start time
+ *
+ * @param startedAt - Start time
+ * @param endedAt - End time (null/undefined when still ongoing)
+ * @returns Error message, or null if the times are consistent
+ */
+function validateTimeRange(startedAt: Date, endedAt: Date | null | undefined): string | null {
+  if (startedAt > new Date()) {
+    return 'startedAt cannot be in the future';
+  }
+
+  if (endedAt && endedAt < startedAt) {
+    return 'endedAt cannot be before startedAt';
+  }
+
+  return null;
+}
+
+// ===========================
+// Feeds
+// ===========================
+
+/**
+ * GET /tracking/feeds
+ * List feeds, most recent first
+ *
+ * Query params:
+ * - from, to: ISO date strings - optional (startedAt >= from, startedAt < to)
+ * - childId: filter by child - optional
+ * - type: BREAST | BOTTLE | SOLIDS - optional
+ * - limit (default 50, max 200), offset (default 0)
+ */
+router.get(
+  '/feeds',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+
+      const query = parseListQuery(req.query);
+      if ('error' in query) {
+        return res.status(400).json({ error: 'Invalid query', message: query.error });
+      }
+      const { from, to, childId, limit, offset } = query.value;
+
+      const type = req.query.type as FeedType | undefined;
+      if (type && !Object.values(FeedType).includes(type)) {
+        return res.status(400).json({ error: 'Invalid feed type', validTypes: Object.values(FeedType) });
+      }
+
+      const access = await getFamilyAccess(userId);
+
+      const where: Prisma.FeedEventWhereInput = {
+        userId: { in: access.memberIds },
+        ...(childId && { childId }),
+        ...(type && { type }),
+        startedAt: { gte: from, lt: to },
+      };
+
+      const [feeds, total] = await Promise.all([
+        prisma.feedEvent.findMany({
+          where,
+          orderBy: { startedAt: 'desc' },
+          take: limit,
+          skip: offset,
+        }),
+        prisma.feedEvent.count({ where }),
+      ]);
+
+      res.status(200).json({
+        feeds,
+        pagination: { limit, offset, total, hasMore: offset + feeds.length < total },
+      });
+    } catch (error) {
+      console.error('Error fetching feeds:', error);
+      res.status(500).json({ error: 'Failed to fetch feeds' });
+    }
+  }
+);
+
+/**
+ * POST /tracking/feeds
+ * Log a feed
+ *
+ * Request body:
+ * - type: BREAST | BOTTLE | SOLIDS - required
+ * - startedAt: ISO date string - optional (default: now)
+ * - endedAt: ISO date string - optional
+ * - durationMinutes: number - optional (breast feeds; derived from start/end if omitted)
+ * - breastSide: LEFT | RIGHT | BOTH - optional
+ * - volumeMl: number - optional (bottle feeds)
+ * - bottleContent: BREAST_MILK | FORMULA | OTHER - optional
+ * - foods: string[] - optional (solids)
+ * - amount: string - optional (solids, e.g. "2 tbsp")
+ * - notes: string - optional
+ * - childId: string - optional (required to pick a child when the family has several)
+ */
+router.post(
+  '/feeds',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+      const body = req.body as Record<string, unknown>;
+
+      const access = await getFamilyAccess(userId);
+      if (!access.canEdit) {
+        return res.status(403).json({ error: 'Forbidden', message: 'Family viewers cannot log activities' });
+      }
+
+      const parsed = parseFeedInput(body);
+      if ('error' in parsed) {
+        return res.status(400).json({ error: 'Invalid feed', message: parsed.error });
+      }
+
+      const { type, startedAt = new Date(), endedAt, ...fields } = parsed.value;
+      if (!type) {
+        return res.status(400).json({ error: 'Missing required fields', required: ['type'] });
+      }
+
+      const timeError = validateTimeRange(startedAt as Date, endedAt as Date | null | undefined);
+      if (timeError) {
+        return res.status(400).json({ error: 'Invalid feed', message: timeError });
+      }
+
+      const childId = await resolveChildForRecord(userId, body.childId as string | undefined);
+      if (childId === undefined) {
+        return res.status(404).json({ error: 'Child not found' });
+      }
+
+      const feed = await prisma.feedEvent.create({
+        data: {
+          ...(fields as Prisma.FeedEventUncheckedCreateInput),
+          userId,
+          childId,
+          type: type as FeedType,
+          startedAt: startedAt as Date,
+          endedAt: endedAt as Date | null | undefined,
+        },
+      });
+
+      console.log(`🍼 Logged ${feed.type} feed ${feed.id} for user ${userId}`);
+
+      res.status(201).json({ message: 'Feed logged successfully', feed });
+    } catch (error) {
+      console.error('Error logging feed:', error);
+      res.status(500).json({ error: 'Failed to log feed' });
+    }
+  }
+);
+
+/**
+ * PUT /tracking/feeds/:id
+ * Update a feed
+ *
+ * Request body: any fields of POST /tracking/feeds (null clears optional fields)
+ */
+router.put(
+  '/feeds/:id',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+      const feedId = req.params.id;
+
+      const existingFeed = await prisma.feedEvent.findUnique({ where: { id: feedId } });
+      if (!existingFeed) {
+        return res.status(404).json({ error: 'Feed not found' });
+      }
+
+      const access = await getFamilyAccess(userId);
+      if (!canModifyRecord(access, existingFeed.userId)) {
+        return res.status(403).json({ error: 'Forbidden', message: 'You do not have permission to update this feed' });
+      }
+
+      const parsed = parseFeedInput(req.body as Record<string, unknown>);
+      if ('error' in parsed) {
+        return res.status(400).json({ error: 'Invalid feed', message: parsed.error });
+      }
+
+      const startedAt = (parsed.value.startedAt as Date | undefined) ?? existingFeed.startedAt;
+      const endedAt = parsed.value.endedAt !== undefined
+        ? (parsed.value.endedAt as Date | null)
+        : existingFeed.endedAt;
+      const timeError = validateTimeRange(startedAt, endedAt);
+      if (timeError) {
+        return res.status(400).json({ error: 'Invalid feed', message: timeError });
+      }
+
+      const feed = await prisma.feedEvent.update({
+        where: { id: feedId },
+        data: parsed.value,
+      });
+
+      res.status(200).json({ message: 'Feed updated successfully', feed });
+    } catch (error) {
+      console.error('Error updating feed:', error);
+      res.status(500).json({ error: 'Failed to update feed' });
+    }
+  }
+);
+
+/**
+ * DELETE /tracking/feeds/:id
+ * Delete a feed
+ */
+router.delete(
+  '/feeds/:id',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+      const feedId = req.params.id;
+
+      const feed = await prisma.feedEvent.findUnique({
+        where: { id: feedId },
+        select: { id: true, userId: true },
+      });
+      if (!feed) {
+        return res.status(404).json({ error: 'Feed not found' });
+      }
+
+      const access = await getFamilyAccess(userId);
+      if (!canModifyRecord(access, feed.userId)) {
+        return res.status(403).json({ error: 'Forbidden', message: 'You do not have permission to delete this feed' });
+      }
+
+      await prisma.feedEvent.delete({ where: { id: feedId } });
+
+      res.status(200).json({ message: 'Feed deleted successfully', feedId });
+    } catch (error) {
+      console.error('Error deleting feed:', error);
+      res.status(500).json({ error: 'Failed to delete feed' });
+    }
+  }
+);
+
+// ===========================
+// Sleep
+// ===========================
+
+/**
+ * GET /tracking/sleep
+ * List sleep sessions, most recent first
+ *
+ * Query params:
+ * - from, to: ISO date strings - optional (sessions overlapping the range)
+ * - childId: filter by child - optional
+ * - limit (default 50, max 200), offset (default 0)
+ */
+router.get(
+  '/sleep',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+
+      const query = parseListQuery(req.query);
+      if ('error' in query) {
+        return res.status(400).json({ error: 'Invalid query', message: query.error });
+      }
+      const { from, to, childId, limit, offset } = query.value;
+
+      const access = await getFamilyAccess(userId);
+
+      // Include sessions that started before the range but were still running in it
+      const where: Prisma.SleepSessionWhereInput = {
+        userId: { in: access.memberIds },
+        ...(childId && { childId }),
+        startedAt: { lt: to },
+        ...(from && { OR: [{ endedAt: null }, { endedAt: { gt: from } }] }),
+      };
+
+      const [sessions, total] = await Promise.all([
+        prisma.sleepSession.findMany({
+          where,
+          orderBy: { startedAt: 'desc' },
+          take: limit,
+          skip: offset,
+        }),
+        prisma.sleepSession.count({ where }),
+      ]);
+
+      res.status(200).json({
+        sessions,
+        pagination: { limit, offset, total, hasMore: offset + sessions.length < total },
+      });
+    } catch (error) {
+      console.error('Error fetching sleep sessions:', error);
+      res.status(500).json({ error: 'Failed to fetch sleep sessions' });
+    }
+  }
+);
+
+/**
+ * POST /tracking/sleep
+ * Log a sleep session, or start one (omit endedAt while the baby is asleep)
+ *
+ * Request body:
+ * - startedAt: ISO date string - optional (default: now)
+ * - endedAt: ISO date string - optional (omit for an ongoing session)
+ * - location: string - optional
+ * - notes: string - optional
+ * - childId: string - optional (required to pick a child when the family has several)
+ *
+ * Only one ongoing session is allowed per child (409 otherwise).
+ */
+router.post(
+  '/sleep',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+      const body = req.body as Record<string, unknown>;
+
+      const access = await getFamilyAccess(userId);
+      if (!access.canEdit) {
+        return res.status(403).json({ error: 'Forbidden', message: 'Family viewers cannot log activities' });
+      }
+
+      const parsed = parseSleepInput(body);
+      if ('error' in parsed) {
+        return res.status(400).json({ error: 'Invalid sleep session', message: parsed.error });
+      }
+
+      const { startedAt = new Date(), endedAt, ...fields } = parsed.value;
+
+      const timeError = validateTimeRange(startedAt as Date, endedAt as Date | null | undefined);
+      if (timeError) {
+        return res.status(400).json({ error: 'Invalid sleep session', message: timeError });
+      }
+
+      const childId = await resolveChildForRecord(userId, body.childId as string | undefined);
+      if (childId === undefined) {
+        return res.status(404).json({ error: 'Child not found' });
+      }
+
+      // A child can't be asleep twice at once
+      if (!endedAt) {
+        const ongoingSession = await prisma.sleepSession.findFirst({
+          where: {
+            userId: { in: access.memberIds },
+            childId,
+            endedAt: null,
+          },
+          select: { id: true },
+        });
+
+        if (ongoingSession) {
+          return res.status(409).json({
+            error: 'Sleep session already in progress',
+            message: 'End the current sleep session before starting a new one',
+            sessionId: ongoingSession.id,
+          });
+        }
+      }
+
+      const session = await prisma.sleepSession.create({
+        data: {
+          ...(fields as Prisma.SleepSessionUncheckedCreateInput),
+          userId,
+          childId,
+          startedAt: startedAt as Date,
+          endedAt: endedAt as Date | null | undefined,
+        },
+      });
+
+      console.log(`😴 Logged sleep session ${session.id} for user ${userId}`);
+
+      res.status(201).json({ message: 'Sleep session logged successfully', session });
+    } catch (error) {
+      console.error('Error logging sleep session:', error);
+      res.status(500).json({ error: 'Failed to log sleep session' });
+    }
+  }
+);
+
+/**
+ * PUT /tracking/sleep/:id
+ * Update a sleep session (e.g. set endedAt when the baby wakes up)
+ *
+ * Request body: any fields of POST /tracking/sleep (null clears optional fields)
+ */
+router.put(
+  '/sleep/:id',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+      const sessionId = req.params.id;
+
+      const existingSession = await prisma.sleepSession.findUnique({ where: { id: sessionId } });
+      if (!existingSession) {
+        return res.status(404).json({ error: 'Sleep session not found' });
+      }
+
+      const access = await getFamilyAccess(userId);
+      if (!canModifyRecord(access, existingSession.userId)) {
+        return res.status(403).json({ error: 'Forbidden', message: 'You do not have permission to update this sleep session' });
+      }
+
+      const parsed = parseSleepInput(req.body as Record<string, unknown>);
+      if ('error' in parsed) {
+        return res.status(400).json({ error: 'Invalid sleep session', message: parsed.error });
+      }
+
+      const startedAt = (parsed.value.startedAt as Date | undefined) ?? existingSession.startedAt;
+      const endedAt = parsed.value.endedAt !== undefined
+        ? (parsed.value.endedAt as Date | null)
+        : existingSession.endedAt;
+      const timeError = validateTimeRange(startedAt, endedAt);
+      if (timeError) {
+        return res.status(400).json({ error: 'Invalid sleep session', message: timeError });
+      }
+
+      const session = await prisma.sleepSession.update({
+        where: { id: sessionId },
+        data: parsed.value,
+      });
+
+      res.status(200).json({ message: 'Sleep session updated successfully', session });
+    } catch (error) {
+      console.error('Error updating sleep session:', error);
+      res.status(500).json({ error: 'Failed to update sleep session' });
+    }
+  }
+);
+
+/**
+ * DELETE /tracking/sleep/:id
+ * Delete a sleep session
+ */
+router.delete(
+  '/sleep/:id',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+      const sessionId = req.params.id;
+
+      const session = await prisma.sleepSession.findUnique({
+        where: { id: sessionId },
+        select: { id: true, userId: true },
+      });
+      if (!session) {
+        return res.status(404).json({ error: 'Sleep session not found' });
+      }
+
+      const access = await getFamilyAccess(userId);
+      if (!canModifyRecord(access, session.userId)) {
+        return res.status(403).json({ error: 'Forbidden', message: 'You do not have permission to delete this sleep session' });
+      }
+
+      await prisma.sleepSession.delete({ where: { id: sessionId } });
+
+      res.status(200).json({ message: 'Sleep session deleted successfully', sessionId });
+    } catch (error) {
+      console.error('Error deleting sleep session:', error);
+      res.status(500).json({ error: 'Failed to delete sleep session' });
+    }
+  }
+);
+
+// ===========================
+// Diapers
+// ===========================
+
+/**
+ * GET /tracking/diapers
+ * List diaper changes, most recent first
+ *
+ * Query params:
+ * - from, to: ISO date strings - optional (changedAt >= from, changedAt < to)
+ * - childId: filter by child - optional
+ * - limit (default 50, max 200), offset (default 0)
+ */
+router.get(
+  '/diapers',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+
+      const query = parseListQuery(req.query);
+      if ('error' in query) {
+        return res.status(400).json({ error: 'Invalid query', message: query.error });
+      }
+      const { from, to, childId, limit, offset } = query.value;
+
+      const access = await getFamilyAccess(userId);
+
+      const where: Prisma.DiaperChangeWhereInput = {
+        userId: { in: access.memberIds },
+        ...(childId && { childId }),
+        changedAt: { gte: from, lt: to },
+      };
+
+      const [diapers, total] = await Promise.all([
+        prisma.diaperChange.findMany({
+          where,
+          orderBy: { changedAt: 'desc' },
+          take: limit,
+          skip: offset,
+        }),
+        prisma.diaperChange.count({ where }),
+      ]);
+
+      res.status(200).json({
+        diapers,
+        pagination: { limit, offset, total, hasMore: offset + diapers.length < total },
+      });
+    } catch (error) {
+      console.error('Error fetching diaper changes:', error);
+      res.status(500).json({ error: 'Failed to fetch diaper changes' });
+    }
+  }
+);
+
+/**
+ * POST /tracking/diapers
+ * Log a diaper change
+ *
+ * Request body:
+ * - type: WET | DIRTY | MIXED | DRY - required
+ * - changedAt: ISO date string - optional (default: now)
+ * - notes: string - optional
+ * - childId: string - optional (required to pick a child when the family has several)
+ */
+router.post(
+  '/diapers',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+      const body = req.body as Record<string, unknown>;
+
+      const access = await getFamilyAccess(userId);
+      if (!access.canEdit) {
+        return res.status(403).json({ error: 'Forbidden', message: 'Family viewers cannot log activities' });
+      }
+
+      const parsed = parseDiaperInput(body);
+      if ('error' in parsed) {
+        return res.status(400).json({ error: 'Invalid diaper change', message: parsed.error });
+      }
+
+      const { type, changedAt = new Date(), notes } = parsed.value;
+      if (!type) {
+        return res.status(400).json({ error: 'Missing required fields', required: ['type'] });
+      }
+
+      if ((changedAt as Date) > new Date()) {
+        return res.status(400).json({ error: 'Invalid diaper change', message: 'changedAt cannot be in the future' });
+      }
+
+      const childId = await resolveChildForRecord(userId, body.childId as string | undefined);
+      if (childId === undefined) {
+        return res.status(404).json({ error: 'Child not found' });
+      }
+
+      const diaper = await prisma.diaperChange.create({
+        data: {
+          userId,
+          childId,
+          type: type as DiaperType,
+          changedAt: changedAt as Date,
+          notes: notes as string | null | undefined,
+        },
+      });
+
+      console.log(`🧷 Logged diaper change ${diaper.id} for user ${userId}`);
+
+      res.status(201).json({ message: 'Diaper change logged successfully', diaper });
+    } catch (error) {
+      console.error('Error logging diaper change:', error);
+      res.status(500).json({ error: 'Failed to log diaper change' });
+    }
+  }
+);
+
+/**
+ * PUT /tracking/diapers/:id
+ * Update a diaper change
+ *
+ * Request body: any fields of POST /tracking/diapers (null clears notes)
+ */
+router.put(
+  '/diapers/:id',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+      const diaperId = req.params.id;
+
+      const existingDiaper = await prisma.diaperChange.findUnique({
+        where: { id: diaperId },
+        select: { id: true, userId: true },
+      });
+      if (!existingDiaper) {
+        return res.status(404).json({ error: 'Diaper change not found' });
+      }
+
+      const access = await getFamilyAccess(userId);
+      if (!canModifyRecord(access, existingDiaper.userId)) {
+        return res.status(403).json({ error: 'Forbidden', message: 'You do not have permission to update this diaper change' });
+      }
+
+      const parsed = parseDiaperInput(req.body as Record<string, unknown>);
+      if ('error' in parsed) {
+        return res.status(400).json({ error: 'Invalid diaper change', message: parsed.error });
+      }
+
+      if (parsed.value.changedAt && (parsed.value.changedAt as Date) > new Date()) {
+        return res.status(400).json({ error: 'Invalid diaper change', message: 'changedAt cannot be in the future' });
+      }
+
+      const diaper = await prisma.diaperChange.update({
+        where: { id: diaperId },
+        data: parsed.value,
+      });
+
+      res.status(200).json({ message: 'Diaper change updated successfully', diaper });
+    } catch (error) {
+      console.error('Error updating diaper change:', error);
+      res.status(500).json({ error: 'Failed to update diaper change' });
+    }
+  }
+);
+
+/**
+ * DELETE /tracking/diapers/:id
+ * Delete a diaper change
+ */
+router.delete(
+  '/diapers/:id',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+      const diaperId = req.params.id;
+
+      const diaper = await prisma.diaperChange.findUnique({
+        where: { id: diaperId },
+        select: { id: true, userId: true },
+      });
+      if (!diaper) {
+        return res.status(404).json({ error: 'Diaper change not found' });
+      }
+
+      const access = await getFamilyAccess(userId);
+      if (!canModifyRecord(access, diaper.userId)) {
+        return res.status(403).json({ error: 'Forbidden', message: 'You do not have permission to delete this diaper change' });
+      }
+
+      await prisma.diaperChange.delete({ where: { id: diaperId } });
+
+      res.status(200).json({ message: 'Diaper change deleted successfully', diaperId });
+    } catch (error) {
+      console.error('Error deleting diaper change:', error);
+      res.status(500).json({ error: 'Failed to delete diaper change' });
+    }
+  }
+);
+
+// ===========================
+// Summaries
+// ===========================
+
+/**
+ * Loads all records overlapping a time window for the summary endpoints
+ *
+ * @param memberIds - Family members whose records are visible
+ * @param childId - Optional child filter
+ * @param from - Window start
+ * @param to - Window end
+ * @returns Feeds, sleep sessions and diaper changes in the window
+ */
+async function loadRecordsForSummary(
+  memberIds: string[],
+  childId: string | undefined,
+  from: Date,
+  to: Date,
+): Promise<Parameters<typeof summarizeDays>[0]> {
+  const scope = {
+    userId: { in: memberIds },
+    ...(childId && { childId }),
+  };
+
+  const [feeds, sleeps, diapers] = await Promise.all([
+    prisma.feedEvent.findMany({
+      where: { ...scope, startedAt: { gte: from, lt: to } },
+      select: { type: true, startedAt: true, endedAt: true, durationMinutes: true, volumeMl: true },
+    }),
+    prisma.sleepSession.findMany({
+      where: {
+        ...scope,
+        startedAt: { lt: to },
+        OR: [{ endedAt: null }, { endedAt: { gt: from } }],
+      },
+      select: { startedAt: true, endedAt: true },
+    }),
+    prisma.diaperChange.findMany({
+      where: { ...scope, changedAt: { gte: from, lt: to } },
+      select: { type: true, changedAt: true },
+    }),
+  ]);
+
+  return { feeds, sleeps, diapers };
+}
+
+/**
+ * GET /tracking/summary/daily
+ * Per-day aggregates for a date range
+ *
+ * Query params:
+ * - from: YYYY-MM-DD - optional (default: 6 days before `to`)
+ * - to: YYYY-MM-DD - optional, inclusive (default: today)
+ * - childId: filter by child - optional
+ * - tzOffset: minutes behind UTC, as Date.getTimezoneOffset() - optional (default: 0)
+ *
+ * At most 31 days per request.
+ * Each day has feed counts (by type, nursing minutes, bottle volume),
+ * sleep hours (split at midnight), and diaper counts (by type).
+ */
+router.get(
+  '/summary/daily',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+
+      const tzOffset = parseTzOffset(req.query.tzOffset);
+      if ('error' in tzOffset) {
+        return res.status(400).json({ error: 'Invalid query', message: tzOffset.error });
+      }
+
+      const to = (req.query.to as string | undefined) ?? toDateKey(new Date(), tzOffset.value);
+      const from = (req.query.from as string | undefined) ?? addDays(to, -6);
+
+      if (!isDateKey(from) || !isDateKey(to)) {
+        return res.status(400).json({ error: 'Invalid query', message: 'from and to must be dates in YYYY-MM-DD format' });
+      }
+
+      const dayCount = Math.round(
+        (startOfDay(to).getTime() - startOfDay(from).getTime()) / (24 * 60 * 60 * 1000),
+      ) + 1;
+
+      if (dayCount < 1 || dayCount > MAX_SUMMARY_DAYS) {
+        return res.status(400).json({
+          error: 'Invalid query',
+          message: `Date range must cover between 1 and ${MAX_SUMMARY_DAYS} days`,
+        });
+      }
+
+      const childId = req.query.childId as string | undefined;
+      const access = await getFamilyAccess(userId);
+
+      const records = await loadRecordsForSummary(
+        access.memberIds,
+        childId,
+        startOfDay(from, tzOffset.value),
+        startOfDay(addDays(to, 1), tzOffset.value),
+      );
+
+      res.status(200).json({
+        from,
+        to,
+        tzOffset: tzOffset.value,
+        days: summarizeDays(records, from, dayCount, tzOffset.value),
+      });
+    } catch (error) {
+      console.error('Error building daily summary:', error);
+      res.status(500).json({ error: 'Failed to build daily summary' });
+    }
+  }
+);
+
+/**
+ * GET /tracking/summary/weekly
+ * Totals and per-day averages for a week
+ *
+ * Query params:
+ * - weekStart: YYYY-MM-DD - optional (default: 6 days ago, so the week ends today)
+ * - childId: filter by child - optional
+ * - tzOffset: minutes behind UTC, as Date.getTimezoneOffset() - optional (default: 0)
+ */
+router.get(
+  '/summary/weekly',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+
+      const tzOffset = parseTzOffset(req.query.tzOffset);
+      if ('error' in tzOffset) {
+        return res.status(400).json({ error: 'Invalid query', message: tzOffset.error });
+      }
+
+      const weekStart = (req.query.weekStart as string | undefined)
+        ?? addDays(toDateKey(new Date(), tzOffset.value), -6);
+
+      if (!isDateKey(weekStart)) {
+        return res.status(400).json({ error: 'Invalid query', message: 'weekStart must be a date in YYYY-MM-DD format' });
+      }
+
+      const childId = req.query.childId as string | undefined;
+      const access = await getFamilyAccess(userId);
+
+      const records = await loadRecordsForSummary(
+        access.memberIds,
+        childId,
+        startOfDay(weekStart, tzOffset.value),
+        startOfDay(addDays(weekStart, 7), tzOffset.value),
+      );
+
+      res.status(200).json({
+        tzOffset: tzOffset.value,
+        ...summarizeWeek(records, weekStart, tzOffset.value),
+      });
+    } catch (error) {
+      console.error('Error building weekly summary:', error);
+      res.status(500).json({ error: 'Failed to build weekly summary' });
+    }
+  }
+);
+
+export default router;
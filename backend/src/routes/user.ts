@@ -8,10 +8,26 @@
 import express, { Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
 import multer from 'multer';
-import { authenticateToken } from '../middleware/auth';
+import { authenticateToken, requireVerifiedEmail, AuthenticatedRequest } from '../middleware/auth';
 import bcrypt from 'bcrypt';
 import { deleteFromS3, getPresignedUrl, uploadToS3 } from '../utils/s3';
 import Stripe from 'stripe';
+import { sendVerificationEmail } from '../services/emailVerification';
+import { revokeAllSessions } from '../services/authSessions';
+import { syncPrimaryChild } from '../services/children';
+import { releaseFamilyOwnership } from '../services/family';
+import {
+  NOTIFICATION_CATEGORIES,
+  isValidTimeZone,
+  parseNotificationPreferences,
+  parseTimeOfDay,
+} from '../utils/notifications';
+import { resolveBirthDate } from '../utils/pregnancy';
+import { MAX_MEMORIES_PER_USER } from '../services/memories';
+import { deleteVoiceAudio } from '../services/voiceAudio';
+import { MEMORY_CATEGORIES, isDuplicateMemory, normalizeMemoryContent, parseMemoryCategory } from '../utils/memories';
+import { MAX_TTS_SPEED, MIN_TTS_SPEED, TTS_VOICES, isTtsVoice } from '../utils/speech';
+import { SUPPORTED_LANGUAGES, isSupportedLanguage } from '../utils/language';
 
 const router = express.Router();
 const prisma = new PrismaClient();
@@ -57,6 +73,8 @@ const stripe = process.env.STRIPE_SECRET_KEY
  * - concerns?: Concern[]
  * - notificationPreferences?: object
  *
+ * Baby details are also written to the user's first child (created if needed).
+ *
  * Returns: Updated user profile data
  */
 router.put('/profile', authenticateToken, async (req: Request, res: Response) => {
@@ -162,6 +180,14 @@ router.put('/profile', authenticateToken, async (req: Request, res: Response) =>
       },
     });
 
+    // Keep the first child in sync with the profile's baby details
+    await syncPrimaryChild(userId, {
+      name: updatedProfile.babyName,
+      birthDate: updatedProfile.babyBirthDate,
+      dueDate: updatedProfile.dueDate,
+      gender: updatedProfile.babyGender,
+    });
+
     // Mark onboarding as complete in User model
     // This flag is checked by the router to determine if user should see onboarding
     const updatedUser = await prisma.user.update({
@@ -286,6 +312,411 @@ router.get('/profile', authenticateToken, async (req: Request, res: Response) =>
   }
 });
 
+/**
+ * PUT /user/preferences
+ *
+ * Update assistant preferences without resubmitting the whole profile.
+ *
+ * Request body (all fields optional, only provided fields will be updated):
+ * - activityContextEnabled?: boolean - include recent activity logs, milestones
+ *   and photo analysis in the AI's context
+ * - memoryEnabled?: boolean - remember facts from conversations and use them in
+ *   later answers (turning it off keeps existing memories; see /user/memories)
+ * - country?: string | null - ISO 3166-1 alpha-2 code used for the immunization
+ *   schedule (null resets to the default)
+ * - notificationPreferences?: object - push toggles to change (pushEnabled,
+ *   dailyMilestoneUpdates, weeklyTipsGuidance, milestoneReminders); other keys keep their value
+ * - quietHours?: { start: "HH:MM", end: "HH:MM" } | null - local times without push
+ *   notifications (may span midnight); null turns quiet hours off
+ * - timeZone?: string | null - IANA time zone for quiet hours (e.g. "America/Chicago")
+ * - ttsVoice?: string - voice for spoken replies in voice conversations (see TTS_VOICES)
+ * - ttsSpeed?: number - speed of spoken replies, from 0.5 to 2 (1 is normal)
+ * - preferredLanguage?: string | null - language of answers, transcription, titles and
+ *   summaries (see SUPPORTED_LANGUAGES); null follows the language the parent uses
+ *
+ * Returns: Updated preferences, or 404 if the profile doesn't exist yet
+ */
+router.put('/preferences', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized - user ID not found' });
+    }
+
+    const {
+      activityContextEnabled,
+      memoryEnabled,
+      country,
+      notificationPreferences,
+      quietHours,
+      timeZone,
+      ttsVoice,
+      ttsSpeed,
+      preferredLanguage,
+    } = req.body as {
+      activityContextEnabled?: unknown;
+      memoryEnabled?: unknown;
+      country?: unknown;
+      notificationPreferences?: unknown;
+      quietHours?: unknown;
+      timeZone?: unknown;
+      ttsVoice?: unknown;
+      ttsSpeed?: unknown;
+      preferredLanguage?: unknown;
+    };
+
+    if (activityContextEnabled !== undefined && typeof activityContextEnabled !== 'boolean') {
+      return res.status(400).json({ error: 'activityContextEnabled must be a boolean' });
+    }
+
+    if (memoryEnabled !== undefined && typeof memoryEnabled !== 'boolean') {
+      return res.status(400).json({ error: 'memoryEnabled must be a boolean' });
+    }
+
+    if (country !== undefined && country !== null && (typeof country !== 'string' || !/^[A-Za-z]{2}$/.test(country))) {
+      return res.status(400).json({ error: 'country must be a 2-letter ISO code or null' });
+    }
+
+    const notificationKeys = ['pushEnabled', ...NOTIFICATION_CATEGORIES];
+    if (
+      notificationPreferences !== undefined &&
+      (!notificationPreferences ||
+        typeof notificationPreferences !== 'object' ||
+        Array.isArray(notificationPreferences) ||
+        !Object.entries(notificationPreferences).every(
+          ([key, value]) => notificationKeys.includes(key) && typeof value === 'boolean',
+        ))
+    ) {
+      return res.status(400).json({
+        error: 'notificationPreferences must be an object of booleans',
+        validKeys: notificationKeys,
+      });
+    }
+
+    let quietHoursData: { quietHoursStart: string | null; quietHoursEnd: string | null } | undefined;
+    if (quietHours === null) {
+      quietHoursData = { quietHoursStart: null, quietHoursEnd: null };
+    } else if (quietHours !== undefined) {
+      const { start, end } = (quietHours ?? {}) as { start?: unknown; end?: unknown };
+      if (parseTimeOfDay(start) === null || parseTimeOfDay(end) === null) {
+        return res.status(400).json({ error: 'quietHours must have start and end times in HH:MM format, or be null' });
+      }
+      quietHoursData = { quietHoursStart: start as string, quietHoursEnd: end as string };
+    }
+
+    if (timeZone !== undefined && timeZone !== null && !isValidTimeZone(timeZone)) {
+      return res.status(400).json({ error: 'timeZone must be an IANA time zone name or null' });
+    }
+
+    if (ttsVoice !== undefined && !isTtsVoice(ttsVoice)) {
+      return res.status(400).json({ error: 'Invalid ttsVoice', validVoices: TTS_VOICES });
+    }
+
+    if (
+      ttsSpeed !== undefined &&
+      (typeof ttsSpeed !== 'number' || !(ttsSpeed >= MIN_TTS_SPEED && ttsSpeed <= MAX_TTS_SPEED))
+    ) {
+      return res.status(400).json({ error: `ttsSpeed must be a number from ${MIN_TTS_SPEED} to ${MAX_TTS_SPEED}` });
+    }
+
+    if (preferredLanguage !== undefined && preferredLanguage !== null && !isSupportedLanguage(preferredLanguage)) {
+      return res.status(400).json({ error: 'Invalid preferredLanguage', validLanguages: SUPPORTED_LANGUAGES });
+    }
+
+    const profile = await prisma.userProfile.findUnique({
+      where: { userId },
+      select: { id: true, notificationPreferences: true },
+    });
+
+    if (!profile) {
+      return res.status(404).json({
+        error: 'Profile not found',
+        message: 'User has not completed onboarding',
+      });
+    }
+
+    const updatedProfile = await prisma.userProfile.update({
+      where: { userId },
+      data: {
+        activityContextEnabled,
+        memoryEnabled,
+        country: typeof country === 'string' ? country.toUpperCase() : country,
+        // Merge toggles so a client can change one without resending the rest
+        notificationPreferences: notificationPreferences
+          ? { ...parseNotificationPreferences(profile.notificationPreferences), ...notificationPreferences }
+          : undefined,
+        ...quietHoursData,
+        timeZone: timeZone as string | null | undefined,
+        ttsVoice,
+        ttsSpeed,
+        preferredLanguage,
+      },
+    });
+
+    return res.status(200).json({
+      message: 'Preferences updated successfully',
+      preferences: {
+        activityContextEnabled: updatedProfile.activityContextEnabled,
+        memoryEnabled: updatedProfile.memoryEnabled,
+        country: updatedProfile.country,
+        notificationPreferences: parseNotificationPreferences(updatedProfile.notificationPreferences),
+        quietHours: updatedProfile.quietHoursStart && updatedProfile.quietHoursEnd
+          ? { start: updatedProfile.quietHoursStart, end: updatedProfile.quietHoursEnd }
+          : null,
+        timeZone: updatedProfile.timeZone,
+        ttsVoice: updatedProfile.ttsVoice,
+        ttsSpeed: updatedProfile.ttsSpeed,
+        preferredLanguage: updatedProfile.preferredLanguage,
+      },
+    });
+  } catch (error) {
+    console.error('Error updating preferences:', error);
+
+    return res.status(500).json({
+      error: 'Failed to update preferences',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /user/memories
+ *
+ * List the facts the assistant remembers from conversations (and ones the user added).
+ *
+ * Query params:
+ * - category?: HEALTH | MEDICAL_ADVICE | FAMILY | ROUTINE | PREFERENCE | OTHER
+ * - limit?: number (default 50, max 200)
+ * - offset?: number (default 0)
+ *
+ * Returns: Memories (most recently updated first) with pagination info
+ */
+router.get('/memories', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized - user ID not found' });
+    }
+
+    const category = req.query.category === undefined ? undefined : parseMemoryCategory(req.query.category);
+    if (category === null) {
+      return res.status(400).json({ error: 'Invalid category', validCategories: MEMORY_CATEGORIES });
+    }
+
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, MAX_MEMORIES_PER_USER);
+    const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+    const where = { userId, ...(category && { category }) };
+
+    const [memories, total] = await Promise.all([
+      prisma.userMemory.findMany({
+        where,
+        orderBy: { updatedAt: 'desc' },
+        take: limit,
+        skip: offset,
+      }),
+      prisma.userMemory.count({ where }),
+    ]);
+
+    return res.status(200).json({
+      memories,
+      pagination: { limit, offset, total, hasMore: offset + memories.length < total },
+    });
+  } catch (error) {
+    console.error('Error fetching memories:', error);
+
+    return res.status(500).json({
+      error: 'Failed to fetch memories',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /user/memories
+ *
+ * Tell the assistant something to remember.
+ *
+ * Request body:
+ * - content: string - the fact, e.g. "Allergic to peanuts" (max 300 characters)
+ * - category?: string - memory category (default OTHER)
+ *
+ * Returns: Created memory, 409 if it's already remembered or the memory limit is reached
+ */
+router.post('/memories', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized - user ID not found' });
+    }
+
+    const { content, category } = req.body as { content?: unknown; category?: unknown };
+    const text = typeof content === 'string' ? normalizeMemoryContent(content) : '';
+    const parsedCategory = category === undefined ? 'OTHER' : parseMemoryCategory(category);
+
+    if (!text) {
+      return res.status(400).json({ error: 'content is required' });
+    }
+    if (!parsedCategory) {
+      return res.status(400).json({ error: 'Invalid category', validCategories: MEMORY_CATEGORIES });
+    }
+
+    const existing = await prisma.userMemory.findMany({
+      where: { userId },
+      select: { content: true },
+    });
+
+    if (existing.length >= MAX_MEMORIES_PER_USER) {
+      return res.status(409).json({
+        error: 'Memory limit reached',
+        message: `Delete some memories to add new ones (limit ${MAX_MEMORIES_PER_USER})`,
+      });
+    }
+    if (isDuplicateMemory(text, existing.map((memory) => memory.content))) {
+      return res.status(409).json({ error: 'This is already remembered' });
+    }
+
+    const memory = await prisma.userMemory.create({
+      data: { userId, category: parsedCategory, content: text, source: 'USER' },
+    });
+
+    return res.status(201).json({ message: 'Memory saved', memory });
+  } catch (error) {
+    console.error('Error creating memory:', error);
+
+    return res.status(500).json({
+      error: 'Failed to save memory',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * PUT /user/memories/:id
+ *
+ * Correct a remembered fact. Edited memories count as the user's own.
+ *
+ * Request body (at least one field):
+ * - content?: string - corrected fact (max 300 characters)
+ * - category?: string - memory category
+ *
+ * Returns: Updated memory, or 404 if it doesn't exist
+ */
+router.put('/memories/:id', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized - user ID not found' });
+    }
+
+    const { content, category } = req.body as { content?: unknown; category?: unknown };
+    const text = typeof content === 'string' ? normalizeMemoryContent(content) : undefined;
+    const parsedCategory = category === undefined ? undefined : parseMemoryCategory(category);
+
+    if (content === undefined && category === undefined) {
+      return res.status(400).json({ error: 'Provide content and/or category to update' });
+    }
+    if (content !== undefined && !text) {
+      return res.status(400).json({ error: 'content must be a non-empty string' });
+    }
+    if (parsedCategory === null) {
+      return res.status(400).json({ error: 'Invalid category', validCategories: MEMORY_CATEGORIES });
+    }
+
+    const memory = await prisma.userMemory.findFirst({
+      where: { id: req.params.id, userId },
+      select: { id: true },
+    });
+
+    if (!memory) {
+      return res.status(404).json({ error: 'Memory not found' });
+    }
+
+    const updatedMemory = await prisma.userMemory.update({
+      where: { id: memory.id },
+      data: { content: text, category: parsedCategory, source: 'USER' },
+    });
+
+    return res.status(200).json({ message: 'Memory updated', memory: updatedMemory });
+  } catch (error) {
+    console.error('Error updating memory:', error);
+
+    return res.status(500).json({
+      error: 'Failed to update memory',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * DELETE /user/memories/:id
+ *
+ * Forget one remembered fact.
+ *
+ * Returns: Success message, or 404 if it doesn't exist
+ */
+router.delete('/memories/:id', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized - user ID not found' });
+    }
+
+    const { count } = await prisma.userMemory.deleteMany({
+      where: { id: req.params.id, userId },
+    });
+
+    if (count === 0) {
+      return res.status(404).json({ error: 'Memory not found' });
+    }
+
+    return res.status(200).json({ message: 'Memory deleted' });
+  } catch (error) {
+    console.error('Error deleting memory:', error);
+
+    return res.status(500).json({
+      error: 'Failed to delete memory',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * DELETE /user/memories
+ *
+ * Forget everything the assistant remembers about the user.
+ *
+ * Returns: Number of memories deleted
+ */
+router.delete('/memories', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized - user ID not found' });
+    }
+
+    const { count } = await prisma.userMemory.deleteMany({
+      where: { userId },
+    });
+
+    console.log(`🧠 Cleared ${count} memories for user ${userId}`);
+
+    return res.status(200).json({ message: 'All memories deleted', deleted: count });
+  } catch (error) {
+    console.error('Error clearing memories:', error);
+
+    return res.status(500).json({
+      error: 'Failed to delete memories',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
 /**
  * POST /user/upload-profile-image
  *
@@ -461,6 +892,9 @@ router.post(
         },
       });
 
+      // Keep the first child's picture in sync
+      await syncPrimaryChild(userId, { imageUrl: s3Key });
+
       console.log(`✅ Baby image uploaded successfully: ${s3Key}`);
 
       return res.status(200).json({
@@ -591,6 +1025,9 @@ router.delete('/baby-image', authenticateToken, async (req: Request, res: Respon
       },
     });
 
+    // Keep the first child's picture in sync
+    await syncPrimaryChild(userId, { imageUrl: null });
+
     return res.status(200).json({
       message: 'Baby image deleted successfully',
     });
@@ -608,7 +1045,8 @@ router.delete('/baby-image', authenticateToken, async (req: Request, res: Respon
  * PUT /user/email
  *
  * Change user's email address.
- * Requires current password for verification.
+ * Requires current password for verification and an already verified email.
+ * The new address must be verified again; a verification link is sent to it.
  *
  * Request body:
  * - newEmail: string (new email address)
@@ -616,7 +1054,7 @@ router.delete('/baby-image', authenticateToken, async (req: Request, res: Respon
  *
  * Returns: Success message
  */
-router.put('/email', authenticateToken, async (req: Request, res: Response) => {
+router.put('/email', authenticateToken, requireVerifiedEmail, async (req: Request, res: Response) => {
   try {
     // Extract userId from authenticated token
     const userId = (req as any).user?.userId;
@@ -667,18 +1105,26 @@ router.put('/email', authenticateToken, async (req: Request, res: Response) => {
       });
     }
 
-    // Update email in database
+    // Update email in database and require the new address to be verified
     await prisma.user.update({
       where: { id: userId },
       data: {
         email: newEmail,
+        emailVerified: false,
+        emailVerifiedAt: null,
         updatedAt: new Date(),
       },
     });
 
+    // Send verification link to the new address in background
+    sendVerificationEmail(userId, newEmail).catch((mailError) => {
+      console.error('Failed to send verification email:', mailError);
+    });
+
     return res.status(200).json({
-      message: 'Email updated successfully',
+      message: 'Email updated successfully. Please verify your new email address.',
       newEmail: newEmail,
+      emailVerified: false,
     });
   } catch (error) {
     console.error('Error updating email:', error);
@@ -695,6 +1141,7 @@ router.put('/email', authenticateToken, async (req: Request, res: Response) => {
  *
  * Change user's password.
  * Requires current password for verification.
+ * All other signed-in devices are signed out; the current session stays active.
  *
  * Request body:
  * - currentPassword: string
@@ -770,8 +1217,16 @@ router.put('/password', authenticateToken, async (req: Request, res: Response) =
       },
     });
 
+    // Sign out every other device (keep the session making this request)
+    const revokedSessions = await revokeAllSessions(
+      userId,
+      'password_change',
+      (req as AuthenticatedRequest).user?.sessionId,
+    );
+
     return res.status(200).json({
       message: 'Password updated successfully',
+      revokedSessions,
     });
   } catch (error) {
     console.error('Error updating password:', error);
@@ -790,9 +1245,9 @@ router.put('/password', authenticateToken, async (req: Request, res: Response) =
  * This is a one-way toggle and cannot be reversed.
  *
  * Request body:
- * - babyName: string
- * - babyGender: BabyGender
- * - babyBirthDate: Date
+ * - babyName: string (optional if already set on the profile)
+ * - babyGender: BabyGender (optional if already set on the profile)
+ * - babyBirthDate: Date (optional - defaults to the due date, or today if the baby arrived early)
  *
  * Returns: Success message with updated profile
  */
@@ -808,11 +1263,13 @@ router.post('/toggle-mode', authenticateToken, async (req: Request, res: Respons
     // Extract request data
     const { babyName, babyGender, babyBirthDate } = req.body;
 
-    // Validate inputs
-    if (!babyName || !babyGender || !babyBirthDate) {
-      return res.status(400).json({
-        error: 'Missing required fields: babyName, babyGender, and babyBirthDate are required',
-      });
+    // Validate birth date if provided
+    const parsedBirthDate = babyBirthDate ? new Date(babyBirthDate) : null;
+    if (parsedBirthDate && isNaN(parsedBirthDate.getTime())) {
+      return res.status(400).json({ error: 'babyBirthDate must be a valid ISO date string' });
+    }
+    if (parsedBirthDate && parsedBirthDate > new Date()) {
+      return res.status(400).json({ error: 'babyBirthDate cannot be in the future' });
     }
 
     // Fetch current user profile
@@ -831,19 +1288,38 @@ router.post('/toggle-mode', authenticateToken, async (req: Request, res: Respons
       });
     }
 
+    // Baby details from the request, or those entered during pregnancy
+    const name = babyName || profile.babyName;
+    const gender = babyGender || profile.babyGender;
+    const birthDate = resolveBirthDate(profile.dueDate, parsedBirthDate);
+
+    if (!name || !gender || !birthDate) {
+      return res.status(400).json({
+        error: 'Missing required fields: babyName, babyGender, and babyBirthDate (or a due date on the profile) are required',
+      });
+    }
+
     // Update profile to PARENTING mode with baby details
     const updatedProfile = await prisma.userProfile.update({
       where: { userId },
       data: {
         mode: 'PARENTING',
-        babyName,
-        babyGender,
-        babyBirthDate: new Date(babyBirthDate),
-        dueDate: null, // Clear due date since baby is now born
+        babyName: name,
+        babyGender: gender,
+        babyBirthDate: birthDate,
+        dueDate: null, // Due date is replaced by the birth date now the baby is born
         updatedAt: new Date(),
       },
     });
 
+    // The expected baby is now born: update the first child as well
+    await syncPrimaryChild(userId, {
+      name: updatedProfile.babyName,
+      birthDate: updatedProfile.babyBirthDate,
+      dueDate: null,
+      gender: updatedProfile.babyGender,
+    });
+
     return res.status(200).json({
       message: 'Successfully switched to Parenting mode',
       profile: {
@@ -870,7 +1346,8 @@ router.post('/toggle-mode', authenticateToken, async (req: Request, res: Respons
  * DELETE /user/account
  *
  * Delete user account and all associated data.
- * This action is irreversible.
+ * This action is irreversible. A family owned by the user passes to its
+ * longest-standing co-parent, or is disbanded if it has none.
  *
  * Request body:
  * - password: string (for verification)
@@ -935,6 +1412,14 @@ router.delete('/account', authenticateToken, async (req: Request, res: Response)
       }
     }
 
+    // Delete voice conversation recordings
+    try {
+      await deleteVoiceAudio({ userId });
+    } catch (s3Error) {
+      console.error('Error deleting voice audio from S3:', s3Error);
+      // Continue with deletion even if S3 deletion fails
+    }
+
     // Delete all user data in a transaction
     // Order matters: delete children before parents (foreign key constraints)
     await prisma.$transaction(async (tx) => {
@@ -963,6 +1448,9 @@ router.delete('/account', authenticateToken, async (req: Request, res: Response)
         where: { userId },
       });
 
+      // Hand the family to a co-parent (or disband it) so it isn't left without an owner
+      await releaseFamilyOwnership(tx, userId);
+
       // Delete user account
       await tx.user.delete({
         where: { id: userId },
@@ -988,21 +1476,21 @@ router.delete('/account', authenticateToken, async (req: Request, res: Response)
  * GET /user/data-export
  *
  * Export all user data in JSON format (GDPR compliance).
- * Includes profile, messages, milestones, and photo metadata with presigned URLs.
+ * Includes profile, children, messages, milestones, activity logs, memories, and photo metadata with presigned URLs.
  *
  * Returns: JSON file with all user data
  */
 router.get('/data-export', authenticateToken, async (req: Request, res: Response) => {
   try {
     // Extract userId from authenticated token
-    const userId = (req as any).user?.userId;
+    const userId = (req as AuthenticatedRequest).user?.userId;
 
     if (!userId) {
       return res.status(401).json({ error: 'Unauthorized - user ID not found' });
     }
 
     // Fetch all user data from database
-    const [user, profile, messages, milestones, photos, usageRecords] = await Promise.all([
+    const [user, profile, children, messages, milestones, photos, usageRecords, feeds, sleepSessions, diaperChanges, growthMeasurements, immunizationRecords, prenatalChecklistItems, kickCountSessions, contractionSessions, memories] = await Promise.all([
       prisma.user.findUnique({
         where: { id: userId },
         select: {
@@ -1019,6 +1507,10 @@ router.get('/data-export', authenticateToken, async (req: Request, res: Response
       prisma.userProfile.findUnique({
         where: { userId },
       }),
+      prisma.child.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'asc' },
+      }),
       prisma.message.findMany({
         where: { userId },
         orderBy: { timestamp: 'asc' },
@@ -1035,6 +1527,43 @@ router.get('/data-export', authenticateToken, async (req: Request, res: Response
         where: { userId },
         orderBy: { date: 'desc' },
       }),
+      prisma.feedEvent.findMany({
+        where: { userId },
+        orderBy: { startedAt: 'desc' },
+      }),
+      prisma.sleepSession.findMany({
+        where: { userId },
+        orderBy: { startedAt: 'desc' },
+      }),
+      prisma.diaperChange.findMany({
+        where: { userId },
+        orderBy: { changedAt: 'desc' },
+      }),
+      prisma.growthMeasurement.findMany({
+        where: { userId },
+        orderBy: { measuredAt: 'desc' },
+      }),
+      prisma.immunizationRecord.findMany({
+        where: { userId },
+        orderBy: { administeredAt: 'desc' },
+      }),
+      prisma.prenatalChecklistItem.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.kickCountSession.findMany({
+        where: { userId },
+        orderBy: { startedAt: 'desc' },
+      }),
+      prisma.contractionSession.findMany({
+        where: { userId },
+        include: { contractions: { orderBy: { startedAt: 'asc' } } },
+        orderBy: { startedAt: 'desc' },
+      }),
+      prisma.userMemory.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'asc' },
+      }),
     ]);
 
     if (!user) {
@@ -1079,12 +1608,26 @@ router.get('/data-export', authenticateToken, async (req: Request, res: Response
             }
           : null,
       },
+      children,
       messages: messages.map((msg) => ({
         ...msg,
         content: msg.content,
       })),
       milestones,
       photos: photosWithUrls,
+      memories,
+      prenatalChecklist: prenatalChecklistItems,
+      pregnancyTracking: {
+        kickCountSessions,
+        contractionSessions,
+      },
+      activity: {
+        feeds,
+        sleepSessions,
+        diaperChanges,
+        growthMeasurements,
+        immunizationRecords,
+      },
       usageHistory: usageRecords,
     };
 
@@ -0,0 +1,170 @@
+/**
+ * Seed script to populate ImmunizationScheduleDose table with reference schedules
+ *
+ * This script reads per-country schedules from immunization-schedules.json and inserts
+ * them into the ImmunizationScheduleDose table. It can be run multiple times safely as it
+ * uses upsert operations (update if exists, insert if not). Doses removed from a
+ * country's schedule in the JSON file are deleted; existing records keep their vaccine
+ * code and dose number but are unlinked.
+ *
+ * Usage: npm run seed:immunizations
+ * or: ts-node src/scripts/seed-immunization-schedules.ts
+ */
+
+import { PrismaClient } from '@prisma/client';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ScheduleAge, isScheduleAge } from '../utils/immunizations';
+
+// Initialize Prisma Client
+const prisma = new PrismaClient();
+
+/**
+ * Interface matching the structure of a schedule dose in the JSON file
+ */
+interface ScheduleDoseData {
+  vaccineCode: string;
+  vaccineName: string;
+  doseNumber: number;
+  dueAge: ScheduleAge;
+  overdueAge: ScheduleAge;
+  notes?: string;
+}
+
+/**
+ * Interface matching the structure of a country schedule in the JSON file
+ */
+interface ScheduleData {
+  country: string;
+  name: string;
+  sources: string[];
+  doses: ScheduleDoseData[];
+}
+
+/**
+ * Main seeding function that reads JSON and populates database
+ */
+async function seedImmunizationSchedules(): Promise<void> {
+  try {
+    console.log('🌱 Starting immunization schedule seeding...\n');
+
+    // Read the immunization schedules JSON file
+    const dataPath = path.join(__dirname, '../data/immunization-schedules.json');
+    console.log(`📂 Reading data from: ${dataPath}`);
+
+    const jsonData = fs.readFileSync(dataPath, 'utf-8');
+    const schedules = JSON.parse(jsonData) as ScheduleData[];
+
+    console.log(`✅ Found ${schedules.length} country schedules to seed\n`);
+
+    // Counter for tracking success/failures
+    let successCount = 0;
+    let errorCount = 0;
+    let removedCount = 0;
+
+    // Process each country's schedule
+    for (const schedule of schedules) {
+      const country = schedule.country.toUpperCase();
+      const seededIds: string[] = [];
+
+      console.log(`💉 ${country}: ${schedule.name} (${schedule.doses.length} doses)`);
+
+      for (const [index, dose] of schedule.doses.entries()) {
+        const label = `${country} ${dose.vaccineCode} dose ${dose.doseNumber}`;
+
+        try {
+          // Validate ages are structured data, not free text
+          if (!isScheduleAge(dose.dueAge) || !isScheduleAge(dose.overdueAge)) {
+            throw new Error('dueAge and overdueAge must be objects with days, weeks or months');
+          }
+
+          const data = {
+            vaccineName: dose.vaccineName,
+            dueAge: { ...dose.dueAge },
+            overdueAge: { ...dose.overdueAge },
+            notes: dose.notes ?? null,
+            sources: schedule.sources,
+            sortOrder: index,
+          };
+
+          // Upsert dose (update if exists, create if not)
+          // Using country + vaccine code + dose number as unique identifier
+          const seededDose = await prisma.immunizationScheduleDose.upsert({
+            where: {
+              country_vaccineCode_doseNumber: {
+                country,
+                vaccineCode: dose.vaccineCode,
+                doseNumber: dose.doseNumber,
+              },
+            },
+            update: data,
+            create: {
+              country,
+              vaccineCode: dose.vaccineCode,
+              doseNumber: dose.doseNumber,
+              ...data,
+            },
+          });
+
+          seededIds.push(seededDose.id);
+          successCount++;
+          console.log(`✓ Seeded: ${label}`);
+        } catch (error) {
+          errorCount++;
+          console.error(`✗ Error seeding ${label}:`, error);
+        }
+      }
+
+      // Remove doses that are no longer part of this country's schedule
+      const removed = await prisma.immunizationScheduleDose.deleteMany({
+        where: {
+          country,
+          id: { notIn: seededIds },
+        },
+      });
+
+      if (removed.count > 0) {
+        removedCount += removed.count;
+        console.log(`🗑️  Removed ${removed.count} outdated ${country} doses`);
+      }
+
+      console.log('');
+    }
+
+    // Print summary
+    console.log('='.repeat(60));
+    console.log('📊 Seeding Summary:');
+    console.log(`   ✅ Successful: ${successCount}`);
+    console.log(`   ❌ Failed: ${errorCount}`);
+    console.log(`   🗑️  Removed: ${removedCount}`);
+    console.log('='.repeat(60) + '\n');
+
+    if (errorCount === 0) {
+      console.log('🎉 All immunization schedules seeded successfully!');
+    } else {
+      console.log('⚠️  Some doses failed to seed. Check errors above.');
+    }
+
+  } catch (error) {
+    console.error('❌ Fatal error during seeding:', error);
+    throw error;
+  } finally {
+    // Always disconnect from database
+    await prisma.$disconnect();
+    console.log('\n🔌 Database connection closed.');
+  }
+}
+
+/**
+ * Execute seeding function
+ * Handle errors and exit with appropriate code
+ */
+seedImmunizationSchedules()
+  .then(() => {
+    console.log('✅ Seeding completed successfully!');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('❌ Seeding failed:', error);
+    process.exit(1);
+  });
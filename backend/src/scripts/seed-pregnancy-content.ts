@@ -0,0 +1,131 @@
+/**
+ * Seed script to populate PregnancyWeekContent table with week-by-week content
+ *
+ * This script reads pregnancy week data from pregnancy-weeks.json and inserts it
+ * into the PregnancyWeekContent table. It can be run multiple times safely as it
+ * uses upsert operations (update if exists, insert if not).
+ *
+ * Usage: npm run seed:pregnancy
+ * or: ts-node src/scripts/seed-pregnancy-content.ts
+ */
+
+import { PrismaClient } from '@prisma/client';
+import * as fs from 'fs';
+import * as path from 'path';
+import { MAX_PREGNANCY_WEEK, MIN_PREGNANCY_WEEK, getTrimester } from '../utils/pregnancy';
+
+// Initialize Prisma Client
+const prisma = new PrismaClient();
+
+/**
+ * Interface matching the structure of a pregnancy week in the JSON file
+ */
+interface PregnancyWeekData {
+  week: number;
+  trimester: number;
+  babySize: string | null;
+  babyLengthCm: number | null;
+  babyWeightG: number | null;
+  fetalDevelopment: string;
+  commonSymptoms: string[];
+  prenatalAppointments: string[];
+  tips: string[];
+  sources: string[];
+}
+
+/**
+ * Main seeding function that reads JSON and populates database
+ */
+async function seedPregnancyContent(): Promise<void> {
+  try {
+    console.log('🌱 Starting pregnancy content seeding...\n');
+
+    // Read the pregnancy weeks JSON file
+    const dataPath = path.join(__dirname, '../data/pregnancy-weeks.json');
+    console.log(`📂 Reading data from: ${dataPath}`);
+
+    const jsonData = fs.readFileSync(dataPath, 'utf-8');
+    const weeks = JSON.parse(jsonData) as PregnancyWeekData[];
+
+    console.log(`✅ Found ${weeks.length} weeks to seed\n`);
+
+    // Counter for tracking success/failures
+    let successCount = 0;
+    let errorCount = 0;
+
+    // Process each week
+    for (const week of weeks) {
+      try {
+        // Validate the week number and that the trimester matches it
+        if (!Number.isInteger(week.week) || week.week < MIN_PREGNANCY_WEEK || week.week > MAX_PREGNANCY_WEEK) {
+          throw new Error(`week must be a whole number between ${MIN_PREGNANCY_WEEK} and ${MAX_PREGNANCY_WEEK}`);
+        }
+        if (week.trimester !== getTrimester(week.week)) {
+          throw new Error(`week ${week.week} belongs to trimester ${getTrimester(week.week)}, not ${week.trimester}`);
+        }
+
+        const data = {
+          trimester: week.trimester,
+          babySize: week.babySize,
+          babyLengthCm: week.babyLengthCm,
+          babyWeightG: week.babyWeightG,
+          fetalDevelopment: week.fetalDevelopment,
+          commonSymptoms: week.commonSymptoms,
+          prenatalAppointments: week.prenatalAppointments,
+          tips: week.tips,
+          sources: week.sources,
+        };
+
+        // Upsert week content (update if exists, create if not)
+        // Using week number as unique identifier
+        await prisma.pregnancyWeekContent.upsert({
+          where: { week: week.week },
+          update: data,
+          create: { week: week.week, ...data },
+        });
+
+        successCount++;
+        console.log(`✓ Seeded: week ${week.week}${week.babySize ? ` (${week.babySize})` : ''}`);
+      } catch (error) {
+        errorCount++;
+        console.error(`✗ Error seeding week ${week.week}:`, error);
+      }
+    }
+
+    // Print summary
+    console.log('\n' + '='.repeat(60));
+    console.log('📊 Seeding Summary:');
+    console.log(`   ✅ Successful: ${successCount}`);
+    console.log(`   ❌ Failed: ${errorCount}`);
+    console.log(`   📝 Total: ${weeks.length}`);
+    console.log('='.repeat(60) + '\n');
+
+    if (errorCount === 0) {
+      console.log('🎉 All pregnancy weeks seeded successfully!');
+    } else {
+      console.log('⚠️  Some weeks failed to seed. Check errors above.');
+    }
+
+  } catch (error) {
+    console.error('❌ Fatal error during seeding:', error);
+    throw error;
+  } finally {
+    // Always disconnect from database
+    await prisma.$disconnect();
+    console.log('\n🔌 Database connection closed.');
+  }
+}
+
+/**
+ * Execute seeding function
+ * Handle errors and exit with appropriate code
+ */
+seedPregnancyContent()
+  .then(() => {
+    console.log('✅ Seeding completed successfully!');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('❌ Seeding failed:', error);
+    process.exit(1);
+  });
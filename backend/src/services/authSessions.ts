@@ -0,0 +1,414 @@
+/**
+ * Auth Session Service
+ *
+ * Stores refresh tokens server-side so they can be rotated and revoked.
+ *
+ * - Each login creates an AuthSession (one per device) with its first refresh token.
+ * - Every /auth/refresh exchanges the presented token for a new one (rotation).
+ * - Presenting a token that was already rotated means it leaked: the whole
+ *   session (token family) is revoked and the device must log in again.
+ * - Sessions can be listed and revoked individually ("log out my lost phone").
+ *   Access tokens carry their session ID, so they stop working with the session.
+ * - Revoked and expired sessions are deleted by the prune-auth-sessions job.
+ */
+
+import { Request } from 'express';
+import { PrismaClient, User } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { RefreshTokenPayload, generateRefreshToken, verifyRefreshToken } from '../utils/jwt';
+import { hashToken } from '../utils/tokens';
+
+// Initialize Prisma Client for database operations
+const prisma = new PrismaClient();
+
+// Refresh tokens (and therefore idle sessions) expire after 30 days
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Device metadata recorded on a session
+ */
+export interface DeviceInfo {
+  deviceName?: string;
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+/**
+ * Newly issued refresh token with the session it belongs to
+ */
+export interface IssuedSession {
+  sessionId: string;
+  refreshToken: string;
+}
+
+/**
+ * Outcome of exchanging a refresh token
+ * - rotated: token was valid, a new one was issued
+ * - invalid: token unknown, expired, revoked or signed for an old token version
+ * - reuse_detected: token was already rotated; its session has been revoked
+ */
+export type RotationResult =
+  | { status: 'rotated'; user: User; sessionId: string; refreshToken: string }
+  | { status: 'invalid' }
+  | { status: 'reuse_detected' };
+
+/**
+ * Session as shown in the session list
+ */
+export interface SessionSummary {
+  id: string;
+  deviceName: string | null;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  current: boolean;
+}
+
+/**
+ * Extracts device metadata from a request
+ * deviceName is optional and sent by the app in the request body
+ *
+ * @param req - Express request (login, register or refresh)
+ * @returns Device metadata for the session
+ */
+export function getDeviceInfo(req: Request): DeviceInfo {
+  const body = req.body as { deviceName?: unknown } | undefined;
+  const deviceName =
+    typeof body?.deviceName === 'string' ? body.deviceName.trim().slice(0, 100) : undefined;
+
+  return {
+    deviceName: deviceName || undefined,
+    userAgent: req.get('user-agent')?.slice(0, 255),
+    ipAddress: req.ip,
+  };
+}
+
+/**
+ * Creates a new session for a user and issues its first refresh token
+ * Called on login and registration
+ *
+ * @param user - User logging in
+ * @param device - Device metadata for the session list
+ * @returns Session ID and refresh token
+ */
+export async function createSession(
+  user: Pick<User, 'id' | 'tokenVersion'>,
+  device: DeviceInfo,
+): Promise<IssuedSession> {
+  // Generate session ID up front so it can be embedded in the token
+  const sessionId = randomUUID();
+  const refreshToken = generateRefreshToken(user.id, user.tokenVersion, sessionId);
+  const expiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_MS);
+
+  await prisma.authSession.create({
+    data: {
+      id: sessionId,
+      userId: user.id,
+      deviceName: device.deviceName,
+      userAgent: device.userAgent,
+      ipAddress: device.ipAddress,
+      expiresAt,
+      refreshTokens: {
+        create: {
+          tokenHash: hashToken(refreshToken),
+          expiresAt,
+        },
+      },
+    },
+  });
+
+  return { sessionId, refreshToken };
+}
+
+/**
+ * Revokes a session (all of its refresh tokens stop working)
+ *
+ * @param sessionId - Session to revoke
+ * @param reason - Why the session was revoked (stored for auditing)
+ */
+async function revokeSessionById(sessionId: string, reason: string): Promise<void> {
+  await prisma.authSession.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+}
+
+/**
+ * Stored refresh token with the state of its session, as needed to decide on a rotation
+ */
+export interface StoredRefreshToken {
+  sessionId: string;
+  expiresAt: Date;
+  rotatedAt: Date | null;
+  session: {
+    revokedAt: Date | null;
+    expiresAt: Date;
+    user: { tokenVersion: number };
+  };
+}
+
+/**
+ * Decides what to do with a presented refresh token
+ *
+ * - invalid: unknown, from another session, expired, revoked, or signed for an old token version
+ * - reuse_detected: a valid token of a live session that was already rotated (it leaked)
+ * - rotate: exchange it for a new token
+ *
+ * @param decoded - Verified payload of the presented token
+ * @param storedToken - Token row found by hash (null if none)
+ * @param now - Current time
+ * @returns Decision
+ */
+export function decideRotation(
+  decoded: Pick<RefreshTokenPayload, 'sessionId' | 'tokenVersion'>,
+  storedToken: StoredRefreshToken | null,
+  now: Date,
+): 'rotate' | 'invalid' | 'reuse_detected' {
+  if (!storedToken || storedToken.sessionId !== decoded.sessionId) {
+    return 'invalid';
+  }
+
+  const { session } = storedToken;
+  if (session.revokedAt || session.expiresAt < now || storedToken.expiresAt < now) {
+    return 'invalid';
+  }
+
+  // Checked before the token version: reuse must revoke the session even after a password reset
+  if (storedToken.rotatedAt) {
+    return 'reuse_detected';
+  }
+
+  // Tokens issued before a password reset are revoked via the token version
+  if ((decoded.tokenVersion ?? 0) !== session.user.tokenVersion) {
+    return 'invalid';
+  }
+
+  return 'rotate';
+}
+
+/**
+ * Exchanges a refresh token for a new one
+ *
+ * The presented token is marked as rotated and can never be used again.
+ * If it was already rotated, the token has been used twice (e.g. stolen and
+ * used by an attacker), so the whole session is revoked.
+ *
+ * @param refreshToken - Refresh token presented by the client
+ * @param device - Device metadata to refresh on the session
+ * @returns Rotation result with the new token on success
+ */
+export async function rotateRefreshToken(
+  refreshToken: string,
+  device: DeviceInfo,
+): Promise<RotationResult> {
+  // Verify signature and expiry first (throws if invalid/expired)
+  let decoded;
+  try {
+    decoded = verifyRefreshToken(refreshToken);
+  } catch (error) {
+    return { status: 'invalid' };
+  }
+
+  // Tokens issued before server-side sessions carry no session and can't be rotated
+  if (!decoded.sessionId) {
+    return { status: 'invalid' };
+  }
+
+  const storedToken = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashToken(refreshToken) },
+    include: { session: { include: { user: true } } },
+  });
+
+  const now = new Date();
+  const decision = decideRotation(decoded, storedToken, now);
+
+  if (decision === 'invalid' || !storedToken) {
+    return { status: 'invalid' };
+  }
+
+  const { session } = storedToken;
+
+  // Already exchanged once: token reuse, kill the whole family
+  if (decision === 'reuse_detected') {
+    console.warn(`⚠️ Refresh token reuse detected, revoking session ${session.id}`);
+    await revokeSessionById(session.id, 'reuse_detected');
+    return { status: 'reuse_detected' };
+  }
+
+  const newRefreshToken = generateRefreshToken(session.user.id, session.user.tokenVersion, session.id);
+  const expiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_MS);
+
+  const rotated = await prisma.$transaction(async (tx) => {
+    // Only rotate if no concurrent request got there first
+    const { count } = await tx.refreshToken.updateMany({
+      where: { id: storedToken.id, rotatedAt: null },
+      data: { rotatedAt: now },
+    });
+
+    if (count === 0) {
+      return false;
+    }
+
+    await tx.refreshToken.create({
+      data: {
+        sessionId: session.id,
+        tokenHash: hashToken(newRefreshToken),
+        expiresAt,
+      },
+    });
+
+    // Slide the session expiry and refresh device metadata
+    await tx.authSession.update({
+      where: { id: session.id },
+      data: {
+        lastUsedAt: now,
+        expiresAt,
+        userAgent: device.userAgent ?? session.userAgent,
+        ipAddress: device.ipAddress ?? session.ipAddress,
+        deviceName: device.deviceName ?? session.deviceName,
+      },
+    });
+
+    return true;
+  });
+
+  // Lost the race: the same token was presented twice at once
+  if (!rotated) {
+    console.warn(`⚠️ Concurrent refresh token reuse detected, revoking session ${session.id}`);
+    await revokeSessionById(session.id, 'reuse_detected');
+    return { status: 'reuse_detected' };
+  }
+
+  return {
+    status: 'rotated',
+    user: session.user,
+    sessionId: session.id,
+    refreshToken: newRefreshToken,
+  };
+}
+
+/**
+ * Lists a user's active (not revoked, not expired) sessions
+ *
+ * @param userId - Owner of the sessions
+ * @param currentSessionId - Session of the requesting access token, flagged as current
+ * @returns Active sessions, most recently used first
+ */
+export async function listSessions(
+  userId: string,
+  currentSessionId?: string,
+): Promise<SessionSummary[]> {
+  const sessions = await prisma.authSession.findMany({
+    where: {
+      userId,
+      revokedAt: null,
+      expiresAt: { gt: new Date() },
+    },
+    orderBy: { lastUsedAt: 'desc' },
+  });
+
+  return sessions.map((session) => ({
+    id: session.id,
+    deviceName: session.deviceName,
+    userAgent: session.userAgent,
+    ipAddress: session.ipAddress,
+    createdAt: session.createdAt,
+    lastUsedAt: session.lastUsedAt,
+    expiresAt: session.expiresAt,
+    current: session.id === currentSessionId,
+  }));
+}
+
+/**
+ * Revokes one of a user's sessions
+ *
+ * @param userId - Owner of the session (sessions of other users are never touched)
+ * @param sessionId - Session to revoke
+ * @param reason - Why the session was revoked
+ * @returns true if an active session was revoked, false if not found
+ */
+export async function revokeSession(
+  userId: string,
+  sessionId: string,
+  reason: string,
+): Promise<boolean> {
+  const { count } = await prisma.authSession.updateMany({
+    where: { id: sessionId, userId, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+
+  return count > 0;
+}
+
+/**
+ * Revokes all of a user's sessions, optionally keeping one
+ * Used after password changes and resets
+ *
+ * @param userId - Owner of the sessions
+ * @param reason - Why the sessions were revoked
+ * @param exceptSessionId - Session to keep (e.g. the device changing the password)
+ * @returns Number of sessions revoked
+ */
+export async function revokeAllSessions(
+  userId: string,
+  reason: string,
+  exceptSessionId?: string,
+): Promise<number> {
+  const { count } = await prisma.authSession.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId && { id: { not: exceptSessionId } }),
+    },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+
+  return count;
+}
+
+/**
+ * Checks whether the session an access token was issued for is still active
+ * Used on every authenticated request, so revoking a session signs the device
+ * out right away instead of when its access token expires.
+ *
+ * @param userId - User the access token belongs to
+ * @param sessionId - Session ID from the access token
+ * @param now - Current time
+ * @returns true if the session exists, belongs to the user and is neither revoked nor expired
+ */
+export async function isSessionActive(
+  userId: string,
+  sessionId: string,
+  now: Date = new Date(),
+): Promise<boolean> {
+  const session = await prisma.authSession.findUnique({
+    where: { id: sessionId },
+    select: { userId: true, revokedAt: true, expiresAt: true },
+  });
+
+  return !!session && session.userId === userId && !session.revokedAt && session.expiresAt > now;
+}
+
+/**
+ * Deletes sessions revoked or expired before a cutoff, and refresh tokens expired before it
+ * Rotated tokens of active sessions are kept until they expire, so reuse can still be detected.
+ *
+ * @param cutoff - Rows revoked or expired before this time are deleted
+ * @returns Number of deleted sessions and refresh tokens
+ */
+export async function pruneSessions(cutoff: Date): Promise<{ sessions: number; refreshTokens: number }> {
+  // Refresh tokens of deleted sessions are removed by the cascade
+  const sessions = await prisma.authSession.deleteMany({
+    where: {
+      OR: [{ revokedAt: { lt: cutoff } }, { expiresAt: { lt: cutoff } }],
+    },
+  });
+
+  const refreshTokens = await prisma.refreshToken.deleteMany({
+    where: { expiresAt: { lt: cutoff } },
+  });
+
+  return { sessions: sessions.count, refreshTokens: refreshTokens.count };
+}
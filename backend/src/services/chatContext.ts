@@ -0,0 +1,197 @@
+/**
+ * Chat Context Service
+ *
+ * Builds the "recent activity" block of the chat system prompt: the last 48 hours of
+ * logged feeds, sleep and diapers, milestones from the last 30 days, analysis of
+ * photos from the last 14 days, and during pregnancy the latest contraction timing
+ * and kick counts. The block is kept within a token budget so it never
+ * crowds out the conversation itself.
+ *
+ * Parents can turn this off with the activityContextEnabled profile preference.
+ */
+
+import { PrismaClient, Prisma } from '@prisma/client';
+import { getFamilyAccess } from './family';
+import { resolveChildForRecord } from './children';
+import {
+  ContextSection,
+  PhotoContextRecord,
+  fitSectionsToBudget,
+  formatActivityLines,
+  formatMilestoneLines,
+  formatPhotoLines,
+  formatPregnancyTrackingLines,
+} from '../utils/chatContext';
+
+// Initialize Prisma Client for database operations
+const prisma = new PrismaClient();
+
+// Token budget for the recent activity block (configurable via env)
+const RECENT_CONTEXT_TOKEN_BUDGET = parseInt(process.env.CHAT_CONTEXT_TOKEN_BUDGET || '400', 10);
+
+// How far back each kind of record is considered
+const ACTIVITY_WINDOW_HOURS = 48;
+const MILESTONE_WINDOW_DAYS = 30;
+const PHOTO_WINDOW_DAYS = 14;
+const CONTRACTION_WINDOW_HOURS = 12;
+
+// Maximum records per section before trimming to the budget
+const MAX_KICK_SESSIONS = 3;
+const MAX_MILESTONES = 5;
+const MAX_PHOTOS = 3;
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+
+/**
+ * Extracts a short description from Photo.analysisResults
+ * Upload categorization stores a description; on-demand analysis stores the full analysis text.
+ *
+ * @param analysisResults - Photo analysis JSON
+ * @returns Description, or null if the photo has no usable analysis
+ */
+function getPhotoSummary(analysisResults: Prisma.JsonValue): string | null {
+  if (!analysisResults || typeof analysisResults !== 'object' || Array.isArray(analysisResults)) {
+    return null;
+  }
+
+  const { analysis, description } = analysisResults as { analysis?: unknown; description?: unknown };
+
+  if (typeof analysis === 'string' && analysis.trim()) return analysis;
+  if (typeof description === 'string' && description.trim()) return description;
+
+  return null;
+}
+
+/**
+ * Builds the recent activity block for a user's chat system prompt
+ *
+ * Records are read from the whole family. When a childId is given (or the family has
+ * exactly one child), only that child's records are used.
+ *
+ * @param userId - User chatting with the assistant
+ * @param childId - Child the conversation is about, if selected
+ * @param maxTokens - Token budget for the block
+ * @param now - Current time
+ * @returns Context block, or an empty string if nothing was logged recently (or loading failed)
+ */
+export async function buildRecentContext(
+  userId: string,
+  childId?: string | null,
+  maxTokens: number = RECENT_CONTEXT_TOKEN_BUDGET,
+  now: Date = new Date(),
+): Promise<string> {
+  try {
+    return await loadRecentContext(userId, childId, maxTokens, now);
+  } catch (error) {
+    // Context is a nice-to-have: never fail a chat turn because of it
+    console.error('Error building recent chat context:', error);
+    return '';
+  }
+}
+
+/**
+ * Loads recent records and formats them into the context block
+ *
+ * @param userId - User chatting with the assistant
+ * @param childId - Child the conversation is about, if selected
+ * @param maxTokens - Token budget for the block
+ * @param now - Current time
+ * @returns Context block
+ */
+async function loadRecentContext(
+  userId: string,
+  childId: string | null | undefined,
+  maxTokens: number,
+  now: Date,
+): Promise<string> {
+  const access = await getFamilyAccess(userId);
+  const targetChildId = childId ?? (await resolveChildForRecord(userId));
+
+  const scope = {
+    userId: { in: access.memberIds },
+    ...(targetChildId && { childId: targetChildId }),
+  };
+
+  const activitySince = new Date(now.getTime() - ACTIVITY_WINDOW_HOURS * MS_PER_HOUR);
+
+  // Pregnancy tracking isn't about a particular child
+  const familyScope = { userId: { in: access.memberIds } };
+
+  const [feeds, sleeps, diapers, milestones, photos, contractionSession, kickSessions] = await Promise.all([
+    prisma.feedEvent.findMany({
+      where: { ...scope, startedAt: { gte: activitySince, lte: now } },
+      select: { type: true, startedAt: true, endedAt: true, durationMinutes: true, volumeMl: true },
+    }),
+    prisma.sleepSession.findMany({
+      where: {
+        ...scope,
+        startedAt: { lte: now },
+        OR: [{ endedAt: null }, { endedAt: { gt: activitySince } }],
+      },
+      select: { startedAt: true, endedAt: true },
+    }),
+    prisma.diaperChange.findMany({
+      where: { ...scope, changedAt: { gte: activitySince, lte: now } },
+      select: { type: true, changedAt: true },
+    }),
+    prisma.milestone.findMany({
+      where: {
+        ...scope,
+        confirmed: true,
+        achievedDate: { gte: new Date(now.getTime() - MILESTONE_WINDOW_DAYS * MS_PER_DAY), lte: now },
+      },
+      orderBy: { achievedDate: 'desc' },
+      take: MAX_MILESTONES,
+      select: { name: true, achievedDate: true, notes: true },
+    }),
+    prisma.photo.findMany({
+      where: {
+        ...scope,
+        uploadedAt: { gte: new Date(now.getTime() - PHOTO_WINDOW_DAYS * MS_PER_DAY) },
+        analysisResults: { not: Prisma.DbNull },
+      },
+      orderBy: { uploadedAt: 'desc' },
+      take: MAX_PHOTOS,
+      select: { uploadedAt: true, analysisResults: true },
+    }),
+    prisma.contractionSession.findFirst({
+      where: {
+        ...familyScope,
+        startedAt: { lte: now },
+        OR: [{ endedAt: null }, { endedAt: { gt: new Date(now.getTime() - CONTRACTION_WINDOW_HOURS * MS_PER_HOUR) } }],
+      },
+      orderBy: { startedAt: 'desc' },
+      select: {
+        startedAt: true,
+        endedAt: true,
+        contractions: { select: { startedAt: true, endedAt: true } },
+      },
+    }),
+    prisma.kickCountSession.findMany({
+      where: { ...familyScope, startedAt: { gte: activitySince, lte: now } },
+      orderBy: { startedAt: 'desc' },
+      take: MAX_KICK_SESSIONS,
+      select: { startedAt: true, endedAt: true, kicks: true },
+    }),
+  ]);
+
+  const photoRecords: PhotoContextRecord[] = [];
+  for (const photo of photos) {
+    const summary = getPhotoSummary(photo.analysisResults);
+    if (summary) {
+      photoRecords.push({ uploadedAt: photo.uploadedAt, summary });
+    }
+  }
+
+  // Most useful first: contraction timing can be urgent, and activity answers
+  // "why won't the baby nap?" questions directly
+  const sections: ContextSection[] = [
+    { title: 'Pregnancy tracking', lines: formatPregnancyTrackingLines({ contractionSession, kickSessions }, now) },
+    { title: 'Logged activity', lines: formatActivityLines({ feeds, sleeps, diapers }, ACTIVITY_WINDOW_HOURS, now) },
+    { title: 'Recent milestones', lines: formatMilestoneLines(milestones, now) },
+    { title: 'Recent photos', lines: formatPhotoLines(photoRecords, now) },
+  ];
+
+  return fitSectionsToBudget(sections, maxTokens);
+}
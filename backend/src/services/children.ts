@@ -0,0 +1,168 @@
+/**
+ * Children Service
+ *
+ * Helpers for accounts with more than one child (twins, siblings).
+ *
+ * Children are shared within a family like milestones and photos.
+ * The legacy single-baby fields on UserProfile (babyName, babyBirthDate,
+ * babyGender, dueDate, babyImageUrl) mirror the user's first child, so clients
+ * that only know about the profile keep working.
+ */
+
+import { PrismaClient, Child, BabyGender, UserProfile } from '@prisma/client';
+import { getFamilyAccess } from './family';
+
+// Initialize Prisma Client for database operations
+const prisma = new PrismaClient();
+
+/**
+ * Baby details mirrored between UserProfile and the primary child
+ * Only provided fields are written
+ */
+export interface PrimaryChildData {
+  name?: string | null;
+  birthDate?: Date | null;
+  dueDate?: Date | null;
+  gender?: BabyGender | null;
+  imageUrl?: string | null;
+}
+
+/**
+ * Checks whether any baby detail is set
+ *
+ * @param data - Baby details
+ * @returns true if at least one field has a value
+ */
+export function hasChildDetails(data: PrimaryChildData): boolean {
+  return Object.values(data).some((value) => value !== null && value !== undefined);
+}
+
+/**
+ * Maps a child to the legacy baby fields on UserProfile
+ *
+ * @param child - Primary child, or null if the user has none
+ * @returns Profile fields (all null without a child)
+ */
+export function toProfileBabyFields(
+  child: Pick<Child, 'name' | 'birthDate' | 'dueDate' | 'gender' | 'imageUrl'> | null,
+): Pick<UserProfile, 'babyName' | 'babyBirthDate' | 'dueDate' | 'babyGender' | 'babyImageUrl'> {
+  return {
+    babyName: child?.name ?? null,
+    babyBirthDate: child?.birthDate ?? null,
+    dueDate: child?.dueDate ?? null,
+    babyGender: child?.gender ?? null,
+    babyImageUrl: child?.imageUrl ?? null,
+  };
+}
+
+/**
+ * Finds a child the user may access (their own or a family member's)
+ *
+ * @param userId - Requesting user
+ * @param childId - Child to look up
+ * @returns Child, or null if it doesn't exist or belongs to another family
+ */
+export async function findAccessibleChild(
+  userId: string,
+  childId: string,
+): Promise<Child | null> {
+  const access = await getFamilyAccess(userId);
+
+  return prisma.child.findFirst({
+    where: {
+      id: childId,
+      userId: { in: access.memberIds },
+    },
+  });
+}
+
+/**
+ * Returns the user's first child (the one mirrored on UserProfile)
+ *
+ * @param userId - Parent who added the child
+ * @returns Oldest child of the user, or null if they have none
+ */
+export async function getPrimaryChild(userId: string): Promise<Child | null> {
+  return prisma.child.findFirst({
+    where: { userId },
+    orderBy: { createdAt: 'asc' },
+  });
+}
+
+/**
+ * Writes profile baby details to the user's first child
+ * Creates the child if the user has none yet and any detail is set.
+ * Called whenever the legacy profile fields change.
+ *
+ * @param userId - Profile owner
+ * @param data - Baby details that changed
+ * @returns Updated or created child, or null if there was nothing to store
+ */
+export async function syncPrimaryChild(
+  userId: string,
+  data: PrimaryChildData,
+): Promise<Child | null> {
+  const primaryChild = await getPrimaryChild(userId);
+
+  if (primaryChild) {
+    return prisma.child.update({
+      where: { id: primaryChild.id },
+      data,
+    });
+  }
+
+  // Don't create empty children for profiles without baby details
+  if (!hasChildDetails(data)) {
+    return null;
+  }
+
+  return prisma.child.create({
+    data: { userId, ...data },
+  });
+}
+
+/**
+ * Copies the user's first child's details to their profile
+ * Keeps the legacy profile fields in sync after changes through /children.
+ * Clears the profile's baby details when the user has no children left.
+ *
+ * @param userId - Parent whose profile to update
+ */
+export async function syncProfileFromPrimaryChild(userId: string): Promise<void> {
+  const primaryChild = await getPrimaryChild(userId);
+
+  await prisma.userProfile.updateMany({
+    where: { userId },
+    data: toProfileBabyFields(primaryChild),
+  });
+}
+
+/**
+ * Resolves which child a new record (feed, sleep, diaper change, ...) belongs to
+ *
+ * - childId given: must be a child the user may access
+ * - childId omitted and the family has exactly one child: that child
+ * - otherwise: no child (record is scoped to the user only)
+ *
+ * @param userId - User logging the record
+ * @param childId - Child selected by the client, if any
+ * @returns Child ID to store (null for none), or undefined if childId is not accessible
+ */
+export async function resolveChildForRecord(
+  userId: string,
+  childId?: string | null,
+): Promise<string | null | undefined> {
+  if (childId) {
+    const child = await findAccessibleChild(userId, childId);
+    return child ? child.id : undefined;
+  }
+
+  const access = await getFamilyAccess(userId);
+  const children = await prisma.child.findMany({
+    where: { userId: { in: access.memberIds } },
+    select: { id: true },
+    take: 2,
+  });
+
+  return children.length === 1 ? children[0].id : null;
+}
@@ -0,0 +1,167 @@
+/**
+ * Conversation Summary Service
+ *
+ * Token-aware chat context for long sessions. The most recent messages that fit
+ * the history budget are sent to the model verbatim; everything older reaches it
+ * through the session's running summary (Message.conversationSummary).
+ *
+ * The summary is extended incrementally: only messages after summarizedThrough
+ * are folded into the previous summary, never the whole session again.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { ChatMessage, updateConversationSummary } from './openai';
+import { chunkMessagesByTokens, selectRecentMessages } from '../utils/conversationHistory';
+import { parseLanguage } from '../utils/language';
+
+// Initialize Prisma Client for database operations
+const prisma = new PrismaClient();
+
+// Token budget for verbatim session history in the chat context (configurable via env)
+const HISTORY_TOKEN_BUDGET = parseInt(process.env.CHAT_HISTORY_TOKEN_BUDGET || '3000', 10);
+
+// Newest messages considered for the verbatim history
+const MAX_HISTORY_CANDIDATES = 100;
+
+// Tokens of new messages folded into the summary per model call
+const SUMMARY_CHUNK_TOKENS = 6000;
+
+/**
+ * Session history to send with a chat turn
+ */
+export interface ConversationContext {
+  history: ChatMessage[]; // Recent messages, oldest first
+  summary: string | null; // Summary of the conversation, when older messages were left out
+}
+
+/**
+ * Converts stored messages to the ChatMessage format
+ *
+ * @param messages - Stored messages
+ * @returns Messages for the OpenAI API
+ */
+function toChatMessages(messages: Array<{ role: string; content: string }>): ChatMessage[] {
+  return messages.map((msg) => ({
+    role: msg.role === 'USER' ? 'user' : 'assistant',
+    content: msg.content,
+  }));
+}
+
+/**
+ * Folds messages not yet covered by the session summary into it
+ *
+ * Messages are folded in batches, oldest first; the summary and the timestamp of
+ * the last folded message are stored on every message of the session. If the model
+ * fails, the messages folded so far are kept and the rest wait for the next call.
+ *
+ * @param userId - Owner of the session
+ * @param sessionId - Session to summarize
+ * @param before - Only fold messages sent before this time (default: all)
+ * @returns The session summary (null if there is none yet)
+ */
+export async function foldIntoSummary(userId: string, sessionId: string, before?: Date): Promise<string | null> {
+  const state = await prisma.message.findFirst({
+    where: { userId, sessionId, summarizedThrough: { not: null } },
+    orderBy: { summarizedThrough: 'desc' },
+    select: { conversationSummary: true, summarizedThrough: true },
+  });
+
+  const pending = await prisma.message.findMany({
+    where: {
+      userId,
+      sessionId,
+      timestamp: {
+        ...(state?.summarizedThrough && { gt: state.summarizedThrough }),
+        ...(before && { lt: before }),
+      },
+    },
+    orderBy: { timestamp: 'asc' },
+    select: { role: true, content: true, timestamp: true },
+  });
+
+  let summary = state?.conversationSummary ?? null;
+  let summarizedThrough: Date | null = null;
+
+  if (pending.length === 0) {
+    return summary;
+  }
+
+  // Summaries are written in the parent's preferred language
+  const profile = await prisma.userProfile.findUnique({
+    where: { userId },
+    select: { preferredLanguage: true },
+  });
+  const language = parseLanguage(profile?.preferredLanguage);
+
+  for (const chunk of chunkMessagesByTokens(pending, SUMMARY_CHUNK_TOKENS)) {
+    const updated = await updateConversationSummary(summary, toChatMessages(chunk), language);
+    if (!updated) break;
+
+    summary = updated;
+    summarizedThrough = chunk[chunk.length - 1].timestamp;
+  }
+
+  if (summarizedThrough) {
+    await prisma.message.updateMany({
+      where: { userId, sessionId },
+      data: { conversationSummary: summary, summarizedThrough },
+    });
+    console.log(`📝 Folded messages into the summary of session ${sessionId}`);
+  }
+
+  return summary;
+}
+
+/**
+ * Builds the session history for a chat turn within the token budget
+ *
+ * Recent messages that fit the budget are returned verbatim. When older messages
+ * are left out, the summary is returned too; older messages the summary doesn't
+ * cover yet (e.g. a background update failed) are folded in first, so no turn of
+ * the conversation is silently dropped.
+ *
+ * @param userId - Owner of the session
+ * @param sessionId - Session the turn belongs to
+ * @param maxTokens - Token budget for the verbatim messages
+ * @returns Recent messages and, for long sessions, the summary of the conversation
+ */
+export async function buildConversationContext(
+  userId: string,
+  sessionId: string,
+  maxTokens: number = HISTORY_TOKEN_BUDGET,
+): Promise<ConversationContext> {
+  const candidates = await prisma.message.findMany({
+    where: { userId, sessionId },
+    orderBy: { timestamp: 'desc' },
+    take: MAX_HISTORY_CANDIDATES,
+    select: { role: true, content: true, timestamp: true, conversationSummary: true, summarizedThrough: true },
+  });
+
+  // Reverse to get chronological order (oldest first)
+  candidates.reverse();
+
+  const { recent, older } = selectRecentMessages(candidates, maxTokens);
+  const history = toChatMessages(recent);
+
+  // Short session: everything fits, no summary needed
+  if (older.length === 0 && candidates.length < MAX_HISTORY_CANDIDATES) {
+    return { history, summary: null };
+  }
+
+  // The summary is stored on every message that existed when it was last updated
+  const state = candidates.reduce<(typeof candidates)[number] | null>(
+    (latest, msg) =>
+      msg.summarizedThrough && (!latest?.summarizedThrough || msg.summarizedThrough > latest.summarizedThrough)
+        ? msg
+        : latest,
+    null,
+  );
+
+  // Newest left-out message (past the candidate limit, the window start is a safe bound)
+  const lastLeftOut = older.length > 0 ? older[older.length - 1].timestamp : recent[0].timestamp;
+  if (state?.summarizedThrough && state.summarizedThrough >= lastLeftOut) {
+    return { history, summary: state.conversationSummary };
+  }
+
+  return { history, summary: await foldIntoSummary(userId, sessionId, recent[0]?.timestamp) };
+}
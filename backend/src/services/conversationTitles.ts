@@ -0,0 +1,260 @@
+/**
+ * Conversation Title Service
+ *
+ * Generates conversation titles (and summaries for longer sessions):
+ * - After each chat or voice turn (updateConversationMetadata)
+ * - For conversations that don't have one yet, e.g. sessions created before automatic
+ *   titling or where generation failed. Used by POST /chat/conversations/generate-titles
+ *   and the scheduled backfill job.
+ */
+
+import { PrismaClient, Prisma } from '@prisma/client';
+import { ChatMessage, generateConversationTitle } from './openai';
+import { foldIntoSummary } from './conversationSummary';
+import { Language, parseLanguage } from '../utils/language';
+
+// Initialize Prisma Client for database operations
+const prisma = new PrismaClient();
+
+/**
+ * Looks up the language titles are written in
+ *
+ * @param userId - Owner of the session
+ * @returns The parent's preferred language, or null to follow the conversation
+ */
+async function getTitleLanguage(userId: string): Promise<Language | null> {
+  const profile = await prisma.userProfile.findUnique({
+    where: { userId },
+    select: { preferredLanguage: true },
+  });
+  return parseLanguage(profile?.preferredLanguage);
+}
+
+/**
+ * Generates a title from the first two messages of a session and stores it on every message.
+ *
+ * @param userId - Owner of the session
+ * @param sessionId - Session to title
+ * @returns The generated title
+ */
+async function generateSessionTitle(userId: string, sessionId: string): Promise<string> {
+  // Get the first two messages for title generation
+  const messages = await prisma.message.findMany({
+    where: {
+      userId: userId,
+      sessionId: sessionId,
+    },
+    orderBy: {
+      timestamp: 'asc',
+    },
+    take: 2,
+    select: {
+      role: true,
+      content: true,
+    },
+  });
+
+  // Convert to ChatMessage format
+  const chatMessages: ChatMessage[] = messages.map((msg) => ({
+    role: msg.role === 'USER' ? 'user' : 'assistant',
+    content: msg.content,
+  }));
+
+  // Generate title
+  const title = await generateConversationTitle(chatMessages, await getTitleLanguage(userId));
+  console.log(`✅ Generated title: "${title}"`);
+
+  // Update all messages with title (so any message can show the conversation title)
+  await prisma.message.updateMany({
+    where: {
+      userId: userId,
+      sessionId: sessionId,
+    },
+    data: {
+      conversationTitle: title,
+    },
+  });
+
+  return title;
+}
+
+/**
+ * Auto-generates the conversation title and summary after a turn is saved.
+ *
+ * The title is generated once the session has 2+ messages; the summary is refreshed
+ * every 2 exchanges from 4 messages on. Summary generation always runs in the background.
+ *
+ * @param userId - Owner of the session
+ * @param sessionId - Session that just received a turn
+ * @param awaitTitle - Wait for a new title instead of generating it in the background
+ * @returns The session title if one exists (or was awaited), otherwise null
+ */
+export async function updateConversationMetadata(
+  userId: string,
+  sessionId: string,
+  awaitTitle: boolean
+): Promise<string | null> {
+  const messageCount = await prisma.message.count({
+    where: {
+      userId: userId,
+      sessionId: sessionId,
+    },
+  });
+
+  // Check if title already exists
+  const hasTitle = await prisma.message.findFirst({
+    where: {
+      userId: userId,
+      sessionId: sessionId,
+      conversationTitle: { not: null },
+    },
+    select: { conversationTitle: true },
+  });
+
+  let title = hasTitle?.conversationTitle ?? null;
+
+  // Generate title if conversation has 2+ messages but no title yet
+  if (messageCount >= 2 && !hasTitle) {
+    console.log(`🏷️ Auto-generating title for session ${sessionId}...`);
+
+    if (awaitTitle) {
+      try {
+        title = await generateSessionTitle(userId, sessionId);
+      } catch (error) {
+        console.error('Error generating conversation title:', error);
+      }
+    } else {
+      // Run title generation in background (don't block response)
+      generateSessionTitle(userId, sessionId).catch((error) => {
+        console.error('Error generating conversation title:', error);
+      });
+    }
+  }
+
+  // Generate or update summary for conversations with 4+ messages
+  // Update every 2 exchanges to keep summary fresh (only the new messages are folded in)
+  if (messageCount >= 4 && messageCount % 2 === 0) {
+    console.log(`📝 Updating conversation summary for session ${sessionId}...`);
+
+    // Run summary update in background (don't block response)
+    foldIntoSummary(userId, sessionId).catch((error) => {
+      console.error('Error generating conversation summary:', error);
+    });
+  }
+
+  return title;
+}
+
+/**
+ * Options for a backfill run
+ */
+export interface TitleBackfillOptions {
+  userId?: string; // Only this user's sessions (default: all users)
+  limit?: number; // Maximum number of titles to generate
+  idleBefore?: Date; // Skip sessions with messages after this time (still in progress)
+}
+
+/**
+ * Outcome of a backfill run
+ */
+export interface TitleBackfillResult {
+  total: number; // Sessions checked
+  processed: number; // Titles generated
+  skipped: number; // Sessions that already had a title or are too short
+  errors: string[];
+}
+
+/**
+ * Generates missing conversation titles and summaries
+ *
+ * A session needs a title once it has 2 messages; a summary is added from 4 messages.
+ * Title and summary are stored on every message of the session.
+ *
+ * @param options - User filter, limit and idle cutoff
+ * @returns Counts of checked, processed and skipped sessions
+ */
+export async function backfillConversationTitles(
+  options: TitleBackfillOptions = {},
+): Promise<TitleBackfillResult> {
+  // Sessions with at least one untitled message
+  const sessions = await prisma.message.groupBy({
+    by: ['userId', 'sessionId'],
+    where: {
+      conversationTitle: null,
+      ...(options.userId && { userId: options.userId }),
+    },
+    ...(options.idleBefore && {
+      having: { timestamp: { _max: { lt: options.idleBefore } } },
+    }),
+    orderBy: { sessionId: 'asc' },
+  });
+
+  const result: TitleBackfillResult = { total: sessions.length, processed: 0, skipped: 0, errors: [] };
+
+  for (const session of sessions) {
+    if (options.limit !== undefined && result.processed >= options.limit) {
+      break;
+    }
+
+    const where: Prisma.MessageWhereInput = { userId: session.userId, sessionId: session.sessionId };
+
+    try {
+      // Check if this session already has a title
+      const titled = await prisma.message.findFirst({
+        where: { ...where, conversationTitle: { not: null } },
+        select: { conversationTitle: true, conversationSummary: true },
+      });
+
+      // Messages added after the title was generated: copy it instead of regenerating
+      if (titled) {
+        await prisma.message.updateMany({
+          where: { ...where, conversationTitle: null },
+          data: { conversationTitle: titled.conversationTitle, conversationSummary: titled.conversationSummary },
+        });
+        result.skipped++;
+        continue;
+      }
+
+      // Get messages for this session
+      const messages = await prisma.message.findMany({
+        where,
+        orderBy: { timestamp: 'asc' },
+        select: { role: true, content: true },
+      });
+
+      // Need at least 2 messages to generate a title
+      if (messages.length < 2) {
+        result.skipped++;
+        continue;
+      }
+
+      // Convert to ChatMessage format
+      const chatMessages: ChatMessage[] = messages.map((msg) => ({
+        role: msg.role === 'USER' ? 'user' : 'assistant',
+        content: msg.content,
+      }));
+
+      // Generate title using first 2 messages
+      const title = await generateConversationTitle(chatMessages.slice(0, 2), await getTitleLanguage(session.userId));
+      console.log(`✅ Generated title for session ${session.sessionId}: "${title}"`);
+
+      // Update all messages in this session with the title
+      await prisma.message.updateMany({
+        where,
+        data: { conversationTitle: title },
+      });
+
+      // Fold the session into its summary if we have enough messages (4+)
+      if (messages.length >= 4) {
+        await foldIntoSummary(session.userId, session.sessionId);
+      }
+
+      result.processed++;
+    } catch (error) {
+      console.error(`Error processing session ${session.sessionId}:`, error);
+      result.errors.push(`Session ${session.sessionId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,74 @@
+/**
+ * Email Verification Service
+ *
+ * Issues single-use verification tokens and sends the verification email.
+ * Used on registration, when resending the email, and after an email change.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { generateOneTimeToken, isOneTimeTokenUsable } from '../utils/tokens';
+import { APP_URL, sendMail } from './mailer';
+
+// Initialize Prisma Client for database operations
+const prisma = new PrismaClient();
+
+// Verification tokens are valid for 24 hours
+export const EMAIL_VERIFICATION_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Checks whether a stored verification token can still be used
+ * A token is stale once the user changed their email: it verifies the old address.
+ *
+ * @param storedToken - Token row found by hash, with the address it was sent to (null if none)
+ * @param currentEmail - User's current email address
+ * @param now - Current time
+ * @returns true if the token is unused, not expired and was sent to the current address
+ */
+export function isVerificationTokenUsable<T extends { usedAt: Date | null; expiresAt: Date; email: string }>(
+  storedToken: T | null,
+  currentEmail: string | undefined,
+  now: Date = new Date(),
+): storedToken is T {
+  return isOneTimeTokenUsable(storedToken, now) && storedToken.email === currentEmail;
+}
+
+/**
+ * Issues a new verification token for an email address and emails it
+ *
+ * Any outstanding unused tokens for the user are replaced, so only the
+ * most recent email's link works.
+ *
+ * @param userId - User to verify
+ * @param email - Address to send the verification link to
+ * @throws Error if the token can't be stored or the email can't be sent
+ */
+export async function sendVerificationEmail(userId: string, email: string): Promise<void> {
+  // Generate token and store only its hash
+  const { token, tokenHash } = generateOneTimeToken();
+
+  await prisma.$transaction([
+    prisma.emailVerificationToken.deleteMany({
+      where: { userId, usedAt: null },
+    }),
+    prisma.emailVerificationToken.create({
+      data: {
+        userId,
+        tokenHash,
+        email,
+        expiresAt: new Date(Date.now() + EMAIL_VERIFICATION_TOKEN_TTL_MS),
+      },
+    }),
+  ]);
+
+  const verifyUrl = `${APP_URL}/verify-email?token=${token}`;
+
+  await sendMail({
+    to: email,
+    subject: 'Verify your email address',
+    text:
+      'Welcome to AI Parenting Assistant! Please confirm your email address.\n\n' +
+      `Verify your email: ${verifyUrl}\n\n` +
+      `Or enter this code in the app: ${token}\n\n` +
+      'This link expires in 24 hours.',
+  });
+}
@@ -0,0 +1,326 @@
+/**
+ * Family Service
+ *
+ * Shared family accounts: adults in the same family see each other's
+ * milestones and photos, while chat history stays private to each adult.
+ *
+ * Content is not copied when someone joins. Milestones and photos keep the
+ * userId of the member who created them, and access checks resolve the
+ * requesting user's family to the list of member IDs whose content they may see.
+ * A user without a family is treated as a family of one.
+ */
+
+import { Prisma, PrismaClient, FamilyRole } from '@prisma/client';
+import {
+  generateInviteCode,
+  generateOneTimeToken,
+  hashToken,
+  normalizeInviteCode,
+} from '../utils/tokens';
+import { APP_URL, sendMail } from './mailer';
+
+// Initialize Prisma Client for database operations
+const prisma = new PrismaClient();
+
+// Family invitations are valid for 7 days
+export const FAMILY_INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Roles that can be granted through invitations and role changes
+// Ownership can't be granted; each family has exactly one owner (its creator)
+export const ASSIGNABLE_ROLES: FamilyRole[] = [FamilyRole.CO_PARENT, FamilyRole.VIEWER];
+
+/**
+ * What a user may do with shared family content
+ */
+export interface FamilyAccess {
+  familyId: string | null; // null when the user is not in a family
+  role: FamilyRole | null; // null when the user is not in a family
+  memberIds: string[]; // Users whose milestones and photos are visible (always includes the user)
+  canEdit: boolean; // Whether the user may create, edit and delete shared content
+}
+
+/**
+ * Outcome of accepting an invitation
+ * - joined: user is now a member of the family
+ * - invalid: code unknown, expired, revoked or already used
+ * - email_mismatch: email invitation was sent to a different address
+ * - already_member: user already belongs to a family
+ */
+export type AcceptInvitationResult =
+  | { status: 'joined'; familyId: string; role: FamilyRole }
+  | { status: 'invalid' }
+  | { status: 'email_mismatch' }
+  | { status: 'already_member' };
+
+/**
+ * Checks whether a role may create, edit and delete shared content
+ *
+ * @param role - Family role (null for users without a family)
+ * @returns true for owners, co-parents and users without a family
+ */
+export function canEditFamilyContent(role: FamilyRole | null): boolean {
+  return role !== FamilyRole.VIEWER;
+}
+
+/**
+ * Checks whether a role may be granted by an invitation or role change
+ *
+ * @param role - Role from the request body
+ * @returns true for CO_PARENT and VIEWER
+ */
+export function isAssignableRole(role: unknown): role is FamilyRole {
+  return ASSIGNABLE_ROLES.includes(role as FamilyRole);
+}
+
+/**
+ * Checks whether an invitation can be accepted by a user
+ *
+ * @param invitation - Invitation found by code (null if none)
+ * @param email - Email address of the accepting user
+ * @param now - Current time
+ * @returns valid, invalid (unknown, accepted, revoked or expired) or email_mismatch
+ */
+export function checkInvitation(
+  invitation: { acceptedAt: Date | null; revokedAt: Date | null; expiresAt: Date; email: string | null } | null,
+  email: string,
+  now: Date = new Date(),
+): 'valid' | 'invalid' | 'email_mismatch' {
+  if (!invitation || invitation.acceptedAt || invitation.revokedAt || invitation.expiresAt < now) {
+    return 'invalid';
+  }
+
+  // Email invitations can only be accepted by the account with that address
+  if (invitation.email && invitation.email !== email.toLowerCase()) {
+    return 'email_mismatch';
+  }
+
+  return 'valid';
+}
+
+/**
+ * Resolves a user's access to shared family content
+ *
+ * @param userId - Requesting user
+ * @returns Family ID, role, visible member IDs and edit permission
+ */
+export async function getFamilyAccess(userId: string): Promise<FamilyAccess> {
+  const membership = await prisma.familyMember.findUnique({
+    where: { userId },
+    include: {
+      family: {
+        select: {
+          members: { select: { userId: true } },
+        },
+      },
+    },
+  });
+
+  // Not in a family: only the user's own content
+  if (!membership) {
+    return {
+      familyId: null,
+      role: null,
+      memberIds: [userId],
+      canEdit: true,
+    };
+  }
+
+  return {
+    familyId: membership.familyId,
+    role: membership.role,
+    memberIds: membership.family.members.map((member) => member.userId),
+    canEdit: canEditFamilyContent(membership.role),
+  };
+}
+
+/**
+ * Creates an invitation that anyone holding the code can accept
+ * The raw code is only returned here; the database stores its hash.
+ *
+ * @param familyId - Family to invite into
+ * @param invitedById - Member creating the invitation
+ * @param role - Role granted on acceptance (CO_PARENT or VIEWER)
+ * @returns Invitation ID, raw invite code and expiry
+ */
+export async function createInviteCode(
+  familyId: string,
+  invitedById: string,
+  role: FamilyRole,
+): Promise<{ id: string; code: string; expiresAt: Date }> {
+  const { token, tokenHash } = generateInviteCode();
+
+  const invitation = await prisma.familyInvitation.create({
+    data: {
+      familyId,
+      invitedById,
+      role,
+      tokenHash,
+      expiresAt: new Date(Date.now() + FAMILY_INVITATION_TTL_MS),
+    },
+  });
+
+  return { id: invitation.id, code: token, expiresAt: invitation.expiresAt };
+}
+
+/**
+ * Creates an invitation for a specific email address and emails the link
+ * Only an account with the same email can accept it.
+ *
+ * @param familyId - Family to invite into
+ * @param familyName - Family name shown in the email
+ * @param invitedBy - Member creating the invitation
+ * @param email - Address to invite
+ * @param role - Role granted on acceptance (CO_PARENT or VIEWER)
+ * @returns Invitation ID and expiry
+ * @throws Error if the invitation can't be stored or the email can't be sent
+ */
+export async function sendEmailInvitation(
+  familyId: string,
+  familyName: string,
+  invitedBy: { id: string; email: string },
+  email: string,
+  role: FamilyRole,
+): Promise<{ id: string; expiresAt: Date }> {
+  const { token, tokenHash } = generateOneTimeToken();
+
+  const invitation = await prisma.familyInvitation.create({
+    data: {
+      familyId,
+      invitedById: invitedBy.id,
+      email: email.toLowerCase(),
+      role,
+      tokenHash,
+      expiresAt: new Date(Date.now() + FAMILY_INVITATION_TTL_MS),
+    },
+  });
+
+  const joinUrl = `${APP_URL}/family/join?token=${token}`;
+  const access = role === FamilyRole.VIEWER ? 'view' : 'view and add to';
+
+  await sendMail({
+    to: email,
+    subject: `You're invited to join ${familyName} on AI Parenting Assistant`,
+    text:
+      `${invitedBy.email} invited you to ${access} your family's milestones and photos.\n\n` +
+      `Join the family: ${joinUrl}\n\n` +
+      `Or enter this code in the app: ${token}\n\n` +
+      'Your chat history stays private. This invitation expires in 7 days.',
+  });
+
+  return { id: invitation.id, expiresAt: invitation.expiresAt };
+}
+
+/**
+ * Accepts an invitation (invite code or email token) and joins the family
+ *
+ * @param user - User accepting the invitation
+ * @param code - Invite code or email token as entered by the user
+ * @returns Result of the attempt
+ */
+export async function acceptInvitation(
+  user: { id: string; email: string },
+  code: string,
+): Promise<AcceptInvitationResult> {
+  const existingMembership = await prisma.familyMember.findUnique({
+    where: { userId: user.id },
+    select: { id: true },
+  });
+
+  if (existingMembership) {
+    return { status: 'already_member' };
+  }
+
+  // Email tokens are hashed as-is, invite codes in normalized form
+  const invitation = await prisma.familyInvitation.findFirst({
+    where: {
+      tokenHash: { in: [hashToken(code.trim()), hashToken(normalizeInviteCode(code))] },
+    },
+  });
+
+  const check = checkInvitation(invitation, user.email);
+  if (check !== 'valid' || !invitation) {
+    return { status: check === 'email_mismatch' ? 'email_mismatch' : 'invalid' };
+  }
+
+  // Mark invitation used only if still pending, then add the member
+  let joined: boolean;
+  try {
+    joined = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.familyInvitation.updateMany({
+        where: { id: invitation.id, acceptedAt: null, revokedAt: null },
+        data: { acceptedAt: new Date(), acceptedById: user.id },
+      });
+
+      if (count === 0) {
+        return false;
+      }
+
+      await tx.familyMember.create({
+        data: {
+          familyId: invitation.familyId,
+          userId: user.id,
+          role: invitation.role,
+        },
+      });
+
+      return true;
+    });
+  } catch (error) {
+    // The user joined a family concurrently (e.g. accepted two invitations at once);
+    // the unique userId rolled this join back, including the invitation
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return { status: 'already_member' };
+    }
+    throw error;
+  }
+
+  if (!joined) {
+    return { status: 'invalid' };
+  }
+
+  return { status: 'joined', familyId: invitation.familyId, role: invitation.role };
+}
+
+/**
+ * Keeps the user's family manageable when their account is deleted
+ * An owner hands ownership to the co-parent who joined first; without a co-parent
+ * the family is disbanded (members keep their own milestones and photos).
+ * Runs inside the account deletion transaction, before the user is deleted.
+ *
+ * @param tx - Transaction deleting the account
+ * @param userId - User whose account is deleted
+ * @returns What happened to the family ('none' if the user isn't an owner)
+ */
+export async function releaseFamilyOwnership(
+  tx: Prisma.TransactionClient,
+  userId: string,
+): Promise<'none' | 'transferred' | 'disbanded'> {
+  const membership = await tx.familyMember.findUnique({
+    where: { userId },
+    select: { familyId: true, role: true },
+  });
+
+  if (!membership || membership.role !== FamilyRole.OWNER) {
+    return 'none';
+  }
+
+  const successor = await tx.familyMember.findFirst({
+    where: { familyId: membership.familyId, role: FamilyRole.CO_PARENT },
+    orderBy: { joinedAt: 'asc' },
+    select: { id: true },
+  });
+
+  if (successor) {
+    await tx.familyMember.update({
+      where: { id: successor.id },
+      data: { role: FamilyRole.OWNER },
+    });
+    return 'transferred';
+  }
+
+  // Members and invitations are removed by cascade
+  await tx.family.delete({
+    where: { id: membership.familyId },
+  });
+  return 'disbanded';
+}
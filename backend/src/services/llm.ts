@@ -0,0 +1,479 @@
+/**
+ * LLM Provider Service
+ *
+ * Runs model requests (chat, vision, transcription, embeddings, speech) through a
+ * pluggable provider. The provider is chosen with the LLM_PROVIDER environment variable:
+ * - openai: OpenAI API (default)
+ * - local: OpenAI-compatible server such as Ollama or llama.cpp (LOCAL_LLM_BASE_URL);
+ *   transcription and speech go to LOCAL_LLM_AUDIO_BASE_URL or the OpenAI API
+ * - mock: Deterministic replies, no network (for tests and offline development)
+ *
+ * Each task has its own model, set with LLM_MODEL_<TASK> (e.g. LLM_MODEL_CHAT);
+ * unset tasks use the provider's default model. Prompts live in services/openai.ts.
+ *
+ * Tests install providers directly with setLlmProvider().
+ */
+
+import OpenAI from 'openai';
+import { createReadStream } from 'fs';
+import { estimateTokens } from '../utils/chatContext';
+import type { SpeechOptions, SynthesizedSpeech } from './tts';
+
+// Tasks that can use different models
+export const LLM_TASKS = [
+  'chat',
+  'title',
+  'summary',
+  'memory',
+  'tips',
+  'vision',
+  'transcription',
+  'embedding',
+  'speech',
+] as const;
+
+export type LlmTask = (typeof LLM_TASKS)[number];
+
+/**
+ * Image attached to a message (vision input)
+ */
+export interface LlmImage {
+  url: string; // HTTPS or data: URL
+  detail: 'low' | 'high';
+}
+
+/**
+ * Message sent to a model
+ */
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+  images?: LlmImage[]; // Only on user messages of vision requests
+}
+
+/**
+ * Text generation request
+ */
+export interface CompletionRequest {
+  model: string;
+  messages: LlmMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  json?: boolean; // Ask for a JSON object as the reply
+  signal?: AbortSignal; // Cancels the request
+}
+
+/**
+ * Generated text and the tokens the request used
+ */
+export interface Completion {
+  text: string;
+  tokensUsed: number;
+}
+
+/**
+ * Speech-to-text request
+ */
+export interface TranscriptionRequest {
+  model: string;
+  filePath: string; // Audio file on disk (mp3, mp4, m4a, wav, webm)
+  language?: string | null; // ISO 639-1 code (null/undefined: detected by the model)
+}
+
+/**
+ * Embedding request
+ */
+export interface EmbeddingRequest {
+  model: string;
+  texts: string[];
+  dimensions?: number; // Shortened vectors, for models that support it
+}
+
+/**
+ * Provider that runs model requests
+ * Implement this interface to plug in another model service or a fake for tests
+ */
+export interface LlmProvider {
+  readonly defaultModels: Record<LlmTask, string>;
+
+  complete(request: CompletionRequest): Promise<Completion>;
+  stream(request: CompletionRequest, onToken: (token: string) => void): Promise<Completion>;
+  transcribe(request: TranscriptionRequest): Promise<string>;
+  embed(request: EmbeddingRequest): Promise<number[][]>;
+  synthesize(model: string, text: string, options: SpeechOptions): Promise<SynthesizedSpeech>;
+}
+
+// Models of the OpenAI API per task
+const OPENAI_DEFAULT_MODELS: Record<LlmTask, string> = {
+  chat: 'gpt-4-turbo-preview', // Best quality answers
+  title: 'gpt-4o-mini', // Fast and cheap for short utility prompts
+  summary: 'gpt-4o-mini',
+  memory: 'gpt-4o-mini',
+  tips: 'gpt-4o-mini',
+  vision: 'gpt-4o',
+  transcription: 'whisper-1',
+  embedding: 'text-embedding-3-small',
+  speech: 'tts-1',
+};
+
+/**
+ * Converts messages to the Chat Completions format
+ *
+ * @param messages - Messages to send
+ * @returns Messages with images as content parts
+ */
+function toChatCompletionMessages(messages: LlmMessage[]): OpenAI.ChatCompletionMessageParam[] {
+  return messages.map((message): OpenAI.ChatCompletionMessageParam => {
+    if (message.role === 'user' && message.images?.length) {
+      return {
+        role: 'user',
+        content: [
+          { type: 'text', text: message.content },
+          ...message.images.map((image) => ({
+            type: 'image_url' as const,
+            image_url: { url: image.url, detail: image.detail },
+          })),
+        ],
+      };
+    }
+    return { role: message.role, content: message.content };
+  });
+}
+
+/**
+ * Connection settings of an OpenAI-compatible API
+ */
+export interface OpenAiConnection {
+  apiKey?: string;
+  baseURL?: string; // Defaults to the OpenAI API
+}
+
+/**
+ * Provider for the OpenAI API
+ * The client is created on first use, so importing this module doesn't need an API key.
+ */
+export class OpenAiLlmProvider implements LlmProvider {
+  private client: OpenAI | null = null;
+
+  constructor(
+    private readonly connection: OpenAiConnection = { apiKey: process.env.OPENAI_API_KEY },
+    readonly defaultModels: Record<LlmTask, string> = OPENAI_DEFAULT_MODELS,
+  ) {}
+
+  async complete(request: CompletionRequest): Promise<Completion> {
+    const completion = await this.getClient().chat.completions.create(
+      {
+        model: request.model,
+        messages: toChatCompletionMessages(request.messages),
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        top_p: request.topP,
+        ...(request.json && { response_format: { type: 'json_object' as const } }),
+      },
+      { signal: request.signal },
+    );
+
+    return {
+      text: completion.choices[0]?.message?.content || '',
+      tokensUsed: completion.usage?.total_tokens || 0,
+    };
+  }
+
+  async stream(request: CompletionRequest, onToken: (token: string) => void): Promise<Completion> {
+    // include_usage adds a final chunk with token counts
+    const stream = await this.getClient().chat.completions.create(
+      {
+        model: request.model,
+        messages: toChatCompletionMessages(request.messages),
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        top_p: request.topP,
+        stream: true,
+        stream_options: { include_usage: true },
+      },
+      { signal: request.signal },
+    );
+
+    let text = '';
+    let tokensUsed = 0;
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        onToken(delta);
+      }
+
+      // The usage chunk arrives last and has no choices
+      if (chunk.usage) {
+        tokensUsed = chunk.usage.total_tokens;
+      }
+    }
+
+    return { text, tokensUsed };
+  }
+
+  async transcribe(request: TranscriptionRequest): Promise<string> {
+    const transcription = await this.getClient().audio.transcriptions.create({
+      file: createReadStream(request.filePath),
+      model: request.model,
+      ...(request.language && { language: request.language }),
+      response_format: 'text', // Return plain text instead of JSON
+    });
+
+    // The API returns a string when response_format is 'text'
+    return (transcription as unknown as string).trim();
+  }
+
+  async embed(request: EmbeddingRequest): Promise<number[][]> {
+    const response = await this.getClient().embeddings.create({
+      model: request.model,
+      input: request.texts,
+      dimensions: request.dimensions,
+    });
+
+    // Results carry their input index; don't rely on the order they come back in
+    return [...response.data].sort((a, b) => a.index - b.index).map((item) => item.embedding);
+  }
+
+  async synthesize(model: string, text: string, options: SpeechOptions): Promise<SynthesizedSpeech> {
+    const response = await this.getClient().audio.speech.create({
+      model,
+      voice: options.voice,
+      input: text,
+      speed: options.speed,
+      response_format: 'mp3',
+    });
+
+    return { audio: Buffer.from(await response.arrayBuffer()), format: 'mp3' };
+  }
+
+  /**
+   * Returns the API client, creating it on first use
+   *
+   * @returns OpenAI client
+   * @throws Error if no API key is configured
+   */
+  private getClient(): OpenAI {
+    if (!this.client) {
+      if (!this.connection.apiKey) {
+        throw new Error('OPENAI_API_KEY is not set in environment variables');
+      }
+      this.client = new OpenAI({ apiKey: this.connection.apiKey, baseURL: this.connection.baseURL });
+    }
+    return this.client;
+  }
+}
+
+// Default address of a local Ollama server's OpenAI-compatible API
+const DEFAULT_LOCAL_LLM_BASE_URL = 'http://localhost:11434/v1';
+
+/**
+ * Provider for a local OpenAI-compatible server (Ollama, llama.cpp, LocalAI, ...)
+ * Text tasks default to LOCAL_LLM_MODEL; the server must have every configured model.
+ *
+ * Embeddings keep the local model's own vector size. Vectors are stored with their
+ * model, so changing the embedding model re-embeds messages instead of mixing sizes.
+ *
+ * Ollama and llama.cpp have no /audio endpoints, so transcription and speech go to
+ * LOCAL_LLM_AUDIO_BASE_URL (e.g. a LocalAI or Speaches server) or, if that isn't set,
+ * to the OpenAI API with OPENAI_API_KEY.
+ */
+export class LocalLlmProvider extends OpenAiLlmProvider {
+  private readonly audio: OpenAiLlmProvider | null;
+
+  constructor(
+    baseURL: string = process.env.LOCAL_LLM_BASE_URL || DEFAULT_LOCAL_LLM_BASE_URL,
+    audioBaseURL: string | undefined = process.env.LOCAL_LLM_AUDIO_BASE_URL,
+  ) {
+    const textModel = process.env.LOCAL_LLM_MODEL || 'llama3.1';
+
+    super(
+      // Local servers usually ignore the key, but the client requires one
+      { apiKey: process.env.LOCAL_LLM_API_KEY || 'local', baseURL },
+      {
+        chat: textModel,
+        title: textModel,
+        summary: textModel,
+        memory: textModel,
+        tips: textModel,
+        vision: 'llava',
+        transcription: 'whisper-1',
+        embedding: 'nomic-embed-text',
+        speech: 'tts-1',
+      },
+    );
+
+    if (audioBaseURL) {
+      this.audio = new OpenAiLlmProvider({ apiKey: process.env.LOCAL_LLM_AUDIO_API_KEY || 'local', baseURL: audioBaseURL });
+    } else if (process.env.OPENAI_API_KEY) {
+      this.audio = new OpenAiLlmProvider({ apiKey: process.env.OPENAI_API_KEY });
+    } else {
+      this.audio = null;
+      console.warn('⚠️ LLM_PROVIDER=local without LOCAL_LLM_AUDIO_BASE_URL or OPENAI_API_KEY: transcription and speech are unavailable');
+    }
+  }
+
+  embed(request: EmbeddingRequest): Promise<number[][]> {
+    // Local embedding models have a fixed size (nomic-embed-text: 768) and can't be shortened
+    return super.embed({ ...request, dimensions: undefined });
+  }
+
+  async transcribe(request: TranscriptionRequest): Promise<string> {
+    return this.getAudioProvider().transcribe(request);
+  }
+
+  async synthesize(model: string, text: string, options: SpeechOptions): Promise<SynthesizedSpeech> {
+    return this.getAudioProvider().synthesize(model, text, options);
+  }
+
+  /**
+   * Returns the provider for transcription and speech
+   *
+   * @returns Provider of the audio server or the OpenAI API
+   * @throws Error if neither is configured
+   */
+  private getAudioProvider(): OpenAiLlmProvider {
+    if (!this.audio) {
+      throw new Error('Transcription and speech with LLM_PROVIDER=local need LOCAL_LLM_AUDIO_BASE_URL or OPENAI_API_KEY');
+    }
+    return this.audio;
+  }
+}
+
+// Vector size of mock embeddings when the request doesn't set one
+const MOCK_EMBEDDING_DIMENSIONS = 64;
+
+/**
+ * Provider with deterministic replies and no network
+ * Records every completion request; queued replies and transcripts are returned
+ * first, otherwise replies echo the last user message (JSON requests get "{}").
+ */
+export class MockLlmProvider implements LlmProvider {
+  readonly defaultModels = Object.fromEntries(LLM_TASKS.map((task) => [task, 'mock'])) as Record<LlmTask, string>;
+  readonly requests: CompletionRequest[] = [];
+  readonly replies: string[] = [];
+  readonly transcripts: string[] = [];
+
+  complete(request: CompletionRequest): Promise<Completion> {
+    this.requests.push(request);
+
+    const lastUserMessage = [...request.messages].reverse().find((message) => message.role === 'user');
+    const text = this.replies.shift() ?? (request.json ? '{}' : `Mock reply: ${lastUserMessage?.content ?? ''}`);
+    const prompt = request.messages.map((message) => message.content).join('\n');
+
+    return Promise.resolve({ text, tokensUsed: estimateTokens(prompt) + estimateTokens(text) });
+  }
+
+  async stream(request: CompletionRequest, onToken: (token: string) => void): Promise<Completion> {
+    const completion = await this.complete(request);
+
+    // Word by word, like a model streaming tokens
+    for (const token of completion.text.match(/\S+\s*/g) ?? []) {
+      if (request.signal?.aborted) {
+        throw new Error('Request was aborted');
+      }
+      onToken(token);
+    }
+    return completion;
+  }
+
+  transcribe(request: TranscriptionRequest): Promise<string> {
+    return Promise.resolve(this.transcripts.shift() ?? `Mock transcript of ${request.filePath}`);
+  }
+
+  /**
+   * Embeds texts as hashed bags of words, so texts sharing words are similar
+   */
+  embed(request: EmbeddingRequest): Promise<number[][]> {
+    const dimensions = request.dimensions ?? MOCK_EMBEDDING_DIMENSIONS;
+
+    return Promise.resolve(
+      request.texts.map((text) => {
+        const vector = new Array<number>(dimensions).fill(0);
+        for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+          let hash = 0;
+          for (const char of word) {
+            hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+          }
+          vector[hash % dimensions] += 1;
+        }
+
+        const length = Math.hypot(...vector) || 1;
+        return vector.map((value) => value / length);
+      }),
+    );
+  }
+
+  synthesize(model: string, text: string, options: SpeechOptions): Promise<SynthesizedSpeech> {
+    return Promise.resolve({ audio: Buffer.from(`${options.voice}@${options.speed}:${text}`), format: 'txt' });
+  }
+}
+
+/**
+ * Creates the provider configured by LLM_PROVIDER
+ *
+ * @returns Configured LLM provider (OpenAI by default)
+ */
+function createLlmProviderFromEnv(): LlmProvider {
+  switch (process.env.LLM_PROVIDER) {
+    case 'local':
+      return new LocalLlmProvider();
+    case 'mock':
+      return new MockLlmProvider();
+    case 'openai':
+    case undefined:
+      return new OpenAiLlmProvider();
+    default:
+      console.warn(`Unknown LLM_PROVIDER "${process.env.LLM_PROVIDER}", falling back to OpenAI provider`);
+      return new OpenAiLlmProvider();
+  }
+}
+
+// Active provider (lazily created from environment on first use)
+let activeProvider: LlmProvider | null = null;
+
+/**
+ * Replaces the LLM provider
+ * Used to install a mock provider in tests
+ *
+ * @param provider - Provider to use for all subsequent requests
+ */
+export function setLlmProvider(provider: LlmProvider): void {
+  activeProvider = provider;
+}
+
+/**
+ * Returns the active LLM provider, creating it from the environment on first use
+ *
+ * @returns LLM provider
+ */
+export function getLlmProvider(): LlmProvider {
+  if (!activeProvider) {
+    activeProvider = createLlmProviderFromEnv();
+  }
+  return activeProvider;
+}
+
+// Older variables that still set the model of a task
+const LEGACY_MODEL_VARIABLES: Partial<Record<LlmTask, string>> = {
+  embedding: 'OPENAI_EMBEDDING_MODEL',
+  speech: 'OPENAI_TTS_MODEL',
+};
+
+/**
+ * Returns the model configured for a task
+ *
+ * @param task - Task the model is used for
+ * @returns LLM_MODEL_<TASK> if set, otherwise the active provider's default model
+ */
+export function getLlmModel(task: LlmTask): string {
+  const legacyVariable = LEGACY_MODEL_VARIABLES[task];
+
+  return (
+    process.env[`LLM_MODEL_${task.toUpperCase()}`] ||
+    (legacyVariable && process.env[legacyVariable]) ||
+    getLlmProvider().defaultModels[task]
+  );
+}
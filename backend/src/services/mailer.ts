@@ -0,0 +1,121 @@
+/**
+ * Mailer Service
+ *
+ * Sends transactional emails (password reset, etc.) through a pluggable transport.
+ * The transport is chosen with the MAIL_TRANSPORT environment variable:
+ * - console: Print emails to the server log (default, for local development)
+ * - file: Write each email as a JSON file to MAIL_OUTPUT_DIR (default: ./mail)
+ *
+ * Production providers implement MailTransport and are installed with setMailTransport().
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+
+/**
+ * Base URL used to build links in emails (app deep link or web URL)
+ */
+export const APP_URL = process.env.APP_URL || 'http://localhost:3001';
+
+/**
+ * Email message to deliver
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string; // Plain text body
+  html?: string; // Optional HTML body
+}
+
+/**
+ * Transport that delivers email messages
+ * Implement this interface to plug in a real provider (SES, SendGrid, SMTP, ...)
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Transport that prints emails to the server log
+ * Useful for local development: reset links appear in the terminal
+ */
+export class ConsoleMailTransport implements MailTransport {
+  send(message: MailMessage): Promise<void> {
+    console.log('📧 ====== Outgoing email ======');
+    console.log(`To: ${message.to}`);
+    console.log(`Subject: ${message.subject}`);
+    console.log(message.text);
+    console.log('📧 ============================');
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Transport that writes each email to a JSON file
+ * Useful for local development and manual QA without a mail provider
+ */
+export class FileMailTransport implements MailTransport {
+  constructor(private readonly outputDir: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.outputDir, { recursive: true });
+
+    const fileName = `${Date.now()}-${randomUUID()}.json`;
+    const filePath = path.join(this.outputDir, fileName);
+
+    await fs.writeFile(
+      filePath,
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2),
+    );
+
+    console.log(`📧 Email to ${message.to} written to ${filePath}`);
+  }
+}
+
+/**
+ * Creates the transport configured by MAIL_TRANSPORT
+ *
+ * @returns Configured mail transport (console by default)
+ */
+function createTransportFromEnv(): MailTransport {
+  switch (process.env.MAIL_TRANSPORT) {
+    case 'file':
+      return new FileMailTransport(process.env.MAIL_OUTPUT_DIR || 'mail');
+    case 'console':
+    case undefined:
+      return new ConsoleMailTransport();
+    default:
+      console.warn(
+        `Unknown MAIL_TRANSPORT "${process.env.MAIL_TRANSPORT}", falling back to console transport`,
+      );
+      return new ConsoleMailTransport();
+  }
+}
+
+// Active transport (lazily created from environment on first send)
+let transport: MailTransport | null = null;
+
+/**
+ * Replaces the active mail transport
+ * Used to install a production provider at startup or a fake transport in tests
+ *
+ * @param mailTransport - Transport to use for all subsequent emails
+ */
+export function setMailTransport(mailTransport: MailTransport): void {
+  transport = mailTransport;
+}
+
+/**
+ * Sends an email through the active transport
+ *
+ * @param message - Email to send
+ * @throws Error if the transport fails to deliver the message
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  if (!transport) {
+    transport = createTransportFromEnv();
+  }
+
+  await transport.send(message);
+}
@@ -0,0 +1,120 @@
+/**
+ * Memory Service
+ *
+ * Long-term memory of facts the parent has told the assistant: allergies, the
+ * pediatrician's advice, the baby's nickname. After each exchange the model extracts
+ * new durable facts into UserMemory; before each reply the memories relevant to the
+ * message are added to the system prompt.
+ *
+ * Parents can view, edit and delete memories (/user/memories) and turn memory off
+ * with the memoryEnabled profile preference.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { extractMemories } from './openai';
+import { isDuplicateMemory, selectRelevantMemories } from '../utils/memories';
+
+// Initialize Prisma Client for database operations
+const prisma = new PrismaClient();
+
+// Token budget for memories in the system prompt (configurable via env)
+const MEMORY_TOKEN_BUDGET = parseInt(process.env.CHAT_MEMORY_TOKEN_BUDGET || '200', 10);
+
+// Memories kept per user; extraction stops at the limit until some are deleted
+export const MAX_MEMORIES_PER_USER = 200;
+
+// Messages shorter than this ("thanks!", "ok") can't contain a durable fact
+const MIN_EXTRACTION_MESSAGE_LENGTH = 20;
+
+/**
+ * Returns the user's memories relevant to a message, for the system prompt
+ *
+ * @param userId - User chatting with the assistant
+ * @param message - The parent's current message
+ * @param maxTokens - Token budget for the memories
+ * @returns Memory texts, most relevant first (empty if loading failed)
+ */
+export async function getRelevantMemories(
+  userId: string,
+  message: string,
+  maxTokens: number = MEMORY_TOKEN_BUDGET,
+): Promise<string[]> {
+  try {
+    const memories = await prisma.userMemory.findMany({
+      where: { userId },
+      select: { category: true, content: true, updatedAt: true },
+    });
+
+    return selectRelevantMemories(memories, message, maxTokens).map((memory) => memory.content);
+  } catch (error) {
+    // Memory is a nice-to-have: never fail a chat turn because of it
+    console.error('Error loading memories:', error);
+    return [];
+  }
+}
+
+/**
+ * Extracts new facts from an exchange and remembers them
+ *
+ * @param userId - User who sent the message
+ * @param sessionId - Conversation the exchange belongs to
+ * @param userMessage - The parent's message
+ * @param assistantMessage - The assistant's reply
+ * @returns Number of new memories saved
+ */
+export async function rememberFromExchange(
+  userId: string,
+  sessionId: string,
+  userMessage: string,
+  assistantMessage: string,
+): Promise<number> {
+  if (userMessage.trim().length < MIN_EXTRACTION_MESSAGE_LENGTH) {
+    return 0;
+  }
+
+  const existing = await prisma.userMemory.findMany({
+    where: { userId },
+    orderBy: { updatedAt: 'desc' },
+    select: { content: true },
+  });
+
+  if (existing.length >= MAX_MEMORIES_PER_USER) {
+    return 0;
+  }
+
+  const known = existing.map((memory) => memory.content);
+  const extracted = await extractMemories(
+    [
+      { role: 'user', content: userMessage },
+      { role: 'assistant', content: assistantMessage },
+    ],
+    known,
+  );
+
+  // Drop facts already remembered (or repeated within this batch)
+  const fresh: typeof extracted = [];
+  for (const memory of extracted) {
+    if (!isDuplicateMemory(memory.content, [...known, ...fresh.map((item) => item.content)])) {
+      fresh.push(memory);
+    }
+  }
+
+  const toSave = fresh.slice(0, MAX_MEMORIES_PER_USER - existing.length);
+  if (toSave.length === 0) {
+    return 0;
+  }
+
+  await prisma.userMemory.createMany({
+    data: toSave.map((memory) => ({
+      userId,
+      category: memory.category,
+      content: memory.content,
+      source: 'EXTRACTED' as const,
+      sourceSessionId: sessionId,
+    })),
+  });
+
+  console.log(`🧠 Remembered ${toSave.length} new fact(s) for user ${userId}`);
+
+  return toSave.length;
+}
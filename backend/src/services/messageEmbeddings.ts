@@ -0,0 +1,232 @@
+/**
+ * Message Embedding Service
+ *
+ * Stores an embedding per chat message and searches conversations by meaning.
+ * Messages are embedded right after they are saved; the backfill-message-embeddings
+ * job catches up on older messages, ones whose embedding failed and ones embedded
+ * with a previous model.
+ *
+ * Search ranks the user's most recent embeddings by cosine similarity inside the
+ * database, so vectors never leave Postgres and results only ever contain sessions
+ * the user actually has. The plain postgres image has no pgvector, so similarity is
+ * computed over the stored arrays and the scan is capped at MAX_SEARCH_CANDIDATES.
+ */
+
+import { PrismaClient, MessageRole } from '@prisma/client';
+import { createEmbeddings } from './openai';
+import { getLlmModel } from './llm';
+import { SessionMatch, Snippet, buildSnippet, prepareEmbeddingText } from '../utils/conversationSearch';
+
+// Initialize Prisma Client for database operations
+const prisma = new PrismaClient();
+
+// Texts embedded per OpenAI request
+const EMBEDDING_BATCH_SIZE = 100;
+
+// Messages less similar to the query than this aren't shown (text-embedding-3 scale)
+const MIN_SEARCH_SIMILARITY = 0.3;
+
+// Most recent message embeddings compared per search (older messages aren't found)
+const MAX_SEARCH_CANDIDATES = 5000;
+
+/**
+ * Message fields needed to store its embedding
+ */
+export interface EmbeddableMessage {
+  id: string;
+  userId: string;
+  sessionId: string;
+  content: string;
+}
+
+/**
+ * Conversation matching a search query
+ */
+export interface ConversationSearchResult {
+  sessionId: string;
+  title: string;
+  summary: string | null;
+  lastMessageAt: Date;
+  score: number; // Cosine similarity of the best-matching message, rounded to 3 decimals
+  match: {
+    messageId: string;
+    role: MessageRole;
+    timestamp: Date;
+    snippet: Snippet;
+  };
+}
+
+/**
+ * Embeds messages and stores their embeddings
+ * Replaces existing embeddings of the same messages (e.g. from a previous model).
+ *
+ * @param messages - Saved messages
+ * @returns Number of messages embedded (messages without text are skipped)
+ */
+export async function indexMessages(messages: EmbeddableMessage[]): Promise<number> {
+  const embeddable = messages
+    .map((message) => ({ ...message, text: prepareEmbeddingText(message.content) }))
+    .filter((message) => message.text.length > 0);
+
+  // Stored with each embedding: vectors from different models can't be compared
+  const model = getLlmModel('embedding');
+
+  for (let i = 0; i < embeddable.length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = embeddable.slice(i, i + EMBEDDING_BATCH_SIZE);
+    const vectors = await createEmbeddings(batch.map((message) => message.text));
+
+    await prisma.$transaction([
+      prisma.messageEmbedding.deleteMany({
+        where: { messageId: { in: batch.map((message) => message.id) } },
+      }),
+      prisma.messageEmbedding.createMany({
+        data: batch.map((message, index) => ({
+          messageId: message.id,
+          userId: message.userId,
+          sessionId: message.sessionId,
+          model,
+          vector: vectors[index],
+        })),
+      }),
+    ]);
+  }
+
+  return embeddable.length;
+}
+
+/**
+ * Embeds messages that have no embedding for the current model, oldest first
+ *
+ * @param limit - Maximum number of messages to embed
+ * @returns Messages embedded, and whether more are waiting
+ */
+export async function backfillMessageEmbeddings(limit: number): Promise<{ processed: number; hasMore: boolean }> {
+  const messages = await prisma.message.findMany({
+    where: {
+      content: { not: '' },
+      OR: [
+        { embedding: { is: null } },
+        { embedding: { is: { model: { not: getLlmModel('embedding') } } } },
+      ],
+    },
+    orderBy: { timestamp: 'asc' },
+    take: limit + 1,
+    select: { id: true, userId: true, sessionId: true, content: true },
+  });
+
+  const batch = messages.slice(0, limit);
+  await indexMessages(batch);
+
+  return { processed: batch.length, hasMore: messages.length > limit };
+}
+
+/**
+ * Finds a user's conversations closest in meaning to a query
+ *
+ * Each session is ranked by its single most similar message, which is returned
+ * with a highlighted snippet.
+ *
+ * @param userId - User searching their conversations
+ * @param query - Search query
+ * @param limit - Page size
+ * @param offset - Results to skip
+ * @returns Page of results, best first, and the total number of matching sessions
+ */
+export async function searchConversations(
+  userId: string,
+  query: string,
+  limit: number,
+  offset: number,
+): Promise<{ results: ConversationSearchResult[]; total: number }> {
+  const [queryVector] = await createEmbeddings([prepareEmbeddingText(query)]);
+  const queryNorm = Math.sqrt(queryVector.reduce((sum, value) => sum + value * value, 0));
+
+  if (queryNorm === 0) {
+    return { results: [], total: 0 };
+  }
+
+  // Best message per session, best session first; only IDs and scores are returned
+  // (vectors of one model share the query's size; the size check only keeps unnest from padding)
+  const matches = await prisma.$queryRaw<SessionMatch[]>`
+    WITH candidates AS (
+      SELECT "messageId", "sessionId", "vector"
+      FROM "MessageEmbedding"
+      WHERE "userId" = ${userId} AND "model" = ${getLlmModel('embedding')}
+      ORDER BY "createdAt" DESC
+      LIMIT ${MAX_SEARCH_CANDIDATES}
+    ),
+    scored AS (
+      SELECT c."messageId", c."sessionId", (
+        SELECT SUM(v.a * v.b) / NULLIF(SQRT(SUM(v.a * v.a)) * ${queryNorm}, 0)
+        FROM unnest(c."vector", ${queryVector}::double precision[]) AS v(a, b)
+      ) AS "score"
+      FROM candidates c
+      WHERE cardinality(c."vector") = ${queryVector.length}
+    ),
+    best AS (
+      SELECT DISTINCT ON ("sessionId") "sessionId", "messageId", "score"
+      FROM scored
+      WHERE "score" >= ${MIN_SEARCH_SIMILARITY}
+      ORDER BY "sessionId", "score" DESC
+    )
+    SELECT "sessionId", "messageId", "score"
+    FROM best
+    ORDER BY "score" DESC, "sessionId"
+  `;
+
+  const page = matches.slice(offset, offset + limit);
+
+  if (page.length === 0) {
+    return { results: [], total: matches.length };
+  }
+
+  const sessionIds = page.map((match) => match.sessionId);
+
+  const [matchedMessages, firstMessages, lastMessages] = await Promise.all([
+    prisma.message.findMany({
+      where: { userId, id: { in: page.map((match) => match.messageId) } },
+      select: { id: true, role: true, content: true, timestamp: true },
+    }),
+    prisma.message.findMany({
+      where: { userId, sessionId: { in: sessionIds } },
+      distinct: ['sessionId'],
+      orderBy: { timestamp: 'asc' },
+      select: { sessionId: true, conversationTitle: true, conversationSummary: true, content: true },
+    }),
+    prisma.message.groupBy({
+      by: ['sessionId'],
+      where: { userId, sessionId: { in: sessionIds } },
+      _max: { timestamp: true },
+    }),
+  ]);
+
+  const messagesById = new Map(matchedMessages.map((message) => [message.id, message]));
+  const firstBySession = new Map(firstMessages.map((message) => [message.sessionId, message]));
+  const lastBySession = new Map(lastMessages.map((session) => [session.sessionId, session._max.timestamp]));
+
+  const results: ConversationSearchResult[] = [];
+  for (const match of page) {
+    const message = messagesById.get(match.messageId);
+    const first = firstBySession.get(match.sessionId);
+    const lastMessageAt = lastBySession.get(match.sessionId);
+
+    // Deleted between the ranking and this lookup
+    if (!message || !first || !lastMessageAt) continue;
+
+    results.push({
+      sessionId: match.sessionId,
+      title: first.conversationTitle || `${first.content.substring(0, 50)}...`,
+      summary: first.conversationSummary,
+      lastMessageAt,
+      score: Math.round(match.score * 1000) / 1000,
+      match: {
+        messageId: message.id,
+        role: message.role,
+        timestamp: message.timestamp,
+        snippet: buildSnippet(message.content, query),
+      },
+    });
+  }
+
+  return { results, total: matches.length };
+}
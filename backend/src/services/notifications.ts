@@ -0,0 +1,147 @@
+/**
+ * Notification Service
+ *
+ * Sends push notifications to all devices a user has registered, after checking
+ * their notification preferences and quiet hours. Tokens the provider reports as
+ * unregistered are deleted.
+ *
+ * Notifications suppressed by quiet hours are not queued here; the result carries
+ * deliverAfter so scheduled jobs can try again when quiet hours end.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { sendPush } from './push';
+import {
+  NotificationCategory,
+  getQuietHoursEnd,
+  isCategoryEnabled,
+  parseNotificationPreferences,
+} from '../utils/notifications';
+
+// Initialize Prisma Client for database operations
+const prisma = new PrismaClient();
+
+/**
+ * Notification to send to a user
+ * category: preference that must be enabled, or null for notifications the user
+ * requested themselves (e.g. a test notification)
+ */
+export interface UserNotification {
+  category: NotificationCategory | null;
+  title: string;
+  body: string;
+  data?: Record<string, string>;
+}
+
+/**
+ * Options for sending a notification
+ */
+export interface SendNotificationOptions {
+  now?: Date; // Current time (for quiet hours)
+  ignoreQuietHours?: boolean; // Deliver even during quiet hours
+}
+
+/**
+ * Outcome of sending a notification to a user
+ * - sent: delivered to at least one device
+ * - skipped: not attempted (see reason)
+ * - failed: every device delivery failed
+ */
+export interface SendNotificationResult {
+  status: 'sent' | 'skipped' | 'failed';
+  reason?: 'preferences' | 'quiet_hours' | 'no_devices';
+  deliverAfter?: Date; // End of quiet hours when skipped for quiet hours
+  delivered: number;
+  failed: number;
+  removedTokens: number;
+}
+
+/**
+ * Sends a push notification to all of a user's devices
+ *
+ * @param userId - Recipient
+ * @param notification - Notification content and category
+ * @param options - Current time and quiet hours override
+ * @returns Delivery summary
+ */
+export async function sendNotificationToUser(
+  userId: string,
+  notification: UserNotification,
+  options: SendNotificationOptions = {},
+): Promise<SendNotificationResult> {
+  const skipped = (
+    reason: NonNullable<SendNotificationResult['reason']>,
+    deliverAfter?: Date,
+  ): SendNotificationResult => ({ status: 'skipped', reason, deliverAfter, delivered: 0, failed: 0, removedTokens: 0 });
+
+  const profile = await prisma.userProfile.findUnique({
+    where: { userId },
+    select: { notificationPreferences: true, quietHoursStart: true, quietHoursEnd: true, timeZone: true },
+  });
+
+  if (notification.category) {
+    const preferences = parseNotificationPreferences(profile?.notificationPreferences);
+    if (!isCategoryEnabled(preferences, notification.category)) {
+      return skipped('preferences');
+    }
+  }
+
+  if (!options.ignoreQuietHours && profile?.quietHoursStart && profile.quietHoursEnd) {
+    const quietHoursEnd = getQuietHoursEnd(
+      { start: profile.quietHoursStart, end: profile.quietHoursEnd, timeZone: profile.timeZone },
+      options.now,
+    );
+    if (quietHoursEnd) {
+      return skipped('quiet_hours', quietHoursEnd);
+    }
+  }
+
+  const devices = await prisma.deviceToken.findMany({
+    where: { userId },
+    select: { id: true, token: true, provider: true },
+  });
+
+  if (devices.length === 0) {
+    return skipped('no_devices');
+  }
+
+  const results = await Promise.all(
+    devices.map((device) =>
+      sendPush(device.provider, {
+        token: device.token,
+        title: notification.title,
+        body: notification.body,
+        data: notification.data,
+      }),
+    ),
+  );
+
+  const invalidDeviceIds = devices
+    .filter((_, index) => {
+      const result = results[index];
+      return !result.success && result.invalidToken;
+    })
+    .map((device) => device.id);
+
+  if (invalidDeviceIds.length > 0) {
+    await prisma.deviceToken.deleteMany({ where: { id: { in: invalidDeviceIds } } });
+  }
+
+  const delivered = results.filter((result) => result.success).length;
+  const failed = results.length - delivered;
+
+  for (const result of results) {
+    if (!result.success && !result.invalidToken) {
+      console.error(`Push delivery to user ${userId} failed:`, result.error);
+    }
+  }
+
+  console.log(`🔔 Notification "${notification.title}" to user ${userId}: ${delivered} delivered, ${failed} failed`);
+
+  return {
+    status: delivered > 0 ? 'sent' : 'failed',
+    delivered,
+    failed,
+    removedTokens: invalidDeviceIds.length,
+  };
+}
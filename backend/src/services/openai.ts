@@ -1,31 +1,29 @@
 /**
- * OpenAI Service
+ * AI Service
  *
- * Handles all interactions with OpenAI API including:
- * - Chat completions (GPT-4)
- * - Audio transcription (Whisper)
- * - Text-to-speech (TTS)
+ * Builds the prompts for all model requests and runs them through the active
+ * LLM provider (services/llm.ts), with the model configured for each task:
+ * - Chat completions
+ * - Audio transcription
+ * - Embeddings for semantic conversation search
+ * - Photo categorization and analysis (vision)
+ *
+ * Prompts and transcription follow the parent's preferred language (utils/language.ts).
+ *
+ * Text-to-speech lives in services/tts.ts behind a provider interface.
  */
 
-import OpenAI from 'openai';
 import { promises as fs } from 'fs';
 import path from 'path';
-
-// Initialize OpenAI client with API key from environment variable
-// Throws error if OPENAI_API_KEY is not set in .env file
-if (!process.env.OPENAI_API_KEY) {
-  throw new Error('OPENAI_API_KEY is not set in environment variables');
-}
-
-/// OpenAI client instance used throughout the application
-/// Configured with API key from environment variables
-export const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { TIP_CATEGORIES, TIPS_PER_DIGEST, TipCohort, WeeklyTip, parseGeneratedTips } from '../utils/tips';
+import { describePregnancyProgress, getPregnancyProgress } from '../utils/pregnancy';
+import { ExtractedMemory, MEMORY_CATEGORIES, parseExtractedMemories } from '../utils/memories';
+import { TriageResult } from '../utils/triage';
+import { DEFAULT_LANGUAGE, LANGUAGE_NAMES, Language } from '../utils/language';
+import { getLlmModel, getLlmProvider } from './llm';
 
 /**
  * Message interface for chat context
- * Matches OpenAI's ChatCompletionMessageParam format
  */
 export interface ChatMessage {
   role: 'system' | 'user' | 'assistant';
@@ -44,6 +42,11 @@ export interface UserProfile {
   religiousViews?: string;
   culturalBackground?: string | null;
   concerns?: string[];
+  recentContext?: string; // Recent activity, milestones and photos (see services/chatContext.ts)
+  memories?: string[]; // Facts from earlier conversations relevant to this message (see services/memories.ts)
+  conversationSummary?: string; // Earlier turns of this session that no longer fit the context (see services/conversationSummary.ts)
+  triage?: TriageResult; // Red flag matched by the current message (see utils/triage.ts)
+  language?: Language | null; // Preferred language (null/undefined: answer in the parent's language)
 }
 
 /**
@@ -51,18 +54,16 @@ export interface UserProfile {
  * This prompt guides the AI's behavior and responses.
  *
  * @param profile - User profile data from database
- * @returns System prompt string for OpenAI
+ * @returns System prompt string for the chat model
  */
 export function buildSystemPrompt(profile: UserProfile): string {
-  const { mode, babyName, babyBirthDate, dueDate, parentingPhilosophy, religiousViews, culturalBackground, concerns } = profile;
+  const { mode, babyName, babyBirthDate, dueDate, parentingPhilosophy, religiousViews, culturalBackground, concerns, recentContext, memories, conversationSummary, triage, language } = profile;
 
   // Calculate baby age or weeks pregnant
   let ageContext = '';
   if (mode === 'PREGNANCY' && dueDate) {
-    const today = new Date();
-    const weeksPregnant = Math.floor((dueDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24 * 7));
-    const weeksElapsed = 40 - weeksPregnant;
-    ageContext = `The user is currently ${weeksElapsed} weeks pregnant, with a due date on ${dueDate.toLocaleDateString()}.`;
+    const progress = getPregnancyProgress(dueDate);
+    ageContext = `The user is currently ${describePregnancyProgress(progress)}, with a due date on ${dueDate.toLocaleDateString()}.`;
   } else if (mode === 'PARENTING' && babyBirthDate) {
     const today = new Date();
     const ageInDays = Math.floor((today.getTime() - babyBirthDate.getTime()) / (1000 * 60 * 60 * 24));
@@ -112,10 +113,40 @@ export function buildSystemPrompt(profile: UserProfile): string {
     culturalContext = `\n` + parts.join('. ');
   }
 
+  // Build recent activity context (logged by the parents, already trimmed to a token budget)
+  let recentActivityContext = '';
+  if (recentContext) {
+    recentActivityContext = `\n\n**Recent activity logged by the family:**\n${recentContext}\nUse this when it helps answer the question (e.g. sleep or feeding patterns), but don't recite it unprompted.`;
+  }
+
+  // Build long-term memory context (facts the parent shared in earlier conversations)
+  let memoryContext = '';
+  if (memories && memories.length > 0) {
+    memoryContext = `\n\n**What the parent has told you before:**\n${memories.map((memory) => `- ${memory}`).join('\n')}\nTake these into account (especially allergies and medical advice). If the parent says something has changed, go by what they say now.`;
+  }
+
+  // Build summary of earlier turns (the recent messages follow in full)
+  let summaryContext = '';
+  if (conversationSummary) {
+    summaryContext = `\n\n**Earlier in this conversation:**\n${conversationSummary}\nThe most recent messages follow in full; build on what was already discussed instead of repeating it.`;
+  }
+
+  // Build safety alert for a message that matched a medical red flag
+  // The app shows the urgent-care instructions itself; the reply must back them up
+  let triageContext = '';
+  if (triage) {
+    triageContext = `\n\n**Safety alert:** The parent's message matched the red flag "${triage.title}". The app has already shown them these instructions: ${triage.advice}\nStart your reply by reinforcing these instructions in one or two sentences. Never suggest waiting to see if it gets better.`;
+  }
+
+  // Build language instruction (the guidance below is written in English either way)
+  const languageContext = language
+    ? `\n\n**Language:** Always reply in ${LANGUAGE_NAMES[language]}, even if the parent writes in another language, unless they ask you to switch.`
+    : `\n\n**Language:** Reply in the language the parent writes in.`;
+
   // Construct full system prompt
   const systemPrompt = `You are a warm, empathetic, and knowledgeable parenting assistant. Your role is to provide supportive guidance to parents and expecting parents.
 
-${ageContext}${concernsContext}${philosophyContext}${culturalContext}
+${ageContext}${concernsContext}${philosophyContext}${culturalContext}${memoryContext}${recentActivityContext}${summaryContext}${triageContext}${languageContext}
 
 **Guidelines:**
 - Be warm, empathetic, and reassuring in your tone
@@ -128,6 +159,7 @@ ${ageContext}${concernsContext}${philosophyContext}${culturalContext}
 **Important Safety Rules:**
 - NEVER provide definitive medical diagnoses
 - For urgent medical situations (high fever, difficulty breathing, severe injuries), IMMEDIATELY advise seeking emergency medical care
+- The app's red-flag check doesn't cover every language or wording: if the parent describes an emergency without a safety alert above, still open your reply by telling them to get help now
 - For concerning symptoms, recommend contacting a pediatrician
 - Clearly distinguish between general information and medical advice
 - Include disclaimers when appropriate: "I'm not a doctor, but..."
@@ -145,7 +177,7 @@ Remember: Your goal is to support and empower parents, not replace professional
 }
 
 /**
- * Generates a chat response using OpenAI GPT-4.
+ * Generates a chat response with the chat model.
  *
  * Takes conversation history and user profile to generate context-aware responses.
  * Includes system prompt personalized to user's situation.
@@ -168,27 +200,21 @@ export async function generateChatResponse(
       ...messages, // Last 10 messages from conversation history
     ];
 
-    // Call OpenAI Chat Completions API
-    // Using GPT-4 Turbo for best quality responses
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4-turbo-preview', // GPT-4 Turbo for speed and cost efficiency
+    const completion = await getLlmProvider().complete({
+      model: getLlmModel('chat'),
       messages: messagesWithSystem,
       temperature: 0.7, // Balanced between creativity and consistency
-      max_tokens: 800, // Limit response length to keep conversations concise
-      top_p: 0.9, // Nucleus sampling for more focused responses
+      maxTokens: 800, // Limit response length to keep conversations concise
+      topP: 0.9, // Nucleus sampling for more focused responses
     });
 
-    // Extract response text and token usage
-    const assistantMessage = completion.choices[0]?.message?.content || '';
-    const tokensUsed = completion.usage?.total_tokens || 0;
-
     return {
-      response: assistantMessage,
-      tokensUsed,
+      response: completion.text,
+      tokensUsed: completion.tokensUsed,
     };
   } catch (error) {
     // Log error for debugging
-    console.error('OpenAI API error:', error);
+    console.error('LLM API error:', error);
 
     // Throw user-friendly error
     if (error instanceof Error) {
@@ -199,33 +225,79 @@ export async function generateChatResponse(
 }
 
 /**
- * Transcribes audio file to text using OpenAI Whisper API.
+ * Streams a chat response from the chat model, token by token.
+ *
+ * Same prompt and model settings as generateChatResponse, but each content delta
+ * is handed to onToken as soon as it arrives so the caller can forward it to the client.
+ * The full response and token usage are returned once the stream completes.
+ *
+ * @param messages - Array of conversation messages (user and assistant messages)
+ * @param profile - User profile data for personalization
+ * @param onToken - Callback invoked with each content delta
+ * @param signal - Optional abort signal to cancel the request (e.g. client disconnected)
+ * @returns Object containing the full assistant response and token count
+ */
+export async function streamChatResponse(
+  messages: ChatMessage[],
+  profile: UserProfile,
+  onToken: (token: string) => void,
+  signal?: AbortSignal
+): Promise<{ response: string; tokensUsed: number }> {
+  try {
+    // Build system prompt from user profile
+    const systemPrompt = buildSystemPrompt(profile);
+
+    const messagesWithSystem: ChatMessage[] = [
+      { role: 'system', content: systemPrompt },
+      ...messages,
+    ];
+
+    const completion = await getLlmProvider().stream(
+      {
+        model: getLlmModel('chat'),
+        messages: messagesWithSystem,
+        temperature: 0.7,
+        maxTokens: 800,
+        topP: 0.9,
+        signal,
+      },
+      onToken
+    );
+
+    return {
+      response: completion.text,
+      tokensUsed: completion.tokensUsed,
+    };
+  } catch (error) {
+    console.error('LLM streaming API error:', error);
+
+    if (error instanceof Error) {
+      throw new Error(`Failed to generate AI response: ${error.message}`);
+    }
+    throw new Error('Failed to generate AI response');
+  }
+}
+
+/**
+ * Transcribes audio file to text with the transcription model.
  *
  * Accepts audio file path and returns transcribed text.
  * Supports formats: mp3, mp4, m4a, wav, webm
  *
  * @param audioFilePath - Path to audio file on disk
+ * @param language - Spoken language (null/undefined: detected by the model)
  * @returns Transcribed text
  */
-export async function transcribeAudio(audioFilePath: string): Promise<string> {
+export async function transcribeAudio(audioFilePath: string, language?: Language | null): Promise<string> {
   try {
-    // Import fs to create readable stream for Whisper API
-    const fs = await import('fs');
-
-    // Call OpenAI Whisper API for transcription
-    // whisper-1 is the only model available for transcription
-    const transcription = await openai.audio.transcriptions.create({
-      file: fs.createReadStream(audioFilePath),
-      model: 'whisper-1',
-      language: 'en', // English language for better accuracy
-      response_format: 'text', // Return plain text instead of JSON
+    return await getLlmProvider().transcribe({
+      model: getLlmModel('transcription'),
+      filePath: audioFilePath,
+      language, // A known language improves accuracy
     });
-
-    // Whisper returns string directly when response_format is 'text'
-    return (transcription as unknown as string).trim();
   } catch (error) {
     // Log error for debugging
-    console.error('Whisper API error:', error);
+    console.error('Transcription error:', error);
 
     // Throw user-friendly error
     if (error instanceof Error) {
@@ -235,19 +307,43 @@ export async function transcribeAudio(audioFilePath: string): Promise<string> {
   }
 }
 
+// Title used when generation fails, per language
+const DEFAULT_CONVERSATION_TITLES: Record<Language, string> = {
+  en: 'New Conversation',
+  es: 'Nueva conversación',
+  pt: 'Nova conversa',
+};
+
+/**
+ * Builds the prompt line that sets the language of generated text
+ *
+ * @param instruction - What to write (e.g. "Write the title")
+ * @param language - Target language (null/undefined: the language of the conversation)
+ * @returns Prompt line
+ */
+function describeOutputLanguage(instruction: string, language?: Language | null): string {
+  return language
+    ? `${instruction} in ${LANGUAGE_NAMES[language]}.`
+    : `${instruction} in the language the conversation is in.`;
+}
+
 /**
  * Generates a concise, descriptive title for a conversation based on its content.
- * Uses GPT-4 to analyze the conversation and create a meaningful title (like ChatGPT does).
+ * Uses the title model to analyze the conversation and create a meaningful title (like ChatGPT does).
  *
  * @param messages - Array of conversation messages (first 3-4 messages work best)
+ * @param language - Language of the title (null/undefined: the language of the conversation)
  * @returns Conversation title string (e.g., "Sleep training tips for 4-month-old")
  */
-export async function generateConversationTitle(messages: ChatMessage[]): Promise<string> {
+export async function generateConversationTitle(messages: ChatMessage[], language?: Language | null): Promise<string> {
+  const fallbackTitle = DEFAULT_CONVERSATION_TITLES[language ?? DEFAULT_LANGUAGE];
+
   try {
     // Build prompt for title generation
     const titlePrompt = `Based on the following conversation, generate a short, descriptive title (max 6 words).
 The title should capture the main topic or question being discussed.
 Use simple, clear language that a parent would understand.
+${describeOutputLanguage('Write the title', language)}
 
 Examples of good titles:
 - "Sleep training for 4-month-old"
@@ -261,16 +357,16 @@ ${messages.map(m => `${m.role.toUpperCase()}: ${m.content}`).join('\n')}
 
 Generate ONLY the title, nothing else:`;
 
-    // Call OpenAI with a smaller, faster model for title generation
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o-mini', // Faster and cheaper model for simple tasks
+    // Use the (usually smaller, faster) title model
+    const completion = await getLlmProvider().complete({
+      model: getLlmModel('title'),
       messages: [{ role: 'user', content: titlePrompt }],
       temperature: 0.5, // Lower temperature for consistent, focused titles
-      max_tokens: 20, // Short titles only
+      maxTokens: 20, // Short titles only
     });
 
     // Extract and clean the title
-    let title = completion.choices[0]?.message?.content?.trim() || 'New Conversation';
+    let title = completion.text.trim() || fallbackTitle;
 
     // Remove quotes if AI added them
     title = title.replace(/^["']|["']$/g, '');
@@ -284,106 +380,189 @@ Generate ONLY the title, nothing else:`;
   } catch (error) {
     console.error('Failed to generate conversation title:', error);
     // Return default title on error
-    return 'New Conversation';
+    return fallbackTitle;
   }
 }
 
 /**
- * Generates a summary of the conversation for semantic search.
- * Creates a comprehensive summary that captures key topics and questions.
+ * Updates the running summary of a conversation with new messages.
+ * The summary serves conversation search and stands in for older turns that no
+ * longer fit the chat context, so it is extended rather than rewritten from scratch.
  *
- * @param messages - Array of all conversation messages
- * @returns Conversation summary string for search indexing
+ * @param previousSummary - Summary of the conversation so far (null for a new summary)
+ * @param newMessages - Messages since the previous summary, in order
+ * @param language - Language of the summary (null/undefined: the language of the conversation)
+ * @returns Updated summary, or null on error (the previous summary stays valid)
  */
-export async function generateConversationSummary(messages: ChatMessage[]): Promise<string> {
+export async function updateConversationSummary(
+  previousSummary: string | null,
+  newMessages: ChatMessage[],
+  language?: Language | null
+): Promise<string | null> {
   try {
-    // Build prompt for summary generation
-    const summaryPrompt = `Summarize the following conversation in 2-3 sentences.
-Focus on the main topics, questions, and key advice given.
+    // Build prompt for incremental summary update
+    const transcript = newMessages.map(m => `${m.role.toUpperCase()}: ${m.content}`).join('\n');
+    const instructions = `Write at most 6 sentences. Keep the main topics, questions, key advice given,
+and any details about the baby or family that later answers may depend on.
 Use keywords that would help someone search for this conversation later.
+${describeOutputLanguage('Write the summary', language)}`;
+
+    const summaryPrompt = previousSummary
+      ? `Update the summary of a conversation with its newest messages.
+${instructions}
+
+Summary so far:
+${previousSummary}
+
+New messages:
+${transcript}
+
+Updated summary:`
+      : `Summarize the following conversation.
+${instructions}
 
 Conversation:
-${messages.map(m => `${m.role.toUpperCase()}: ${m.content}`).join('\n')}
+${transcript}
 
 Summary:`;
 
-    // Call OpenAI for summary generation
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o-mini', // Fast model for summarization
+    const completion = await getLlmProvider().complete({
+      model: getLlmModel('summary'),
       messages: [{ role: 'user', content: summaryPrompt }],
       temperature: 0.3, // Very focused, factual summaries
-      max_tokens: 150, // Concise summaries
+      maxTokens: 300, // Room for older turns' details
     });
 
-    const summary = completion.choices[0]?.message?.content?.trim() || '';
-    return summary;
+    return completion.text.trim() || null;
   } catch (error) {
-    console.error('Failed to generate conversation summary:', error);
-    // Return empty string on error
-    return '';
+    console.error('Failed to update conversation summary:', error);
+    // Return null on error so the messages are folded in on a later attempt
+    return null;
   }
 }
 
 /**
- * Performs AI-powered semantic search through conversation summaries.
- * Uses GPT to understand the search intent and find relevant conversations.
+ * Extracts durable facts about the family from a chat exchange for long-term memory.
+ * Only facts the parent stated count; the assistant's advice is context, not a source.
  *
- * @param searchQuery - User's search query (e.g., "sleep problems", "feeding advice")
- * @param conversations - Array of conversations with their summaries
- * @returns Array of relevant conversation IDs ranked by relevance
+ * @param exchange - The parent's message and the assistant's reply
+ * @param knownFacts - Facts already remembered (not extracted again)
+ * @returns New facts, or an empty array if there are none or extraction failed
  */
-export async function searchConversations(
-  searchQuery: string,
-  conversations: Array<{ sessionId: string; title: string; summary: string }>
-): Promise<string[]> {
+export async function extractMemories(exchange: ChatMessage[], knownFacts: string[]): Promise<ExtractedMemory[]> {
   try {
-    // Build search prompt that asks AI to rank conversations by relevance
-    const conversationList = conversations.map((conv, index) => {
-      return `${index + 1}. [${conv.sessionId}] ${conv.title}\n   Summary: ${conv.summary}`;
-    }).join('\n\n');
+    const memoryPrompt = `You maintain the long-term memory of a parenting assistant.
+From the conversation below, extract facts the PARENT stated that will still matter in future conversations:
+- HEALTH: allergies, conditions, medications, diet restrictions
+- MEDICAL_ADVICE: what a pediatrician, midwife or other professional told them
+- FAMILY: names, nicknames, siblings, caregivers, daycare
+- ROUTINE: regular schedules and arrangements (feeding, sleep, childcare)
+- PREFERENCE: parenting choices and things they want or don't want
+- OTHER: anything else durable and personal
+
+Rules:
+- Skip passing states ("fussy today"), questions, and general knowledge
+- Skip anything only the assistant said
+- Skip facts already known (listed below), unless the parent changed them
+- Write each fact as one short third-person sentence, e.g. "The baby is allergic to peanuts."
+- Most exchanges contain no new facts; then return an empty list
+
+Already known:
+${knownFacts.length > 0 ? knownFacts.map((fact) => `- ${fact}`).join('\n') : '(nothing yet)'}
 
-    const searchPrompt = `You are helping a parent search through their past conversations about parenting and baby care.
-
-Search query: "${searchQuery}"
+Conversation:
+${exchange.map((m) => `${m.role.toUpperCase()}: ${m.content}`).join('\n')}
 
-Available conversations:
-${conversationList}
+Respond ONLY with JSON in this format:
+{"memories": [{"category": "one of: ${MEMORY_CATEGORIES.join(', ')}", "content": "Fact"}]}`;
 
-Based on the search query, rank the conversations from most to least relevant.
-Return ONLY the session IDs in order of relevance, separated by commas.
-Include only conversations that are actually relevant to the search query.
-If no conversations match well, return an empty list.
+    const completion = await getLlmProvider().complete({
+      model: getLlmModel('memory'), // Runs after every exchange, so a fast model is best
+      messages: [{ role: 'user', content: memoryPrompt }],
+      json: true,
+      temperature: 0.1, // Extract, don't invent
+      maxTokens: 300,
+    });
 
-Example response: session-id-1, session-id-2, session-id-3
+    return parseExtractedMemories(completion.text);
+  } catch (error) {
+    console.error('Failed to extract memories:', error);
+    // Return nothing on error (the chat works without new memories)
+    return [];
+  }
+}
 
-Ranked session IDs:`;
+// Embedding size (text-embedding-3 models can be shortened; 512 keeps search fast and storage small)
+// The local provider ignores it and returns its model's own size
+const EMBEDDING_DIMENSIONS = 512;
 
-    // Call OpenAI for semantic search
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o-mini', // Fast model for search ranking
-      messages: [{ role: 'user', content: searchPrompt }],
-      temperature: 0.2, // Very consistent, focused results
-      max_tokens: 200,
-    });
+/**
+ * Computes embeddings for semantic search.
+ *
+ * @param texts - Texts to embed (at most 2048 per call, each within the model's input limit)
+ * @returns One vector per text, in the same order
+ */
+export async function createEmbeddings(texts: string[]): Promise<number[][]> {
+  if (texts.length === 0) {
+    return [];
+  }
 
-    const result = completion.choices[0]?.message?.content?.trim() || '';
+  return getLlmProvider().embed({
+    model: getLlmModel('embedding'),
+    texts,
+    dimensions: EMBEDDING_DIMENSIONS,
+  });
+}
 
-    // Parse the comma-separated session IDs
-    const sessionIds = result
-      .split(',')
-      .map(id => id.trim())
-      .filter(id => id.length > 0);
+/**
+ * Generates a short set of weekly tips for a cohort of babies and parents.
+ * The result is cached per cohort (see services/tips.ts), so the prompt must not
+ * contain anything specific to one family (names, dates).
+ *
+ * @param cohort - Baby age in weeks, parent concerns and philosophy, upcoming milestones
+ * @returns Parsed tips, or an empty array if generation failed
+ */
+export async function generateWeeklyTips(cohort: TipCohort): Promise<WeeklyTip[]> {
+  try {
+    const ageText = cohort.ageWeeks < 13
+      ? `${cohort.ageWeeks} weeks`
+      : `${Math.floor(cohort.ageWeeks / 4.345)} months (${cohort.ageWeeks} weeks)`;
+
+    const tipsPrompt = `You are a warm, evidence-based parenting assistant writing this week's tips for parents.
+
+Baby's age: ${ageText}
+${cohort.concerns.length > 0 ? `Parents' main concerns: ${cohort.concerns.join(', ')}` : ''}
+${cohort.parentingPhilosophy ? `Parenting approach: ${cohort.parentingPhilosophy}` : ''}
+${cohort.upcomingMilestones.length > 0 ? `Milestones coming up around this age: ${cohort.upcomingMilestones.join(', ')}` : ''}
+
+Write ${TIPS_PER_DIGEST} practical tips for this week:
+- Make them specific to the baby's age, and address the parents' concerns where relevant
+- At least one tip should help parents encourage an upcoming milestone
+- Respect the parenting approach; never shame or judge
+- Each body is 1-3 sentences of plain, friendly language
+- No medical diagnoses; suggest talking to a pediatrician for health worries
+
+Respond ONLY with JSON in this format:
+{"tips": [{"title": "Short title (max 8 words)", "body": "Tip text", "category": "one of: ${TIP_CATEGORIES.join(', ')}"}]}`;
+
+    const completion = await getLlmProvider().complete({
+      model: getLlmModel('tips'), // Output is cached per cohort
+      messages: [{ role: 'user', content: tipsPrompt }],
+      json: true,
+      temperature: 0.7, // Some variety between weeks
+      maxTokens: 600,
+    });
 
-    return sessionIds;
+    return parseGeneratedTips(completion.text);
   } catch (error) {
-    console.error('Failed to perform AI search:', error);
-    // Return empty array on error (no results)
+    console.error('Failed to generate weekly tips:', error);
+    // Return no tips on error (callers must not cache this)
     return [];
   }
 }
 
 /**
- * Generates searchable categories and tags for a baby photo using OpenAI Vision API.
+ * Generates searchable categories and tags for a baby photo with the vision model.
  *
  * Categories help organize photos and make them searchable by:
  * - Activities: smiling, crying, sleeping, eating, playing, bath time, tummy time
@@ -436,34 +615,23 @@ Guidelines:
 
 Respond ONLY with valid JSON, no additional text.`;
 
-    // Call OpenAI Vision API with JSON response format
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o', // GPT-4o with vision capabilities
+    // Call the vision model with JSON response format
+    const response = await getLlmProvider().complete({
+      model: getLlmModel('vision'),
       messages: [
         {
           role: 'user',
-          content: [
-            {
-              type: 'text',
-              text: categorizationPrompt,
-            },
-            {
-              type: 'image_url',
-              image_url: {
-                url: imageUrl,
-                detail: 'low', // Low detail is sufficient for categorization
-              },
-            },
-          ],
+          content: categorizationPrompt,
+          images: [{ url: imageUrl, detail: 'low' }], // Low detail is sufficient for categorization
         },
       ],
-      response_format: { type: 'json_object' }, // Request JSON response
-      max_tokens: 500,
+      json: true, // Request JSON response
+      maxTokens: 500,
       temperature: 0.3, // Low temperature for consistent categorization
     });
 
     // Parse the JSON response
-    const result = JSON.parse(response.choices[0]?.message?.content || '{}');
+    const result = JSON.parse(response.text || '{}');
 
     return {
       categories: result.categories || [],
@@ -474,7 +642,7 @@ Respond ONLY with valid JSON, no additional text.`;
       location: result.location,
     };
   } catch (error) {
-    console.error('OpenAI Vision categorization error:', error);
+    console.error('Vision categorization error:', error);
 
     // Return default empty response on error
     return {
@@ -486,7 +654,7 @@ Respond ONLY with valid JSON, no additional text.`;
 }
 
 /**
- * Analyzes a baby photo using OpenAI Vision API (GPT-4o).
+ * Analyzes a baby photo with the vision model.
  *
  * Provides visual analysis for baby-related concerns such as:
  * - Skin rashes or discoloration
@@ -562,33 +730,22 @@ Focus on being helpful and informative while maintaining appropriate medical bou
       }
     }
 
-    // Call OpenAI Vision API (GPT-4o with vision capabilities)
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o', // GPT-4o has vision capabilities
+    // Call the vision model
+    const response = await getLlmProvider().complete({
+      model: getLlmModel('vision'),
       messages: [
         {
           role: 'user',
-          content: [
-            {
-              type: 'text',
-              text: analysisPrompt,
-            },
-            {
-              type: 'image_url',
-              image_url: {
-                url: imageUrlOrBase64,
-                detail: 'high', // High detail for better medical/safety analysis
-              },
-            },
-          ],
+          content: analysisPrompt,
+          images: [{ url: imageUrlOrBase64, detail: 'high' }], // High detail for better medical/safety analysis
         },
       ],
-      max_tokens: 1000, // Allow detailed analysis
+      maxTokens: 1000, // Allow detailed analysis
       temperature: 0.5, // Lower temperature for more consistent, factual analysis
     });
 
     // Extract analysis text from response
-    const analysis = response.choices[0]?.message?.content || '';
+    const analysis = response.text;
 
     // Standard medical disclaimer for all photo analyses
     const disclaimer = `⚠️ **Medical Disclaimer**: This analysis is for informational purposes only and is not a substitute for professional medical advice, diagnosis, or treatment. If you have concerns about your baby's health, please consult a qualified pediatrician or healthcare provider.`;
@@ -599,7 +756,7 @@ Focus on being helpful and informative while maintaining appropriate medical bou
     };
   } catch (error) {
     // Log error for debugging
-    console.error('OpenAI Vision API error:', error);
+    console.error('Vision API error:', error);
 
     // Throw user-friendly error
     if (error instanceof Error) {
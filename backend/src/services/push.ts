@@ -0,0 +1,398 @@
+/**
+ * Push Transport Service
+ *
+ * Delivers push messages to device tokens through a pluggable transport per provider.
+ * The transports are chosen with the PUSH_TRANSPORT environment variable:
+ * - console: Print notifications to the server log (default, for local development)
+ * - memory: Keep notifications in memory (for tests and manual QA)
+ * - live: Send through Firebase Cloud Messaging and Apple Push Notification service
+ *   (a provider without credentials falls back to the console transport)
+ *
+ * Tests install transports directly with setPushTransport().
+ */
+
+import http2 from 'http2';
+import jwt from 'jsonwebtoken';
+import { PushProvider } from '@prisma/client';
+
+/**
+ * Push message for one device
+ */
+export interface PushMessage {
+  token: string; // Device token issued by the provider
+  title: string;
+  body: string;
+  data?: Record<string, string>; // Extra payload for the app (e.g. deep link target)
+}
+
+/**
+ * Outcome of delivering one push message
+ * invalidToken: the provider reports the token as expired or unregistered,
+ * so it should be removed
+ */
+export type PushDeliveryResult =
+  | { success: true }
+  | { success: false; invalidToken: boolean; error: string };
+
+/**
+ * Transport that delivers push messages for one provider
+ * Implement this interface to plug in another provider or a fake for tests
+ */
+export interface PushTransport {
+  send(message: PushMessage): Promise<PushDeliveryResult>;
+}
+
+/**
+ * Transport that prints push messages to the server log
+ * Useful for local development without provider credentials
+ */
+export class ConsolePushTransport implements PushTransport {
+  constructor(private readonly provider: PushProvider) {}
+
+  send(message: PushMessage): Promise<PushDeliveryResult> {
+    console.log(`🔔 [${this.provider}] ${message.title}: ${message.body} (token ${message.token.slice(0, 12)}…)`);
+    return Promise.resolve({ success: true });
+  }
+}
+
+/**
+ * Transport that keeps push messages in memory
+ * Tokens added to invalidTokens are rejected like unregistered tokens.
+ */
+export class InMemoryPushTransport implements PushTransport {
+  readonly sent: PushMessage[] = [];
+  readonly invalidTokens = new Set<string>();
+
+  send(message: PushMessage): Promise<PushDeliveryResult> {
+    if (this.invalidTokens.has(message.token)) {
+      return Promise.resolve({ success: false, invalidToken: true, error: 'Unregistered' });
+    }
+
+    this.sent.push(message);
+    return Promise.resolve({ success: true });
+  }
+
+  /**
+   * Removes all recorded messages
+   */
+  clear(): void {
+    this.sent.length = 0;
+  }
+}
+
+/**
+ * Firebase service account credentials
+ */
+export interface FcmConfig {
+  projectId: string;
+  clientEmail: string;
+  privateKey: string; // PEM private key of the service account
+}
+
+/**
+ * Transport for the Firebase Cloud Messaging HTTP v1 API
+ * Authenticates with a service account; access tokens are cached until shortly before expiry.
+ */
+export class FcmPushTransport implements PushTransport {
+  private accessToken: { value: string; expiresAt: number } | null = null;
+
+  constructor(private readonly config: FcmConfig) {}
+
+  async send(message: PushMessage): Promise<PushDeliveryResult> {
+    const accessToken = await this.getAccessToken();
+
+    const response = await fetch(
+      `https://fcm.googleapis.com/v1/projects/${this.config.projectId}/messages:send`,
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          message: {
+            token: message.token,
+            notification: { title: message.title, body: message.body },
+            data: message.data,
+          },
+        }),
+      },
+    );
+
+    if (response.ok) {
+      return { success: true };
+    }
+
+    const payload = (await response.json().catch(() => ({}))) as {
+      error?: { status?: string; message?: string; details?: { errorCode?: string }[] };
+    };
+    const errorCode = payload.error?.details?.find((detail) => detail.errorCode)?.errorCode;
+
+    return {
+      success: false,
+      invalidToken: response.status === 404 || errorCode === 'UNREGISTERED',
+      error: errorCode || payload.error?.status || `HTTP ${response.status}`,
+    };
+  }
+
+  /**
+   * Exchanges a signed service account assertion for an OAuth access token
+   *
+   * @returns Access token for the FCM API
+   * @throws Error if Google rejects the assertion
+   */
+  private async getAccessToken(): Promise<string> {
+    if (this.accessToken && this.accessToken.expiresAt > Date.now() + 60_000) {
+      return this.accessToken.value;
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const assertion = jwt.sign(
+      {
+        iss: this.config.clientEmail,
+        scope: 'https://www.googleapis.com/auth/firebase.messaging',
+        aud: 'https://oauth2.googleapis.com/token',
+        iat: now,
+        exp: now + 3600,
+      },
+      this.config.privateKey,
+      { algorithm: 'RS256' },
+    );
+
+    const response = await fetch('https://oauth2.googleapis.com/token', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+        assertion,
+      }).toString(),
+    });
+
+    if (!response.ok) {
+      throw new Error(`FCM authentication failed with HTTP ${response.status}`);
+    }
+
+    const { access_token: value, expires_in: expiresIn } = (await response.json()) as {
+      access_token: string;
+      expires_in: number;
+    };
+
+    this.accessToken = { value, expiresAt: Date.now() + expiresIn * 1000 };
+    return value;
+  }
+}
+
+/**
+ * APNs token-based authentication settings
+ */
+export interface ApnsConfig {
+  keyId: string;
+  teamId: string;
+  privateKey: string; // PEM contents of the .p8 signing key
+  bundleId: string; // App bundle ID (apns-topic)
+  production: boolean; // Use the production gateway instead of the sandbox
+}
+
+// APNs rejects provider tokens older than an hour; refresh well before that
+const APNS_TOKEN_TTL_MS = 50 * 60 * 1000;
+
+// APNs error reasons that mean the device token will never work again
+const APNS_INVALID_TOKEN_REASONS = ['BadDeviceToken', 'DeviceTokenNotForTopic', 'Unregistered'];
+
+/**
+ * Transport for the Apple Push Notification service HTTP/2 API
+ */
+export class ApnsPushTransport implements PushTransport {
+  private providerToken: { value: string; issuedAt: number } | null = null;
+
+  constructor(private readonly config: ApnsConfig) {}
+
+  send(message: PushMessage): Promise<PushDeliveryResult> {
+    const host = this.config.production ? 'https://api.push.apple.com' : 'https://api.sandbox.push.apple.com';
+    const body = JSON.stringify({
+      aps: { alert: { title: message.title, body: message.body }, sound: 'default' },
+      ...message.data,
+    });
+
+    return new Promise((resolve, reject) => {
+      const session = http2.connect(host);
+      session.on('error', reject);
+
+      const request = session.request({
+        ':method': 'POST',
+        ':path': `/3/device/${message.token}`,
+        authorization: `bearer ${this.getProviderToken()}`,
+        'apns-topic': this.config.bundleId,
+        'apns-push-type': 'alert',
+        'content-type': 'application/json',
+      });
+
+      let status = 0;
+      let responseBody = '';
+
+      request.setEncoding('utf8');
+      request.on('response', (headers) => {
+        status = Number(headers[':status']);
+      });
+      request.on('data', (chunk: string) => {
+        responseBody += chunk;
+      });
+      request.on('end', () => {
+        session.close();
+
+        if (status === 200) {
+          resolve({ success: true });
+          return;
+        }
+
+        let reason = `HTTP ${status}`;
+        try {
+          reason = (JSON.parse(responseBody) as { reason?: string }).reason || reason;
+        } catch {
+          // Keep the HTTP status as the reason
+        }
+
+        resolve({
+          success: false,
+          invalidToken: status === 410 || APNS_INVALID_TOKEN_REASONS.includes(reason),
+          error: reason,
+        });
+      });
+      request.on('error', (error) => {
+        session.close();
+        reject(error);
+      });
+
+      request.end(body);
+    });
+  }
+
+  /**
+   * Returns a cached ES256 provider token, signing a new one when it gets old
+   *
+   * @returns Provider authentication token
+   */
+  private getProviderToken(): string {
+    if (this.providerToken && Date.now() - this.providerToken.issuedAt < APNS_TOKEN_TTL_MS) {
+      return this.providerToken.value;
+    }
+
+    const value = jwt.sign({ iss: this.config.teamId }, this.config.privateKey, {
+      algorithm: 'ES256',
+      keyid: this.config.keyId,
+    });
+
+    this.providerToken = { value, issuedAt: Date.now() };
+    return value;
+  }
+}
+
+/**
+ * Reads a PEM key from an environment variable
+ * Keys in .env files usually have their line breaks escaped as "\n".
+ *
+ * @param value - Raw environment value
+ * @returns PEM key with real line breaks, or undefined if unset
+ */
+function readPemKey(value: string | undefined): string | undefined {
+  return value?.replace(/\\n/g, '\n');
+}
+
+/**
+ * Creates the live transport for a provider from environment credentials
+ *
+ * @param provider - Push provider
+ * @returns Provider transport, or null if its credentials are not configured
+ */
+function createLiveTransport(provider: PushProvider): PushTransport | null {
+  if (provider === PushProvider.FCM) {
+    const { FCM_PROJECT_ID, FCM_CLIENT_EMAIL } = process.env;
+    const privateKey = readPemKey(process.env.FCM_PRIVATE_KEY);
+
+    return FCM_PROJECT_ID && FCM_CLIENT_EMAIL && privateKey
+      ? new FcmPushTransport({ projectId: FCM_PROJECT_ID, clientEmail: FCM_CLIENT_EMAIL, privateKey })
+      : null;
+  }
+
+  const { APNS_KEY_ID, APNS_TEAM_ID, APNS_BUNDLE_ID } = process.env;
+  const privateKey = readPemKey(process.env.APNS_PRIVATE_KEY);
+
+  return APNS_KEY_ID && APNS_TEAM_ID && APNS_BUNDLE_ID && privateKey
+    ? new ApnsPushTransport({
+        keyId: APNS_KEY_ID,
+        teamId: APNS_TEAM_ID,
+        bundleId: APNS_BUNDLE_ID,
+        privateKey,
+        production: process.env.APNS_PRODUCTION === 'true',
+      })
+    : null;
+}
+
+/**
+ * Creates the transport configured by PUSH_TRANSPORT for a provider
+ *
+ * @param provider - Push provider
+ * @returns Configured push transport (console by default)
+ */
+function createTransportFromEnv(provider: PushProvider): PushTransport {
+  switch (process.env.PUSH_TRANSPORT) {
+    case 'live': {
+      const transport = createLiveTransport(provider);
+      if (transport) {
+        return transport;
+      }
+      console.warn(`${provider} credentials are not configured, falling back to console push transport`);
+      return new ConsolePushTransport(provider);
+    }
+    case 'memory':
+      return new InMemoryPushTransport();
+    case 'console':
+    case undefined:
+      return new ConsolePushTransport(provider);
+    default:
+      console.warn(
+        `Unknown PUSH_TRANSPORT "${process.env.PUSH_TRANSPORT}", falling back to console transport`,
+      );
+      return new ConsolePushTransport(provider);
+  }
+}
+
+// Active transports (lazily created from environment on first send)
+const transports = new Map<PushProvider, PushTransport>();
+
+/**
+ * Replaces the transport for a provider
+ * Used to install a fake transport in tests
+ *
+ * @param provider - Push provider
+ * @param transport - Transport to use for all subsequent messages of that provider
+ */
+export function setPushTransport(provider: PushProvider, transport: PushTransport): void {
+  transports.set(provider, transport);
+}
+
+/**
+ * Sends a push message through the provider's active transport
+ * Transport errors (network, authentication) are returned as failed deliveries.
+ *
+ * @param provider - Provider that issued the device token
+ * @param message - Message to send
+ * @returns Delivery result
+ */
+export async function sendPush(provider: PushProvider, message: PushMessage): Promise<PushDeliveryResult> {
+  let transport = transports.get(provider);
+  if (!transport) {
+    transport = createTransportFromEnv(provider);
+    transports.set(provider, transport);
+  }
+
+  try {
+    return await transport.send(message);
+  } catch (error) {
+    return {
+      success: false,
+      invalidToken: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
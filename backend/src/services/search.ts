@@ -0,0 +1,297 @@
+/**
+ * Global Search Service
+ *
+ * Finds chat messages, milestones, photos and milestone reference content matching
+ * a free-text query, ranked together by how well they match.
+ *
+ * Candidates are narrowed in the database (case-insensitive contains per term) and
+ * scored in code; photos are matched on the tags stored by upload categorization,
+ * which live in JSON and are filtered in code from the most recent photos.
+ */
+
+import { PrismaClient, Prisma, MessageRole, MilestoneType } from '@prisma/client';
+import { getFamilyAccess } from './family';
+import { getPresignedUrl } from '../utils/s3';
+import { Snippet, buildSnippet } from '../utils/conversationSearch';
+import {
+  DateFacet,
+  DateRange,
+  ParsedSearchQuery,
+  SearchField,
+  SearchResultType,
+  TYPE_HINT_BOOST,
+  buildDateFacets,
+  getPhotoSearchText,
+  scoreFields,
+} from '../utils/search';
+
+// Initialize Prisma Client for database operations
+const prisma = new PrismaClient();
+
+// Candidates loaded per type before scoring
+const MAX_MESSAGE_CANDIDATES = 200;
+const MAX_MILESTONE_CANDIDATES = 100;
+const MAX_PHOTO_CANDIDATES = 500;
+const MAX_CONTENT_CANDIDATES = 50;
+
+/**
+ * Search result of any type
+ * `data` holds the fields the app needs to open the result.
+ */
+export type SearchResult = {
+  id: string;
+  title: string;
+  snippet: Snippet;
+  date: Date | null; // Message time, achieved date or upload time (null for reference content)
+  score: number;
+} & (
+  | { type: 'message'; data: { sessionId: string; role: MessageRole } }
+  | { type: 'milestone'; data: { milestoneType: MilestoneType; childId: string | null } }
+  | { type: 'photo'; data: { childId: string | null; milestoneId: string | null; tags: string[]; url?: string } }
+  | { type: 'milestone_content'; data: { milestoneType: MilestoneType; ageRangeMonths: Prisma.JsonValue } }
+);
+
+/**
+ * Search filters and paging
+ */
+export interface SearchOptions {
+  types: SearchResultType[];
+  dateRange: DateRange | null; // Explicit range, or the one parsed from the query
+  limit: number;
+  offset: number;
+}
+
+/**
+ * A page of search results with counts over all matches
+ */
+export interface SearchResponse {
+  results: SearchResult[];
+  total: number;
+  facets: {
+    types: Record<SearchResultType, number>;
+    months: DateFacet[];
+  };
+}
+
+/**
+ * Builds the database filter for text containing any of the terms
+ *
+ * @param fields - Columns to search
+ * @param terms - Query terms
+ * @returns OR filter (one condition per column and term), or nothing without terms
+ */
+function containsAnyTerm<T extends string>(
+  fields: T[],
+  terms: string[],
+): { OR: Array<Record<T, Prisma.StringFilter>> } | Record<string, never> {
+  if (terms.length === 0) {
+    return {};
+  }
+
+  return {
+    OR: fields.flatMap((field) =>
+      terms.map((term) => ({ [field]: { contains: term, mode: 'insensitive' } }) as Record<T, Prisma.StringFilter>),
+    ),
+  };
+}
+
+/**
+ * Scores a candidate
+ * Without terms ("photos from March") every candidate matches equally.
+ *
+ * @param fields - Weighted text of a candidate
+ * @param terms - Query terms
+ * @param boost - Multiplier for types named in the query
+ * @returns Score, or 0 if the candidate doesn't match
+ */
+function score(fields: SearchField[], terms: string[], boost: number): number {
+  const baseScore = terms.length > 0 ? scoreFields(fields, terms) : 1;
+  return Math.round(baseScore * boost * 1000) / 1000;
+}
+
+/**
+ * Searches messages, milestones, photos and milestone content
+ *
+ * Messages are the user's own (chat history is private); milestones and photos
+ * are the family's. Reference content has no date and is left out when
+ * searching a date range. Each conversation appears once, as its best message.
+ *
+ * @param userId - Searching user
+ * @param query - Parsed search query
+ * @param options - Types, date range and paging
+ * @returns Page of results (best first) and facets over all matches
+ */
+export async function searchEverything(
+  userId: string,
+  query: ParsedSearchQuery,
+  options: SearchOptions,
+): Promise<SearchResponse> {
+  const { terms } = query;
+  const access = await getFamilyAccess(userId);
+  const boostFor = (type: SearchResultType): number => (query.typeHints.includes(type) ? TYPE_HINT_BOOST : 1);
+  const wants = (type: SearchResultType): boolean => options.types.includes(type);
+  const dateFilter = options.dateRange ? { gte: options.dateRange.from, lt: options.dateRange.to } : undefined;
+
+  const [messages, milestones, photos, contents] = await Promise.all([
+    wants('message')
+      ? prisma.message.findMany({
+        where: {
+          userId,
+          ...(dateFilter && { timestamp: dateFilter }),
+          ...containsAnyTerm(['content', 'conversationTitle'], terms),
+        },
+        orderBy: { timestamp: 'desc' },
+        take: MAX_MESSAGE_CANDIDATES,
+        select: { id: true, sessionId: true, role: true, content: true, conversationTitle: true, timestamp: true },
+      })
+      : [],
+    wants('milestone')
+      ? prisma.milestone.findMany({
+        where: {
+          userId: { in: access.memberIds },
+          confirmed: true,
+          ...(dateFilter && { achievedDate: dateFilter }),
+          ...containsAnyTerm(['name', 'notes'], terms),
+        },
+        orderBy: { achievedDate: 'desc' },
+        take: MAX_MILESTONE_CANDIDATES,
+        select: { id: true, type: true, name: true, notes: true, achievedDate: true, childId: true },
+      })
+      : [],
+    wants('photo')
+      ? prisma.photo.findMany({
+        where: {
+          userId: { in: access.memberIds },
+          ...(dateFilter && { uploadedAt: dateFilter }),
+          analysisResults: { not: Prisma.DbNull },
+        },
+        orderBy: { uploadedAt: 'desc' },
+        take: MAX_PHOTO_CANDIDATES,
+        select: { id: true, s3Key: true, uploadedAt: true, analysisResults: true, childId: true, milestoneId: true },
+      })
+      : [],
+    wants('milestone_content') && !dateFilter
+      ? prisma.milestoneContent.findMany({
+        where: containsAnyTerm(['name', 'description', 'whatToExpect'], terms),
+        take: MAX_CONTENT_CANDIDATES,
+        select: { id: true, milestoneType: true, name: true, description: true, whatToExpect: true, ageRangeMonths: true },
+      })
+      : [],
+  ]);
+
+  const snippetQuery = terms.join(' ');
+  const matched: Array<SearchResult & { s3Key?: string }> = [];
+
+  // One result per conversation: its best-scoring message
+  const bestBySession = new Map<string, SearchResult>();
+  for (const message of messages) {
+    const messageScore = score(
+      [{ text: message.conversationTitle, weight: 2 }, { text: message.content, weight: 1 }],
+      terms,
+      boostFor('message'),
+    );
+    const best = bestBySession.get(message.sessionId);
+    if (messageScore === 0 || (best && best.score >= messageScore)) continue;
+
+    bestBySession.set(message.sessionId, {
+      type: 'message',
+      id: message.id,
+      title: message.conversationTitle || `${message.content.substring(0, 50)}...`,
+      snippet: buildSnippet(message.content, snippetQuery),
+      date: message.timestamp,
+      score: messageScore,
+      data: { sessionId: message.sessionId, role: message.role },
+    });
+  }
+  matched.push(...bestBySession.values());
+
+  for (const milestone of milestones) {
+    const milestoneScore = score(
+      [{ text: milestone.name, weight: 3 }, { text: milestone.notes, weight: 1 }],
+      terms,
+      boostFor('milestone'),
+    );
+    if (milestoneScore === 0) continue;
+
+    matched.push({
+      type: 'milestone',
+      id: milestone.id,
+      title: milestone.name,
+      snippet: buildSnippet(milestone.notes || milestone.name, snippetQuery),
+      date: milestone.achievedDate,
+      score: milestoneScore,
+      data: { milestoneType: milestone.type, childId: milestone.childId },
+    });
+  }
+
+  for (const photo of photos) {
+    const { tags, description } = getPhotoSearchText(photo.analysisResults);
+    const photoScore = score(
+      [{ text: tags.join(', '), weight: 2 }, { text: description, weight: 1 }],
+      terms,
+      boostFor('photo'),
+    );
+    if (photoScore === 0) continue;
+
+    matched.push({
+      type: 'photo',
+      id: photo.id,
+      title: tags.length > 0 ? `Photo: ${tags.slice(0, 3).join(', ')}` : 'Photo',
+      snippet: buildSnippet(description || tags.join(', '), snippetQuery),
+      date: photo.uploadedAt,
+      score: photoScore,
+      data: { childId: photo.childId, milestoneId: photo.milestoneId, tags },
+      s3Key: photo.s3Key,
+    });
+  }
+
+  for (const content of contents) {
+    const contentScore = score(
+      [
+        { text: content.name, weight: 3 },
+        { text: content.description, weight: 1 },
+        { text: content.whatToExpect, weight: 1 },
+      ],
+      terms,
+      boostFor('milestone_content'),
+    );
+    if (contentScore === 0) continue;
+
+    matched.push({
+      type: 'milestone_content',
+      id: content.id,
+      title: content.name,
+      snippet: buildSnippet(content.description, snippetQuery),
+      date: null,
+      score: contentScore,
+      data: { milestoneType: content.milestoneType, ageRangeMonths: content.ageRangeMonths },
+    });
+  }
+
+  // Best match first; newer first among equally good matches
+  matched.sort((a, b) => b.score - a.score || (b.date?.getTime() ?? 0) - (a.date?.getTime() ?? 0));
+
+  const typeCounts: Record<SearchResultType, number> = { message: 0, milestone: 0, photo: 0, milestone_content: 0 };
+  for (const result of matched) {
+    typeCounts[result.type]++;
+  }
+
+  // Presigned URLs only for the photos on this page
+  const results = await Promise.all(
+    matched.slice(options.offset, options.offset + options.limit).map(async ({ s3Key, ...result }) => {
+      if (result.type === 'photo' && s3Key) {
+        return { ...result, data: { ...result.data, url: await getPresignedUrl(s3Key) } };
+      }
+      return result;
+    }),
+  );
+
+  return {
+    results,
+    total: matched.length,
+    facets: {
+      types: typeCounts,
+      months: buildDateFacets(matched.map((result) => result.date)),
+    },
+  };
+}
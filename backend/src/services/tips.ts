@@ -0,0 +1,149 @@
+/**
+ * Weekly Tips Service
+ *
+ * Builds a user's weekly tip digest from the baby's age, the parent's concerns and
+ * parenting philosophy, and the milestones coming up for that age.
+ *
+ * Tip sets are cached per cohort (see utils/tips.ts): the first family of a cohort
+ * pays for the OpenAI call and everyone else in it reuses the stored TipSet.
+ */
+
+import { PrismaClient, Prisma, TipDigest, TipSet } from '@prisma/client';
+import { generateWeeklyTips } from './openai';
+import { findAccessibleChild } from './children';
+import { suggestMilestones } from '../utils/milestones';
+import { TipCohort, buildTipCohort, getAgeInWeeks, getWeekStart, parseStoredText } from '../utils/tips';
+
+// Initialize Prisma Client for database operations
+const prisma = new PrismaClient();
+
+// Milliseconds per day
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Upcoming milestones passed to the generator
+const MAX_UPCOMING_MILESTONES = 3;
+
+/**
+ * Result of building a digest
+ * - no_birth_date: the baby's birth date is unknown (e.g. still pregnant)
+ * - generation_failed: the tip set could not be generated (OpenAI unavailable)
+ */
+export type WeeklyDigestResult =
+  | { status: 'ok'; digest: TipDigest & { tipSet: TipSet }; created: boolean }
+  | { status: 'no_birth_date' }
+  | { status: 'generation_failed' };
+
+/**
+ * Returns the cached tip set of a cohort, generating it on first use
+ *
+ * @param cohort - Normalized generator inputs
+ * @returns Tip set, or null if generation failed
+ */
+async function getOrCreateTipSet(cohort: TipCohort): Promise<TipSet | null> {
+  const cached = await prisma.tipSet.findUnique({ where: { cohortKey: cohort.cohortKey } });
+  if (cached) {
+    return cached;
+  }
+
+  const tips = await generateWeeklyTips(cohort);
+  if (tips.length === 0) {
+    return null;
+  }
+
+  try {
+    const tipSet = await prisma.tipSet.create({
+      data: {
+        cohortKey: cohort.cohortKey,
+        ageWeeks: cohort.ageWeeks,
+        concerns: cohort.concerns,
+        parentingPhilosophy: cohort.parentingPhilosophy,
+        upcomingMilestones: cohort.upcomingMilestones,
+        tips: tips as unknown as Prisma.InputJsonArray,
+      },
+    });
+
+    console.log(`💡 Generated tip set for ${cohort.ageWeeks}-week cohort ${cohort.cohortKey.slice(0, 8)}`);
+    return tipSet;
+  } catch (error) {
+    // Another request generated the same cohort concurrently: use theirs
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return prisma.tipSet.findUnique({ where: { cohortKey: cohort.cohortKey } });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Returns the user's tip digest for the current week, creating it if needed
+ *
+ * @param userId - Parent receiving the tips
+ * @param childId - Child the tips are for (null for the profile's baby)
+ * @param now - Current time
+ * @returns Digest with its tips, or the reason none is available
+ */
+export async function getWeeklyDigest(
+  userId: string,
+  childId: string | null,
+  now: Date = new Date(),
+): Promise<WeeklyDigestResult> {
+  const weekStart = getWeekStart(now);
+
+  const existing = await prisma.tipDigest.findFirst({
+    where: { userId, childId, weekStart },
+    include: { tipSet: true },
+  });
+  if (existing) {
+    return { status: 'ok', digest: existing, created: false };
+  }
+
+  const profile = await prisma.userProfile.findUnique({
+    where: { userId },
+    select: { babyBirthDate: true, concerns: true, parentingPhilosophy: true },
+  });
+
+  const birthDate = childId
+    ? (await findAccessibleChild(userId, childId))?.birthDate ?? null
+    : profile?.babyBirthDate ?? null;
+
+  if (!birthDate || birthDate > now) {
+    return { status: 'no_birth_date' };
+  }
+
+  // Milestones are suggested for the start of the age-week so every baby in the cohort gets the same list
+  const ageWeeks = getAgeInWeeks(birthDate, now);
+  const cohortBirthDate = new Date(now.getTime() - ageWeeks * 7 * MS_PER_DAY);
+  const upcomingMilestones = suggestMilestones(cohortBirthDate, [], now)
+    .slice(0, MAX_UPCOMING_MILESTONES)
+    .map((milestone) => milestone.name);
+
+  const cohort = buildTipCohort({
+    ageWeeks,
+    concerns: profile?.concerns ?? [],
+    parentingPhilosophy: parseStoredText(profile?.parentingPhilosophy),
+    upcomingMilestones,
+  });
+
+  const tipSet = await getOrCreateTipSet(cohort);
+  if (!tipSet) {
+    return { status: 'generation_failed' };
+  }
+
+  try {
+    const digest = await prisma.tipDigest.create({
+      data: { userId, childId, tipSetId: tipSet.id, weekStart, ageWeeks },
+      include: { tipSet: true },
+    });
+
+    return { status: 'ok', digest, created: true };
+  } catch (error) {
+    // A request and the weekly job created this week's digest concurrently: use theirs
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      const digest = await prisma.tipDigest.findFirstOrThrow({
+        where: { userId, childId, weekStart },
+        include: { tipSet: true },
+      });
+      return { status: 'ok', digest, created: false };
+    }
+    throw error;
+  }
+}
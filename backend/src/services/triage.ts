@@ -0,0 +1,72 @@
+/**
+ * Triage Service
+ *
+ * Runs the medical red-flag rules (utils/triage.ts) on a parent's message and
+ * stores the urgent-care reply, so every chat path (text, voice upload, voice
+ * socket) flags and logs emergencies the same way.
+ */
+
+import { Message, MessageContentType, PrismaClient } from '@prisma/client';
+import { Language } from '../utils/language';
+import { TriageResult, TriageSubject, formatTriageMessage, triageMessage } from '../utils/triage';
+
+// Initialize Prisma Client for database operations
+const prisma = new PrismaClient();
+
+/**
+ * Checks a parent's message for medical red flags and logs a match
+ *
+ * @param userId - User who sent the message
+ * @param message - Message text (or transcription)
+ * @param subject - Age of the child and whether the parent is pregnant
+ * @param language - Parent's preferred language (null: the language of the message)
+ * @returns Urgent-care response, or null if no rule matched
+ */
+export function triageUserMessage(
+  userId: string,
+  message: string,
+  subject: TriageSubject,
+  language: Language | null = null,
+): TriageResult | null {
+  const result = triageMessage(message, subject, language);
+
+  if (result) {
+    console.log(`🚨 Triage ${result.level} (${result.rule}) for user ${userId}`);
+  }
+
+  return result;
+}
+
+/**
+ * Saves the urgent-care reply for a flagged message
+ * Stored as an assistant message so it stays in the conversation history.
+ *
+ * @param userId - Owner of the session
+ * @param sessionId - Session of the flagged message
+ * @param result - Triage result
+ * @param timestamp - Time to store (right after the flagged message)
+ * @param contentType - TEXT, or VOICE in voice conversations
+ * @returns The saved message
+ */
+export async function saveTriageReply(
+  userId: string,
+  sessionId: string,
+  result: TriageResult,
+  timestamp: Date,
+  contentType: MessageContentType = 'TEXT',
+): Promise<Message> {
+  return prisma.message.create({
+    data: {
+      userId,
+      sessionId,
+      role: 'ASSISTANT',
+      content: formatTriageMessage(result),
+      contentType,
+      mediaUrls: [],
+      tokensUsed: 0,
+      timestamp,
+      triageLevel: result.level,
+      triageRule: result.rule,
+    },
+  });
+}
@@ -0,0 +1,215 @@
+/**
+ * Text-to-Speech Service
+ *
+ * Synthesizes spoken replies for voice conversations through a pluggable provider.
+ * The provider is chosen with the TTS_PROVIDER environment variable:
+ * - llm: Speech model of the active LLM provider (default; see services/llm.ts)
+ * - fake: Deterministic local audio, no network (for tests and manual QA)
+ *
+ * Tests install providers directly with setTtsProvider().
+ */
+
+import { extractSentences } from '../utils/speech';
+import { getLlmModel, getLlmProvider } from './llm';
+
+/**
+ * Voice and speed for synthesis
+ */
+export interface SpeechOptions {
+  voice: string;
+  speed: number; // 0.5 to 2, 1 is normal speed
+}
+
+/**
+ * Synthesized audio for one piece of text
+ */
+export interface SynthesizedSpeech {
+  audio: Buffer;
+  format: string; // Audio container, e.g. "mp3"
+}
+
+/**
+ * Provider that turns text into audio
+ * Implement this interface to plug in another TTS service or a fake for tests
+ */
+export interface TtsProvider {
+  synthesize(text: string, options: SpeechOptions): Promise<SynthesizedSpeech>;
+}
+
+/**
+ * Provider that speaks through the active LLM provider with the speech model
+ */
+export class LlmTtsProvider implements TtsProvider {
+  synthesize(text: string, options: SpeechOptions): Promise<SynthesizedSpeech> {
+    return getLlmProvider().synthesize(getLlmModel('speech'), text, options);
+  }
+}
+
+/**
+ * Provider that returns the request as audio bytes
+ * Records every request; texts added to failingTexts are rejected.
+ */
+export class FakeTtsProvider implements TtsProvider {
+  readonly requests: Array<{ text: string; options: SpeechOptions }> = [];
+  readonly failingTexts = new Set<string>();
+
+  synthesize(text: string, options: SpeechOptions): Promise<SynthesizedSpeech> {
+    if (this.failingTexts.has(text)) {
+      return Promise.reject(new Error('Synthesis failed'));
+    }
+
+    this.requests.push({ text, options });
+    return Promise.resolve({
+      audio: Buffer.from(`${options.voice}@${options.speed}:${text}`),
+      format: 'txt',
+    });
+  }
+}
+
+/**
+ * Creates the provider configured by TTS_PROVIDER
+ *
+ * @returns Configured TTS provider (LLM provider by default)
+ */
+function createTtsProviderFromEnv(): TtsProvider {
+  switch (process.env.TTS_PROVIDER) {
+    case 'fake':
+      return new FakeTtsProvider();
+    case 'llm':
+    case 'openai': // Name before speech went through the LLM provider
+    case undefined:
+      return new LlmTtsProvider();
+    default:
+      console.warn(`Unknown TTS_PROVIDER "${process.env.TTS_PROVIDER}", falling back to LLM provider`);
+      return new LlmTtsProvider();
+  }
+}
+
+// Active provider (lazily created from environment on first use)
+let activeProvider: TtsProvider | null = null;
+
+/**
+ * Replaces the TTS provider
+ * Used to install a fake provider in tests
+ *
+ * @param provider - Provider to use for all subsequent synthesis
+ */
+export function setTtsProvider(provider: TtsProvider): void {
+  activeProvider = provider;
+}
+
+/**
+ * Returns the active TTS provider, creating it from the environment on first use
+ *
+ * @returns TTS provider
+ */
+export function getTtsProvider(): TtsProvider {
+  if (!activeProvider) {
+    activeProvider = createTtsProviderFromEnv();
+  }
+  return activeProvider;
+}
+
+/**
+ * Synthesized sentence of a reply, in reply order
+ */
+export interface SpeechChunk extends SynthesizedSpeech {
+  index: number; // 0 for the first sentence
+  text: string; // Text that was spoken
+}
+
+/**
+ * Outcome of speaking a reply
+ */
+export interface SpeechStreamResult {
+  chunks: number; // Chunks delivered
+  error?: string; // Set if synthesis failed; later sentences were not spoken
+  cancelled?: boolean; // Set if the reply was interrupted
+}
+
+/**
+ * Speaks a reply sentence by sentence while it is still being generated
+ *
+ * Text is added as it streams in; each complete sentence is synthesized as soon
+ * as it is available and handed to onChunk. Sentences are synthesized one at a
+ * time so chunks arrive in reply order. After a synthesis error the rest of the
+ * reply is not spoken (the reply text is still complete); after cancel() no
+ * further chunks are delivered.
+ */
+export class SpeechStream {
+  private pendingText = '';
+  private queue: Promise<void> = Promise.resolve();
+  private queued = 0;
+  private delivered = 0;
+  private error: string | undefined;
+  private cancelled = false;
+
+  constructor(
+    private readonly options: SpeechOptions,
+    private readonly onChunk: (chunk: SpeechChunk) => void,
+    private readonly provider: TtsProvider = getTtsProvider(),
+  ) {}
+
+  /**
+   * Adds streamed reply text
+   *
+   * @param text - Next piece of the reply (e.g. a model token)
+   */
+  push(text: string): void {
+    if (this.cancelled) return;
+
+    const { sentences, rest } = extractSentences(this.pendingText + text, false);
+    this.pendingText = rest;
+    sentences.forEach((sentence) => this.enqueue(sentence));
+  }
+
+  /**
+   * Speaks the remaining text and waits until all chunks are delivered
+   *
+   * @returns Number of chunks delivered and the synthesis error, if any
+   */
+  async finish(): Promise<SpeechStreamResult> {
+    const { sentences } = extractSentences(this.pendingText, true);
+    this.pendingText = '';
+    sentences.forEach((sentence) => this.enqueue(sentence));
+
+    await this.queue;
+    return {
+      chunks: this.delivered,
+      ...(this.error && { error: this.error }),
+      ...(this.cancelled && { cancelled: true }),
+    };
+  }
+
+  /**
+   * Stops speaking: queued sentences are dropped and no more chunks are delivered
+   */
+  cancel(): void {
+    this.cancelled = true;
+    this.pendingText = '';
+  }
+
+  /**
+   * Synthesizes a sentence after the ones queued before it
+   *
+   * @param text - Sentence to speak
+   */
+  private enqueue(text: string): void {
+    const index = this.queued++;
+
+    this.queue = this.queue.then(async () => {
+      if (this.error || this.cancelled) return;
+
+      try {
+        const speech = await this.provider.synthesize(text, this.options);
+        if (this.cancelled) return;
+
+        this.onChunk({ index, text, ...speech });
+        this.delivered++;
+      } catch (error) {
+        console.error('TTS synthesis error:', error);
+        this.error = error instanceof Error ? error.message : 'Unknown error';
+      }
+    });
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * Voice Audio Service
+ *
+ * Keeps the recordings of voice conversation turns. The audio is uploaded with
+ * uploadToS3 and its key stored in the user message's mediaUrls; recordings older
+ * than VOICE_AUDIO_RETENTION_DAYS are deleted by the prune-voice-audio job
+ * (0 stores no audio at all).
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import { deleteFromS3, uploadToS3 } from '../utils/s3';
+
+// Initialize Prisma Client for database operations
+const prisma = new PrismaClient();
+
+// Milliseconds per day
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Days recordings are kept when VOICE_AUDIO_RETENTION_DAYS is unset or invalid
+const DEFAULT_VOICE_AUDIO_RETENTION_DAYS = 30;
+
+// MIME types of the recording formats clients send
+const AUDIO_CONTENT_TYPES: Record<string, string> = {
+  wav: 'audio/wav',
+  m4a: 'audio/mp4',
+  mp3: 'audio/mpeg',
+  webm: 'audio/webm',
+};
+
+/**
+ * Reads the recording retention from the environment
+ *
+ * @returns Days to keep recordings (0: don't store them)
+ */
+export function getVoiceAudioRetentionDays(): number {
+  const days = parseInt(process.env.VOICE_AUDIO_RETENTION_DAYS || '', 10);
+  return days >= 0 ? days : DEFAULT_VOICE_AUDIO_RETENTION_DAYS;
+}
+
+/**
+ * Uploads the recording of a voice turn
+ * A failed upload is logged and doesn't fail the turn.
+ *
+ * @param userId - Owner of the recording
+ * @param audio - Recorded audio
+ * @param fileExtension - Audio container (wav, m4a, ...)
+ * @returns mediaUrls for the user message: the storage key, or empty if audio isn't kept
+ */
+export async function storeVoiceAudio(userId: string, audio: Buffer, fileExtension: string): Promise<string[]> {
+  if (getVoiceAudioRetentionDays() === 0 || audio.length === 0) {
+    return [];
+  }
+
+  try {
+    const key = await uploadToS3(
+      audio,
+      userId,
+      `voice.${fileExtension}`,
+      AUDIO_CONTENT_TYPES[fileExtension] ?? 'application/octet-stream',
+    );
+    return [key];
+  } catch (error) {
+    console.error('Error storing voice audio:', error);
+    return [];
+  }
+}
+
+/**
+ * Deletes the recordings of matching voice messages and clears their mediaUrls
+ * Messages whose audio could not be deleted keep their keys for the next attempt.
+ *
+ * @param where - Messages to clear (e.g. a session, or older than a cutoff)
+ * @returns Number of recordings deleted
+ */
+export async function deleteVoiceAudio(where: Prisma.MessageWhereInput): Promise<number> {
+  const messages = await prisma.message.findMany({
+    where: { ...where, contentType: 'VOICE', mediaUrls: { isEmpty: false } },
+    select: { id: true, mediaUrls: true },
+  });
+
+  let deleted = 0;
+  const clearedIds: string[] = [];
+
+  for (const message of messages) {
+    let allDeleted = true;
+
+    for (const key of message.mediaUrls) {
+      try {
+        await deleteFromS3(key);
+        deleted++;
+      } catch (error) {
+        console.error(`Error deleting voice audio ${key}:`, error);
+        allDeleted = false;
+      }
+    }
+
+    if (allDeleted) {
+      clearedIds.push(message.id);
+    }
+  }
+
+  if (clearedIds.length > 0) {
+    await prisma.message.updateMany({
+      where: { id: { in: clearedIds } },
+      data: { mediaUrls: [] },
+    });
+  }
+
+  return deleted;
+}
+
+/**
+ * Deletes recordings older than the retention period
+ *
+ * @param now - Current time
+ * @returns Number of recordings deleted and the cutoff used
+ */
+export async function pruneVoiceAudio(now: Date): Promise<{ deleted: number; cutoff: Date }> {
+  const cutoff = new Date(now.getTime() - getVoiceAudioRetentionDays() * MS_PER_DAY);
+  const deleted = await deleteVoiceAudio({ timestamp: { lt: cutoff } });
+
+  return { deleted, cutoff };
+}
@@ -3,12 +3,58 @@
  *
  * Manages real-time WebSocket connections for voice conversations.
  * Handles audio streaming, transcription, AI responses, and TTS.
+ *
+ * The AI response is spoken while it is generated: each complete sentence is
+ * synthesized with the user's voice and speed preference and sent as an
+ * `audio_chunk` event ({ index, text, audio, format }), followed by `audio_end`
+ * ({ chunks, error?, cancelled? }) once the whole reply has been spoken.
+ *
+ * Turns end in one of two ways:
+ * - Push-to-talk: the client sends its last `audio_chunk` with isLast: true
+ * - Hands-free: the session was started with { handsFree: true, sampleRate } and the
+ *   client streams 16-bit mono PCM; the server detects when the parent stops
+ *   speaking (`speech_started` / `turn_ended` events)
+ *
+ * A response in progress is cancelled by an `interrupt` event, or in hands-free
+ * mode when the parent starts speaking again (barge-in). The client hears about
+ * it through `response_cancelled` and should stop playback. Hands-free clients
+ * need echo cancellation on the microphone so the spoken reply doesn't barge in.
+ *
+ * Every voice session is a conversation like a text chat session: turns are saved
+ * as VOICE messages under the session ID (a new one per `start_session`, or the
+ * `sessionId` passed to continue a conversation), the model sees that session's
+ * history and summary, and the title is sent as `conversation_title` once generated.
+ * The recording of each turn is kept in the user message's mediaUrls
+ * (see services/voiceAudio.ts for retention).
+ *
+ * Turns are transcribed and answered in the parent's preferred language (detected
+ * from the speech if unset). `error` and `limit_reached` messages are translated
+ * into the language of the handshake's Accept-Language header.
+ *
+ * Voice minutes are the time between `start_session` and `end_session` (or
+ * disconnect), counted once with second precision. Free tier sessions end with
+ * `limit_reached` when the daily minutes run out.
  */
 
 import { Server as SocketIOServer, Socket } from 'socket.io';
 import { PrismaClient } from '@prisma/client';
 import jwt from 'jsonwebtoken';
-import { transcribeAudio, generateChatResponse, UserProfile } from '../services/openai';
+import { transcribeAudio, streamChatResponse, UserProfile } from '../services/openai';
+import { isSessionActive } from '../services/authSessions';
+import { buildRecentContext } from '../services/chatContext';
+import { buildConversationContext } from '../services/conversationSummary';
+import { updateConversationMetadata } from '../services/conversationTitles';
+import { indexMessages } from '../services/messageEmbeddings';
+import { getRelevantMemories, rememberFromExchange } from '../services/memories';
+import { saveTriageReply, triageUserMessage } from '../services/triage';
+import { SpeechStream } from '../services/tts';
+import { storeVoiceAudio } from '../services/voiceAudio';
+import { localizeErrorBody } from '../utils/errorCatalog';
+import { DEFAULT_LANGUAGE, parseAcceptLanguage, parseLanguage } from '../utils/language';
+import { buildTriageSubject } from '../utils/triage';
+import { checkUsageLimit, incrementUsage } from '../utils/usageLimit';
+import { VoiceActivityDetector, encodeWav } from '../utils/voiceActivity';
+import { buildVoiceTurnMessages } from '../utils/voiceTurns';
 import fs from 'fs/promises';
 import path from 'path';
 import { randomUUID } from 'crypto';
@@ -18,6 +64,12 @@ const prisma = new PrismaClient();
 // Free tier daily limit for voice minutes
 const FREE_TIER_VOICE_MINUTES_LIMIT = 10;
 
+// Default PCM sample rate for hands-free mode
+const DEFAULT_SAMPLE_RATE = 16000;
+
+// Audio kept from before speech was detected, so the first syllable isn't cut off
+const PRE_ROLL_MS = 300;
+
 /**
  * Interface for JWT payload from authentication token
  * Contains user identification data
@@ -25,6 +77,7 @@ const FREE_TIER_VOICE_MINUTES_LIMIT = 10;
 interface JWTPayload {
   userId: string;
   email: string;
+  sessionId?: string;
 }
 
 /**
@@ -33,9 +86,13 @@ interface JWTPayload {
  */
 interface AuthenticatedSocket extends Socket {
   user?: JWTPayload;
-  voiceSessionId?: string;
-  sessionStartTime?: number;
+  voiceSessionId?: string; // Conversation the voice turns are saved to
+  sessionStartTime?: number; // Set while a voice session is running
+  limitTimer?: NodeJS.Timeout; // Ends a free tier session when its minutes run out
   audioBuffer?: Buffer[];
+  vad?: VoiceActivityDetector; // Set in hands-free mode
+  sampleRate?: number;
+  activeTurn?: AbortController; // Response in progress (transcription, AI response, TTS)
 }
 
 /**
@@ -61,6 +118,11 @@ const authenticateSocket = async (
     // Verify JWT token
     const decoded = jwt.verify(token, process.env.JWT_SECRET!) as JWTPayload;
 
+    // Reject tokens of a revoked session (signed out device) and tokens issued without one
+    if (!decoded.sessionId || !(await isSessionActive(decoded.userId, decoded.sessionId))) {
+      return next(new Error('Authentication error: Session revoked'));
+    }
+
     // Attach user data to socket for use in event handlers
     socket.user = decoded;
 
@@ -88,197 +150,387 @@ export function initializeVoiceSocket(io: SocketIOServer): void {
     console.log(`🎙️ Voice client connected: ${socket.user?.userId}`);
 
     // Initialize session data
-    socket.voiceSessionId = randomUUID();
-    socket.sessionStartTime = Date.now();
     socket.audioBuffer = [];
 
+    // Language of error messages sent to this client
+    const clientLanguage = parseAcceptLanguage(socket.handshake.headers['accept-language']) ?? DEFAULT_LANGUAGE;
+
     /**
-     * Handle voice session start
-     * Client emits this when starting a voice conversation
-     * Checks if user has remaining voice minutes available
+     * Sends an error event with its message in the client's language
+     *
+     * @param event - 'error' or 'limit_reached'
+     * @param body - Event payload with an English message
      */
-    socket.on('start_session', async () => {
+    const emitError = (event: 'error' | 'limit_reached', body: { message: string; [key: string]: unknown }): void => {
+      socket.emit(event, localizeErrorBody(body, clientLanguage));
+    };
+
+    /**
+     * Records the running session's voice minutes and stops the session clock
+     * Safe to call more than once: only the first call counts the time.
+     *
+     * @returns Minutes recorded (0 if no session was running)
+     */
+    const recordVoiceUsage = async (): Promise<number> => {
+      if (!socket.user || !socket.sessionStartTime) return 0;
+
+      const minutes = Math.round((Date.now() - socket.sessionStartTime) / 1000) / 60;
+      socket.sessionStartTime = undefined;
+      clearTimeout(socket.limitTimer);
+      socket.limitTimer = undefined;
+
+      if (minutes > 0) {
+        await incrementUsage(socket.user.userId, 'voice', minutes);
+      }
+      return minutes;
+    };
+
+    /**
+     * Cancels the response in progress, if any
+     *
+     * @param reason - Why it was cancelled (sent to the client)
+     */
+    const cancelResponse = (reason: 'interrupt' | 'barge_in' | 'new_turn' | 'session_ended'): void => {
+      const turn = socket.activeTurn;
+      if (!turn || turn.signal.aborted) return;
+
+      turn.abort();
+      socket.activeTurn = undefined;
+      socket.emit('response_cancelled', { reason });
+      console.log(`🎙️ Voice response cancelled (${reason}): ${socket.user?.userId}`);
+    };
+
+    /**
+     * Transcribes a finished turn, then generates and speaks the AI response
+     * Starting a turn cancels the previous response if it is still running.
+     *
+     * @param audioData - Recorded audio of the turn
+     * @param fileExtension - Audio container ("m4a" for push-to-talk, "wav" for hands-free)
+     */
+    const processTurn = async (audioData: Buffer, fileExtension: string): Promise<void> => {
+      const sessionId = socket.voiceSessionId;
+      if (!socket.user || !sessionId) return;
+      const userId = socket.user.userId;
+
+      cancelResponse('new_turn');
+      const turn = new AbortController();
+      socket.activeTurn = turn;
+
+      // Save temporary audio file for Whisper API
+      const tempFileName = `voice-${sessionId}-${Date.now()}.${fileExtension}`;
+      const tempFilePath = path.join('/tmp', tempFileName);
+
       try {
-        if (!socket.user) return;
+        await fs.writeFile(tempFilePath, audioData);
+
+        const prismaUserProfile = await prisma.userProfile.findUnique({
+          where: { userId },
+        });
+        const language = parseLanguage(prismaUserProfile?.preferredLanguage);
+
+        // Transcribe audio with Whisper API (auto-detects the language if the parent hasn't set one)
+        const transcribedText = await transcribeAudio(tempFilePath, language);
+        if (turn.signal.aborted) return;
+
+        // Send transcription back to client
+        socket.emit('transcription', { text: transcribedText });
+
+        // Nothing was said (e.g. a cough ended a hands-free turn)
+        if (!transcribedText) return;
+
+        // Check the transcription for medical red flags and send urgent-care
+        // instructions before the AI response is generated
+        const triage = triageUserMessage(userId, transcribedText, buildTriageSubject({
+          mode: prismaUserProfile?.mode,
+          babyBirthDate: prismaUserProfile?.babyBirthDate,
+        }), language);
+        if (triage) {
+          socket.emit('triage', triage);
+        }
+
+        // Recent messages of this session within the token budget, plus a summary of older turns
+        const { history: contextMessages, summary: conversationSummary } = await buildConversationContext(
+          userId,
+          sessionId
+        );
 
-        // Get user subscription tier
-        const user = await prisma.user.findUnique({
-          where: { id: socket.user.userId },
-          select: { subscriptionTier: true },
+        // Add current user message
+        contextMessages.push({
+          role: 'user',
+          content: transcribedText,
         });
 
-        if (!user) {
-          socket.emit('error', { message: 'User not found' });
+        // Convert Prisma UserProfile to OpenAI UserProfile interface
+        const userProfile: UserProfile | undefined = prismaUserProfile
+          ? {
+              mode: prismaUserProfile.mode,
+              babyName: prismaUserProfile.babyName,
+              babyBirthDate: prismaUserProfile.babyBirthDate,
+              dueDate: prismaUserProfile.dueDate,
+              parentingPhilosophy:
+                typeof prismaUserProfile.parentingPhilosophy === 'string'
+                  ? prismaUserProfile.parentingPhilosophy
+                  : undefined,
+              religiousViews:
+                typeof prismaUserProfile.religiousViews === 'string'
+                  ? prismaUserProfile.religiousViews
+                  : undefined,
+              culturalBackground: prismaUserProfile.culturalBackground,
+              concerns: Array.isArray(prismaUserProfile.concerns)
+                ? (prismaUserProfile.concerns as string[])
+                : [],
+              recentContext: prismaUserProfile.activityContextEnabled
+                ? await buildRecentContext(userId)
+                : undefined,
+              memories: prismaUserProfile.memoryEnabled
+                ? await getRelevantMemories(userId, transcribedText)
+                : undefined,
+              conversationSummary: conversationSummary ?? undefined,
+              triage: triage ?? undefined,
+              language,
+            }
+          : undefined;
+
+        // Check if user profile exists before generating AI response
+        if (!prismaUserProfile || !userProfile) {
+          emitError('error', { message: 'User profile not found' });
           return;
         }
 
-        // Check daily voice usage limit for free tier users
-        if (user.subscriptionTier === 'FREE') {
-          // Create date at midnight today in ISO-8601 format for Prisma DateTime
-          const today = new Date(new Date().toDateString()).toISOString();
-          const usage = await prisma.usageTracking.findUnique({
-            where: {
-              userId_date: {
-                userId: socket.user.userId,
-                date: today,
-              },
+        // Keep the recording while the response is generated
+        const audioUrls = storeVoiceAudio(userId, audioData, fileExtension);
+
+        // Speak the AI response sentence by sentence as it streams in
+        const speech = new SpeechStream(
+          { voice: prismaUserProfile.ttsVoice, speed: prismaUserProfile.ttsSpeed },
+          (chunk) => socket.emit('audio_chunk', chunk)
+        );
+        turn.signal.addEventListener('abort', () => speech.cancel());
+
+        // Generate AI response; an interruption keeps the part generated so far
+        let responseText = '';
+        let tokensUsed = 0;
+        try {
+          const aiResponse = await streamChatResponse(
+            contextMessages,
+            userProfile,
+            (token) => {
+              responseText += token;
+              speech.push(token);
             },
-          });
+            turn.signal
+          );
+          responseText = aiResponse.response;
+          tokensUsed = aiResponse.tokensUsed;
+        } catch (error) {
+          if (!turn.signal.aborted) throw error;
+        }
 
-          const minutesUsed = usage?.voiceMinutesUsed || 0;
+        if (!turn.signal.aborted) {
+          // Send AI response text to client
+          socket.emit('ai_response', {
+            text: responseText,
+            tokensUsed,
+          });
 
-          if (minutesUsed >= FREE_TIER_VOICE_MINUTES_LIMIT) {
-            socket.emit('limit_reached', {
-              message: 'Daily voice minute limit reached',
-              minutesUsed,
-              limit: FREE_TIER_VOICE_MINUTES_LIMIT,
-            });
-            return;
+          // Speak the last sentence and tell the client the audio is complete
+          const spoken = await speech.finish();
+          if (!turn.signal.aborted) {
+            socket.emit('audio_end', spoken);
           }
+        }
 
-          // Send remaining minutes to client
-          socket.emit('session_started', {
-            voiceSessionId: socket.voiceSessionId,
-            minutesRemaining: FREE_TIER_VOICE_MINUTES_LIMIT - minutesUsed,
+        // Save messages to database with uppercase roles
+        const savedAt = new Date();
+        const turnMessages = buildVoiceTurnMessages({
+          userId,
+          sessionId,
+          transcript: transcribedText,
+          responseText,
+          mediaUrls: await audioUrls,
+          triage,
+          savedAt,
+        });
+        const savedMessages = await prisma.$transaction(
+          turnMessages.map((data) => prisma.message.create({ data }))
+        );
+
+        if (triage) {
+          await saveTriageReply(userId, sessionId, triage, new Date(savedAt.getTime() + 1), 'VOICE');
+        }
+
+        // Embed for conversation search in the background (the backfill job retries failures)
+        indexMessages(savedMessages).catch((error) => {
+          console.error('Error embedding voice messages:', error);
+        });
+
+        // Title the conversation and fold older turns into its summary, like text sessions
+        updateConversationMetadata(userId, sessionId, true)
+          .then((title) => {
+            if (title) {
+              socket.emit('conversation_title', { voiceSessionId: sessionId, title });
+            }
+          })
+          .catch((error) => {
+            console.error('Error updating conversation metadata:', error);
           });
-        } else {
-          // Premium users have unlimited minutes
-          socket.emit('session_started', {
-            voiceSessionId: socket.voiceSessionId,
-            minutesRemaining: -1, // -1 indicates unlimited
+
+        // Remember durable facts from the exchange in the background
+        if (prismaUserProfile.memoryEnabled && !turn.signal.aborted) {
+          rememberFromExchange(userId, sessionId, transcribedText, responseText)
+            .catch((error) => {
+              console.error('Error extracting memories:', error);
+            });
+        }
+      } catch (error) {
+        console.error('Error processing voice turn:', error);
+        emitError('error', { message: 'Failed to process audio' });
+      } finally {
+        if (socket.activeTurn === turn) {
+          socket.activeTurn = undefined;
+        }
+
+        // Clean up temporary audio file
+        await fs.unlink(tempFilePath).catch(() => {
+          // Ignore error if file doesn't exist
+        });
+      }
+    };
+
+    /**
+     * Handle voice session start
+     * Client emits this when starting a voice conversation
+     * Checks if user has remaining voice minutes available
+     *
+     * Options (all optional):
+     * - sessionId: conversation to continue (default: a new conversation)
+     * - handsFree: end turns by voice activity detection instead of isLast
+     * - sampleRate: sample rate of the 16-bit mono PCM stream in hands-free mode (default 16000)
+     */
+    socket.on('start_session', async (options?: { sessionId?: string; handsFree?: boolean; sampleRate?: number }) => {
+      try {
+        if (!socket.user) return;
+
+        // A session that is already running is counted up to now
+        await recordVoiceUsage();
+
+        // Check daily voice usage limit for free tier users
+        const limit = await checkUsageLimit(socket.user.userId, 'voice');
+
+        if (!limit.allowed) {
+          emitError('limit_reached', {
+            message: 'Daily voice minute limit reached',
+            minutesUsed: FREE_TIER_VOICE_MINUTES_LIMIT - (limit.remaining ?? 0),
+            limit: FREE_TIER_VOICE_MINUTES_LIMIT,
           });
+          return;
+        }
+
+        const sampleRate = options?.sampleRate ?? DEFAULT_SAMPLE_RATE;
+        if (options?.handsFree && !(Number.isInteger(sampleRate) && sampleRate >= 8000 && sampleRate <= 48000)) {
+          emitError('error', { message: 'sampleRate must be an integer from 8000 to 48000' });
+          return;
         }
+
+        if (options?.sessionId !== undefined && (typeof options.sessionId !== 'string' || !options.sessionId)) {
+          emitError('error', { message: 'sessionId must be a non-empty string' });
+          return;
+        }
+
+        socket.voiceSessionId = options?.sessionId ?? randomUUID();
+        socket.sessionStartTime = Date.now();
+        socket.audioBuffer = [];
+        socket.sampleRate = sampleRate;
+        socket.vad = options?.handsFree ? new VoiceActivityDetector(sampleRate) : undefined;
+
+        // End the session when a free tier user's remaining minutes run out
+        if (!limit.unlimited && limit.remaining !== undefined) {
+          socket.limitTimer = setTimeout(() => {
+            cancelResponse('session_ended');
+            recordVoiceUsage()
+              .then(() => {
+                emitError('limit_reached', {
+                  message: 'Daily voice minute limit reached',
+                  minutesUsed: FREE_TIER_VOICE_MINUTES_LIMIT,
+                  limit: FREE_TIER_VOICE_MINUTES_LIMIT,
+                });
+              })
+              .catch((error) => {
+                console.error('Error recording voice usage:', error);
+              });
+          }, limit.remaining * 60000);
+        }
+
+        socket.emit('session_started', {
+          voiceSessionId: socket.voiceSessionId,
+          // -1 indicates unlimited (premium)
+          minutesRemaining: limit.unlimited ? -1 : limit.remaining,
+          handsFree: Boolean(socket.vad),
+        });
       } catch (error) {
         console.error('Error starting voice session:', error);
-        socket.emit('error', { message: 'Failed to start voice session' });
+        emitError('error', { message: 'Failed to start voice session' });
       }
     });
 
     /**
      * Handle incoming audio chunks
      * Client streams audio data in chunks during recording
-     * Server buffers chunks until client signals completion
+     * Push-to-talk: chunks are buffered until the client sends isLast
+     * Hands-free: voice activity detection starts and ends turns
      */
-    socket.on('audio_chunk', async (data: { chunk: Buffer; isLast: boolean }) => {
+    socket.on('audio_chunk', async (data: { chunk: Buffer; isLast?: boolean }) => {
       try {
         if (!socket.user || !socket.audioBuffer) return;
 
+        if (!socket.sessionStartTime) {
+          emitError('error', { message: 'Voice session not started' });
+          return;
+        }
+
         // Add chunk to buffer
         socket.audioBuffer.push(data.chunk);
 
+        if (socket.vad) {
+          const sampleRate = socket.sampleRate ?? DEFAULT_SAMPLE_RATE;
+
+          for (const event of socket.vad.process(data.chunk)) {
+            if (event.type === 'speech_start') {
+              // The parent talks over the response: stop it
+              cancelResponse('barge_in');
+              socket.emit('speech_started');
+            } else {
+              socket.emit('turn_ended', { reason: event.reason });
+
+              // Take the turn's audio and keep listening while it is answered
+              // (processTurn reports its own errors)
+              const turnAudio = Buffer.concat(socket.audioBuffer);
+              socket.audioBuffer = [];
+              void processTurn(encodeWav(turnAudio, sampleRate), 'wav');
+            }
+          }
+
+          // Between turns only keep the pre-roll
+          if (!socket.vad.speaking && socket.audioBuffer.length > 0) {
+            const preRollBytes = Math.round((sampleRate * PRE_ROLL_MS) / 1000) * 2;
+            socket.audioBuffer = [Buffer.concat(socket.audioBuffer).subarray(-preRollBytes)];
+          }
+          return;
+        }
+
         // If this is the last chunk, process the complete audio
         if (data.isLast) {
           // Combine all buffered chunks into single audio file
           const audioData = Buffer.concat(socket.audioBuffer);
 
-          // Save temporary audio file for Whisper API
-          const tempFileName = `voice-${socket.voiceSessionId}-${Date.now()}.m4a`;
-          const tempFilePath = path.join('/tmp', tempFileName);
-          await fs.writeFile(tempFilePath, audioData);
-
-          // Transcribe audio with Whisper API
-          const transcribedText = await transcribeAudio(tempFilePath);
-
-          // Send transcription back to client
-          socket.emit('transcription', { text: transcribedText });
-
-          // Generate AI response based on transcription
-          const prismaUserProfile = await prisma.userProfile.findUnique({
-            where: { userId: socket.user.userId },
-          });
-
-          // Get last 10 messages for context
-          const recentMessages = await prisma.message.findMany({
-            where: { userId: socket.user.userId },
-            orderBy: { timestamp: 'desc' },
-            take: 10,
-          });
-
-          // Reverse to get chronological order and convert role to lowercase for OpenAI API
-          const contextMessages = recentMessages.reverse().map((msg) => ({
-            role: msg.role.toLowerCase() as 'user' | 'assistant',
-            content: msg.content,
-          }));
-
-          // Add current user message
-          contextMessages.push({
-            role: 'user',
-            content: transcribedText,
-          });
-
-          // Convert Prisma UserProfile to OpenAI UserProfile interface
-          const userProfile: UserProfile | undefined = prismaUserProfile
-            ? {
-                mode: prismaUserProfile.mode,
-                babyName: prismaUserProfile.babyName,
-                babyBirthDate: prismaUserProfile.babyBirthDate,
-                dueDate: prismaUserProfile.dueDate,
-                parentingPhilosophy:
-                  typeof prismaUserProfile.parentingPhilosophy === 'string'
-                    ? prismaUserProfile.parentingPhilosophy
-                    : undefined,
-                religiousViews:
-                  typeof prismaUserProfile.religiousViews === 'string'
-                    ? prismaUserProfile.religiousViews
-                    : undefined,
-                culturalBackground: prismaUserProfile.culturalBackground,
-                concerns: Array.isArray(prismaUserProfile.concerns)
-                  ? (prismaUserProfile.concerns as string[])
-                  : [],
-              }
-            : undefined;
-
-          // Check if user profile exists before generating AI response
-          if (!userProfile) {
-            socket.emit('error', { message: 'User profile not found' });
-            // Clear audio buffer on error
-            socket.audioBuffer = [];
-            return;
-          }
-
-          // Generate AI response
-          const aiResponse = await generateChatResponse(
-            contextMessages,
-            userProfile
-          );
-
-          // Send AI response text to client
-          socket.emit('ai_response', {
-            text: aiResponse.response,
-            tokensUsed: aiResponse.tokensUsed,
-          });
-
-          // Save messages to database with uppercase roles
-          await prisma.message.createMany({
-            data: [
-              {
-                userId: socket.user.userId,
-                role: 'USER',
-                content: transcribedText,
-                contentType: 'VOICE',
-                sessionId: socket.voiceSessionId || '',
-              },
-              {
-                userId: socket.user.userId,
-                role: 'ASSISTANT',
-                content: aiResponse.response,
-                contentType: 'TEXT',
-                sessionId: socket.voiceSessionId || '',
-              },
-            ],
-          });
-
-          // Clean up temporary audio file
-          await fs.unlink(tempFilePath).catch(() => {
-            // Ignore error if file doesn't exist
-          });
-
           // Clear audio buffer for next message
           socket.audioBuffer = [];
+
+          await processTurn(audioData, 'm4a');
         }
       } catch (error) {
         console.error('Error processing audio chunk:', error);
-        socket.emit('error', { message: 'Failed to process audio' });
+        emitError('error', { message: 'Failed to process audio' });
 
         // Clear buffer on error
         if (socket.audioBuffer) {
@@ -287,94 +539,56 @@ export function initializeVoiceSocket(io: SocketIOServer): void {
       }
     });
 
+    /**
+     * Handle interruption
+     * Client emits this to stop the response in progress (e.g. a "stop" tap)
+     */
+    socket.on('interrupt', () => {
+      cancelResponse('interrupt');
+    });
+
     /**
      * Handle voice session end
      * Client emits this when ending a voice conversation
-     * Calculates elapsed time and updates usage tracking
+     * Records the session's voice minutes in usage tracking
      */
     socket.on('end_session', async () => {
       try {
-        if (!socket.user || !socket.sessionStartTime) return;
-
-        // Calculate elapsed time in minutes
-        const elapsedMs = Date.now() - socket.sessionStartTime;
-        const elapsedMinutes = Math.ceil(elapsedMs / 60000); // Round up to nearest minute
-
-        // Update usage tracking
-        // Create date at midnight today in ISO-8601 format for Prisma DateTime
-        const today = new Date(new Date().toDateString()).toISOString();
+        if (!socket.user) return;
 
-        await prisma.usageTracking.upsert({
-          where: {
-            userId_date: {
-              userId: socket.user.userId,
-              date: today,
-            },
-          },
-          update: {
-            voiceMinutesUsed: {
-              increment: elapsedMinutes,
-            },
-          },
-          create: {
-            userId: socket.user.userId,
-            date: today,
-            messagesUsed: 0,
-            voiceMinutesUsed: elapsedMinutes,
-            photosStored: 0,
-          },
-        });
+        const minutes = await recordVoiceUsage();
+        socket.vad = undefined;
+        socket.audioBuffer = [];
 
         // Send session summary to client
         socket.emit('session_ended', {
-          duration: elapsedMinutes,
+          duration: Math.round(minutes * 100) / 100,
           voiceSessionId: socket.voiceSessionId,
         });
 
         console.log(
-          `🎙️ Voice session ended: ${socket.user.userId} (${elapsedMinutes} min)`
+          `🎙️ Voice session ended: ${socket.user.userId} (${minutes.toFixed(2)} min)`
         );
       } catch (error) {
         console.error('Error ending voice session:', error);
-        socket.emit('error', { message: 'Failed to end voice session' });
+        emitError('error', { message: 'Failed to end voice session' });
       }
     });
 
     /**
      * Handle socket disconnection
-     * Cleanup resources and save session data if needed
+     * Cancels the response in progress and records the voice minutes of a
+     * session that was not properly ended
      */
     socket.on('disconnect', async () => {
       console.log(`🎙️ Voice client disconnected: ${socket.user?.userId}`);
 
-      // If session was not properly ended, update usage tracking
-      if (socket.sessionStartTime && socket.user) {
-        const elapsedMs = Date.now() - socket.sessionStartTime;
-        const elapsedMinutes = Math.ceil(elapsedMs / 60000);
+      socket.activeTurn?.abort();
 
-        // Create date at midnight today in ISO-8601 format for Prisma DateTime
-        const today = new Date(new Date().toDateString()).toISOString();
-
-        await prisma.usageTracking.upsert({
-          where: {
-            userId_date: {
-              userId: socket.user.userId,
-              date: today,
-            },
-          },
-          update: {
-            voiceMinutesUsed: {
-              increment: elapsedMinutes,
-            },
-          },
-          create: {
-            userId: socket.user.userId,
-            date: today,
-            messagesUsed: 0,
-            voiceMinutesUsed: elapsedMinutes,
-            photosStored: 0,
-          },
-        });
+      try {
+        await recordVoiceUsage();
+      } catch (error) {
+        console.error('Error recording voice usage:', error);
       }
 
       // Clear audio buffer
@@ -0,0 +1,327 @@
+/**
+ * Chat Context Utilities
+ *
+ * Pure helpers that turn recent activity logs, milestones, photo analysis and
+ * pregnancy tracking (kick counts, contraction timing) into a compact text block for the chat system prompt, trimmed to a token budget.
+ *
+ * Times are described relative to "now" ("3.5h ago") so the block
+ * doesn't depend on the parent's time zone.
+ */
+
+import { DiaperType, FeedType } from '@prisma/client';
+import { FeedRecord, SleepRecord, DiaperRecord, getFeedDurationMinutes } from './tracking';
+import { ContractionRecord, KickSessionRecord, analyzeContractions, analyzeKickSession } from './pregnancyTracking';
+
+// Milliseconds per hour
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+/**
+ * A titled group of lines in the context block
+ * Sections are added in order, so the most useful one goes first.
+ */
+export interface ContextSection {
+  title: string;
+  lines: string[];
+}
+
+/**
+ * Milestone fields used in the context block
+ */
+export interface MilestoneContextRecord {
+  name: string;
+  achievedDate: Date;
+  notes: string | null;
+}
+
+/**
+ * Photo analysis used in the context block (one-sentence description or full analysis)
+ */
+export interface PhotoContextRecord {
+  uploadedAt: Date;
+  summary: string;
+}
+
+/**
+ * Contraction timing session used in the context block
+ */
+export interface ContractionSessionContextRecord {
+  startedAt: Date;
+  endedAt: Date | null;
+  contractions: ContractionRecord[];
+}
+
+/**
+ * Estimates the number of tokens in a text
+ * Uses the common ~4 characters per token approximation for English text.
+ *
+ * @param text - Text to measure
+ * @returns Approximate token count
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Formats a duration in hours with one decimal ("2.5h")
+ *
+ * @param ms - Duration in milliseconds
+ * @returns Formatted duration
+ */
+function formatHours(ms: number): string {
+  return `${Math.round((ms / MS_PER_HOUR) * 10) / 10}h`;
+}
+
+/**
+ * Formats a timestamp relative to now ("3.5h ago", or "2 days ago" past 48 hours)
+ *
+ * @param date - Timestamp in the past
+ * @param now - Current time
+ * @returns Relative time description
+ */
+function formatAgo(date: Date, now: Date): string {
+  const ms = Math.max(0, now.getTime() - date.getTime());
+
+  if (ms >= 48 * MS_PER_HOUR) {
+    return `${Math.floor(ms / (24 * MS_PER_HOUR))} days ago`;
+  }
+
+  return `${formatHours(ms)} ago`;
+}
+
+/**
+ * Shortens text to a maximum length, ending with an ellipsis when cut
+ *
+ * @param text - Text to shorten
+ * @param maxLength - Maximum length including the ellipsis
+ * @returns Shortened text on a single line
+ */
+export function truncate(text: string, maxLength: number): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length <= maxLength ? singleLine : `${singleLine.slice(0, maxLength - 1).trimEnd()}…`;
+}
+
+/**
+ * Describes logged feeds, sleep and diapers of a recent window
+ *
+ * @param records - Records overlapping the window
+ * @param windowHours - Length of the window ending now (e.g. 48)
+ * @param now - Current time
+ * @returns Lines for the activity section (empty if nothing was logged)
+ */
+export function formatActivityLines(
+  records: { feeds: FeedRecord[]; sleeps: SleepRecord[]; diapers: DiaperRecord[] },
+  windowHours: number,
+  now: Date = new Date(),
+): string[] {
+  const lines: string[] = [];
+  const windowStart = now.getTime() - windowHours * MS_PER_HOUR;
+
+  const feeds = records.feeds
+    .filter((feed) => feed.startedAt.getTime() >= windowStart)
+    .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+
+  if (feeds.length > 0) {
+    const breast = feeds.filter((feed) => feed.type === FeedType.BREAST);
+    const bottle = feeds.filter((feed) => feed.type === FeedType.BOTTLE);
+    const solids = feeds.filter((feed) => feed.type === FeedType.SOLIDS);
+
+    const parts: string[] = [];
+    if (breast.length > 0) {
+      const minutes = breast.reduce((sum, feed) => sum + getFeedDurationMinutes(feed), 0);
+      parts.push(`${breast.length} breast${minutes > 0 ? ` (${minutes} min total)` : ''}`);
+    }
+    if (bottle.length > 0) {
+      const volume = bottle.reduce((sum, feed) => sum + (feed.volumeMl ?? 0), 0);
+      parts.push(`${bottle.length} bottle${volume > 0 ? ` (${volume} ml total)` : ''}`);
+    }
+    if (solids.length > 0) {
+      parts.push(`${solids.length} solids`);
+    }
+
+    lines.push(
+      `Feeds in the last ${windowHours}h: ${feeds.length} (${parts.join(', ')}); ` +
+      `last feed ${formatAgo(feeds[0].startedAt, now)} (${feeds[0].type.toLowerCase()}).`,
+    );
+  }
+
+  const sleeps = records.sleeps
+    .filter((sleep) => (sleep.endedAt ?? now).getTime() > windowStart)
+    .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+
+  if (sleeps.length > 0) {
+    let sleepMs = 0;
+    let longestMs = 0;
+
+    for (const sleep of sleeps) {
+      const end = (sleep.endedAt ?? now).getTime();
+      sleepMs += Math.max(0, end - Math.max(sleep.startedAt.getTime(), windowStart));
+      longestMs = Math.max(longestMs, end - sleep.startedAt.getTime());
+    }
+
+    const latest = sleeps[0];
+    const current = latest.endedAt
+      ? `awake since ${formatAgo(latest.endedAt, now)}`
+      : `asleep now (for ${formatHours(now.getTime() - latest.startedAt.getTime())})`;
+
+    lines.push(
+      `Sleep in the last ${windowHours}h: ${formatHours(sleepMs)} over ${sleeps.length} sessions; ` +
+      `longest stretch ${formatHours(longestMs)}; ${current}.`,
+    );
+  }
+
+  const diapers = records.diapers
+    .filter((diaper) => diaper.changedAt.getTime() >= windowStart)
+    .sort((a, b) => b.changedAt.getTime() - a.changedAt.getTime());
+
+  if (diapers.length > 0) {
+    const count = (type: DiaperType): number => diapers.filter((diaper) => diaper.type === type).length;
+    const wet = count(DiaperType.WET) + count(DiaperType.MIXED);
+    const dirty = count(DiaperType.DIRTY) + count(DiaperType.MIXED);
+    const lastDirty = diapers.find((diaper) => diaper.type === DiaperType.DIRTY || diaper.type === DiaperType.MIXED);
+
+    lines.push(
+      `Diapers in the last ${windowHours}h: ${diapers.length} (${wet} wet, ${dirty} dirty)` +
+      `${lastDirty ? `; last dirty ${formatAgo(lastDirty.changedAt, now)}` : ''}.`,
+    );
+  }
+
+  return lines;
+}
+
+/**
+ * Describes recently achieved milestones, most recent first
+ *
+ * @param milestones - Recent milestones
+ * @param now - Current time
+ * @returns One line per milestone
+ */
+export function formatMilestoneLines(milestones: MilestoneContextRecord[], now: Date = new Date()): string[] {
+  return [...milestones]
+    .sort((a, b) => b.achievedDate.getTime() - a.achievedDate.getTime())
+    .map((milestone) =>
+      `${milestone.name} (${formatAgo(milestone.achievedDate, now)})` +
+      `${milestone.notes ? `: ${truncate(milestone.notes, 100)}` : ''}`,
+    );
+}
+
+/**
+ * Describes recent photo analysis, most recent first
+ *
+ * @param photos - Recent analyzed photos
+ * @param now - Current time
+ * @returns One line per photo
+ */
+export function formatPhotoLines(photos: PhotoContextRecord[], now: Date = new Date()): string[] {
+  return [...photos]
+    .sort((a, b) => b.uploadedAt.getTime() - a.uploadedAt.getTime())
+    .map((photo) => `Photo ${formatAgo(photo.uploadedAt, now)}: ${truncate(photo.summary, 160)}`);
+}
+
+/**
+ * Describes recent contraction timing and kick counts
+ * Gives the assistant the measured numbers, so "are these real contractions?"
+ * is answered from what was actually timed.
+ *
+ * @param records - Latest contraction session (if any) and recent kick count sessions
+ * @param now - Current time
+ * @returns Lines for the pregnancy tracking section (contractions first, then kick counts, newest first)
+ */
+export function formatPregnancyTrackingLines(
+  records: { contractionSession: ContractionSessionContextRecord | null; kickSessions: KickSessionRecord[] },
+  now: Date = new Date(),
+): string[] {
+  const lines: string[] = [];
+  const session = records.contractionSession;
+
+  if (session) {
+    const analysis = analyzeContractions(session.contractions, now);
+    const parts = [`${analysis.count} contraction${analysis.count === 1 ? '' : 's'}`];
+
+    if (analysis.averageDurationSeconds !== null) {
+      parts.push(`lasting ~${analysis.averageDurationSeconds}s`);
+    }
+    if (analysis.averageIntervalMinutes !== null) {
+      parts.push(`every ~${analysis.averageIntervalMinutes} min`);
+    }
+
+    let line = `Contraction timing started ${formatAgo(session.startedAt, now)}` +
+      `${session.endedAt ? '' : ' (ongoing)'}: ${parts.join(', ')}`;
+
+    if (analysis.lastHour.count > 0) {
+      const regularity = analysis.lastHour.regular === null ? '' : analysis.lastHour.regular ? ', regular' : ', irregular';
+      line += `; last hour: ${analysis.lastHour.count}` +
+        `${analysis.lastHour.averageIntervalMinutes !== null ? ` every ~${analysis.lastHour.averageIntervalMinutes} min` : ''}` +
+        regularity;
+    }
+
+    line += analysis.fiveOneOne.met
+      ? `; 5-1-1 pattern met (${analysis.fiveOneOne.sustainedMinutes} min)`
+      : '; 5-1-1 pattern not met';
+
+    if (analysis.inProgress) {
+      line += '; a contraction is in progress';
+    } else if (analysis.lastContractionAt) {
+      line += `; last contraction ${formatAgo(analysis.lastContractionAt, now)}`;
+    }
+
+    lines.push(`${line}.`);
+  }
+
+  const kickSessions = [...records.kickSessions].sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+  for (const kickSession of kickSessions) {
+    const analysis = analyzeKickSession(kickSession, now);
+    const kicks = `${analysis.kickCount} kick${analysis.kickCount === 1 ? '' : 's'}`;
+
+    let result: string;
+    if (analysis.status === 'reached') {
+      result = `10 kicks in ${analysis.timeToTargetMinutes} min`;
+    } else if (analysis.status === 'not_reached') {
+      result = `${kicks} in ${analysis.elapsedMinutes} min, 10 kicks not reached`;
+    } else {
+      result = `${kicks} so far (in progress, ${analysis.elapsedMinutes} min)`;
+    }
+
+    lines.push(`Kick count ${formatAgo(kickSession.startedAt, now)}: ${result}.`);
+  }
+
+  return lines;
+}
+
+/**
+ * Joins sections into one text block that fits a token budget
+ *
+ * Sections and their lines are added in order until the budget is used up;
+ * a section heading is only added if at least its first line fits too.
+ *
+ * @param sections - Sections in priority order
+ * @param maxTokens - Token budget for the whole block
+ * @returns Context block, or an empty string if nothing fits
+ */
+export function fitSectionsToBudget(sections: ContextSection[], maxTokens: number): string {
+  const output: string[] = [];
+  let usedTokens = 0;
+
+  for (const section of sections) {
+    if (section.lines.length === 0) continue;
+
+    const heading = `${section.title}:`;
+    const headingTokens = estimateTokens(heading) + 1;
+    let sectionStarted = false;
+
+    for (const line of section.lines) {
+      const lineTokens = estimateTokens(`- ${line}`) + 1;
+      const cost = lineTokens + (sectionStarted ? 0 : headingTokens);
+
+      if (usedTokens + cost > maxTokens) break;
+
+      if (!sectionStarted) {
+        output.push(heading);
+        sectionStarted = true;
+      }
+      output.push(`- ${line}`);
+      usedTokens += cost;
+    }
+  }
+
+  return output.join('\n');
+}
@@ -0,0 +1,82 @@
+/**
+ * Conversation History Utilities
+ *
+ * Pure helpers for token-aware chat context: choosing the most recent messages
+ * that fit a token budget (sent to the model verbatim) and splitting older
+ * messages into batches to fold into the session's running summary.
+ */
+
+import { estimateTokens } from './chatContext';
+
+// Approximate tokens the API adds per message (role and separators)
+export const MESSAGE_TOKEN_OVERHEAD = 4;
+
+/**
+ * Estimates the tokens a message takes in the model context
+ *
+ * @param content - Message text
+ * @returns Approximate token count including per-message overhead
+ */
+export function estimateMessageTokens(content: string): number {
+  return estimateTokens(content) + MESSAGE_TOKEN_OVERHEAD;
+}
+
+/**
+ * Splits a conversation into the recent messages that fit the token budget and the older ones
+ *
+ * Messages are taken newest first until the next one would exceed the budget, so
+ * the recent part is always an unbroken tail of the conversation.
+ *
+ * @param messages - Messages in chronological order (oldest first)
+ * @param maxTokens - Token budget for the recent messages
+ * @returns Recent messages and older messages, both in chronological order
+ */
+export function selectRecentMessages<T extends { content: string }>(
+  messages: T[],
+  maxTokens: number,
+): { recent: T[]; older: T[] } {
+  let usedTokens = 0;
+  let start = messages.length;
+
+  while (start > 0) {
+    const cost = estimateMessageTokens(messages[start - 1].content);
+    if (usedTokens + cost > maxTokens) break;
+
+    usedTokens += cost;
+    start--;
+  }
+
+  return { recent: messages.slice(start), older: messages.slice(0, start) };
+}
+
+/**
+ * Splits messages into consecutive batches within a token budget
+ * A message larger than the budget gets a batch of its own.
+ *
+ * @param messages - Messages in chronological order
+ * @param maxTokens - Token budget per batch
+ * @returns Non-empty batches in order
+ */
+export function chunkMessagesByTokens<T extends { content: string }>(messages: T[], maxTokens: number): T[][] {
+  const chunks: T[][] = [];
+  let current: T[] = [];
+  let usedTokens = 0;
+
+  for (const message of messages) {
+    const cost = estimateMessageTokens(message.content);
+    if (current.length > 0 && usedTokens + cost > maxTokens) {
+      chunks.push(current);
+      current = [];
+      usedTokens = 0;
+    }
+
+    current.push(message);
+    usedTokens += cost;
+  }
+
+  if (current.length > 0) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
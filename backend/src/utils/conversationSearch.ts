@@ -0,0 +1,117 @@
+/**
+ * Conversation Search Utilities
+ *
+ * Pure helpers for semantic conversation search: the text sent for embedding
+ * and the snippet shown under each result with the query terms highlighted.
+ * Ranking happens in the database (see services/messageEmbeddings.ts).
+ */
+
+// Longest text sent for embedding (embedding models accept ~8k tokens)
+export const MAX_EMBEDDING_CHARS = 8000;
+
+// Words too common to be worth highlighting
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'was', 'with', 'that', 'this', 'what', 'how', 'when', 'why',
+  'about', 'from', 'have', 'has', 'had', 'does', 'did', 'can', 'should', 'would', 'could',
+  'you', 'your', 'our', 'her', 'his', 'their', 'they', 'them', 'not', 'but', 'any', 'all',
+]);
+
+/**
+ * A session's best match for a query
+ */
+export interface SessionMatch {
+  sessionId: string;
+  messageId: string; // Message most similar to the query
+  score: number; // Cosine similarity of that message (-1 to 1)
+}
+
+/**
+ * Character range of a highlighted term in a snippet (end is exclusive)
+ */
+export interface Highlight {
+  start: number;
+  end: number;
+}
+
+/**
+ * Excerpt of a message with the query terms highlighted
+ */
+export interface Snippet {
+  text: string;
+  highlights: Highlight[];
+}
+
+/**
+ * Prepares message content for embedding: single line, within the model's input limit
+ *
+ * @param content - Message content
+ * @returns Text to embed (empty if the message has no text)
+ */
+export function prepareEmbeddingText(content: string): string {
+  return content.replace(/\s+/g, ' ').trim().slice(0, MAX_EMBEDDING_CHARS);
+}
+
+/**
+ * Splits a search query into the terms to highlight
+ *
+ * @param query - Search query
+ * @returns Lowercase terms of 3+ characters, without common words
+ */
+export function getQueryTerms(query: string): string[] {
+  const words = query.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  return [...new Set(words.filter((word) => word.length >= 3 && !STOP_WORDS.has(word)))];
+}
+
+/**
+ * Finds where words start with one of the terms ("feed" matches "feeding")
+ *
+ * @param text - Text to search
+ * @param terms - Lowercase query terms
+ * @returns Matched ranges in order
+ */
+export function findTermMatches(text: string, terms: string[]): Highlight[] {
+  if (terms.length === 0) {
+    return [];
+  }
+
+  const escaped = [...terms]
+    .sort((a, b) => b.length - a.length)
+    .map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${escaped.join('|')})`, 'giu');
+
+  return [...text.matchAll(pattern)].map((match) => ({ start: match.index, end: match.index + match[0].length }));
+}
+
+/**
+ * Builds a snippet of a message around the first query term it contains
+ * Semantic matches may not contain any query term; the snippet then starts at the
+ * beginning of the message with nothing highlighted.
+ *
+ * @param content - Message content
+ * @param query - Search query
+ * @param maxLength - Maximum snippet length, excluding ellipses
+ * @returns Snippet with highlight ranges relative to its text
+ */
+export function buildSnippet(content: string, query: string, maxLength = 200): Snippet {
+  const text = content.replace(/\s+/g, ' ').trim();
+  const matches = findTermMatches(text, getQueryTerms(query));
+
+  let start = 0;
+  if (matches.length > 0 && text.length > maxLength) {
+    // Show some context before the first match, starting at a word boundary
+    start = Math.max(0, Math.min(matches[0].start - Math.floor(maxLength / 4), text.length - maxLength));
+    const wordStart = text.lastIndexOf(' ', start);
+    start = start > 0 && wordStart >= 0 && matches[0].start - wordStart <= maxLength ? wordStart + 1 : start;
+  }
+
+  const end = Math.min(text.length, start + maxLength);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+
+  return {
+    text: `${prefix}${text.slice(start, end).trimEnd()}${suffix}`,
+    highlights: matches
+      .filter((match) => match.start >= start && match.end <= end)
+      .map((match) => ({ start: match.start - start + prefix.length, end: match.end - start + prefix.length })),
+  };
+}
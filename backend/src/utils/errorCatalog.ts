@@ -0,0 +1,257 @@
+/**
+ * Error Message Catalog
+ *
+ * Translations of server error messages, keyed by the English message (as in
+ * gettext, the English text is the message ID, so routes keep writing plain
+ * English and stay readable). The localizeErrors middleware and the voice socket
+ * translate `error` and `message` fields with it.
+ *
+ * To translate another message, add its exact English text with one entry per
+ * language. Messages without an entry are sent in English; machine-readable codes
+ * (e.g. "limit_reached") must not be added.
+ */
+
+import { DEFAULT_LANGUAGE, Language } from './language';
+
+type Translations = Record<Exclude<Language, typeof DEFAULT_LANGUAGE>, string>;
+
+const ERROR_CATALOG: Record<string, Translations> = {
+  // General
+  'Not Found': { es: 'No encontrado', pt: 'Não encontrado' },
+  'The requested resource does not exist': {
+    es: 'El recurso solicitado no existe',
+    pt: 'O recurso solicitado não existe',
+  },
+  'Internal Server Error': { es: 'Error interno del servidor', pt: 'Erro interno do servidor' },
+  'Something went wrong': { es: 'Algo salió mal', pt: 'Algo deu errado' },
+  'Please try again in a moment': {
+    es: 'Inténtalo de nuevo en un momento',
+    pt: 'Tente novamente em instantes',
+  },
+  Forbidden: { es: 'Acceso denegado', pt: 'Acesso negado' },
+  'Missing required fields': { es: 'Faltan campos obligatorios', pt: 'Campos obrigatórios ausentes' },
+  'Invalid query': { es: 'Consulta no válida', pt: 'Consulta inválida' },
+
+  // Authentication
+  'Unauthorized - user ID not found': {
+    es: 'No autorizado: no se encontró el ID de usuario',
+    pt: 'Não autorizado: ID de usuário não encontrado',
+  },
+  'No token provided': { es: 'No se proporcionó un token', pt: 'Nenhum token fornecido' },
+  'Authentication required. Please provide a valid token.': {
+    es: 'Se requiere autenticación. Proporciona un token válido.',
+    pt: 'Autenticação necessária. Forneça um token válido.',
+  },
+  'Invalid or expired token': { es: 'Token no válido o caducado', pt: 'Token inválido ou expirado' },
+  'Please log in again to get a new token.': {
+    es: 'Vuelve a iniciar sesión para obtener un token nuevo.',
+    pt: 'Faça login novamente para obter um novo token.',
+  },
+  'Session revoked': { es: 'Sesión cerrada', pt: 'Sessão encerrada' },
+  'This device was signed out. Please log in again.': {
+    es: 'Se cerró la sesión en este dispositivo. Vuelve a iniciar sesión.',
+    pt: 'A sessão deste dispositivo foi encerrada. Faça login novamente.',
+  },
+  'Email not verified': { es: 'Correo electrónico no verificado', pt: 'E-mail não verificado' },
+  'Please verify your email address to use this feature.': {
+    es: 'Verifica tu dirección de correo electrónico para usar esta función.',
+    pt: 'Verifique seu endereço de e-mail para usar este recurso.',
+  },
+  'Validation failed': { es: 'Error de validación', pt: 'Falha na validação' },
+  'Email already registered': { es: 'El correo electrónico ya está registrado', pt: 'E-mail já cadastrado' },
+  'An account with this email already exists. Please log in instead.': {
+    es: 'Ya existe una cuenta con este correo electrónico. Inicia sesión.',
+    pt: 'Já existe uma conta com este e-mail. Faça login.',
+  },
+  'Registration failed': { es: 'No se pudo completar el registro', pt: 'Falha no cadastro' },
+  'An error occurred during registration. Please try again.': {
+    es: 'Se produjo un error durante el registro. Inténtalo de nuevo.',
+    pt: 'Ocorreu um erro durante o cadastro. Tente novamente.',
+  },
+  'Invalid credentials': { es: 'Credenciales no válidas', pt: 'Credenciais inválidas' },
+  'Email or password is incorrect.': {
+    es: 'El correo electrónico o la contraseña no son correctos.',
+    pt: 'E-mail ou senha incorretos.',
+  },
+  'Login failed': { es: 'No se pudo iniciar sesión', pt: 'Falha no login' },
+  'An error occurred during login. Please try again.': {
+    es: 'Se produjo un error al iniciar sesión. Inténtalo de nuevo.',
+    pt: 'Ocorreu um erro durante o login. Tente novamente.',
+  },
+  'Refresh token required': { es: 'Se requiere el token de actualización', pt: 'Token de atualização obrigatório' },
+  'Please provide a refresh token.': {
+    es: 'Proporciona un token de actualización.',
+    pt: 'Forneça um token de atualização.',
+  },
+  'Invalid refresh token': { es: 'Token de actualización no válido', pt: 'Token de atualização inválido' },
+  'Refresh token is invalid, expired or revoked. Please log in again.': {
+    es: 'El token de actualización no es válido, caducó o fue revocado. Vuelve a iniciar sesión.',
+    pt: 'O token de atualização é inválido, expirou ou foi revogado. Faça login novamente.',
+  },
+  'Session not found': { es: 'Sesión no encontrada', pt: 'Sessão não encontrada' },
+  'This verification link is invalid or has expired. Please request a new one.': {
+    es: 'Este enlace de verificación no es válido o caducó. Solicita uno nuevo.',
+    pt: 'Este link de verificação é inválido ou expirou. Solicite um novo.',
+  },
+  'Email already verified': { es: 'El correo electrónico ya está verificado', pt: 'E-mail já verificado' },
+  'Your email address is already verified.': {
+    es: 'Tu dirección de correo electrónico ya está verificada.',
+    pt: 'Seu endereço de e-mail já está verificado.',
+  },
+  'Invalid password': { es: 'Contraseña incorrecta', pt: 'Senha incorreta' },
+
+  // Rate limits
+  'Too many login attempts': { es: 'Demasiados intentos de inicio de sesión', pt: 'Muitas tentativas de login' },
+  'Please wait 15 minutes before trying again.': {
+    es: 'Espera 15 minutos antes de volver a intentarlo.',
+    pt: 'Aguarde 15 minutos antes de tentar novamente.',
+  },
+  'Too many registration attempts': { es: 'Demasiados intentos de registro', pt: 'Muitas tentativas de cadastro' },
+  'Please wait 1 hour before trying again.': {
+    es: 'Espera 1 hora antes de volver a intentarlo.',
+    pt: 'Aguarde 1 hora antes de tentar novamente.',
+  },
+  'Too many requests': { es: 'Demasiadas solicitudes', pt: 'Muitas solicitações' },
+  'Please wait before trying again.': {
+    es: 'Espera un momento antes de volver a intentarlo.',
+    pt: 'Aguarde um pouco antes de tentar novamente.',
+  },
+  'Too many verification emails': {
+    es: 'Demasiados correos de verificación',
+    pt: 'Muitos e-mails de verificação',
+  },
+  'Please wait 1 hour before requesting another verification email.': {
+    es: 'Espera 1 hora antes de solicitar otro correo de verificación.',
+    pt: 'Aguarde 1 hora antes de solicitar outro e-mail de verificação.',
+  },
+
+  // Profile and family
+  'User not found': { es: 'Usuario no encontrado', pt: 'Usuário não encontrado' },
+  'Profile not found': { es: 'Perfil no encontrado', pt: 'Perfil não encontrado' },
+  'User profile not found': { es: 'Perfil de usuario no encontrado', pt: 'Perfil de usuário não encontrado' },
+  'User has not completed onboarding': {
+    es: 'El usuario no ha completado la configuración inicial',
+    pt: 'O usuário não concluiu a configuração inicial',
+  },
+  'Child not found': { es: 'Niño o niña no encontrado', pt: 'Criança não encontrada' },
+  'Family not found': { es: 'Familia no encontrada', pt: 'Família não encontrada' },
+  'Family viewers cannot log activities': {
+    es: 'Los observadores de la familia no pueden registrar actividades',
+    pt: 'Observadores da família não podem registrar atividades',
+  },
+  'Family viewers cannot upload photos': {
+    es: 'Los observadores de la familia no pueden subir fotos',
+    pt: 'Observadores da família não podem enviar fotos',
+  },
+  'Milestone not found': { es: 'Hito no encontrado', pt: 'Marco não encontrado' },
+  'Memory not found': { es: 'Recuerdo no encontrado', pt: 'Memória não encontrada' },
+
+  // Chat and voice
+  'Message content or photos are required': {
+    es: 'Se requiere un mensaje o fotos',
+    pt: 'É necessário enviar uma mensagem ou fotos',
+  },
+  'Message content cannot be empty without photos': {
+    es: 'El mensaje no puede estar vacío si no hay fotos',
+    pt: 'A mensagem não pode ficar vazia sem fotos',
+  },
+  'Message content exceeds maximum length of 2000 characters': {
+    es: 'El mensaje supera el máximo de 2000 caracteres',
+    pt: 'A mensagem excede o limite de 2000 caracteres',
+  },
+  'Session ID is required': { es: 'Se requiere el ID de sesión', pt: 'O ID da sessão é obrigatório' },
+  'Search query is required': { es: 'Se requiere un término de búsqueda', pt: 'O termo de busca é obrigatório' },
+  'Failed to send message': { es: 'No se pudo enviar el mensaje', pt: 'Não foi possível enviar a mensagem' },
+  'Audio file is required': { es: 'Se requiere un archivo de audio', pt: 'O arquivo de áudio é obrigatório' },
+  'Transcription failed': { es: 'No se pudo transcribir', pt: 'Falha na transcrição' },
+  'Could not transcribe audio. Please try again or speak more clearly.': {
+    es: 'No se pudo transcribir el audio. Inténtalo de nuevo o habla con más claridad.',
+    pt: 'Não foi possível transcrever o áudio. Tente novamente ou fale com mais clareza.',
+  },
+  'Failed to process voice message': {
+    es: 'No se pudo procesar el mensaje de voz',
+    pt: 'Não foi possível processar a mensagem de voz',
+  },
+  'Failed to process audio': { es: 'No se pudo procesar el audio', pt: 'Não foi possível processar o áudio' },
+  'Failed to start voice session': {
+    es: 'No se pudo iniciar la sesión de voz',
+    pt: 'Não foi possível iniciar a sessão de voz',
+  },
+  'Failed to end voice session': {
+    es: 'No se pudo finalizar la sesión de voz',
+    pt: 'Não foi possível encerrar a sessão de voz',
+  },
+  'Voice session not started': { es: 'La sesión de voz no se ha iniciado', pt: 'A sessão de voz não foi iniciada' },
+  'Daily voice minute limit reached': {
+    es: 'Alcanzaste el límite diario de minutos de voz',
+    pt: 'Você atingiu o limite diário de minutos de voz',
+  },
+  'sampleRate must be an integer from 8000 to 48000': {
+    es: 'sampleRate debe ser un número entero entre 8000 y 48000',
+    pt: 'sampleRate deve ser um número inteiro entre 8000 e 48000',
+  },
+  'sessionId must be a non-empty string': {
+    es: 'sessionId debe ser un texto no vacío',
+    pt: 'sessionId deve ser um texto não vazio',
+  },
+  'Vision API temporarily unavailable': {
+    es: 'El análisis de fotos no está disponible temporalmente',
+    pt: 'A análise de fotos está temporariamente indisponível',
+  },
+
+  // Photos
+  'Photo not found': { es: 'Foto no encontrada', pt: 'Foto não encontrada' },
+  'No photo uploaded': { es: 'No se subió ninguna foto', pt: 'Nenhuma foto enviada' },
+  'No files uploaded': { es: 'No se subió ningún archivo', pt: 'Nenhum arquivo enviado' },
+  'No image file provided': { es: 'No se proporcionó ninguna imagen', pt: 'Nenhuma imagem fornecida' },
+  'File too large': { es: 'El archivo es demasiado grande', pt: 'Arquivo muito grande' },
+  'File size exceeds 10MB limit': {
+    es: 'El archivo supera el límite de 10 MB',
+    pt: 'O arquivo excede o limite de 10 MB',
+  },
+  'Maximum 3 files allowed per upload': {
+    es: 'Se permiten como máximo 3 archivos por envío',
+    pt: 'São permitidos no máximo 3 arquivos por envio',
+  },
+  'You do not have permission to delete this photo': {
+    es: 'No tienes permiso para eliminar esta foto',
+    pt: 'Você não tem permissão para excluir esta foto',
+  },
+  'Free tier allows maximum 100 photos. Upgrade to Premium for unlimited storage.': {
+    es: 'El plan gratuito permite como máximo 100 fotos. Pásate a Premium para tener almacenamiento ilimitado.',
+    pt: 'O plano gratuito permite no máximo 100 fotos. Assine o Premium para ter armazenamento ilimitado.',
+  },
+};
+
+/**
+ * Translates a server error message
+ *
+ * @param message - English message
+ * @param language - Language of the client
+ * @returns Translated message, or the English message if it has no translation
+ */
+export function translateError(message: string, language: Language): string {
+  if (language === DEFAULT_LANGUAGE) return message;
+  return ERROR_CATALOG[message]?.[language] ?? message;
+}
+
+/**
+ * Translates the `error` and `message` fields of an error response body
+ * Other fields (codes, details, validation errors) are left as they are.
+ *
+ * @param body - Response body
+ * @param language - Language of the client
+ * @returns Body with translated messages
+ */
+export function localizeErrorBody(body: unknown, language: Language): unknown {
+  if (!body || typeof body !== 'object' || Array.isArray(body) || language === DEFAULT_LANGUAGE) {
+    return body;
+  }
+
+  const { error, message } = body as { error?: unknown; message?: unknown };
+  return {
+    ...body,
+    ...(typeof error === 'string' && { error: translateError(error, language) }),
+    ...(typeof message === 'string' && { message: translateError(message, language) }),
+  };
+}
@@ -0,0 +1,255 @@
+/**
+ * Growth Percentile Utilities
+ *
+ * Calculates z-scores and percentiles for weight, length and head circumference
+ * from the bundled WHO Child Growth Standards LMS tables (data/who-growth-lms.json),
+ * and builds the percentile curves shown on growth charts.
+ *
+ * The tables cover boys and girls from birth to 24 months, one row per month of age.
+ * Ages in between are interpolated, so a baby measured mid-month is compared with
+ * the reference for their exact age.
+ */
+
+import { BabyGender } from '@prisma/client';
+import whoGrowthLms from '../data/who-growth-lms.json';
+
+/**
+ * Measurements with WHO reference data
+ */
+export type GrowthIndicator = 'weight' | 'length' | 'headCircumference';
+
+/**
+ * All supported indicators, in display order
+ */
+export const GROWTH_INDICATORS: GrowthIndicator[] = ['weight', 'length', 'headCircumference'];
+
+/**
+ * Box-Cox parameters for one age: power (L), median (M) and coefficient of variation (S)
+ */
+export interface LmsParameters {
+  L: number;
+  M: number;
+  S: number;
+}
+
+/**
+ * Position of a measurement relative to the WHO reference population
+ */
+export interface GrowthPercentile {
+  zScore: number; // Standard deviations from the median (2 decimals)
+  percentile: number; // 0-100 (1 decimal)
+}
+
+/**
+ * Values of the standard chart percentiles at one month of age
+ */
+export interface PercentileCurvePoint {
+  ageMonths: number;
+  p3: number;
+  p15: number;
+  p50: number;
+  p85: number;
+  p97: number;
+}
+
+// Z-scores of the percentile lines on WHO growth charts
+const CURVE_Z_SCORES: Record<Exclude<keyof PercentileCurvePoint, 'ageMonths'>, number> = {
+  p3: -1.881,
+  p15: -1.036,
+  p50: 0,
+  p85: 1.036,
+  p97: 1.881,
+};
+
+// Average days per month (365.25 / 12), as used by the WHO for ages in months
+const DAYS_PER_MONTH = 30.4375;
+
+// Milliseconds per day
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Oldest age (in months) covered by the bundled tables
+export const MAX_GROWTH_AGE_MONTHS = whoGrowthLms.indicators.weight.male.length - 1;
+
+/**
+ * Returns the unit a measurement is recorded in
+ *
+ * @param indicator - Growth indicator
+ * @returns "kg" or "cm"
+ */
+export function getIndicatorUnit(indicator: GrowthIndicator): string {
+  return whoGrowthLms.indicators[indicator].unit;
+}
+
+/**
+ * Calculates an age in fractional months
+ *
+ * @param birthDate - Date of birth
+ * @param at - Date to calculate the age at
+ * @returns Age in months (e.g. 4.5 halfway between 4 and 5 months)
+ */
+export function calculateAgeInMonths(birthDate: Date, at: Date): number {
+  return (at.getTime() - birthDate.getTime()) / MS_PER_DAY / DAYS_PER_MONTH;
+}
+
+/**
+ * Looks up the WHO LMS parameters for a sex and age
+ * Between whole months, L, M and S are interpolated linearly between the adjacent rows.
+ * The WHO standards only distinguish boys and girls, so other gender values have no reference.
+ *
+ * @param indicator - Growth indicator
+ * @param gender - Baby's gender
+ * @param ageMonths - Age in months (fractional)
+ * @returns LMS parameters, or null if the gender or age isn't covered
+ */
+export function getLmsParameters(
+  indicator: GrowthIndicator,
+  gender: BabyGender | null | undefined,
+  ageMonths: number,
+): LmsParameters | null {
+  if (gender !== BabyGender.MALE && gender !== BabyGender.FEMALE) {
+    return null;
+  }
+
+  if (!Number.isFinite(ageMonths) || ageMonths < 0 || ageMonths > MAX_GROWTH_AGE_MONTHS) {
+    return null;
+  }
+
+  const table = whoGrowthLms.indicators[indicator][gender === BabyGender.MALE ? 'male' : 'female'];
+  const lowerMonth = Math.floor(ageMonths);
+  const upperMonth = Math.min(lowerMonth + 1, MAX_GROWTH_AGE_MONTHS);
+  const fraction = ageMonths - lowerMonth;
+
+  const [L, M, S] = table[lowerMonth].map(
+    (value, i) => value + (table[upperMonth][i] - value) * fraction,
+  );
+
+  return { L, M, S };
+}
+
+/**
+ * Returns the measurement value at a z-score
+ *
+ * @param lms - LMS parameters
+ * @param zScore - Standard deviations from the median
+ * @returns Measurement value
+ */
+export function valueAtZScore(lms: LmsParameters, zScore: number): number {
+  const { L, M, S } = lms;
+
+  if (L === 0) {
+    return M * Math.exp(S * zScore);
+  }
+
+  return M * Math.pow(1 + L * S * zScore, 1 / L);
+}
+
+/**
+ * Calculates the z-score of a measurement
+ *
+ * Beyond ±3 SD the WHO restricts the LMS curve and measures distance in units of
+ * the 2-3 SD gap, so extreme values aren't over- or underestimated.
+ *
+ * @param value - Measured value (kg or cm)
+ * @param lms - LMS parameters for the baby's sex and age
+ * @returns Z-score
+ */
+export function calculateZScore(value: number, lms: LmsParameters): number {
+  const { L, M, S } = lms;
+
+  const zScore = L === 0
+    ? Math.log(value / M) / S
+    : (Math.pow(value / M, L) - 1) / (L * S);
+
+  if (zScore > 3) {
+    const sd3 = valueAtZScore(lms, 3);
+    return 3 + (value - sd3) / (sd3 - valueAtZScore(lms, 2));
+  }
+
+  if (zScore < -3) {
+    const sd3 = valueAtZScore(lms, -3);
+    return -3 - (sd3 - value) / (valueAtZScore(lms, -2) - sd3);
+  }
+
+  return zScore;
+}
+
+/**
+ * Converts a z-score to a percentile with the standard normal distribution
+ * Uses the Abramowitz-Stegun approximation of the error function (error < 1.5e-7).
+ *
+ * @param zScore - Standard deviations from the median
+ * @returns Percentile between 0 and 100
+ */
+export function zScoreToPercentile(zScore: number): number {
+  const x = Math.abs(zScore) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t) * Math.exp(-x * x);
+
+  const cdf = zScore >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+  return cdf * 100;
+}
+
+/**
+ * Calculates where a measurement falls in the WHO reference population
+ *
+ * @param indicator - Growth indicator
+ * @param gender - Baby's gender
+ * @param ageMonths - Age in months (fractional) at the time of measurement
+ * @param value - Measured value (kg or cm)
+ * @returns Z-score and percentile, or null if the gender or age isn't covered
+ */
+export function calculateGrowthPercentile(
+  indicator: GrowthIndicator,
+  gender: BabyGender | null | undefined,
+  ageMonths: number,
+  value: number,
+): GrowthPercentile | null {
+  const lms = getLmsParameters(indicator, gender, ageMonths);
+  if (!lms || value <= 0) {
+    return null;
+  }
+
+  const zScore = calculateZScore(value, lms);
+
+  return {
+    zScore: Math.round(zScore * 100) / 100 || 0, // Avoid -0 for values just below the median
+    percentile: Math.round(zScoreToPercentile(zScore) * 10) / 10,
+  };
+}
+
+/**
+ * Builds the 3rd/15th/50th/85th/97th percentile curves for a growth chart
+ *
+ * @param indicator - Growth indicator
+ * @param gender - Baby's gender
+ * @param maxAgeMonths - Last month to include (capped at the table range)
+ * @returns One point per month, or an empty array if the gender isn't covered
+ */
+export function getPercentileCurves(
+  indicator: GrowthIndicator,
+  gender: BabyGender | null | undefined,
+  maxAgeMonths: number = MAX_GROWTH_AGE_MONTHS,
+): PercentileCurvePoint[] {
+  const curves: PercentileCurvePoint[] = [];
+  const lastMonth = Math.min(Math.max(0, Math.floor(maxAgeMonths)), MAX_GROWTH_AGE_MONTHS);
+
+  for (let ageMonths = 0; ageMonths <= lastMonth; ageMonths++) {
+    const lms = getLmsParameters(indicator, gender, ageMonths);
+    if (!lms) {
+      return [];
+    }
+
+    const valueAt = (zScore: number): number => Math.round(valueAtZScore(lms, zScore) * 100) / 100;
+
+    curves.push({
+      ageMonths,
+      p3: valueAt(CURVE_Z_SCORES.p3),
+      p15: valueAt(CURVE_Z_SCORES.p15),
+      p50: valueAt(CURVE_Z_SCORES.p50),
+      p85: valueAt(CURVE_Z_SCORES.p85),
+      p97: valueAt(CURVE_Z_SCORES.p97),
+    });
+  }
+
+  return curves;
+}
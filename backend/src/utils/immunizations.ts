@@ -0,0 +1,199 @@
+/**
+ * Immunization Schedule Utilities
+ *
+ * Pure helpers that turn a country's reference schedule (ImmunizationScheduleDose rows,
+ * seeded from data/immunization-schedules.json) and a child's vaccination records into
+ * per-dose statuses: completed, overdue, due, upcoming or scheduled for later.
+ *
+ * Schedule ages are stored as data ({ "months": 2 }, { "weeks": 8 }, { "days": 0 })
+ * and converted to dates from the child's birth date.
+ */
+
+// Milliseconds per day
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Age at which a dose is due or overdue
+ */
+export interface ScheduleAge {
+  days?: number;
+  weeks?: number;
+  months?: number;
+}
+
+/**
+ * Where a dose stands for a child
+ * - COMPLETED: a matching record exists
+ * - OVERDUE: past the end of the recommended age window
+ * - DUE: inside the recommended age window
+ * - UPCOMING: due within the look-ahead window (e.g. the next 30 days)
+ * - SCHEDULED: due later
+ */
+export type DoseStatus = 'COMPLETED' | 'OVERDUE' | 'DUE' | 'UPCOMING' | 'SCHEDULED';
+
+/**
+ * Schedule dose fields used to compute statuses
+ */
+export interface ScheduleDose {
+  id: string;
+  vaccineCode: string;
+  vaccineName: string;
+  doseNumber: number;
+  dueAge: ScheduleAge;
+  overdueAge: ScheduleAge;
+  notes: string | null;
+}
+
+/**
+ * Vaccination record fields used to match doses
+ */
+export interface ImmunizationRecordInput {
+  id: string;
+  scheduleDoseId: string | null;
+  vaccineCode: string;
+  doseNumber: number | null;
+  administeredAt: Date;
+}
+
+/**
+ * Status of one schedule dose for a child
+ */
+export interface DoseStatusEntry {
+  scheduleDoseId: string;
+  vaccineCode: string;
+  vaccineName: string;
+  doseNumber: number;
+  status: DoseStatus;
+  dueDate: Date;
+  overdueDate: Date;
+  recordId: string | null;
+  administeredAt: Date | null;
+  notes: string | null;
+}
+
+/**
+ * Checks whether a JSON value is a valid schedule age
+ * At least one of days, weeks or months must be set, all as non-negative integers.
+ *
+ * @param value - Value from the schedule data or database
+ * @returns true if the value is a schedule age
+ */
+export function isScheduleAge(value: unknown): value is ScheduleAge {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return false;
+  }
+
+  const entries = Object.entries(value);
+  return (
+    entries.length > 0 &&
+    entries.every(([key, amount]) =>
+      ['days', 'weeks', 'months'].includes(key) &&
+      typeof amount === 'number' &&
+      Number.isInteger(amount) &&
+      amount >= 0,
+    )
+  );
+}
+
+/**
+ * Returns the date a child reaches a schedule age
+ * Months are calendar months; a birth date on the 31st lands on the last day of shorter months.
+ *
+ * @param birthDate - Child's birth date
+ * @param age - Schedule age
+ * @returns Date the age is reached
+ */
+export function addScheduleAge(birthDate: Date, age: ScheduleAge): Date {
+  const date = new Date(birthDate.getTime());
+
+  if (age.months) {
+    const day = date.getUTCDate();
+    date.setUTCDate(1);
+    date.setUTCMonth(date.getUTCMonth() + age.months);
+
+    const daysInMonth = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+    date.setUTCDate(Math.min(day, daysInMonth));
+  }
+
+  const days = (age.weeks ?? 0) * 7 + (age.days ?? 0);
+  return new Date(date.getTime() + days * MS_PER_DAY);
+}
+
+/**
+ * Computes the status of every schedule dose for a child
+ *
+ * A record fulfills a dose if it is linked to it, or (for unlinked records) has the
+ * same vaccine code and dose number. Each record fulfills at most one dose.
+ *
+ * @param doses - Reference schedule doses for the child's country
+ * @param records - Child's vaccination records
+ * @param birthDate - Child's birth date
+ * @param now - Current time
+ * @param upcomingDays - Look-ahead window for UPCOMING doses
+ * @returns One entry per schedule dose, ordered by due date
+ */
+export function computeDoseStatuses(
+  doses: ScheduleDose[],
+  records: ImmunizationRecordInput[],
+  birthDate: Date,
+  now: Date = new Date(),
+  upcomingDays = 30,
+): DoseStatusEntry[] {
+  const usedRecordIds = new Set<string>();
+  const upcomingUntil = now.getTime() + upcomingDays * MS_PER_DAY;
+
+  // Linked records first, so an unlinked record can't take a dose another record was linked to
+  const linkedRecords = new Map<string, ImmunizationRecordInput>();
+  for (const record of records) {
+    if (record.scheduleDoseId && !linkedRecords.has(record.scheduleDoseId)) {
+      linkedRecords.set(record.scheduleDoseId, record);
+      usedRecordIds.add(record.id);
+    }
+  }
+
+  const entries = doses.map((dose): DoseStatusEntry => {
+    const dueDate = addScheduleAge(birthDate, dose.dueAge);
+    const overdueDate = addScheduleAge(birthDate, dose.overdueAge);
+
+    let record = linkedRecords.get(dose.id);
+    if (!record) {
+      record = records.find((candidate) =>
+        !usedRecordIds.has(candidate.id) &&
+        !candidate.scheduleDoseId &&
+        candidate.vaccineCode.toLowerCase() === dose.vaccineCode.toLowerCase() &&
+        candidate.doseNumber === dose.doseNumber,
+      );
+      if (record) {
+        usedRecordIds.add(record.id);
+      }
+    }
+
+    let status: DoseStatus;
+    if (record) {
+      status = 'COMPLETED';
+    } else if (now >= overdueDate) {
+      status = 'OVERDUE';
+    } else if (now >= dueDate) {
+      status = 'DUE';
+    } else if (dueDate.getTime() <= upcomingUntil) {
+      status = 'UPCOMING';
+    } else {
+      status = 'SCHEDULED';
+    }
+
+    return {
+      scheduleDoseId: dose.id,
+      vaccineCode: dose.vaccineCode,
+      vaccineName: dose.vaccineName,
+      doseNumber: dose.doseNumber,
+      status,
+      dueDate,
+      overdueDate,
+      recordId: record?.id ?? null,
+      administeredAt: record?.administeredAt ?? null,
+      notes: dose.notes,
+    };
+  });
+
+  return entries.sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+}
@@ -0,0 +1,182 @@
+/**
+ * Job Scheduling Utilities
+ *
+ * Pure helpers for the background job runner: a 5-field cron expression parser,
+ * next-occurrence calculation and retry backoff.
+ *
+ * Cron expressions use the standard "minute hour day-of-month month day-of-week" fields
+ * and are evaluated in UTC. Each field supports "*", numbers, ranges ("1-5"), steps
+ * ("*\/15", "0-30/10") and lists ("1,15"). Day of week is 0-6 (Sunday = 0, 7 is also Sunday).
+ * As in classic cron, when both day fields are restricted a day matches either one.
+ */
+
+/**
+ * Parsed cron expression: allowed values per field
+ */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>; // 1-12
+  daysOfWeek: Set<number>; // 0-6, Sunday = 0
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+// Value range of each cron field, in expression order
+const CRON_FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+];
+
+// Upper bound on search steps; every valid expression matches within a few hundred
+const MAX_CRON_SEARCH_STEPS = 10_000;
+
+/**
+ * Parses one cron field
+ *
+ * @param field - Field text (e.g. "*\/15", "1-5", "0,30")
+ * @param min - Smallest allowed value
+ * @param max - Largest allowed value
+ * @param name - Field name for error messages
+ * @returns Allowed values
+ * @throws Error if the field is malformed or out of range
+ */
+function parseCronField(field: string, min: number, max: number, name: string): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new Error(`Invalid cron ${name} field "${field}"`);
+    }
+
+    const [, range, startText, endText, stepText] = match;
+    const step = stepText ? parseInt(stepText) : 1;
+    let start = min;
+    let end = max;
+
+    if (range !== '*') {
+      start = parseInt(startText);
+      // "5/15" means every 15 from 5 to the end of the range
+      end = endText ? parseInt(endText) : stepText ? max : start;
+    }
+
+    if (start < min || end > max || start > end || step < 1) {
+      throw new Error(`Cron ${name} field "${field}" is out of range (${min}-${max})`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parses a 5-field cron expression
+ *
+ * @param expression - Cron expression (e.g. "0 9 * * 1" for Mondays at 09:00 UTC)
+ * @returns Parsed schedule
+ * @throws Error if the expression is malformed
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== CRON_FIELDS.length) {
+    throw new Error(`Cron expression "${expression}" must have 5 fields`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+    parseCronField(field, CRON_FIELDS[index].min, CRON_FIELDS[index].max, CRON_FIELDS[index].name),
+  );
+
+  // 7 is an alias for Sunday
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: fields[2] !== '*',
+    dayOfWeekRestricted: fields[4] !== '*',
+  };
+}
+
+/**
+ * Checks whether a schedule runs on a day
+ *
+ * @param schedule - Parsed schedule
+ * @param date - Any time on the day (UTC)
+ * @returns true if the day matches the month and day fields
+ */
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  if (!schedule.months.has(date.getUTCMonth() + 1)) {
+    return false;
+  }
+
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Returns the next time a cron schedule fires
+ *
+ * @param expression - Cron expression or parsed schedule
+ * @param after - Start of the search (exclusive)
+ * @returns First matching minute strictly after the given time
+ * @throws Error if the expression is malformed or never matches (e.g. "0 0 31 2 *")
+ */
+export function getNextCronTime(expression: string | CronSchedule, after: Date): Date {
+  const schedule = typeof expression === 'string' ? parseCronExpression(expression) : expression;
+
+  // Start at the next whole minute
+  const date = new Date(Math.floor(after.getTime() / 60000) * 60000 + 60000);
+
+  for (let step = 0; step < MAX_CRON_SEARCH_STEPS; step++) {
+    if (!matchesDay(schedule, date)) {
+      date.setUTCHours(24, 0, 0, 0);
+      continue;
+    }
+
+    if (!schedule.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+
+    if (!schedule.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+
+    return date;
+  }
+
+  throw new Error('Cron expression never matches');
+}
+
+/**
+ * Returns how long to wait before retrying a failed job
+ * Doubles with every attempt: base, 2x base, 4x base, ... capped at maxMs.
+ *
+ * @param attempt - Attempt that just failed (1 for the first attempt)
+ * @param baseMs - Delay after the first failure
+ * @param maxMs - Longest delay
+ * @returns Delay in milliseconds
+ */
+export function getRetryDelayMs(attempt: number, baseMs = 30_000, maxMs = 60 * 60 * 1000): number {
+  return Math.min(baseMs * Math.pow(2, Math.max(0, attempt - 1)), maxMs);
+}
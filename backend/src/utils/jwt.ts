@@ -6,10 +6,13 @@
  *
  * Token Types:
  * - Access Token: Short-lived (7 days), used for API authentication
- * - Refresh Token: Long-lived (30 days), used to get new access tokens
+ * - Refresh Token: Long-lived (30 days), used to get new access tokens.
+ *   Refresh tokens are also stored server-side (see services/authSessions.ts)
+ *   and rotated on every use.
  */
 
 import jwt from 'jsonwebtoken';
+import { randomUUID } from 'crypto';
 
 /**
  * Payload structure for JWT access tokens
@@ -18,6 +21,8 @@ import jwt from 'jsonwebtoken';
 export interface AccessTokenPayload {
   userId: string; // User's UUID from database
   email: string; // User's email address
+  emailVerified: boolean; // Whether the user has verified their email address
+  sessionId?: string; // Login session (device) the token was issued for (missing in tokens from before sessions)
 }
 
 /**
@@ -26,6 +31,8 @@ export interface AccessTokenPayload {
  */
 export interface RefreshTokenPayload {
   userId: string; // User's UUID from database
+  tokenVersion: number; // Must match User.tokenVersion, bumped to revoke all refresh tokens
+  sessionId: string; // Login session (token family) the token belongs to
 }
 
 /**
@@ -36,12 +43,16 @@ export interface RefreshTokenPayload {
  *
  * @param userId - UUID of the user from database
  * @param email - User's email address for token payload
+ * @param emailVerified - Whether the user's email address is verified
+ * @param sessionId - Login session the token is issued for
  * @returns Signed JWT access token string with 7-day expiry
  * @throws Error if JWT_SECRET environment variable is not set
  */
 export function generateAccessToken(
   userId: string,
   email: string,
+  emailVerified: boolean,
+  sessionId: string,
 ): string {
   // Verify JWT_SECRET is configured in environment
   if (!process.env.JWT_SECRET) {
@@ -52,6 +63,8 @@ export function generateAccessToken(
   const payload: AccessTokenPayload = {
     userId,
     email,
+    emailVerified,
+    sessionId,
   };
 
   // Sign token with secret key and set 7-day expiration
@@ -68,24 +81,34 @@ export function generateAccessToken(
  * They are used to obtain new access tokens without re-authentication.
  *
  * @param userId - UUID of the user from database
+ * @param tokenVersion - User's current token version (User.tokenVersion)
+ * @param sessionId - Login session the token belongs to
  * @returns Signed JWT refresh token string with 30-day expiry
  * @throws Error if JWT_REFRESH_SECRET environment variable is not set
  */
-export function generateRefreshToken(userId: string): string {
+export function generateRefreshToken(
+  userId: string,
+  tokenVersion: number,
+  sessionId: string,
+): string {
   // Verify JWT_REFRESH_SECRET is configured in environment
   if (!process.env.JWT_REFRESH_SECRET) {
     throw new Error('JWT_REFRESH_SECRET environment variable is not set');
   }
 
-  // Create token payload with only user ID (minimal data for security)
+  // Create token payload with user ID, token version and session (minimal data for security)
   const payload: RefreshTokenPayload = {
     userId,
+    tokenVersion,
+    sessionId,
   };
 
   // Sign token with separate secret key and set 30-day expiration
   // Using separate secret allows invalidating refresh tokens independently
+  // Unique jwtid keeps tokens rotated within the same second distinct
   return jwt.sign(payload, process.env.JWT_REFRESH_SECRET, {
     expiresIn: '30d',
+    jwtid: randomUUID(),
   });
 }
 
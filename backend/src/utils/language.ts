@@ -0,0 +1,64 @@
+/**
+ * Language Utilities
+ *
+ * Languages the assistant speaks, and parsing of language tags from profiles and
+ * Accept-Language headers. Regional tags ("es-MX", "pt-BR") map to their base language.
+ */
+
+// Supported languages (ISO 639-1, also the codes Whisper accepts)
+export const SUPPORTED_LANGUAGES = ['en', 'es', 'pt'] as const;
+
+export type Language = (typeof SUPPORTED_LANGUAGES)[number];
+
+// Language of server messages when the client doesn't ask for another one
+export const DEFAULT_LANGUAGE = 'en' satisfies Language;
+
+// English names, used in model prompts
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  en: 'English',
+  es: 'Spanish',
+  pt: 'Portuguese',
+};
+
+/**
+ * Checks whether a value is a supported language code
+ *
+ * @param value - Value to check
+ * @returns true for a code in SUPPORTED_LANGUAGES
+ */
+export function isSupportedLanguage(value: unknown): value is Language {
+  return typeof value === 'string' && (SUPPORTED_LANGUAGES as readonly string[]).includes(value);
+}
+
+/**
+ * Reads a language tag
+ *
+ * @param tag - Language tag (e.g. "es", "pt-BR"), or null/undefined
+ * @returns Supported base language, or null if unset or not supported
+ */
+export function parseLanguage(tag: string | null | undefined): Language | null {
+  const base = tag?.trim().toLowerCase().split(/[-_]/)[0];
+  return isSupportedLanguage(base) ? base : null;
+}
+
+/**
+ * Picks the preferred supported language from an Accept-Language header
+ *
+ * @param header - Header value (e.g. "pt-BR,pt;q=0.9,en;q=0.8")
+ * @returns Supported language with the highest weight, or null if none is supported
+ */
+export function parseAcceptLanguage(header: string | undefined): Language | null {
+  if (!header) return null;
+
+  const ranked = header
+    .split(',')
+    .map((part) => {
+      const [tag, ...params] = part.split(';');
+      const quality = params.map((param) => param.trim().match(/^q=([\d.]+)$/)?.[1]).find(Boolean);
+      return { language: parseLanguage(tag), quality: quality !== undefined ? parseFloat(quality) : 1 };
+    })
+    .filter((entry) => entry.language && entry.quality > 0)
+    .sort((a, b) => b.quality - a.quality);
+
+  return ranked[0]?.language ?? null;
+}
@@ -0,0 +1,179 @@
+/**
+ * Memory Utilities
+ *
+ * Pure helpers for the assistant's long-term memory: validating facts extracted
+ * by the model, spotting facts that are already remembered, and choosing which
+ * memories are relevant to the current message within a token budget.
+ */
+
+import { MemoryCategory } from '@prisma/client';
+import { estimateTokens } from './chatContext';
+import { findTermMatches, getQueryTerms } from './conversationSearch';
+
+export const MEMORY_CATEGORIES: MemoryCategory[] = ['HEALTH', 'MEDICAL_ADVICE', 'FAMILY', 'ROUTINE', 'PREFERENCE', 'OTHER'];
+
+// Longest memory (one or two sentences)
+export const MAX_MEMORY_LENGTH = 300;
+
+// Facts extracted from a single exchange
+const MAX_EXTRACTED_PER_TURN = 5;
+
+// Memories whose words overlap this much with an existing one are duplicates
+const DUPLICATE_WORD_OVERLAP = 0.8;
+
+// Categories worth knowing in every conversation, and how strongly
+// (an allergy matters even when the question is about sleep)
+const CATEGORY_PRIORITY: Record<MemoryCategory, number> = {
+  HEALTH: 3,
+  MEDICAL_ADVICE: 2,
+  FAMILY: 2,
+  ROUTINE: 0,
+  PREFERENCE: 0,
+  OTHER: 0,
+};
+
+// Extra relevance per query term a memory mentions
+const TERM_MATCH_WEIGHT = 2;
+
+/**
+ * Memory fields used for selection
+ */
+export interface MemoryRecord {
+  category: MemoryCategory;
+  content: string;
+  updatedAt: Date;
+}
+
+/**
+ * Fact extracted from a conversation
+ */
+export interface ExtractedMemory {
+  category: MemoryCategory;
+  content: string;
+}
+
+/**
+ * Parses a memory category
+ *
+ * @param value - Raw category (any case)
+ * @returns Category, or null if unknown
+ */
+export function parseMemoryCategory(value: unknown): MemoryCategory | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const upper = value.trim().toUpperCase();
+  return MEMORY_CATEGORIES.find((category) => category === upper) ?? null;
+}
+
+/**
+ * Cleans up memory text: single line, within the length limit
+ *
+ * @param content - Raw memory text
+ * @returns Cleaned text (empty if nothing is left)
+ */
+export function normalizeMemoryContent(content: string): string {
+  return content.replace(/\s+/g, ' ').trim().slice(0, MAX_MEMORY_LENGTH);
+}
+
+/**
+ * Parses and validates facts returned by the model
+ * Expects JSON like { "memories": [{ "category", "content" }] }. Facts without
+ * content are dropped; unknown categories become OTHER.
+ *
+ * @param content - Raw model response
+ * @returns Valid facts (at most 5), empty if the response is unusable
+ */
+export function parseExtractedMemories(content: string): ExtractedMemory[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    return [];
+  }
+
+  const items = (parsed as { memories?: unknown })?.memories;
+  if (!Array.isArray(items)) {
+    return [];
+  }
+
+  const memories: ExtractedMemory[] = [];
+  for (const item of items as Record<string, unknown>[]) {
+    const text = typeof item?.content === 'string' ? normalizeMemoryContent(item.content) : '';
+    if (!text) {
+      continue;
+    }
+
+    memories.push({ category: parseMemoryCategory(item.category) ?? 'OTHER', content: text });
+  }
+
+  return memories.slice(0, MAX_EXTRACTED_PER_TURN);
+}
+
+/**
+ * Returns the distinct lowercase words of a text
+ *
+ * @param text - Text to split
+ * @returns Word set
+ */
+function wordSet(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []);
+}
+
+/**
+ * Checks whether a fact is already remembered (same words, give or take a few)
+ *
+ * @param content - New fact
+ * @param existing - Remembered facts
+ * @returns true if a remembered fact says (almost) the same thing
+ */
+export function isDuplicateMemory(content: string, existing: string[]): boolean {
+  const words = wordSet(content);
+  if (words.size === 0) {
+    return true;
+  }
+
+  return existing.some((other) => {
+    const otherWords = wordSet(other);
+    const shared = [...words].filter((word) => otherWords.has(word)).length;
+    const union = new Set([...words, ...otherWords]).size;
+    return shared / union >= DUPLICATE_WORD_OVERLAP;
+  });
+}
+
+/**
+ * Chooses the memories to add to the system prompt for a message
+ *
+ * Health facts, professional advice and family details are always candidates;
+ * other memories only when they share words with the message. The most relevant
+ * (then most recently updated) are kept until the token budget is used up.
+ *
+ * @param memories - All of the user's memories
+ * @param message - The parent's current message
+ * @param maxTokens - Token budget for the memory lines
+ * @returns Selected memories, most relevant first
+ */
+export function selectRelevantMemories<T extends MemoryRecord>(memories: T[], message: string, maxTokens: number): T[] {
+  const terms = getQueryTerms(message);
+
+  const scored = memories
+    .map((memory) => {
+      const matchedTerms = terms.filter((term) => findTermMatches(memory.content, [term]).length > 0).length;
+      return { memory, relevance: CATEGORY_PRIORITY[memory.category] + matchedTerms * TERM_MATCH_WEIGHT };
+    })
+    .filter(({ relevance }) => relevance > 0)
+    .sort((a, b) => b.relevance - a.relevance || b.memory.updatedAt.getTime() - a.memory.updatedAt.getTime());
+
+  const selected: T[] = [];
+  let usedTokens = 0;
+  for (const { memory } of scored) {
+    const cost = estimateTokens(`- ${memory.content}`) + 1;
+    if (usedTokens + cost > maxTokens) continue;
+
+    selected.push(memory);
+    usedTokens += cost;
+  }
+
+  return selected;
+}
@@ -218,12 +218,12 @@ const MILESTONE_TEMPLATES: MilestoneSuggestion[] = [
  * Calculate baby's age in months from birth date
  *
  * @param birthDate - Baby's birth date
+ * @param asOf - Date to calculate the age at (default: today)
  * @returns Age in months (rounded to nearest month)
  */
-export function calculateBabyAgeInMonths(birthDate: Date): number {
-  const today = new Date();
+export function calculateBabyAgeInMonths(birthDate: Date, asOf: Date = new Date()): number {
   const ageInDays = Math.floor(
-    (today.getTime() - birthDate.getTime()) / (1000 * 60 * 60 * 24)
+    (asOf.getTime() - birthDate.getTime()) / (1000 * 60 * 60 * 24)
   );
 
   // Convert days to months (approximate: 30 days per month)
@@ -241,14 +241,16 @@ export function calculateBabyAgeInMonths(birthDate: Date): number {
  *
  * @param birthDate - Baby's birth date
  * @param alreadyLoggedMilestoneNames - Array of milestone names already logged
+ * @param asOf - Date to suggest milestones for (default: today)
  * @returns Array of suggested milestone templates
  */
 export function suggestMilestones(
   birthDate: Date,
-  alreadyLoggedMilestoneNames: string[] = []
+  alreadyLoggedMilestoneNames: string[] = [],
+  asOf: Date = new Date()
 ): MilestoneSuggestion[] {
-  // Calculate baby's current age in months
-  const ageInMonths = calculateBabyAgeInMonths(birthDate);
+  // Calculate baby's age in months on that date
+  const ageInMonths = calculateBabyAgeInMonths(birthDate, asOf);
 
   console.log(`🏆 Suggesting milestones for baby age: ${ageInMonths} months`);
 
@@ -0,0 +1,171 @@
+/**
+ * Notification Preference Utilities
+ *
+ * Pure helpers for deciding whether a push notification may be sent:
+ * per-category opt-outs stored in UserProfile.notificationPreferences and
+ * quiet hours evaluated in the user's time zone.
+ */
+
+// Minutes per day
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Notification categories users can opt out of
+ * Keys match the toggles collected during onboarding.
+ */
+export type NotificationCategory = 'dailyMilestoneUpdates' | 'weeklyTipsGuidance' | 'milestoneReminders';
+
+/**
+ * All notification categories
+ */
+export const NOTIFICATION_CATEGORIES: NotificationCategory[] = [
+  'dailyMilestoneUpdates',
+  'weeklyTipsGuidance',
+  'milestoneReminders',
+];
+
+/**
+ * Normalized notification preferences
+ */
+export interface NotificationPreferences {
+  pushEnabled: boolean; // Master switch for all push notifications
+  dailyMilestoneUpdates: boolean;
+  weeklyTipsGuidance: boolean;
+  milestoneReminders: boolean;
+}
+
+/**
+ * Reads stored notification preferences
+ * Missing or malformed keys are treated as enabled, matching the onboarding defaults.
+ *
+ * @param value - UserProfile.notificationPreferences JSON
+ * @returns Preferences with every key set
+ */
+export function parseNotificationPreferences(value: unknown): NotificationPreferences {
+  const stored = value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+
+  const enabled = (key: string): boolean => stored[key] !== false;
+
+  return {
+    pushEnabled: enabled('pushEnabled'),
+    dailyMilestoneUpdates: enabled('dailyMilestoneUpdates'),
+    weeklyTipsGuidance: enabled('weeklyTipsGuidance'),
+    milestoneReminders: enabled('milestoneReminders'),
+  };
+}
+
+/**
+ * Checks whether the user wants notifications of a category
+ *
+ * @param preferences - Normalized preferences
+ * @param category - Notification category
+ * @returns true if push is enabled and the category is not turned off
+ */
+export function isCategoryEnabled(preferences: NotificationPreferences, category: NotificationCategory): boolean {
+  return preferences.pushEnabled && preferences[category];
+}
+
+/**
+ * Parses a local time of day
+ *
+ * @param value - Time in 24-hour "HH:MM" format
+ * @returns Minutes since midnight, or null if the value is malformed
+ */
+export function parseTimeOfDay(value: unknown): number | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(value);
+  if (!match) {
+    return null;
+  }
+
+  return parseInt(match[1]) * 60 + parseInt(match[2]);
+}
+
+/**
+ * Checks whether a string is an IANA time zone known to the runtime
+ *
+ * @param value - Time zone name (e.g. "America/New_York")
+ * @returns true if the time zone can be used for date formatting
+ */
+export function isValidTimeZone(value: unknown): value is string {
+  if (typeof value !== 'string' || !value) {
+    return false;
+  }
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns the local time of day in a time zone
+ *
+ * @param date - Instant to convert
+ * @param timeZone - IANA time zone
+ * @returns Minutes since local midnight
+ */
+export function getLocalMinutes(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const hour = parseInt(parts.find((part) => part.type === 'hour')?.value ?? '0');
+  const minute = parseInt(parts.find((part) => part.type === 'minute')?.value ?? '0');
+
+  return hour * 60 + minute;
+}
+
+/**
+ * Quiet hours of a user
+ */
+export interface QuietHours {
+  start: string; // Local "HH:MM"
+  end: string; // Local "HH:MM"
+  timeZone: string | null; // IANA time zone (UTC when null)
+}
+
+/**
+ * Returns when the current quiet hours end
+ *
+ * Quiet hours may span midnight (e.g. 21:00-07:00). Equal start and end times,
+ * malformed times or an unknown time zone disable quiet hours.
+ *
+ * @param quietHours - User's quiet hours
+ * @param now - Current time
+ * @returns End of the quiet period, or null if notifications may be sent now
+ */
+export function getQuietHoursEnd(quietHours: QuietHours, now: Date = new Date()): Date | null {
+  const start = parseTimeOfDay(quietHours.start);
+  const end = parseTimeOfDay(quietHours.end);
+  const timeZone = quietHours.timeZone ?? 'UTC';
+
+  if (start === null || end === null || start === end || !isValidTimeZone(timeZone)) {
+    return null;
+  }
+
+  const current = getLocalMinutes(now, timeZone);
+  const isQuiet = start < end
+    ? current >= start && current < end
+    : current >= start || current < end;
+
+  if (!isQuiet) {
+    return null;
+  }
+
+  // Round down to the start of the current minute, then move forward to the end time
+  const minutesUntilEnd = (end - current + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const startOfMinute = Math.floor(now.getTime() / 60000) * 60000;
+
+  return new Date(startOfMinute + minutesUntilEnd * 60000);
+}
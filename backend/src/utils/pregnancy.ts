@@ -0,0 +1,215 @@
+/**
+ * Pregnancy Utilities
+ *
+ * Pure helpers for pregnancy mode: gestational age from the due date, trimesters,
+ * the default prenatal checklist, and the birth date recorded when the baby arrives.
+ *
+ * Pregnancy is dated from the first day of the last menstrual period, 280 days
+ * (40 weeks) before the due date. "Week n" means n completed weeks, so someone
+ * 12 weeks and 3 days pregnant sees the week 12 content.
+ */
+
+// Milliseconds per day
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Length of a full-term pregnancy from the last menstrual period
+export const PREGNANCY_LENGTH_DAYS = 280;
+
+// Weeks with reference content (pregnancies beyond 42 weeks are induced)
+export const MIN_PREGNANCY_WEEK = 1;
+export const MAX_PREGNANCY_WEEK = 42;
+
+/**
+ * How far along a pregnancy is
+ */
+export interface PregnancyProgress {
+  weeks: number; // Completed weeks
+  days: number; // Days into the current week (0-6)
+  contentWeek: number; // weeks clamped to the range with reference content
+  trimester: number; // 1-3
+  daysUntilDue: number; // Negative once the due date has passed
+  percentComplete: number; // 0-100, of 40 weeks
+}
+
+/**
+ * Default prenatal checklist item
+ */
+export interface PrenatalChecklistTemplate {
+  key: string;
+  title: string;
+  dueWeek: number | null;
+  notes?: string;
+}
+
+/**
+ * Default prenatal checklist, copied to a user's checklist when they first open it
+ * dueWeek is the week of pregnancy the item should be done by.
+ */
+export const PRENATAL_CHECKLIST_TEMPLATES: PrenatalChecklistTemplate[] = [
+  {
+    key: 'prenatal-vitamins',
+    title: 'Start a prenatal vitamin with folic acid',
+    dueWeek: 6,
+  },
+  {
+    key: 'first-prenatal-visit',
+    title: 'Book your first prenatal appointment',
+    dueWeek: 8,
+    notes: 'Usually between weeks 8 and 10.',
+  },
+  {
+    key: 'genetic-screening',
+    title: 'Decide on genetic screening (NIPT or first-trimester screening)',
+    dueWeek: 13,
+  },
+  {
+    key: 'dating-scan',
+    title: 'Dating ultrasound',
+    dueWeek: 14,
+  },
+  {
+    key: 'anatomy-scan',
+    title: 'Anatomy scan',
+    dueWeek: 22,
+    notes: 'Usually between weeks 18 and 22.',
+  },
+  {
+    key: 'parental-leave',
+    title: 'Plan parental leave with your employer',
+    dueWeek: 24,
+  },
+  {
+    key: 'glucose-screening',
+    title: 'Glucose screening for gestational diabetes',
+    dueWeek: 28,
+    notes: 'Usually between weeks 24 and 28.',
+  },
+  {
+    key: 'childbirth-class',
+    title: 'Sign up for a childbirth or parenting class',
+    dueWeek: 30,
+  },
+  {
+    key: 'birth-plan',
+    title: 'Write a birth plan and share it with your provider',
+    dueWeek: 34,
+  },
+  {
+    key: 'choose-pediatrician',
+    title: 'Choose a pediatrician',
+    dueWeek: 34,
+  },
+  {
+    key: 'tdap-vaccine',
+    title: 'Whooping cough (Tdap) vaccine',
+    dueWeek: 36,
+    notes: 'Recommended between weeks 27 and 36 of every pregnancy.',
+  },
+  {
+    key: 'car-seat',
+    title: 'Install and check the infant car seat',
+    dueWeek: 36,
+  },
+  {
+    key: 'hospital-bag',
+    title: 'Pack your hospital bag',
+    dueWeek: 36,
+  },
+  {
+    key: 'group-b-strep',
+    title: 'Group B strep test',
+    dueWeek: 37,
+    notes: 'Usually between weeks 36 and 37.',
+  },
+];
+
+/**
+ * Returns the trimester of a week of pregnancy
+ * First trimester: weeks 1-13, second: 14-27, third: 28 onwards
+ *
+ * @param week - Week of pregnancy
+ * @returns Trimester (1-3)
+ */
+export function getTrimester(week: number): number {
+  if (week < 14) {
+    return 1;
+  }
+  return week < 28 ? 2 : 3;
+}
+
+/**
+ * Calculates how far along a pregnancy is from its due date
+ * Whole days are counted in UTC, so the week changes at the same time for everyone.
+ *
+ * @param dueDate - Expected delivery date
+ * @param now - Date to calculate progress at
+ * @returns Completed weeks and days, trimester and days until the due date
+ */
+export function getPregnancyProgress(dueDate: Date, now: Date = new Date()): PregnancyProgress {
+  const dueDay = Date.UTC(dueDate.getUTCFullYear(), dueDate.getUTCMonth(), dueDate.getUTCDate());
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  const daysUntilDue = Math.round((dueDay - today) / MS_PER_DAY);
+
+  // Due dates more than 40 weeks away count as the very start of the pregnancy
+  const gestationalDays = Math.max(0, PREGNANCY_LENGTH_DAYS - daysUntilDue);
+  const weeks = Math.floor(gestationalDays / 7);
+
+  return {
+    weeks,
+    days: gestationalDays % 7,
+    contentWeek: Math.min(MAX_PREGNANCY_WEEK, Math.max(MIN_PREGNANCY_WEEK, weeks)),
+    trimester: getTrimester(weeks),
+    daysUntilDue,
+    percentComplete: Math.min(100, Math.round((gestationalDays / PREGNANCY_LENGTH_DAYS) * 100)),
+  };
+}
+
+/**
+ * Describes pregnancy progress for prompts and notifications
+ *
+ * @param progress - Progress from getPregnancyProgress
+ * @returns e.g. "24 weeks and 3 days pregnant (second trimester)"
+ */
+export function describePregnancyProgress(progress: PregnancyProgress): string {
+  const trimesters = ['first', 'second', 'third'];
+  const weeks = `${progress.weeks} week${progress.weeks === 1 ? '' : 's'}`;
+  const days = progress.days > 0 ? ` and ${progress.days} day${progress.days === 1 ? '' : 's'}` : '';
+
+  return `${weeks}${days} pregnant (${trimesters[progress.trimester - 1]} trimester)`;
+}
+
+/**
+ * Parses a week of pregnancy from a route parameter
+ *
+ * @param value - Raw parameter
+ * @returns Week, or null if not a whole number between 1 and 42
+ */
+export function parsePregnancyWeek(value: string): number | null {
+  if (!/^\d+$/.test(value)) {
+    return null;
+  }
+
+  const week = parseInt(value, 10);
+  return week >= MIN_PREGNANCY_WEEK && week <= MAX_PREGNANCY_WEEK ? week : null;
+}
+
+/**
+ * Birth date to record when switching from pregnancy to parenting mode
+ * Uses the date the parent entered; without one, the due date converts to the
+ * birth date, or today if the baby arrived before the due date.
+ *
+ * @param dueDate - Expected delivery date on the profile
+ * @param babyBirthDate - Birth date entered by the parent, if any
+ * @param now - Current time
+ * @returns Birth date, or null if neither date is known
+ */
+export function resolveBirthDate(dueDate: Date | null, babyBirthDate: Date | null, now: Date = new Date()): Date | null {
+  if (babyBirthDate) {
+    return babyBirthDate;
+  }
+  if (!dueDate) {
+    return null;
+  }
+
+  return dueDate.getTime() > now.getTime() ? now : dueDate;
+}
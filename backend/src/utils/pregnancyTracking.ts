@@ -0,0 +1,264 @@
+/**
+ * Pregnancy Tracking Utilities
+ *
+ * Pure helpers that analyze kick counts and timed contractions:
+ * - Kick counts: time to 10 movements, which should take no longer than 2 hours
+ * - Contractions: duration, frequency (start to start), regularity and the 5-1-1
+ *   pattern (contractions 5 minutes apart or less, lasting 1 minute, for 1 hour)
+ *
+ * The numbers are shown in the app and given to the assistant, so answers to
+ * "are these real contractions?" are grounded in what was actually timed.
+ */
+
+// Milliseconds per minute
+const MS_PER_MINUTE = 60 * 1000;
+
+// Kick count target: 10 movements within 2 hours
+export const KICK_TARGET = 10;
+export const KICK_TARGET_WINDOW_MINUTES = 120;
+
+// 5-1-1 rule: at most 5 minutes apart, at least 1 minute long, for at least 1 hour
+export const FIVE_ONE_ONE = {
+  maxIntervalMinutes: 5,
+  minDurationSeconds: 60,
+  minSustainedMinutes: 60,
+};
+
+// Intervals count as regular when they vary by less than this share of their average
+const REGULAR_INTERVAL_VARIATION = 0.25;
+
+// Intervals needed before regularity is judged
+const MIN_INTERVALS_FOR_REGULARITY = 3;
+
+/**
+ * Kick count session fields used in the analysis
+ */
+export interface KickSessionRecord {
+  startedAt: Date;
+  endedAt: Date | null;
+  kicks: Date[];
+}
+
+/**
+ * Timed contraction (endedAt is null while the contraction is in progress)
+ */
+export interface ContractionRecord {
+  startedAt: Date;
+  endedAt: Date | null;
+}
+
+/**
+ * Kick count status
+ * - in_progress: fewer than 10 kicks and the 2-hour window isn't over
+ * - reached: 10 kicks within 2 hours
+ * - not_reached: the session ended or ran past 2 hours without 10 kicks
+ */
+export type KickCountStatus = 'in_progress' | 'reached' | 'not_reached';
+
+/**
+ * Result of analyzing a kick count session
+ */
+export interface KickAnalysis {
+  kickCount: number;
+  status: KickCountStatus;
+  timeToTargetMinutes: number | null; // Minutes from start to the 10th kick
+  elapsedMinutes: number;
+  kicksPerHour: number | null;
+}
+
+/**
+ * Averages of a group of contractions
+ */
+export interface ContractionStats {
+  count: number;
+  averageDurationSeconds: number | null;
+  averageIntervalMinutes: number | null; // Start to start
+}
+
+/**
+ * Result of analyzing timed contractions
+ */
+export interface ContractionAnalysis extends ContractionStats {
+  inProgress: boolean;
+  lastContractionAt: Date | null;
+  lastHour: ContractionStats & { regular: boolean | null };
+  fiveOneOne: { met: boolean; sustainedMinutes: number };
+}
+
+/**
+ * Rounds to one decimal place
+ *
+ * @param value - Number to round
+ * @returns Rounded number
+ */
+function roundOne(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Returns the average of a list of numbers
+ *
+ * @param values - Numbers to average
+ * @returns Average, or null for an empty list
+ */
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+/**
+ * Analyzes a kick count session
+ *
+ * @param session - Session with its kick times
+ * @param now - Current time (for sessions still running)
+ * @returns Kick count, status and time to 10 kicks
+ */
+export function analyzeKickSession(session: KickSessionRecord, now: Date = new Date()): KickAnalysis {
+  const start = session.startedAt.getTime();
+  const end = (session.endedAt ?? now).getTime();
+  const kicks = session.kicks
+    .map((kick) => kick.getTime())
+    .filter((kick) => kick >= start)
+    .sort((a, b) => a - b);
+
+  const elapsedMinutes = Math.max(0, (end - start) / MS_PER_MINUTE);
+  const timeToTargetMinutes = kicks.length >= KICK_TARGET
+    ? roundOne((kicks[KICK_TARGET - 1] - start) / MS_PER_MINUTE)
+    : null;
+
+  let status: KickCountStatus;
+  if (timeToTargetMinutes !== null && timeToTargetMinutes <= KICK_TARGET_WINDOW_MINUTES) {
+    status = 'reached';
+  } else if (session.endedAt || elapsedMinutes >= KICK_TARGET_WINDOW_MINUTES) {
+    status = 'not_reached';
+  } else {
+    status = 'in_progress';
+  }
+
+  return {
+    kickCount: kicks.length,
+    status,
+    timeToTargetMinutes,
+    elapsedMinutes: roundOne(elapsedMinutes),
+    kicksPerHour: elapsedMinutes > 0 ? roundOne((kicks.length / elapsedMinutes) * 60) : null,
+  };
+}
+
+/**
+ * Computes average duration and frequency of contractions
+ *
+ * @param contractions - Contractions sorted by start time
+ * @returns Count and averages (null when there is too little data)
+ */
+function getContractionStats(contractions: ContractionRecord[]): ContractionStats {
+  const durations = contractions
+    .filter((contraction) => contraction.endedAt)
+    .map((contraction) => (contraction.endedAt!.getTime() - contraction.startedAt.getTime()) / 1000);
+
+  const intervals = getIntervalsMinutes(contractions);
+  const averageDuration = average(durations);
+  const averageInterval = average(intervals);
+
+  return {
+    count: contractions.length,
+    averageDurationSeconds: averageDuration === null ? null : Math.round(averageDuration),
+    averageIntervalMinutes: averageInterval === null ? null : roundOne(averageInterval),
+  };
+}
+
+/**
+ * Returns the minutes between the starts of consecutive contractions
+ *
+ * @param contractions - Contractions sorted by start time
+ * @returns One interval per pair of consecutive contractions
+ */
+function getIntervalsMinutes(contractions: ContractionRecord[]): number[] {
+  const intervals: number[] = [];
+  for (let i = 1; i < contractions.length; i++) {
+    intervals.push((contractions[i].startedAt.getTime() - contractions[i - 1].startedAt.getTime()) / MS_PER_MINUTE);
+  }
+  return intervals;
+}
+
+/**
+ * Judges whether contractions come at regular intervals
+ * Real labor contractions come at regular, shortening intervals; practice
+ * (Braxton Hicks) contractions are usually irregular.
+ *
+ * @param intervals - Minutes between consecutive contractions
+ * @returns true if regular, false if irregular, null with fewer than 3 intervals
+ */
+function isRegular(intervals: number[]): boolean | null {
+  if (intervals.length < MIN_INTERVALS_FOR_REGULARITY) {
+    return null;
+  }
+
+  const mean = average(intervals)!;
+  const variance = average(intervals.map((interval) => (interval - mean) ** 2))!;
+  return mean > 0 && Math.sqrt(variance) / mean < REGULAR_INTERVAL_VARIATION;
+}
+
+/**
+ * Measures how long the latest contractions have followed the 5-1-1 pattern
+ * Walks back from the latest completed contraction while each one lasted at least
+ * 1 minute and started at most 5 minutes after the previous one.
+ *
+ * @param completed - Completed contractions sorted by start time
+ * @returns Minutes from the start of the first to the end of the last contraction in the pattern
+ */
+function getFiveOneOneMinutes(completed: ContractionRecord[]): number {
+  const lastsLongEnough = (contraction: ContractionRecord): boolean =>
+    contraction.endedAt!.getTime() - contraction.startedAt.getTime() >= FIVE_ONE_ONE.minDurationSeconds * 1000;
+
+  const last = completed.length - 1;
+  if (last < 0 || !lastsLongEnough(completed[last])) {
+    return 0;
+  }
+
+  let first = last;
+  while (
+    first > 0 &&
+    lastsLongEnough(completed[first - 1]) &&
+    completed[first].startedAt.getTime() - completed[first - 1].startedAt.getTime() <=
+      FIVE_ONE_ONE.maxIntervalMinutes * MS_PER_MINUTE
+  ) {
+    first--;
+  }
+
+  // A single contraction isn't a pattern
+  if (first === last) {
+    return 0;
+  }
+
+  return (completed[last].endedAt!.getTime() - completed[first].startedAt.getTime()) / MS_PER_MINUTE;
+}
+
+/**
+ * Analyzes timed contractions
+ *
+ * @param contractions - Contractions of a session (any order)
+ * @param now - Current time (the "last hour" ends now)
+ * @returns Averages overall and over the last hour, regularity and the 5-1-1 pattern
+ */
+export function analyzeContractions(contractions: ContractionRecord[], now: Date = new Date()): ContractionAnalysis {
+  const sorted = [...contractions].sort((a, b) => a.startedAt.getTime() - b.startedAt.getTime());
+  const completed = sorted.filter((contraction) => contraction.endedAt);
+
+  const hourAgo = now.getTime() - 60 * MS_PER_MINUTE;
+  const lastHour = sorted.filter((contraction) => contraction.startedAt.getTime() >= hourAgo);
+
+  const sustainedMinutes = getFiveOneOneMinutes(completed);
+
+  return {
+    ...getContractionStats(sorted),
+    inProgress: sorted.some((contraction) => !contraction.endedAt),
+    lastContractionAt: sorted.length > 0 ? sorted[sorted.length - 1].startedAt : null,
+    lastHour: {
+      ...getContractionStats(lastHour),
+      regular: isRegular(getIntervalsMinutes(lastHour)),
+    },
+    fiveOneOne: {
+      met: sustainedMinutes >= FIVE_ONE_ONE.minSustainedMinutes,
+      sustainedMinutes: Math.round(sustainedMinutes),
+    },
+  };
+}
@@ -0,0 +1,229 @@
+/**
+ * Global Search Utilities
+ *
+ * Pure helpers for GET /search: reading type and date hints out of a free-text
+ * query ("the rash photo from March"), scoring records against the query terms,
+ * the tags stored by photo categorization, and the date facets of a result set.
+ */
+
+import { Prisma } from '@prisma/client';
+import { findTermMatches, getQueryTerms } from './conversationSearch';
+
+/**
+ * Kinds of records GET /search returns
+ */
+export type SearchResultType = 'message' | 'milestone' | 'photo' | 'milestone_content';
+
+export const SEARCH_RESULT_TYPES: SearchResultType[] = ['message', 'milestone', 'photo', 'milestone_content'];
+
+// Score multiplier for results of a type named in the query ("photo", "chat")
+export const TYPE_HINT_BOOST = 1.5;
+
+// Words that name a result type rather than describe its content
+const TYPE_HINT_WORDS: Record<string, SearchResultType> = {
+  photo: 'photo',
+  photos: 'photo',
+  picture: 'photo',
+  pictures: 'photo',
+  pic: 'photo',
+  pics: 'photo',
+  chat: 'message',
+  chats: 'message',
+  conversation: 'message',
+  conversations: 'message',
+  milestone: 'milestone',
+  milestones: 'milestone',
+};
+
+const MONTH_NAMES = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+
+/**
+ * Date range [from, to) used to filter dated results
+ */
+export interface DateRange {
+  from: Date;
+  to: Date;
+}
+
+/**
+ * A free-text query split into what to match and how to filter
+ */
+export interface ParsedSearchQuery {
+  terms: string[]; // Lowercase content terms
+  typeHints: SearchResultType[]; // Types named in the query, ranked higher
+  dateRange: DateRange | null; // From a month and/or year in the query
+}
+
+/**
+ * Text of a record to match, with how much a match in it counts
+ */
+export interface SearchField {
+  text: string | null | undefined;
+  weight: number;
+}
+
+/**
+ * Number of results per month ("2025-03")
+ */
+export interface DateFacet {
+  month: string;
+  count: number;
+}
+
+/**
+ * Returns the month number (0-11) a word names, if any
+ * Accepts full names and three-letter abbreviations ("mar", "sept").
+ *
+ * @param word - Lowercase word
+ * @returns Month index, or null
+ */
+function parseMonth(word: string): number | null {
+  if (word.length < 3) {
+    return null;
+  }
+
+  const index = MONTH_NAMES.findIndex((name) => name === word || (word.length <= 4 && name.startsWith(word)));
+  return index >= 0 ? index : null;
+}
+
+/**
+ * Splits a search query into content terms, type hints and a date range
+ *
+ * A month without a year means its most recent occurrence ("March" in
+ * January 2026 is March 2025); a year alone covers the whole year.
+ *
+ * @param query - Search query
+ * @param now - Current time
+ * @returns Parsed query
+ */
+export function parseSearchQuery(query: string, now: Date = new Date()): ParsedSearchQuery {
+  const terms: string[] = [];
+  const typeHints = new Set<SearchResultType>();
+  let month: number | null = null;
+  let year: number | null = null;
+
+  for (const term of getQueryTerms(query)) {
+    const typeHint = TYPE_HINT_WORDS[term];
+    const monthIndex = parseMonth(term);
+
+    if (typeHint) {
+      typeHints.add(typeHint);
+    } else if (month === null && monthIndex !== null) {
+      month = monthIndex;
+    } else if (year === null && /^(19|20)\d{2}$/.test(term)) {
+      year = parseInt(term, 10);
+    } else {
+      terms.push(term);
+    }
+  }
+
+  let dateRange: DateRange | null = null;
+  if (month !== null) {
+    const monthYear = year ?? (month > now.getUTCMonth() ? now.getUTCFullYear() - 1 : now.getUTCFullYear());
+    dateRange = {
+      from: new Date(Date.UTC(monthYear, month, 1)),
+      to: new Date(Date.UTC(monthYear, month + 1, 1)),
+    };
+  } else if (year !== null) {
+    dateRange = { from: new Date(Date.UTC(year, 0, 1)), to: new Date(Date.UTC(year + 1, 0, 1)) };
+  }
+
+  return { terms, typeHints: [...typeHints], dateRange };
+}
+
+/**
+ * Scores a record against the query terms
+ *
+ * Each term counts the weight of the best field it appears in (as the start of a
+ * word); the total is averaged over the terms, so records matching every term
+ * rank above records matching some. The whole phrase appearing in a field adds
+ * that field's weight again.
+ *
+ * @param fields - Record text with weights
+ * @param terms - Lowercase query terms
+ * @returns Score, or 0 if no term matches
+ */
+export function scoreFields(fields: SearchField[], terms: string[]): number {
+  if (terms.length === 0) {
+    return 0;
+  }
+
+  let total = 0;
+  for (const term of terms) {
+    let best = 0;
+    for (const field of fields) {
+      if (field.text && field.weight > best && findTermMatches(field.text, [term]).length > 0) {
+        best = field.weight;
+      }
+    }
+    total += best;
+  }
+
+  if (total === 0) {
+    return 0;
+  }
+
+  let phraseBonus = 0;
+  if (terms.length > 1) {
+    const phrase = terms.join(' ');
+    for (const field of fields) {
+      if (field.text && field.text.toLowerCase().replace(/\s+/g, ' ').includes(phrase)) {
+        phraseBonus = Math.max(phraseBonus, field.weight);
+      }
+    }
+  }
+
+  return total / terms.length + phraseBonus;
+}
+
+/**
+ * Reads the searchable text stored on a photo
+ * Upload categorization (categorizePhoto) stores categories, objects, mood, activity,
+ * location and a description; on-demand analysis (analyzePhoto) stores analysis text.
+ *
+ * @param analysisResults - Photo.analysisResults
+ * @returns Tags (categories first) and description
+ */
+export function getPhotoSearchText(analysisResults: Prisma.JsonValue): { tags: string[]; description: string | null } {
+  if (!analysisResults || typeof analysisResults !== 'object' || Array.isArray(analysisResults)) {
+    return { tags: [], description: null };
+  }
+
+  const results = analysisResults as Record<string, unknown>;
+  const strings = (value: unknown): string[] =>
+    Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+  const text = (value: unknown): string | null => (typeof value === 'string' && value.trim() ? value : null);
+
+  const tags = [
+    ...strings(results.categories),
+    ...strings(results.objects),
+    ...[results.activity, results.mood, results.location].map(text).filter((tag): tag is string => tag !== null),
+  ];
+
+  return {
+    tags: [...new Set(tags)],
+    description: text(results.description) ?? text(results.analysis),
+  };
+}
+
+/**
+ * Counts results per month, most recent month first
+ *
+ * @param dates - Dates of the results (undated results are skipped)
+ * @returns One facet per month with results
+ */
+export function buildDateFacets(dates: Array<Date | null>): DateFacet[] {
+  const counts = new Map<string, number>();
+  for (const date of dates) {
+    if (!date) continue;
+    const month = date.toISOString().slice(0, 7);
+    counts.set(month, (counts.get(month) ?? 0) + 1);
+  }
+
+  return [...counts.entries()]
+    .map(([month, count]) => ({ month, count }))
+    .sort((a, b) => b.month.localeCompare(a.month));
+}
@@ -0,0 +1,135 @@
+/**
+ * Speech Text Utilities
+ *
+ * Pure helpers that turn assistant replies into text for speech synthesis:
+ * stripping markdown that shouldn't be read aloud and cutting the reply into
+ * sentence-sized pieces, so audio can start playing before the whole reply is
+ * synthesized (or even generated).
+ */
+
+// Pieces shorter than this ("Yes." "Okay!") are joined with the next sentence
+export const MIN_SPEECH_CHUNK_LENGTH = 20;
+
+// Longer sentences are split at a comma or space to keep synthesis latency low
+export const MAX_SPEECH_CHUNK_LENGTH = 300;
+
+// Voices offered to users (OpenAI TTS voice names; the fake provider accepts any)
+export const TTS_VOICES = ['alloy', 'echo', 'fable', 'onyx', 'nova', 'shimmer'] as const;
+
+export type TtsVoice = (typeof TTS_VOICES)[number];
+
+// Allowed playback speed range
+export const MIN_TTS_SPEED = 0.5;
+export const MAX_TTS_SPEED = 2;
+
+// Words ending in a period that don't end a sentence
+const ABBREVIATIONS = new Set(['dr', 'mr', 'mrs', 'ms', 'st', 'vs', 'etc', 'e.g', 'i.e', 'approx']);
+
+/**
+ * Checks whether a value is a supported voice
+ *
+ * @param value - Value to check
+ * @returns true for a voice in TTS_VOICES
+ */
+export function isTtsVoice(value: unknown): value is TtsVoice {
+  return typeof value === 'string' && (TTS_VOICES as readonly string[]).includes(value);
+}
+
+/**
+ * Removes markdown formatting that would be read aloud
+ * Keeps the words: "**Tip:** see [this](url)" becomes "Tip: see this".
+ *
+ * @param text - Reply text (may contain markdown)
+ * @returns Plain text
+ */
+export function prepareSpeechText(text: string): string {
+  return text
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/`([^`]*)`/g, '$1')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^\s{0,3}#{1,6}\s+/gm, '')
+    .replace(/^\s*(?:[-*+•]|\d+[.)])\s+/gm, '')
+    .replace(/(\*\*|__)(.*?)\1/g, '$2')
+    .replace(/(^|[\s(])[*_]([^*_\n]+)[*_](?=[\s).,!?:;]|$)/g, '$1$2')
+    .replace(/\*{2,}|_{2,}/g, '') // Bold markers split across pieces of a streamed reply
+    .replace(/\s*\n\s*/g, ' ')
+    .replace(/[ \t]+/g, ' ');
+}
+
+/**
+ * Splits a sentence longer than the maximum at a comma, semicolon or space
+ *
+ * @param sentence - Sentence to split
+ * @returns Pieces of at most MAX_SPEECH_CHUNK_LENGTH characters
+ */
+function splitLongSentence(sentence: string): string[] {
+  const pieces: string[] = [];
+  let rest = sentence;
+
+  while (rest.length > MAX_SPEECH_CHUNK_LENGTH) {
+    const window = rest.slice(0, MAX_SPEECH_CHUNK_LENGTH);
+    const clauseBreak = Math.max(window.lastIndexOf(', '), window.lastIndexOf('; '));
+    const cut = clauseBreak > MIN_SPEECH_CHUNK_LENGTH ? clauseBreak + 1 : window.lastIndexOf(' ');
+    const at = cut > 0 ? cut : MAX_SPEECH_CHUNK_LENGTH;
+
+    pieces.push(rest.slice(0, at).trim());
+    rest = rest.slice(at).trim();
+  }
+
+  if (rest) {
+    pieces.push(rest);
+  }
+  return pieces;
+}
+
+/**
+ * Takes the complete sentences from the start of a growing reply
+ *
+ * Used while the reply streams in: complete sentences can be synthesized, the
+ * rest waits for more text. With `final` the remaining text counts as complete.
+ * Short sentences are joined with the next one; long ones are split.
+ *
+ * @param text - Reply text received so far (not yet taken)
+ * @param final - Whether the reply is complete
+ * @returns Sentence-sized pieces of speech text, and the text still waiting
+ */
+export function extractSentences(text: string, final: boolean): { sentences: string[]; rest: string } {
+  const sentences: string[] = [];
+  let pending = '';
+  let start = 0;
+
+  // A sentence ends at . ! ? … (plus closing quotes/brackets) before whitespace, or at a line break
+  const boundary = /[.!?…]+["')\]]*(?=\s)|\n+/g;
+  for (const match of text.matchAll(boundary)) {
+    const end = match.index + match[0].length;
+    const candidate = text.slice(start, end);
+
+    // "Dr. Lee" and "e.g. rice" are not sentence ends
+    const lastWord = candidate.trim().toLowerCase().match(/([a-z.]+)\.$/)?.[1];
+    if (match[0].startsWith('.') && lastWord && ABBREVIATIONS.has(lastWord)) continue;
+
+    start = end;
+    if (!candidate.trim()) continue;
+
+    pending = pending ? `${pending}\n${candidate.trim()}` : candidate.trim();
+
+    if (pending.length >= MIN_SPEECH_CHUNK_LENGTH) {
+      sentences.push(...splitLongSentence(prepareSpeechText(pending).trim()).filter((piece) => piece.length > 0));
+      pending = '';
+    }
+  }
+
+  // Short sentences still waiting for the next one stay in front of the unfinished text
+  const tail = text.slice(start);
+  let rest = pending ? `${pending}\n${tail.trimStart()}` : tail;
+
+  if (final) {
+    const last = prepareSpeechText(rest).trim();
+    if (last) {
+      sentences.push(...splitLongSentence(last));
+    }
+    rest = '';
+  }
+
+  return { sentences, rest };
+}
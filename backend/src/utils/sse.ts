@@ -0,0 +1,46 @@
+/**
+ * Server-Sent Events Utilities
+ *
+ * Opens an event stream on an Express response and writes events to it
+ * (used by POST /chat/message/stream).
+ */
+
+import { Response } from 'express';
+
+/**
+ * Formats a single Server-Sent Event
+ * The payload is JSON, so it never contains a raw newline that would end the event early.
+ *
+ * @param event - Event name (token, done, error)
+ * @param data - JSON-serializable event payload
+ * @returns Event text including the blank line that ends it
+ */
+export function formatSseEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Writes a single Server-Sent Event to the response.
+ *
+ * @param res - Express response with SSE headers already sent
+ * @param event - Event name (token, done, error)
+ * @param data - JSON-serializable event payload
+ */
+export function writeSseEvent(res: Pick<Response, 'write'>, event: string, data: unknown): void {
+  res.write(formatSseEvent(event, data));
+}
+
+/**
+ * Sends the headers that open an event stream
+ * After this the status code is sent; errors must be reported as events.
+ *
+ * @param res - Express response
+ */
+export function openSseStream(res: Response): void {
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no'); // Disable proxy buffering (nginx)
+  res.flushHeaders();
+}
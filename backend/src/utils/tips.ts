@@ -0,0 +1,186 @@
+/**
+ * Weekly Tip Utilities
+ *
+ * Pure helpers for the weekly tips digest: age and week calculations, cohort keys
+ * for caching generated tip sets, and validation of the tips returned by the model.
+ *
+ * Families in the same cohort (same baby age in weeks, concerns and parenting
+ * philosophy) share one generated TipSet, so OpenAI is called once per cohort and week of age.
+ */
+
+import { createHash } from 'crypto';
+
+// Bump when the tip prompt changes so cached tip sets are regenerated
+export const TIP_PROMPT_VERSION = 1;
+
+// Tips per weekly digest
+export const TIPS_PER_DIGEST = 3;
+
+// Categories the model may assign to a tip
+export const TIP_CATEGORIES = [
+  'development',
+  'sleep',
+  'feeding',
+  'health',
+  'safety',
+  'play',
+  'bonding',
+  'self-care',
+] as const;
+
+export type TipCategory = typeof TIP_CATEGORIES[number];
+
+// Milliseconds per day
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Length limits for generated text (longer text is cut)
+const MAX_TIP_TITLE_LENGTH = 80;
+const MAX_TIP_BODY_LENGTH = 400;
+
+/**
+ * One generated tip
+ */
+export interface WeeklyTip {
+  title: string;
+  body: string;
+  category: TipCategory;
+}
+
+/**
+ * Normalized inputs of the tip generator
+ */
+export interface TipCohort {
+  cohortKey: string;
+  ageWeeks: number;
+  concerns: string[]; // Sorted, deduplicated
+  parentingPhilosophy: string | null;
+  upcomingMilestones: string[];
+}
+
+/**
+ * Returns a baby's age in completed weeks
+ *
+ * @param birthDate - Baby's birth date
+ * @param asOf - Date to calculate the age at
+ * @returns Age in weeks (0 before the first week is complete, never negative)
+ */
+export function getAgeInWeeks(birthDate: Date, asOf: Date = new Date()): number {
+  return Math.max(0, Math.floor((asOf.getTime() - birthDate.getTime()) / (7 * MS_PER_DAY)));
+}
+
+/**
+ * Returns the start of the week (Monday 00:00 UTC) containing a date
+ *
+ * @param date - Any time in the week
+ * @returns Monday of that week
+ */
+export function getWeekStart(date: Date): Date {
+  const weekStart = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  const daysSinceMonday = (weekStart.getUTCDay() + 6) % 7;
+  weekStart.setUTCDate(weekStart.getUTCDate() - daysSinceMonday);
+  return weekStart;
+}
+
+/**
+ * Reads a free-text profile value stored as JSON
+ * Onboarding stores parentingPhilosophy as a JSON-encoded string, so it may be encoded twice.
+ *
+ * @param value - Stored JSON value
+ * @returns Text, or null if empty or not text
+ */
+export function parseStoredText(value: unknown): string | null {
+  let text = value;
+
+  // Unwrap JSON-encoded strings ("\"Gentle parenting\"" -> "Gentle parenting")
+  for (let depth = 0; depth < 3 && typeof text === 'string' && text.startsWith('"'); depth++) {
+    try {
+      text = JSON.parse(text) as unknown;
+    } catch {
+      break;
+    }
+  }
+
+  return typeof text === 'string' && text.trim() ? text.trim() : null;
+}
+
+/**
+ * Normalizes generator inputs and computes the cohort cache key
+ * Concern order and letter case don't change the cohort.
+ *
+ * @param input - Baby age, parent concerns and philosophy, upcoming milestone names
+ * @returns Cohort with its cache key
+ */
+export function buildTipCohort(input: {
+  ageWeeks: number;
+  concerns: string[];
+  parentingPhilosophy: string | null;
+  upcomingMilestones: string[];
+}): TipCohort {
+  // Deduplicate ignoring case, keeping the first spelling
+  const byKey = new Map<string, string>();
+  for (const concern of input.concerns.map((value) => value.trim()).filter(Boolean)) {
+    if (!byKey.has(concern.toLowerCase())) {
+      byKey.set(concern.toLowerCase(), concern);
+    }
+  }
+  const concerns = [...byKey.values()].sort((a, b) => a.toLowerCase().localeCompare(b.toLowerCase()));
+  const parentingPhilosophy = input.parentingPhilosophy?.trim() || null;
+
+  const cohortKey = createHash('sha256')
+    .update(JSON.stringify({
+      version: TIP_PROMPT_VERSION,
+      ageWeeks: input.ageWeeks,
+      concerns: concerns.map((concern) => concern.toLowerCase()),
+      parentingPhilosophy: parentingPhilosophy?.toLowerCase() ?? null,
+      upcomingMilestones: input.upcomingMilestones,
+    }))
+    .digest('hex');
+
+  return {
+    cohortKey,
+    ageWeeks: input.ageWeeks,
+    concerns,
+    parentingPhilosophy,
+    upcomingMilestones: input.upcomingMilestones,
+  };
+}
+
+/**
+ * Parses and validates tips returned by the model
+ * Expects JSON like { "tips": [{ "title", "body", "category" }] }. Tips missing a title
+ * or body are dropped; unknown categories become "development".
+ *
+ * @param content - Raw model response
+ * @returns Valid tips (at most TIPS_PER_DIGEST), empty if the response is unusable
+ */
+export function parseGeneratedTips(content: string): WeeklyTip[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    return [];
+  }
+
+  const items = (parsed as { tips?: unknown })?.tips;
+  if (!Array.isArray(items)) {
+    return [];
+  }
+
+  const tips: WeeklyTip[] = [];
+  for (const item of items as Record<string, unknown>[]) {
+    const title = typeof item?.title === 'string' ? item.title.trim() : '';
+    const body = typeof item?.body === 'string' ? item.body.trim() : '';
+    if (!title || !body) {
+      continue;
+    }
+
+    const category = TIP_CATEGORIES.find((value) => value === item.category) ?? 'development';
+    tips.push({
+      title: title.slice(0, MAX_TIP_TITLE_LENGTH),
+      body: body.slice(0, MAX_TIP_BODY_LENGTH),
+      category,
+    });
+  }
+
+  return tips.slice(0, TIPS_PER_DIGEST);
+}
@@ -0,0 +1,93 @@
+/**
+ * One-Time Token Utilities
+ *
+ * Generates random single-use tokens (password reset, email links) and hashes them
+ * for storage. Only the hash is persisted, so a database leak does not expose
+ * usable tokens.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+
+/**
+ * Raw token to send to the user together with the hash to store
+ */
+export interface OneTimeToken {
+  token: string; // Raw token (only sent to the user, never stored)
+  tokenHash: string; // SHA-256 hash of the token (stored in database)
+}
+
+/**
+ * Hashes a token with SHA-256
+ *
+ * Tokens are high-entropy random values, so a fast unsalted hash is sufficient
+ * and allows direct lookup by hash.
+ *
+ * @param token - Raw token string
+ * @returns Hex-encoded SHA-256 hash
+ */
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Generates a new random one-time token
+ *
+ * @returns Raw token (32 random bytes, hex-encoded) and its hash
+ */
+export function generateOneTimeToken(): OneTimeToken {
+  const token = randomBytes(32).toString('hex');
+
+  return {
+    token,
+    tokenHash: hashToken(token),
+  };
+}
+
+/**
+ * Checks whether a stored one-time token can still be used
+ * Unknown, used and expired tokens are all rejected the same way.
+ *
+ * @param storedToken - Token row found by hash (null if none)
+ * @param now - Current time
+ * @returns true if the token exists, is unused and has not expired
+ */
+export function isOneTimeTokenUsable<T extends { usedAt: Date | null; expiresAt: Date }>(
+  storedToken: T | null,
+  now: Date = new Date(),
+): storedToken is T {
+  return !!storedToken && !storedToken.usedAt && storedToken.expiresAt > now;
+}
+
+// Invite code alphabet: uppercase letters and digits without look-alikes (0/O, 1/I/L)
+const INVITE_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+/**
+ * Normalizes a user-entered invite code for hashing
+ * Codes are case-insensitive and may be typed with spaces or dashes
+ *
+ * @param code - Code as entered by the user
+ * @returns Uppercase code without separators
+ */
+export function normalizeInviteCode(code: string): string {
+  return code.toUpperCase().replace(/[\s-]/g, '');
+}
+
+/**
+ * Generates a short invite code that is easy to read out or type
+ *
+ * @param length - Number of characters (default 8, ~39 bits of entropy)
+ * @returns Raw code and the hash of its normalized form
+ */
+export function generateInviteCode(length = 8): OneTimeToken {
+  const bytes = randomBytes(length);
+  let token = '';
+
+  for (let i = 0; i < length; i++) {
+    token += INVITE_CODE_ALPHABET[bytes[i] % INVITE_CODE_ALPHABET.length];
+  }
+
+  return {
+    token,
+    tokenHash: hashToken(normalizeInviteCode(token)),
+  };
+}
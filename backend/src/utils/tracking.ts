@@ -0,0 +1,335 @@
+/**
+ * Activity Tracking Utilities
+ *
+ * Pure helpers that turn logged feeds, sleep sessions and diaper changes
+ * into daily and weekly summaries (feeds per day, total sleep hours, etc.).
+ *
+ * Days are calendar days in the parent's time zone, given as a
+ * tzOffset in minutes with the same meaning as JavaScript's
+ * Date.getTimezoneOffset() (UTC-5 → 300, UTC+2 → -120).
+ */
+
+import { DiaperType, FeedType } from '@prisma/client';
+
+// Milliseconds per minute, hour and day
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_HOUR = 60 * MS_PER_MINUTE;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+
+/**
+ * Feed fields needed for aggregation
+ */
+export interface FeedRecord {
+  type: FeedType;
+  startedAt: Date;
+  endedAt: Date | null;
+  durationMinutes: number | null;
+  volumeMl: number | null;
+}
+
+/**
+ * Sleep session fields needed for aggregation
+ */
+export interface SleepRecord {
+  startedAt: Date;
+  endedAt: Date | null; // null while still asleep
+}
+
+/**
+ * Diaper change fields needed for aggregation
+ */
+export interface DiaperRecord {
+  changedAt: Date;
+  type: DiaperType;
+}
+
+/**
+ * Aggregates for one calendar day
+ */
+export interface DailySummary {
+  date: string; // YYYY-MM-DD in the parent's time zone
+  feeds: {
+    total: number;
+    breast: number;
+    bottle: number;
+    solids: number;
+    breastMinutes: number; // Total nursing time
+    bottleVolumeMl: number; // Total bottle volume
+  };
+  sleep: {
+    totalHours: number; // Sleep within this day (sessions crossing midnight are split)
+    sessions: number; // Sessions that started this day
+    longestStretchHours: number; // Longest session that started this day
+  };
+  diapers: {
+    total: number;
+    wet: number;
+    dirty: number;
+    mixed: number;
+    dry: number;
+  };
+}
+
+/**
+ * Aggregates for a 7-day week
+ */
+export interface WeeklySummary {
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD (inclusive)
+  days: DailySummary[];
+  totals: {
+    feeds: number;
+    breastMinutes: number;
+    bottleVolumeMl: number;
+    sleepHours: number;
+    diapers: number;
+  };
+  averages: {
+    feedsPerDay: number;
+    sleepHoursPerDay: number;
+    diapersPerDay: number;
+  };
+}
+
+/**
+ * Rounds a number to 2 decimal places
+ *
+ * @param value - Number to round
+ * @returns Rounded number
+ */
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Checks whether a string is a valid YYYY-MM-DD date
+ *
+ * @param value - String to check
+ * @returns true if the string is a real calendar date
+ */
+export function isDateKey(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return false;
+  }
+
+  const date = new Date(`${value}T00:00:00.000Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+/**
+ * Returns the calendar day of a timestamp in the parent's time zone
+ *
+ * @param date - Timestamp
+ * @param tzOffset - Minutes behind UTC (Date.getTimezoneOffset())
+ * @returns Day as YYYY-MM-DD
+ */
+export function toDateKey(date: Date, tzOffset = 0): string {
+  return new Date(date.getTime() - tzOffset * MS_PER_MINUTE).toISOString().slice(0, 10);
+}
+
+/**
+ * Returns the UTC instant at which a local day starts
+ *
+ * @param dateKey - Day as YYYY-MM-DD
+ * @param tzOffset - Minutes behind UTC (Date.getTimezoneOffset())
+ * @returns Start of the day (local midnight) as a Date
+ */
+export function startOfDay(dateKey: string, tzOffset = 0): Date {
+  return new Date(new Date(`${dateKey}T00:00:00.000Z`).getTime() + tzOffset * MS_PER_MINUTE);
+}
+
+/**
+ * Adds days to a YYYY-MM-DD date
+ *
+ * @param dateKey - Day as YYYY-MM-DD
+ * @param days - Number of days to add (may be negative)
+ * @returns Resulting day as YYYY-MM-DD
+ */
+export function addDays(dateKey: string, days: number): string {
+  return new Date(new Date(`${dateKey}T00:00:00.000Z`).getTime() + days * MS_PER_DAY)
+    .toISOString()
+    .slice(0, 10);
+}
+
+/**
+ * Returns the duration of a feed in minutes
+ * Uses the logged duration, or derives it from start and end time.
+ *
+ * @param feed - Feed record
+ * @returns Duration in minutes, or 0 if unknown
+ */
+export function getFeedDurationMinutes(feed: FeedRecord): number {
+  if (feed.durationMinutes !== null) {
+    return feed.durationMinutes;
+  }
+
+  if (feed.endedAt) {
+    return Math.max(0, Math.round((feed.endedAt.getTime() - feed.startedAt.getTime()) / MS_PER_MINUTE));
+  }
+
+  return 0;
+}
+
+/**
+ * Creates an empty summary for a day
+ *
+ * @param date - Day as YYYY-MM-DD
+ * @returns Summary with all counters at zero
+ */
+function emptyDailySummary(date: string): DailySummary {
+  return {
+    date,
+    feeds: { total: 0, breast: 0, bottle: 0, solids: 0, breastMinutes: 0, bottleVolumeMl: 0 },
+    sleep: { totalHours: 0, sessions: 0, longestStretchHours: 0 },
+    diapers: { total: 0, wet: 0, dirty: 0, mixed: 0, dry: 0 },
+  };
+}
+
+/**
+ * Builds per-day summaries for a range of days
+ *
+ * Feeds and diaper changes count on the day they happened.
+ * Sleep time is split across days at local midnight; ongoing sessions count up to now.
+ * Records outside the range are ignored.
+ *
+ * @param records - Feeds, sleep sessions and diaper changes (may include records outside the range)
+ * @param startDate - First day as YYYY-MM-DD
+ * @param dayCount - Number of days to summarize
+ * @param tzOffset - Minutes behind UTC (Date.getTimezoneOffset())
+ * @param now - Current time (end of ongoing sleep sessions)
+ * @returns One summary per day, in date order
+ */
+export function summarizeDays(
+  records: { feeds: FeedRecord[]; sleeps: SleepRecord[]; diapers: DiaperRecord[] },
+  startDate: string,
+  dayCount: number,
+  tzOffset = 0,
+  now: Date = new Date(),
+): DailySummary[] {
+  const days: DailySummary[] = [];
+  const byDate = new Map<string, DailySummary>();
+
+  for (let i = 0; i < dayCount; i++) {
+    const summary = emptyDailySummary(addDays(startDate, i));
+    days.push(summary);
+    byDate.set(summary.date, summary);
+  }
+
+  for (const feed of records.feeds) {
+    const day = byDate.get(toDateKey(feed.startedAt, tzOffset));
+    if (!day) continue;
+
+    day.feeds.total++;
+    switch (feed.type) {
+      case FeedType.BREAST:
+        day.feeds.breast++;
+        day.feeds.breastMinutes += getFeedDurationMinutes(feed);
+        break;
+      case FeedType.BOTTLE:
+        day.feeds.bottle++;
+        day.feeds.bottleVolumeMl += feed.volumeMl ?? 0;
+        break;
+      case FeedType.SOLIDS:
+        day.feeds.solids++;
+        break;
+    }
+  }
+
+  for (const diaper of records.diapers) {
+    const day = byDate.get(toDateKey(diaper.changedAt, tzOffset));
+    if (!day) continue;
+
+    day.diapers.total++;
+    switch (diaper.type) {
+      case DiaperType.WET:
+        day.diapers.wet++;
+        break;
+      case DiaperType.DIRTY:
+        day.diapers.dirty++;
+        break;
+      case DiaperType.MIXED:
+        day.diapers.mixed++;
+        break;
+      case DiaperType.DRY:
+        day.diapers.dry++;
+        break;
+    }
+  }
+
+  for (const sleep of records.sleeps) {
+    const sleepStart = sleep.startedAt.getTime();
+    const sleepEnd = (sleep.endedAt ?? now).getTime();
+    if (sleepEnd <= sleepStart) continue;
+
+    // Session count and longest stretch go to the day the session started
+    const startDay = byDate.get(toDateKey(sleep.startedAt, tzOffset));
+    if (startDay) {
+      startDay.sleep.sessions++;
+      startDay.sleep.longestStretchHours = Math.max(
+        startDay.sleep.longestStretchHours,
+        (sleepEnd - sleepStart) / MS_PER_HOUR,
+      );
+    }
+
+    // Sleep time is split by the part of the session that falls in each day
+    for (const day of days) {
+      const dayStart = startOfDay(day.date, tzOffset).getTime();
+      const dayEnd = dayStart + MS_PER_DAY;
+      const overlap = Math.min(sleepEnd, dayEnd) - Math.max(sleepStart, dayStart);
+
+      if (overlap > 0) {
+        day.sleep.totalHours += overlap / MS_PER_HOUR;
+      }
+    }
+  }
+
+  for (const day of days) {
+    day.sleep.totalHours = round2(day.sleep.totalHours);
+    day.sleep.longestStretchHours = round2(day.sleep.longestStretchHours);
+  }
+
+  return days;
+}
+
+/**
+ * Builds a weekly summary with totals and per-day averages
+ *
+ * @param records - Feeds, sleep sessions and diaper changes
+ * @param startDate - First day of the week as YYYY-MM-DD
+ * @param tzOffset - Minutes behind UTC (Date.getTimezoneOffset())
+ * @param now - Current time (end of ongoing sleep sessions)
+ * @returns Summary of the 7 days starting at startDate
+ */
+export function summarizeWeek(
+  records: { feeds: FeedRecord[]; sleeps: SleepRecord[]; diapers: DiaperRecord[] },
+  startDate: string,
+  tzOffset = 0,
+  now: Date = new Date(),
+): WeeklySummary {
+  const days = summarizeDays(records, startDate, 7, tzOffset, now);
+
+  const totals = days.reduce(
+    (acc, day) => ({
+      feeds: acc.feeds + day.feeds.total,
+      breastMinutes: acc.breastMinutes + day.feeds.breastMinutes,
+      bottleVolumeMl: acc.bottleVolumeMl + day.feeds.bottleVolumeMl,
+      sleepHours: acc.sleepHours + day.sleep.totalHours,
+      diapers: acc.diapers + day.diapers.total,
+    }),
+    { feeds: 0, breastMinutes: 0, bottleVolumeMl: 0, sleepHours: 0, diapers: 0 },
+  );
+
+  totals.sleepHours = round2(totals.sleepHours);
+
+  return {
+    startDate,
+    endDate: addDays(startDate, 6),
+    days,
+    totals,
+    averages: {
+      feedsPerDay: round2(totals.feeds / days.length),
+      sleepHoursPerDay: round2(totals.sleepHours / days.length),
+      diapersPerDay: round2(totals.diapers / days.length),
+    },
+  };
+}
@@ -0,0 +1,794 @@
+/**
+ * Medical Red-Flag Triage
+ *
+ * Deterministic rules run on every message the parent sends (typed or spoken)
+ * before the model is called. A match produces a fixed urgent-care response, so
+ * emergencies get the same safe instructions every time instead of depending on
+ * the model following the safety rules in the system prompt.
+ *
+ * Rules are age-aware: a temperature of 38°C is an emergency at 6 weeks but not
+ * at 2 years, and pregnancy rules only apply to expecting parents.
+ *
+ * Every rule has phrases and card text for each supported language (utils/language.ts).
+ * Phrases of all languages are checked, so a parent who writes in another language
+ * than their preferred one is still triaged; the card is in the preferred language,
+ * or in the language of the matched phrase if none is set.
+ *
+ * Rules err on the side of caution; a false alarm costs a short card above the reply.
+ */
+
+import { TriageLevel } from '@prisma/client';
+import { DEFAULT_LANGUAGE, Language, SUPPORTED_LANGUAGES } from './language';
+
+// Milliseconds per day
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Age limits (days) for infant fever rules
+const YOUNG_INFANT_DAYS = 90; // Under 3 months: any fever needs a doctor now
+const INFANT_DAYS = 180; // 3 to 6 months: lower threshold for a call
+
+// Fever thresholds (°C)
+const FEVER_C = 38.0; // 100.4°F
+const INFANT_HIGH_FEVER_C = 39.0; // 102.2°F
+const VERY_HIGH_FEVER_C = 40.0; // 104°F
+
+// Plausible body temperatures; other numbers near "fever" are doses, times or weights
+const MIN_TEMPERATURE_C = 35;
+const MAX_TEMPERATURE_C = 43.5;
+
+// Words about fever or temperature, per language
+const FEVER_WORDS: Record<Language, RegExp> = {
+  en: /\b(fever|feverish|febrile|temp|temperature|thermometer)\b/,
+  es: /\b(fiebre|febril|calentura|temperatura|termometro)\b/,
+  pt: /\b(febre|febril|temperatura|termometro)\b/,
+};
+
+// A bare number must follow one of the fever words closely to be read as a temperature
+const AFTER_FEVER_WORD = new RegExp(
+  `(${Object.values(FEVER_WORDS).map((words) => words.source).join('|')})(\\s+\\S+){0,3}\\s*$`,
+);
+
+// Words that report a fever (rather than just a temperature reading)
+const REPORTED_FEVER = /\b(fever|feverish|febrile|fiebre|febril|calentura|febre)\b/g;
+
+// Words before a fever word that negate it ("no fever", "sin fiebre", "sem febre")
+const FEVER_NEGATION = /\b(no|not|without|never|any|sin|nunca|ni|sem|nao|nem)\b(\s+[\w']+){0,2}\s*$/;
+
+// Units after a number that make it an age, duration or amount, never a temperature
+const NON_TEMPERATURE_UNITS =
+  /^\s*(days?|d|dias|weeks?|wks?|w|semanas|sem|months?|mos?|meses|years?|yrs?|y\/?o|anos|hours?|hrs?|h|horas|minutes?|mins?|minutos|oz|ounces?|onzas|ml|lbs?|pounds?|libras|kg|kilos?|g|grams?|gramos|gramas|cm|inch(es)?)\b/;
+
+// First sentence of the advice when emergency services should be called
+const EMERGENCY_CALL: Record<Language, string> = {
+  en: 'Call your local emergency number (911 in the US) now.',
+  es: 'Llama ahora a tu número local de emergencias (911 en EE. UU. y México, 112 en España).',
+  pt: 'Ligue agora para o número de emergência local (192 no Brasil, 112 em Portugal).',
+};
+
+// Heading of the card: what to do, by level
+const CARD_HEADINGS: Record<Language, Record<TriageLevel, string>> = {
+  en: { EMERGENCY: 'get help now', URGENT: 'call today' },
+  es: { EMERGENCY: 'busca ayuda ya', URGENT: 'llama hoy' },
+  pt: { EMERGENCY: 'procure ajuda agora', URGENT: 'ligue hoje' },
+};
+
+/**
+ * Who the message is about, as far as triage needs to know
+ */
+export interface TriageSubject {
+  babyAgeDays: number | null; // Age of the born child, null if there is none
+  pregnant: boolean;
+}
+
+/**
+ * Urgent-care response for a message that matched a red flag
+ */
+export interface TriageResult {
+  level: TriageLevel;
+  rule: string; // Id of the matched rule (stored on the message)
+  language: Language; // Language of title, advice and actions
+  title: string; // What was detected, e.g. "Fever in a baby under 3 months"
+  advice: string; // What to do now
+  actions: string[]; // Steps while getting help
+  callEmergencyServices: boolean; // Call emergency services rather than a doctor or hotline
+}
+
+/**
+ * Card text of a rule in one language
+ */
+interface TriageText {
+  title: string;
+  advice: string;
+  actions: string[];
+}
+
+/**
+ * A red-flag rule
+ * matches returns the language the message matched in, or null if it didn't match.
+ */
+interface TriageRule {
+  rule: string;
+  level: TriageLevel;
+  callEmergencyServices: boolean;
+  text: Record<Language, TriageText>;
+  matches: (text: string, subject: TriageSubject) => Language | null;
+}
+
+/**
+ * Builds the triage subject from the child or pregnancy the chat is about
+ *
+ * @param details - Mode, birth date of the child (if born) and due date
+ * @param now - Current time
+ * @returns Triage subject
+ */
+export function buildTriageSubject(
+  details: { mode?: string | null; babyBirthDate?: Date | null },
+  now: Date = new Date(),
+): TriageSubject {
+  const babyAgeDays = details.babyBirthDate
+    ? Math.max(0, Math.floor((now.getTime() - details.babyBirthDate.getTime()) / MS_PER_DAY))
+    : null;
+
+  return { babyAgeDays, pregnant: details.mode === 'PREGNANCY' };
+}
+
+/**
+ * Normalizes message text for matching: lowercase, no accents, straight apostrophes, single spaces
+ *
+ * @param text - Message text
+ * @returns Normalized text
+ */
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[‘’`]/g, "'")
+    .replace(/\s+/g, ' ');
+}
+
+/**
+ * Finds the first language with a matching phrase
+ *
+ * @param text - Normalized message text
+ * @param phrases - Phrases per language
+ * @returns Language of the first match, or null
+ */
+function matchPhrases(text: string, phrases: Record<Language, RegExp[]>): Language | null {
+  return SUPPORTED_LANGUAGES.find((language) => phrases[language].some((phrase) => phrase.test(text))) ?? null;
+}
+
+/**
+ * Finds body temperatures in a message, in °C
+ *
+ * Numbers count when they carry a unit ("39.5 c", "102°f"), or come within a few
+ * words after "fever" or "temperature" ("temp is 38.5", "fiebre de 39") and aren't
+ * an age or amount ("38 days old", "39 weeks"). Without a unit, values from 90 are read as °F.
+ *
+ * @param text - Normalized message text
+ * @returns Temperatures in °C (implausible values are skipped)
+ */
+export function findTemperatures(text: string): number[] {
+  const temperatures: number[] = [];
+
+  for (const match of text.matchAll(
+    /\b(\d{2,3}(?:[.,]\d{1,2})?)\s*(°|º|degrees?|deg|grados?|graus?)?\s*(c|f|celsius|fahrenheit)?\b/g,
+  )) {
+    const [, rawValue, degreeSign, unit] = match;
+    if (!degreeSign && !unit) {
+      const before = text.slice(0, match.index);
+      const after = text.slice(match.index + match[0].length);
+      if (!AFTER_FEVER_WORD.test(before) || NON_TEMPERATURE_UNITS.test(after)) continue;
+    }
+
+    const value = parseFloat(rawValue.replace(',', '.'));
+    const fahrenheit = unit ? unit.startsWith('f') : value >= 90;
+    const celsius = fahrenheit ? (value - 32) * (5 / 9) : value;
+
+    if (celsius >= MIN_TEMPERATURE_C && celsius <= MAX_TEMPERATURE_C) {
+      temperatures.push(Math.round(celsius * 10) / 10);
+    }
+  }
+
+  return temperatures;
+}
+
+/**
+ * Checks whether the message reports a fever (not "no fever" or "fever-free")
+ *
+ * @param text - Normalized message text
+ * @returns true if a fever is mentioned without being negated
+ */
+function mentionsFever(text: string): boolean {
+  for (const match of text.matchAll(REPORTED_FEVER)) {
+    const before = text.slice(Math.max(0, match.index - 30), match.index);
+    const after = text.slice(match.index + match[0].length, match.index + match[0].length + 6);
+    if (FEVER_NEGATION.test(before) || /^[\s-]*free\b/.test(after)) {
+      continue;
+    }
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Returns the language the message talks about fever in
+ *
+ * @param text - Normalized message text
+ * @returns Language of the first fever word, or the default language if there is none ("39.5 c")
+ */
+function feverLanguage(text: string): Language {
+  return SUPPORTED_LANGUAGES.find((language) => FEVER_WORDS[language].test(text)) ?? DEFAULT_LANGUAGE;
+}
+
+/**
+ * Returns the highest temperature in the message (°C), if any
+ *
+ * @param text - Normalized message text
+ * @returns Highest temperature, or null
+ */
+function maxTemperature(text: string): number | null {
+  const temperatures = findTemperatures(text);
+  return temperatures.length > 0 ? Math.max(...temperatures) : null;
+}
+
+/**
+ * Matches a fever rule: the highest temperature reaches the threshold
+ *
+ * @param text - Normalized message text
+ * @param thresholdC - Lowest temperature that matches (°C)
+ * @returns Language of the message, or null
+ */
+function matchFever(text: string, thresholdC: number): Language | null {
+  const temperature = maxTemperature(text);
+  return temperature !== null && temperature >= thresholdC ? feverLanguage(text) : null;
+}
+
+/**
+ * Red-flag rules, most severe first; the first match wins
+ */
+const TRIAGE_RULES: TriageRule[] = [
+  {
+    rule: 'breathing_difficulty',
+    level: 'EMERGENCY',
+    callEmergencyServices: true,
+    text: {
+      en: {
+        title: 'Trouble breathing',
+        advice: `${EMERGENCY_CALL.en} Trouble breathing, blue or gray color, or choking needs emergency help right away.`,
+        actions: [
+          'If your child is choking and can\'t cry, cough or breathe, start back blows and chest thrusts (infants) or abdominal thrusts (children over 1)',
+          'If your child stops breathing, start CPR and follow the dispatcher\'s instructions',
+          'Don\'t give food or drink',
+        ],
+      },
+      es: {
+        title: 'Dificultad para respirar',
+        advice: `${EMERGENCY_CALL.es} La dificultad para respirar, un color azulado o grisáceo o un atragantamiento necesitan ayuda de emergencia de inmediato.`,
+        actions: [
+          'Si tu hijo se está atragantando y no puede llorar, toser ni respirar, empieza con golpes en la espalda y compresiones en el pecho (bebés) o compresiones abdominales (niños mayores de 1 año)',
+          'Si deja de respirar, empieza la RCP y sigue las instrucciones del operador',
+          'No le des comida ni bebida',
+        ],
+      },
+      pt: {
+        title: 'Dificuldade para respirar',
+        advice: `${EMERGENCY_CALL.pt} Dificuldade para respirar, cor azulada ou acinzentada ou engasgo precisam de ajuda de emergência imediatamente.`,
+        actions: [
+          'Se seu filho estiver engasgado e não conseguir chorar, tossir ou respirar, comece os tapas nas costas e as compressões no peito (bebês) ou compressões abdominais (crianças acima de 1 ano)',
+          'Se ele parar de respirar, comece a RCP e siga as instruções do atendente',
+          'Não dê comida nem bebida',
+        ],
+      },
+    },
+    matches: (text) =>
+      matchPhrases(text, {
+        en: [
+          /\b(not|isn't|is not|wasn't|stopped|stops|stop) breathing\b/,
+          /\b(can't|cannot|can not|unable to|struggling to|hard to|trouble|difficulty|hard time|labou?red) breath(e|ing)?\b/,
+          /\b(gasping|choking)\b/,
+          /\b(lips|face|skin|mouth|tongue|fingers|(finger)?nails|colou?r|he|she|he's|she's|they|they're|baby|child|toddler|newborn|son|daughter)( (is|are|was|were|looks?|looked|seems?|seemed))?( (turning|turned|going|gone|went|getting|looking))? (a bit |slightly |kind of |very )?(blue|gray|grey)\b/,
+          /\bblue (lips|face|skin|around the mouth)\b/,
+          /\b(ribs|chest|skin between the ribs) (is |are )?(sucking|pulling|caving) in\b/,
+        ],
+        es: [
+          /\b(no (esta )?respira(ndo)?|(dejo|deja|ha dejado) de respirar)\b/,
+          /\b(le cuesta|dificultad para|problemas para|no puede|no consigue) respirar\b/,
+          /\b(se (esta )?(ahoga|ahogando|asfixia|asfixiando)|atragantad[oa]|se (esta )?atragant(o|a|ando)|jadea(ndo)?)\b/,
+          /\b(labios|cara|piel|boca|unas|bebe|nino|nina)( (esta|estan|se ve|se ven|se (le )?(puso|pusieron|pone|ponen|esta poniendo|estan poniendo)))? (azul(es)?|azulad[oa]s?|morad[oa]s?|gris(es)?|grisace[oa]s?)\b/,
+          /\bse (le )?(puso|pusieron|esta poniendo|ha puesto|pone) (azul|azulad[oa]|morad[oa])\b/,
+          /\bse le (hunden|marcan) las costillas\b/,
+        ],
+        pt: [
+          /\b(nao (esta )?respira(ndo)?|parou de respirar)\b/,
+          /\b(dificuldade (para|de|pra) respirar|nao consegue respirar|falta de ar|respirando com dificuldade)\b/,
+          /\b(engasgad[oa]|engasgou|engasgando|sufocando|sufocad[oa])\b/,
+          /\b(labios|rosto|cara|pele|boca|bebe)( (esta|estao|ta|ficou|ficaram|ficando|esta ficando|estao ficando))? (roxos?|roxas?|azul|azuis|azulad[oa]s?|cinzas?|arroxead[oa]s?|acinzentad[oa]s?)\b/,
+          /\b(ficou|ficando|esta ficando) (roxo|roxa|azul|azulad[oa]|arroxead[oa])\b/,
+          /\bcostelas (afundando|puxando)\b/,
+        ],
+      }),
+  },
+  {
+    rule: 'unresponsive',
+    level: 'EMERGENCY',
+    callEmergencyServices: true,
+    text: {
+      en: {
+        title: 'Unresponsive or having a seizure',
+        advice: `${EMERGENCY_CALL.en} A child who is unresponsive, very hard to wake, limp or having a seizure needs emergency help.`,
+        actions: [
+          'Lay your child on their side on a safe surface',
+          'Don\'t put anything in their mouth',
+          'Note when a seizure started and how long it lasts',
+        ],
+      },
+      es: {
+        title: 'No responde o tiene una convulsión',
+        advice: `${EMERGENCY_CALL.es} Un niño que no responde, al que cuesta mucho despertar, que está flácido o que tiene una convulsión necesita ayuda de emergencia.`,
+        actions: [
+          'Acuesta a tu hijo de lado sobre una superficie segura',
+          'No le pongas nada en la boca',
+          'Anota cuándo empezó la convulsión y cuánto dura',
+        ],
+      },
+      pt: {
+        title: 'Não responde ou está tendo uma convulsão',
+        advice: `${EMERGENCY_CALL.pt} Uma criança que não responde, que está muito difícil de acordar, molinha ou tendo uma convulsão precisa de ajuda de emergência.`,
+        actions: [
+          'Deite seu filho de lado em uma superfície segura',
+          'Não coloque nada na boca dele',
+          'Anote quando a convulsão começou e quanto tempo dura',
+        ],
+      },
+    },
+    matches: (text) =>
+      matchPhrases(text, {
+        en: [
+          /\b(unresponsive|unconscious|passed out|not responding|won't respond)\b/,
+          /\b(can't|cannot|can not|unable to|couldn't) (wake|rouse)\b/,
+          /\b(went|gone|going|is|was|feels|body is) (limp|floppy)\b/,
+          /\b(seizure|seizures|seizing|convulsion|convulsions|convulsing)\b/,
+        ],
+        es: [
+          /\b(no responde(?! (a|al) (su )?nombre| cuando)|inconsciente|se desmayo|desmayad[oa]|perdio el conocimiento)\b/,
+          /\bno (puedo|logro|consigo) despertarl[oa]\b/,
+          /\b(esta|se puso|se quedo|se ha quedado) (flacid[oa]|sin fuerza|como un trapo|laci[oa])\b/,
+          /\b(convulsion(es)?|convulsiona(ndo)?|convulsiono|ataque epileptico|crisis epileptica)\b/,
+        ],
+        pt: [
+          /\b(nao responde(?! (ao|pelo) nome| quando)|inconsciente|desmaiou|desmaiad[oa]|perdeu a consciencia)\b/,
+          /\bnao (consigo|estou conseguindo|consegui) (acorda-l[oa]|acordar (ele|ela))\b/,
+          /\b(ficou|esta) (molinh[oa]|flacid[oa]|sem forca|desfalecid[oa])\b/,
+          /\b(convulsao|convulsoes|convulsionando|convulsionou|crise convulsiva|ataque epileptico)\b/,
+        ],
+      }),
+  },
+  {
+    rule: 'poisoning',
+    level: 'EMERGENCY',
+    callEmergencyServices: false,
+    text: {
+      en: {
+        title: 'Possible poisoning',
+        advice: 'Call Poison Control now (1-800-222-1222 in the US). If your child is drowsy, having trouble breathing or having a seizure, call your local emergency number (911 in the US) instead.',
+        actions: [
+          'Don\'t try to make your child vomit',
+          'Keep the package or bottle to tell them what was swallowed and how much',
+          'A swallowed button battery or magnet needs the emergency room even if your child seems fine',
+        ],
+      },
+      es: {
+        title: 'Posible intoxicación',
+        advice: 'Llama ahora al centro de toxicología (1-800-222-1222 en EE. UU., con atención en español; 91 562 04 20 en España). Si tu hijo está adormilado, tiene dificultad para respirar o una convulsión, llama en su lugar a tu número local de emergencias.',
+        actions: [
+          'No intentes que tu hijo vomite',
+          'Guarda el envase o el frasco para decirles qué tragó y cuánto',
+          'Una pila de botón o un imán tragados necesitan urgencias aunque tu hijo parezca estar bien',
+        ],
+      },
+      pt: {
+        title: 'Possível intoxicação',
+        advice: 'Ligue agora para o centro de informação toxicológica (Disque-Intoxicação 0800 722 6001 no Brasil; 800 250 250 em Portugal). Se seu filho estiver sonolento, com dificuldade para respirar ou tendo uma convulsão, ligue para o número de emergência local.',
+        actions: [
+          'Não tente fazer seu filho vomitar',
+          'Guarde a embalagem ou o frasco para informar o que foi engolido e quanto',
+          'Uma bateria de botão ou um ímã engolidos precisam de pronto-socorro mesmo que seu filho pareça bem',
+        ],
+      },
+    },
+    matches: (text) =>
+      matchPhrases(text, {
+        en: [
+          /\bpoison(ed|ing|ous)?\b/,
+          /\b(swallowed|swallow|ate|eaten|drank|drunk|ingested|got into|chewed|licked)\b[^.!?]{0,40}\b(batter(y|ies)|magnets?|bleach|detergent|(laundry|dishwasher|tide) pods?|cleaning (product|spray|fluid)s?|cleaner|medicines?|medications?|pills?|tablets?|vitamins|chemicals?|antifreeze|lamp oil|essential oils?|cannabis|edibles?|nicotine|vape|e-liquid|paint thinner|pesticide)\b/,
+        ],
+        es: [
+          /\b(envenenad[oa]|envenenamiento|veneno|intoxicad[oa]|intoxicacion)\b/,
+          /\b(trago|se trago|comio|se comio|bebio|se bebio|ingirio|mordio|chupo|lamio)\b[^.!?]{0,40}\b(pilas?|baterias?|imanes|iman|lejia|cloro|detergente|capsulas? de detergente|productos? de limpieza|limpiador|medicinas?|medicamentos?|pastillas?|tabletas?|vitaminas|quimicos?|anticongelante|aceites? esencial(es)?|nicotina|vapeador|insecticida|pesticida|marihuana)\b/,
+        ],
+        pt: [
+          /\b(envenenad[oa]|envenenamento|veneno|intoxicad[oa]|intoxicacao)\b/,
+          /\b(engoliu|comeu|bebeu|ingeriu|mordeu|lambeu|mastigou|chupou)\b[^.!?]{0,40}\b(pilhas?|baterias?|imas?|alvejante|agua sanitaria|cloro|detergente|capsulas? de (sabao|detergente)|produtos? de limpeza|remedios?|medicamentos?|comprimidos?|pilulas?|vitaminas|quimicos?|anticongelante|oleos? essencia(l|is)|nicotina|vape|inseticida|pesticida|maconha)\b/,
+        ],
+      }),
+  },
+  {
+    rule: 'fever_under_3_months',
+    level: 'EMERGENCY',
+    callEmergencyServices: false,
+    text: {
+      en: {
+        title: 'Fever in a baby under 3 months',
+        advice: 'Call your pediatrician right away, or go to the emergency room if you can\'t reach them. A temperature of 38°C (100.4°F) or higher in a baby under 3 months needs to be checked by a doctor now.',
+        actions: [
+          'Take a rectal temperature to confirm it, if you haven\'t',
+          'Don\'t give fever medicine before talking to a doctor',
+          'Keep feeding and dress your baby in light clothing',
+        ],
+      },
+      es: {
+        title: 'Fiebre en un bebé menor de 3 meses',
+        advice: 'Llama a tu pediatra de inmediato, o ve a urgencias si no puedes contactar con él. Una temperatura de 38 °C (100.4 °F) o más en un bebé menor de 3 meses debe verla un médico ahora.',
+        actions: [
+          'Confirma la temperatura con un termómetro rectal, si no lo has hecho',
+          'No le des medicina para la fiebre antes de hablar con un médico',
+          'Sigue alimentándole y vístele con ropa ligera',
+        ],
+      },
+      pt: {
+        title: 'Febre em bebê com menos de 3 meses',
+        advice: 'Ligue para o pediatra imediatamente, ou vá ao pronto-socorro se não conseguir falar com ele. Uma temperatura de 38 °C (100,4 °F) ou mais em um bebê com menos de 3 meses precisa ser avaliada por um médico agora.',
+        actions: [
+          'Confirme a temperatura com um termômetro retal, se ainda não fez isso',
+          'Não dê remédio para febre antes de falar com um médico',
+          'Continue alimentando e vista o bebê com roupas leves',
+        ],
+      },
+    },
+    matches: (text, subject): Language | null => {
+      if (subject.babyAgeDays === null || subject.babyAgeDays >= YOUNG_INFANT_DAYS) return null;
+      if (maxTemperature(text) !== null) return matchFever(text, FEVER_C);
+      return mentionsFever(text) ? feverLanguage(text) : null;
+    },
+  },
+  {
+    rule: 'pregnancy_heavy_bleeding',
+    level: 'EMERGENCY',
+    callEmergencyServices: true,
+    text: {
+      en: {
+        title: 'Heavy bleeding during pregnancy',
+        advice: `${EMERGENCY_CALL.en} Heavy bleeding during pregnancy needs emergency care. Then call your provider.`,
+        actions: [
+          'Lie down on your left side while you wait for help',
+          'Note how many pads you have soaked and when it started',
+        ],
+      },
+      es: {
+        title: 'Sangrado abundante durante el embarazo',
+        advice: `${EMERGENCY_CALL.es} Un sangrado abundante durante el embarazo necesita atención de emergencia. Después llama a tu médico o matrona.`,
+        actions: [
+          'Acuéstate sobre el lado izquierdo mientras esperas ayuda',
+          'Anota cuántas compresas has empapado y cuándo empezó',
+        ],
+      },
+      pt: {
+        title: 'Sangramento intenso na gravidez',
+        advice: `${EMERGENCY_CALL.pt} Sangramento intenso na gravidez precisa de atendimento de emergência. Depois ligue para seu obstetra.`,
+        actions: [
+          'Deite-se sobre o lado esquerdo enquanto espera ajuda',
+          'Anote quantos absorventes você encharcou e quando começou',
+        ],
+      },
+    },
+    matches: (text, subject) =>
+      subject.pregnant
+        ? matchPhrases(text, {
+            en: [
+              /\b(heavy|heavily|lots of|a lot of|gushing|soaking) (vaginal )?(bleeding|blood)\b/,
+              /\bbleeding (heavily|a lot)\b/,
+              /\bsoak(ed|ing)? (a|through|through a|my) (pad|pads)\b/,
+            ],
+            es: [
+              /\b(sangrado|sangrando|sangre) (muy )?(abundante|fuerte|mucho)\b/,
+              /\b(mucho|mucha|abundante) (sangrado|sangre)\b/,
+              /\bempap(e|o|ando|ado) (una |la |las |varias )?(compresas?|toallas?)\b/,
+            ],
+            pt: [
+              /\b(sangramento|sangrando|sangue) (muito )?(forte|intenso|abundante|muito)\b/,
+              /\b(muito|bastante) (sangramento|sangue)\b/,
+              /\bencharc(ei|ou|ando|ado) (um |o |os |varios )?absorventes?\b/,
+            ],
+          })
+        : null,
+  },
+  {
+    rule: 'pregnancy_reduced_movement',
+    level: 'URGENT',
+    callEmergencyServices: false,
+    text: {
+      en: {
+        title: 'Baby moving less than usual',
+        advice: 'Call your provider or labor and delivery unit now. Fewer movements than usual should be checked the same day; don\'t wait until tomorrow.',
+        actions: [
+          'Lie on your left side and count movements for up to 2 hours while you call',
+          'Don\'t rely on a home doppler to reassure yourself',
+        ],
+      },
+      es: {
+        title: 'El bebé se mueve menos de lo normal',
+        advice: 'Llama ahora a tu médico o a la sala de partos. Si notas menos movimientos de lo habitual, hay que revisarlo hoy mismo; no esperes a mañana.',
+        actions: [
+          'Acuéstate sobre el lado izquierdo y cuenta los movimientos durante un máximo de 2 horas mientras llamas',
+          'No confíes en un doppler casero para tranquilizarte',
+        ],
+      },
+      pt: {
+        title: 'Bebê mexendo menos que o normal',
+        advice: 'Ligue agora para seu obstetra ou para a maternidade. Menos movimentos que o normal precisam ser avaliados no mesmo dia; não espere até amanhã.',
+        actions: [
+          'Deite-se sobre o lado esquerdo e conte os movimentos por até 2 horas enquanto liga',
+          'Não confie em um doppler caseiro para se tranquilizar',
+        ],
+      },
+    },
+    matches: (text, subject) =>
+      subject.pregnant
+        ? matchPhrases(text, {
+            en: [
+              /\b(hasn't|hasnt|has not|haven't|have not|isn't|is not|not|stopped|stop) (been )?(moving|kicking|felt)\b/,
+              /\b(less|fewer|reduced|decreased|no) (fetal |baby )?(movements?|kicks|kicking)\b/,
+              /\bcan't feel (the baby|baby|him|her|them) (move|moving|kick|kicking)\b/,
+            ],
+            es: [
+              /\b(no se (ha )?mueve|no se ha movido|(dejo|ha dejado) de moverse|se mueve (mucho )?menos)\b/,
+              /\b(menos|pocos|disminucion de|no (siento|he sentido|noto)) (movimientos|patadas)\b/,
+              /\bno (lo |la |le )?(siento|noto|he sentido) (al bebe )?(moverse|mover|patear)\b/,
+            ],
+            pt: [
+              /\b(nao (esta )?(se )?mex(e|endo|eu)|parou de (se )?mexer|(se )?mexe(ndo)? menos)\b/,
+              /\b(menos|poucos|diminuicao d[oa]s?|nao (sinto|senti)) (movimentos|chutes)\b/,
+              /\bnao (sinto|senti|estou sentindo) (o bebe |ele |ela )?(se mexer|mexer|chutar)\b/,
+            ],
+          })
+        : null,
+  },
+  {
+    rule: 'pregnancy_preeclampsia_signs',
+    level: 'URGENT',
+    callEmergencyServices: false,
+    text: {
+      en: {
+        title: 'Possible signs of preeclampsia',
+        advice: 'Call your provider or labor and delivery unit now. A severe headache, vision changes or sudden swelling can be signs of high blood pressure in pregnancy and need to be checked today.',
+        actions: [
+          'Check your blood pressure if you have a monitor, and tell them the reading',
+          'Go to the emergency room if you have chest pain, trouble breathing or a seizure',
+        ],
+      },
+      es: {
+        title: 'Posibles signos de preeclampsia',
+        advice: 'Llama ahora a tu médico o a la sala de partos. Un dolor de cabeza intenso, cambios en la vista o una hinchazón repentina pueden ser signos de presión alta en el embarazo y deben revisarse hoy.',
+        actions: [
+          'Mídete la presión si tienes tensiómetro y diles el resultado',
+          'Ve a urgencias si tienes dolor en el pecho, dificultad para respirar o una convulsión',
+        ],
+      },
+      pt: {
+        title: 'Possíveis sinais de pré-eclâmpsia',
+        advice: 'Ligue agora para seu obstetra ou para a maternidade. Dor de cabeça forte, alterações na visão ou inchaço repentino podem ser sinais de pressão alta na gravidez e precisam ser avaliados hoje.',
+        actions: [
+          'Meça sua pressão se tiver um aparelho e informe o resultado',
+          'Vá ao pronto-socorro se tiver dor no peito, dificuldade para respirar ou uma convulsão',
+        ],
+      },
+    },
+    matches: (text, subject) =>
+      subject.pregnant
+        ? matchPhrases(text, {
+            en: [
+              /\b(blurr(y|ed) vision|seeing (spots|stars|flashing lights)|vision (changes|is blurry))\b/,
+              /^(?=.*\b(severe|bad|terrible|worst|pounding) headache\b)(?=.*\b(swelling|swollen|vision|spots|pain under (my )?ribs)\b)/,
+              /\bsudden(ly)? (swelling|swollen)\b/,
+            ],
+            es: [
+              /\b(vision borrosa|vista borrosa|veo borroso|veo (puntos|estrellas|luces)|cambios en la vista)\b/,
+              /^(?=.*\b(dolor de cabeza|cefalea) (muy )?(fuerte|intens[oa]|terrible|horrible)\b)(?=.*\b(hinchazon|hinchad[oa]s?|vision|vista|puntos|dolor bajo las costillas)\b)/,
+              /\b(hinchazon (repentina|subita)|me hinche de repente|se me hincharon de repente|de repente (muy )?hinchad[oa]s?)\b/,
+            ],
+            pt: [
+              /\b(visao (embacada|turva|borrada)|vista (embacada|turva)|vendo (pontos|estrelas|luzes))\b/,
+              /^(?=.*\bdor de cabeca (muito )?(forte|intensa|terrivel|horrivel)\b)(?=.*\b(inchaco|inchad[oa]s?|visao|vista|pontos|dor embaixo das costelas)\b)/,
+              /\b(inchaco (repentino|subito)|inchei de repente|de repente (muito )?inchad[oa]s?)\b/,
+            ],
+          })
+        : null,
+  },
+  {
+    rule: 'fever_3_to_6_months',
+    level: 'URGENT',
+    callEmergencyServices: false,
+    text: {
+      en: {
+        title: 'High fever in a baby 3 to 6 months old',
+        advice: 'Call your pediatrician today. A temperature of 39°C (102.2°F) or higher in a baby 3 to 6 months old should be checked by a doctor.',
+        actions: [
+          'Keep offering feeds and watch for fewer wet diapers',
+          'Ask your pediatrician before giving fever medicine and about the right dose',
+        ],
+      },
+      es: {
+        title: 'Fiebre alta en un bebé de 3 a 6 meses',
+        advice: 'Llama hoy a tu pediatra. Una temperatura de 39 °C (102.2 °F) o más en un bebé de 3 a 6 meses debe verla un médico.',
+        actions: [
+          'Sigue ofreciéndole tomas y fíjate si moja menos pañales',
+          'Pregunta a tu pediatra antes de darle medicina para la fiebre y cuál es la dosis correcta',
+        ],
+      },
+      pt: {
+        title: 'Febre alta em bebê de 3 a 6 meses',
+        advice: 'Ligue hoje para o pediatra. Uma temperatura de 39 °C (102,2 °F) ou mais em um bebê de 3 a 6 meses precisa ser avaliada por um médico.',
+        actions: [
+          'Continue oferecendo as mamadas e observe se ele está molhando menos fraldas',
+          'Pergunte ao pediatra antes de dar remédio para febre e qual é a dose certa',
+        ],
+      },
+    },
+    matches: (text, subject): Language | null => {
+      if (subject.babyAgeDays === null || subject.babyAgeDays < YOUNG_INFANT_DAYS || subject.babyAgeDays >= INFANT_DAYS) {
+        return null;
+      }
+      return matchFever(text, INFANT_HIGH_FEVER_C);
+    },
+  },
+  {
+    rule: 'pregnancy_fever',
+    level: 'URGENT',
+    callEmergencyServices: false,
+    text: {
+      en: {
+        title: 'Fever during pregnancy',
+        advice: 'Call your provider today. A temperature of 38°C (100.4°F) or higher during pregnancy should be checked.',
+        actions: ['Ask your provider before taking any fever medicine', 'Drink plenty of fluids'],
+      },
+      es: {
+        title: 'Fiebre durante el embarazo',
+        advice: 'Llama hoy a tu médico o matrona. Una temperatura de 38 °C (100.4 °F) o más durante el embarazo debe revisarse.',
+        actions: ['Pregunta a tu médico antes de tomar cualquier medicina para la fiebre', 'Bebe muchos líquidos'],
+      },
+      pt: {
+        title: 'Febre na gravidez',
+        advice: 'Ligue hoje para seu obstetra. Uma temperatura de 38 °C (100,4 °F) ou mais na gravidez precisa ser avaliada.',
+        actions: ['Pergunte ao seu obstetra antes de tomar qualquer remédio para febre', 'Beba bastante líquido'],
+      },
+    },
+    matches: (text, subject) =>
+      subject.pregnant && subject.babyAgeDays === null ? matchFever(text, FEVER_C) : null,
+  },
+  {
+    rule: 'very_high_fever',
+    level: 'URGENT',
+    callEmergencyServices: false,
+    text: {
+      en: {
+        title: 'Very high fever',
+        advice: 'Call your pediatrician now. A temperature of 40°C (104°F) or higher should be checked by a doctor, at any age.',
+        actions: [
+          'Go to the emergency room if your child is hard to wake, has trouble breathing, a stiff neck or a rash that doesn\'t fade when pressed',
+          'Keep offering fluids',
+        ],
+      },
+      es: {
+        title: 'Fiebre muy alta',
+        advice: 'Llama ahora a tu pediatra. Una temperatura de 40 °C (104 °F) o más debe verla un médico, a cualquier edad.',
+        actions: [
+          'Ve a urgencias si a tu hijo le cuesta mucho despertar, tiene dificultad para respirar, el cuello rígido o un sarpullido que no desaparece al presionarlo',
+          'Sigue ofreciéndole líquidos',
+        ],
+      },
+      pt: {
+        title: 'Febre muito alta',
+        advice: 'Ligue agora para o pediatra. Uma temperatura de 40 °C (104 °F) ou mais precisa ser avaliada por um médico, em qualquer idade.',
+        actions: [
+          'Vá ao pronto-socorro se seu filho estiver muito difícil de acordar, com dificuldade para respirar, pescoço rígido ou manchas na pele que não somem ao pressionar',
+          'Continue oferecendo líquidos',
+        ],
+      },
+    },
+    matches: (text, subject) =>
+      subject.pregnant && subject.babyAgeDays === null ? null : matchFever(text, VERY_HIGH_FEVER_C),
+  },
+  {
+    rule: 'dehydration',
+    level: 'URGENT',
+    callEmergencyServices: false,
+    text: {
+      en: {
+        title: 'Possible dehydration',
+        advice: 'Call your pediatrician today. No wet diapers for 6 to 8 hours, or refusing all feeds, can mean your child is getting dehydrated.',
+        actions: [
+          'Keep offering breast milk, formula or small sips of fluid often',
+          'Go to the emergency room if your child is very sleepy, has a sunken soft spot or cries without tears',
+        ],
+      },
+      es: {
+        title: 'Posible deshidratación',
+        advice: 'Llama hoy a tu pediatra. No mojar el pañal en 6 a 8 horas, o rechazar todas las tomas, puede significar que tu hijo se está deshidratando.',
+        actions: [
+          'Sigue ofreciéndole a menudo leche materna, fórmula o pequeños sorbos de líquido',
+          'Ve a urgencias si tu hijo está muy adormilado, tiene la fontanela hundida o llora sin lágrimas',
+        ],
+      },
+      pt: {
+        title: 'Possível desidratação',
+        advice: 'Ligue hoje para o pediatra. Nenhuma fralda molhada em 6 a 8 horas, ou recusar todas as mamadas, pode significar que seu filho está ficando desidratado.',
+        actions: [
+          'Continue oferecendo com frequência leite materno, fórmula ou pequenos goles de líquido',
+          'Vá ao pronto-socorro se seu filho estiver muito sonolento, com a moleira afundada ou chorando sem lágrimas',
+        ],
+      },
+    },
+    matches: (text, subject) =>
+      subject.babyAgeDays !== null
+        ? matchPhrases(text, {
+            en: [
+              /\bno (wet|pee|peed|wee) ?(diapers?|nappies|nappy)?\b/,
+              /\b(hasn't|hasnt|has not|hasn't had a) (peed|weed|wet (a |her |his |their )?(diaper|nappy))\b/,
+              /\b(refusing|refuses|won't take) (all|any) (feeds|feeding|fluids|milk|bottles)\b/,
+            ],
+            es: [
+              /\b(no ha (mojado|hecho pis|hecho pipi)|panal(es)? (seco|secos)|sin panales mojados|no moja (el |los )?panal(es)?)\b/,
+              /\b(rechaza|rechazando|se niega a tomar|no quiere) (todas las tomas|ninguna toma|ningun biberon|nada de leche|ningun liquido)\b/,
+            ],
+            pt: [
+              /\b(nao (fez xixi|molhou (a |as |nenhuma )?fraldas?)|fraldas? secas?|nenhuma fralda molhada)\b/,
+              /\b(recusa|recusando|nao aceita|nao quer) (todas as mamadas|nenhuma mamada|nenhuma mamadeira|nada de leite|nenhum liquido)\b/,
+            ],
+          })
+        : null,
+  },
+];
+
+/**
+ * Runs the red-flag rules on a message
+ *
+ * @param message - Text the parent sent (or the transcription of what they said)
+ * @param subject - Age of the child and whether the parent is pregnant
+ * @param language - Parent's preferred language (null/undefined: the language of the message)
+ * @returns Urgent-care response for the most severe match, or null if nothing matched
+ */
+export function triageMessage(
+  message: string,
+  subject: TriageSubject,
+  language?: Language | null,
+): TriageResult | null {
+  const text = normalize(message);
+
+  for (const rule of TRIAGE_RULES) {
+    const matchedLanguage = rule.matches(text, subject);
+    if (!matchedLanguage) continue;
+
+    const resultLanguage = language ?? matchedLanguage;
+    return {
+      level: rule.level,
+      rule: rule.rule,
+      language: resultLanguage,
+      ...rule.text[resultLanguage],
+      callEmergencyServices: rule.callEmergencyServices,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Formats a triage response as the text of a chat message
+ *
+ * @param result - Triage result
+ * @returns Message text (heading, advice, steps)
+ */
+export function formatTriageMessage(result: TriageResult): string {
+  const heading = `⚠️ ${result.title}: ${CARD_HEADINGS[result.language][result.level]}`;
+  return [heading, '', result.advice, '', ...result.actions.map((action) => `- ${action}`)].join('\n');
+}
@@ -0,0 +1,186 @@
+/**
+ * Voice Activity Detection Utilities
+ *
+ * Energy-based voice activity detection for hands-free voice mode. The detector
+ * reads 16-bit little-endian mono PCM in 20 ms frames, tracks the background
+ * noise level and reports when the parent starts speaking and when a turn ends
+ * (enough silence after speech, or the turn got too long).
+ *
+ * Compressed audio (Opus, AAC) has to be decoded to PCM before it can be analyzed.
+ */
+
+// Length of one analysis frame
+export const VAD_FRAME_MS = 20;
+
+/**
+ * Detector tuning
+ */
+export interface VadOptions {
+  speechThresholdDb: number; // Frame level above the noise floor that counts as speech
+  minSpeechRms: number; // Absolute level (16-bit amplitude) below which a frame is never speech
+  speechStartMs: number; // Continuous speech needed to start a turn (ignores clicks and bumps)
+  endSilenceMs: number; // Silence after speech that ends the turn
+  maxTurnMs: number; // Turn length after which the turn is ended anyway
+}
+
+export const DEFAULT_VAD_OPTIONS: VadOptions = {
+  speechThresholdDb: 12,
+  minSpeechRms: 300,
+  speechStartMs: 200,
+  endSilenceMs: 900,
+  maxTurnMs: 60_000,
+};
+
+/**
+ * Change in voice activity
+ * atMs is measured from the first audio the detector received.
+ */
+export type VadEvent =
+  | { type: 'speech_start'; atMs: number }
+  | { type: 'speech_end'; atMs: number; reason: 'silence' | 'max_length' };
+
+/**
+ * Calculates the root-mean-square level of 16-bit PCM samples
+ *
+ * @param pcm - Audio buffer (16-bit little-endian samples)
+ * @param start - Byte offset of the first sample
+ * @param end - Byte offset after the last sample
+ * @returns RMS amplitude (0 to 32768)
+ */
+export function pcmRms(pcm: Buffer, start = 0, end = pcm.length): number {
+  const samples = Math.floor((end - start) / 2);
+  if (samples === 0) return 0;
+
+  let sumOfSquares = 0;
+  for (let offset = start; offset + 1 < end; offset += 2) {
+    const sample = pcm.readInt16LE(offset);
+    sumOfSquares += sample * sample;
+  }
+
+  return Math.sqrt(sumOfSquares / samples);
+}
+
+/**
+ * Wraps 16-bit mono PCM in a WAV container (for transcription)
+ *
+ * @param pcm - Audio samples
+ * @param sampleRate - Sample rate in Hz
+ * @returns WAV file contents
+ */
+export function encodeWav(pcm: Buffer, sampleRate: number): Buffer {
+  const header = Buffer.alloc(44);
+
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + pcm.length, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16); // fmt chunk size
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(1, 22); // Mono
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * 2, 28); // Byte rate
+  header.writeUInt16LE(2, 32); // Block align
+  header.writeUInt16LE(16, 34); // Bits per sample
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(pcm.length, 40);
+
+  return Buffer.concat([header, pcm]);
+}
+
+/**
+ * Streaming voice activity detector for one audio stream
+ */
+export class VoiceActivityDetector {
+  private readonly options: VadOptions;
+  private readonly frameBytes: number;
+  private leftover: Buffer = Buffer.alloc(0);
+  private noiseFloor: number | null = null;
+  private elapsedMs = 0;
+  private speechRunMs = 0;
+  private silenceRunMs = 0;
+  private turnMs = 0;
+  private inSpeech = false;
+
+  constructor(sampleRate: number, options: Partial<VadOptions> = {}) {
+    this.options = { ...DEFAULT_VAD_OPTIONS, ...options };
+    this.frameBytes = Math.round((sampleRate * VAD_FRAME_MS) / 1000) * 2;
+  }
+
+  /**
+   * Whether the parent is currently speaking (a turn is in progress)
+   */
+  get speaking(): boolean {
+    return this.inSpeech;
+  }
+
+  /**
+   * Analyzes the next piece of the audio stream
+   * Samples that don't fill a whole frame are kept for the next call.
+   *
+   * @param chunk - 16-bit little-endian mono PCM
+   * @returns Voice activity changes in this chunk, in order
+   */
+  process(chunk: Buffer): VadEvent[] {
+    const audio = this.leftover.length > 0 ? Buffer.concat([this.leftover, chunk]) : chunk;
+    const events: VadEvent[] = [];
+
+    let offset = 0;
+    for (; offset + this.frameBytes <= audio.length; offset += this.frameBytes) {
+      const event = this.processFrame(pcmRms(audio, offset, offset + this.frameBytes));
+      if (event) {
+        events.push(event);
+      }
+    }
+
+    this.leftover = audio.subarray(offset);
+    return events;
+  }
+
+  /**
+   * Classifies one frame and updates the turn state
+   *
+   * @param rms - Frame level
+   * @returns Voice activity change at the end of this frame, if any
+   */
+  private processFrame(rms: number): VadEvent | null {
+    const { speechThresholdDb, minSpeechRms, speechStartMs, endSilenceMs, maxTurnMs } = this.options;
+
+    this.elapsedMs += VAD_FRAME_MS;
+
+    // Assume a quiet room until the background has been heard (the parent may start talking right away)
+    const noiseFloor = this.noiseFloor ?? Math.min(rms, minSpeechRms);
+    const threshold = Math.max(minSpeechRms, noiseFloor * 10 ** (speechThresholdDb / 20));
+    const isSpeech = rms >= threshold;
+
+    // Track the background level: drop to quiet frames at once, follow louder
+    // non-speech frames quickly and speech very slowly (a loud, steady noise is
+    // eventually learned, while pauses between words pull the floor back down)
+    this.noiseFloor = rms < noiseFloor ? rms : noiseFloor + (rms - noiseFloor) * (isSpeech ? 0.002 : 0.05);
+
+    if (!this.inSpeech) {
+      if (!isSpeech) {
+        this.speechRunMs = 0;
+        return null;
+      }
+
+      this.speechRunMs += VAD_FRAME_MS;
+      if (this.speechRunMs < speechStartMs) return null;
+
+      this.inSpeech = true;
+      this.turnMs = this.speechRunMs;
+      this.silenceRunMs = 0;
+      return { type: 'speech_start', atMs: this.elapsedMs - this.speechRunMs };
+    }
+
+    this.turnMs += VAD_FRAME_MS;
+    this.silenceRunMs = isSpeech ? 0 : this.silenceRunMs + VAD_FRAME_MS;
+
+    if (this.silenceRunMs < endSilenceMs && this.turnMs < maxTurnMs) return null;
+
+    const reason = this.silenceRunMs >= endSilenceMs ? 'silence' : 'max_length';
+    this.inSpeech = false;
+    this.speechRunMs = 0;
+    this.silenceRunMs = 0;
+    return { type: 'speech_end', atMs: this.elapsedMs, reason };
+  }
+}
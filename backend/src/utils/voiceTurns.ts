@@ -0,0 +1,60 @@
+/**
+ * Voice Turn Utilities
+ *
+ * Builds the messages saved for one turn of a voice conversation: the parent's
+ * transcribed question and the AI reply, both in the turn's voice session.
+ */
+
+import { Prisma } from '@prisma/client';
+import { TriageResult } from './triage';
+
+/**
+ * Finished (or interrupted) voice turn
+ */
+export interface VoiceTurn {
+  userId: string;
+  sessionId: string; // Voice session (voiceSessionId) the turn belongs to
+  transcript: string; // What the parent said
+  responseText: string; // AI reply as far as it was generated (empty if interrupted before any text)
+  mediaUrls: string[]; // Stored recording of the question, if kept
+  triage: Pick<TriageResult, 'level' | 'rule'> | null;
+  savedAt: Date;
+}
+
+/**
+ * Builds the messages to save for a voice turn
+ * The reply is timestamped 2 ms after the question, leaving room for the
+ * urgent-care reply of a red-flag question in between.
+ *
+ * @param turn - Voice turn
+ * @returns User message, followed by the AI reply if any text was generated
+ */
+export function buildVoiceTurnMessages(turn: VoiceTurn): Prisma.MessageUncheckedCreateInput[] {
+  const messages: Prisma.MessageUncheckedCreateInput[] = [
+    {
+      userId: turn.userId,
+      role: 'USER',
+      content: turn.transcript,
+      contentType: 'VOICE',
+      mediaUrls: turn.mediaUrls,
+      sessionId: turn.sessionId,
+      timestamp: turn.savedAt,
+      triageLevel: turn.triage?.level,
+      triageRule: turn.triage?.rule,
+    },
+  ];
+
+  // An interrupted response is kept as far as it was generated
+  if (turn.responseText) {
+    messages.push({
+      userId: turn.userId,
+      role: 'ASSISTANT',
+      content: turn.responseText,
+      contentType: 'VOICE',
+      sessionId: turn.sessionId,
+      timestamp: new Date(turn.savedAt.getTime() + 2),
+    });
+  }
+
+  return messages;
+}
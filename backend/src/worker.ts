@@ -0,0 +1,34 @@
+/**
+ * AI Parenting Assistant - Background Worker Entry Point
+ *
+ * Runs the job runner without the HTTP server, for deployments that keep
+ * background work (reminders, weekly tips, cleanup, backfills) out of the API processes.
+ * Set JOB_RUNNER=worker on the API servers so they don't run jobs themselves.
+ *
+ * Usage: npm run worker (after npm run build)
+ * or: npm run worker:dev
+ */
+
+import dotenv from 'dotenv';
+import { startJobRunner, stopJobRunner } from './jobs/runner';
+
+// Load environment variables from .env file
+dotenv.config();
+
+startJobRunner();
+
+/**
+ * Finish the current job before exiting
+ */
+const shutdown = (signal: string): void => {
+  console.log(`🛑 Received ${signal}, stopping worker...`);
+  stopJobRunner()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('Error stopping worker:', error);
+      process.exit(1);
+    });
+};
+
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
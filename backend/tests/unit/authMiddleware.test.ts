@@ -0,0 +1,161 @@
+/**
+ * Unit tests for authentication middleware
+ * Tests that revoked sessions and unverified emails are rejected using the stored state rather than the token
+ */
+
+import { NextFunction, Response } from 'express';
+import jwt from 'jsonwebtoken';
+import { AuthenticatedRequest, authenticateToken, requireVerifiedEmail } from '../../src/middleware/auth';
+import { generateAccessToken } from '../../src/utils/jwt';
+
+const mockFindUniqueUser = jest.fn();
+const mockFindUniqueSession = jest.fn();
+
+// Modules create their Prisma client on import, so the mock is looked up per call
+jest.mock('@prisma/client', () => ({
+  PrismaClient: jest.fn(() => ({
+    user: { findUnique: (...args: unknown[]): unknown => mockFindUniqueUser(...args) },
+    authSession: { findUnique: (...args: unknown[]): unknown => mockFindUniqueSession(...args) },
+  })),
+}));
+
+/**
+ * Waits for the middleware's database lookup to settle
+ */
+const flushPromises = (): Promise<void> => new Promise((resolve) => setImmediate(resolve));
+
+/**
+ * Creates a response that records its status and body
+ */
+function mockResponse(): Response & { body?: unknown } {
+  const res = {} as Response & { body?: unknown };
+  res.status = jest.fn(() => res);
+  res.json = jest.fn((body: unknown) => {
+    res.body = body;
+    return res;
+  });
+  return res;
+}
+
+describe('Authentication Middleware', () => {
+  beforeEach(() => {
+    mockFindUniqueUser.mockReset();
+    mockFindUniqueSession.mockReset();
+  });
+
+  describe('authenticateToken', () => {
+    const activeSession = { userId: 'user-1', revokedAt: null, expiresAt: new Date(Date.now() + 60_000) };
+
+    /**
+     * Creates a request with a bearer token for a session
+     */
+    const requestWithToken = (sessionId: string): AuthenticatedRequest =>
+      ({
+        headers: { authorization: `Bearer ${generateAccessToken('user-1', 'a@example.com', true, sessionId)}` },
+      }) as AuthenticatedRequest;
+
+    it('should accept a token of an active session', async () => {
+      mockFindUniqueSession.mockResolvedValue(activeSession);
+      const req = requestWithToken('session-1');
+      const next: NextFunction = jest.fn();
+
+      authenticateToken(req, mockResponse(), next);
+      await flushPromises();
+
+      expect(next).toHaveBeenCalled();
+      expect(req.user).toMatchObject({ userId: 'user-1', sessionId: 'session-1' });
+    });
+
+    it('should reject a token of a revoked session before it expires', async () => {
+      mockFindUniqueSession.mockResolvedValue({ ...activeSession, revokedAt: new Date() });
+      const res = mockResponse();
+      const next: NextFunction = jest.fn();
+
+      authenticateToken(requestWithToken('session-1'), res, next);
+      await flushPromises();
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(res.body).toMatchObject({ error: 'Session revoked' });
+    });
+
+    it('should reject a token whose session was deleted or belongs to someone else', async () => {
+      const next: NextFunction = jest.fn();
+
+      mockFindUniqueSession.mockResolvedValue(null);
+      authenticateToken(requestWithToken('session-1'), mockResponse(), next);
+      await flushPromises();
+      mockFindUniqueSession.mockResolvedValue({ ...activeSession, userId: 'user-2' });
+      authenticateToken(requestWithToken('session-1'), mockResponse(), next);
+      await flushPromises();
+
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should reject tokens issued without a session', async () => {
+      const token = jwt.sign({ userId: 'user-1', email: 'a@example.com', emailVerified: true }, process.env.JWT_SECRET!);
+      const res = mockResponse();
+      const next: NextFunction = jest.fn();
+
+      authenticateToken({ headers: { authorization: `Bearer ${token}` } } as AuthenticatedRequest, res, next);
+      await flushPromises();
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(mockFindUniqueSession).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid tokens without a lookup', async () => {
+      const res = mockResponse();
+      const next: NextFunction = jest.fn();
+
+      authenticateToken({ headers: { authorization: 'Bearer invalid.token.here' } } as AuthenticatedRequest, res, next);
+      await flushPromises();
+
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(mockFindUniqueSession).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('requireVerifiedEmail', () => {
+    it('should let users with a verified email through', async () => {
+      mockFindUniqueUser.mockResolvedValue({ emailVerified: true });
+      const req = { user: { userId: 'user-1', email: 'a@example.com', emailVerified: true } } as AuthenticatedRequest;
+      const res = mockResponse();
+      const next: NextFunction = jest.fn();
+
+      requireVerifiedEmail(req, res, next);
+      await flushPromises();
+
+      expect(next).toHaveBeenCalled();
+      expect(mockFindUniqueUser).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'user-1' } }));
+    });
+
+    it('should reject a token issued before the email was changed', async () => {
+      // The token still says verified, but the new address isn't yet
+      mockFindUniqueUser.mockResolvedValue({ emailVerified: false });
+      const req = { user: { userId: 'user-1', email: 'old@example.com', emailVerified: true } } as AuthenticatedRequest;
+      const res = mockResponse();
+      const next: NextFunction = jest.fn();
+
+      requireVerifiedEmail(req, res, next);
+      await flushPromises();
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(res.body).toMatchObject({ error: 'Email not verified' });
+    });
+
+    it('should reject requests without a user', async () => {
+      const res = mockResponse();
+      const next: NextFunction = jest.fn();
+
+      requireVerifiedEmail({} as AuthenticatedRequest, res, next);
+      await flushPromises();
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(mockFindUniqueUser).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Unit tests for refresh token rotation
+ * Tests when a presented refresh token is rotated, rejected or treated as reuse
+ */
+
+import { StoredRefreshToken, decideRotation } from '../../src/services/authSessions';
+
+// The rotation decision needs no database; keep the module's Prisma client from loading an engine
+jest.mock('@prisma/client', () => ({
+  ...jest.requireActual<object>('@prisma/client'),
+  PrismaClient: jest.fn(() => ({})),
+}));
+
+describe('Refresh Token Rotation', () => {
+  const now = new Date('2025-06-01T12:00:00Z');
+  const later = new Date('2025-06-20T12:00:00Z');
+  const decoded = { sessionId: 'session-1', tokenVersion: 0 };
+
+  /**
+   * Creates a stored token of a live session, with overrides
+   */
+  const storedToken = (
+    overrides: Partial<StoredRefreshToken> = {},
+    session: Partial<StoredRefreshToken['session']> = {},
+  ): StoredRefreshToken => ({
+    sessionId: 'session-1',
+    expiresAt: later,
+    rotatedAt: null,
+    ...overrides,
+    session: { revokedAt: null, expiresAt: later, user: { tokenVersion: 0 }, ...session },
+  });
+
+  it('should rotate the current token of a live session', () => {
+    expect(decideRotation(decoded, storedToken(), now)).toBe('rotate');
+  });
+
+  it('should treat a token that was already rotated as reuse', () => {
+    expect(decideRotation(decoded, storedToken({ rotatedAt: now }), now)).toBe('reuse_detected');
+  });
+
+  it('should detect reuse even after the token version was bumped', () => {
+    const token = storedToken({ rotatedAt: now }, { user: { tokenVersion: 1 } });
+
+    expect(decideRotation(decoded, token, now)).toBe('reuse_detected');
+  });
+
+  it('should reject unknown tokens and tokens of another session', () => {
+    expect(decideRotation(decoded, null, now)).toBe('invalid');
+    expect(decideRotation(decoded, storedToken({ sessionId: 'session-2' }), now)).toBe('invalid');
+  });
+
+  it('should reject tokens of revoked or expired sessions without calling it reuse', () => {
+    expect(decideRotation(decoded, storedToken({ rotatedAt: now }, { revokedAt: now }), now)).toBe('invalid');
+    expect(decideRotation(decoded, storedToken({}, { expiresAt: new Date('2025-05-31T12:00:00Z') }), now)).toBe('invalid');
+    expect(decideRotation(decoded, storedToken({ expiresAt: new Date('2025-05-31T12:00:00Z') }), now)).toBe('invalid');
+  });
+
+  it('should reject tokens signed before a password reset', () => {
+    expect(decideRotation(decoded, storedToken({}, { user: { tokenVersion: 1 } }), now)).toBe('invalid');
+  });
+});
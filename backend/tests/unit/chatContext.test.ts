@@ -0,0 +1,162 @@
+/**
+ * Unit tests for chat context utilities
+ * Tests activity and pregnancy tracking formatting and trimming the context block to a token budget
+ */
+
+import { DiaperType, FeedType } from '@prisma/client';
+import {
+  estimateTokens,
+  fitSectionsToBudget,
+  formatActivityLines,
+  formatMilestoneLines,
+  formatPregnancyTrackingLines,
+  truncate,
+} from '../../src/utils/chatContext';
+
+const now = new Date('2025-11-08T12:00:00Z');
+
+/**
+ * Returns the timestamp a number of hours before `now`
+ */
+function hoursAgo(hours: number): Date {
+  return new Date(now.getTime() - hours * 60 * 60 * 1000);
+}
+
+describe('Chat Context Utilities', () => {
+  describe('Activity Formatting', () => {
+    it('should return no lines when nothing was logged', () => {
+      expect(formatActivityLines({ feeds: [], sleeps: [], diapers: [] }, 48, now)).toEqual([]);
+    });
+
+    it('should summarize feeds with the most recent one', () => {
+      const [line] = formatActivityLines(
+        {
+          feeds: [
+            { type: FeedType.BREAST, startedAt: hoursAgo(5), endedAt: null, durationMinutes: 20, volumeMl: null },
+            { type: FeedType.BOTTLE, startedAt: hoursAgo(2), endedAt: null, durationMinutes: null, volumeMl: 90 },
+            // Outside the window
+            { type: FeedType.BOTTLE, startedAt: hoursAgo(60), endedAt: null, durationMinutes: null, volumeMl: 90 },
+          ],
+          sleeps: [],
+          diapers: [],
+        },
+        48,
+        now,
+      );
+
+      expect(line).toBe(
+        'Feeds in the last 48h: 2 (1 breast (20 min total), 1 bottle (90 ml total)); last feed 2h ago (bottle).',
+      );
+    });
+
+    it('should clip sleep to the window and report ongoing sleep', () => {
+      const [line] = formatActivityLines(
+        {
+          feeds: [],
+          sleeps: [
+            // Started 50h ago: only the last 2h of it are inside the window
+            { startedAt: hoursAgo(50), endedAt: hoursAgo(46) },
+            { startedAt: hoursAgo(1.5), endedAt: null },
+          ],
+          diapers: [],
+        },
+        48,
+        now,
+      );
+
+      expect(line).toBe(
+        'Sleep in the last 48h: 3.5h over 2 sessions; longest stretch 4h; asleep now (for 1.5h).',
+      );
+    });
+
+    it('should count mixed diapers as both wet and dirty', () => {
+      const [line] = formatActivityLines(
+        {
+          feeds: [],
+          sleeps: [],
+          diapers: [
+            { type: DiaperType.WET, changedAt: hoursAgo(1) },
+            { type: DiaperType.MIXED, changedAt: hoursAgo(3) },
+          ],
+        },
+        48,
+        now,
+      );
+
+      expect(line).toBe('Diapers in the last 48h: 2 (2 wet, 1 dirty); last dirty 3h ago.');
+    });
+  });
+
+  describe('Pregnancy Tracking Formatting', () => {
+    it('should describe contraction timing and kick counts', () => {
+      const contractions = [0.9, 0.6, 0.3].map((hours) => ({
+        startedAt: hoursAgo(hours),
+        endedAt: new Date(hoursAgo(hours).getTime() + 50 * 1000),
+      }));
+      const kicks = Array.from({ length: 10 }, (_, i) => new Date(hoursAgo(5).getTime() + (i + 1) * 2 * 60 * 1000));
+
+      const lines = formatPregnancyTrackingLines(
+        {
+          contractionSession: { startedAt: hoursAgo(1), endedAt: null, contractions },
+          kickSessions: [
+            { startedAt: hoursAgo(30), endedAt: hoursAgo(28), kicks: [hoursAgo(29.5)] },
+            { startedAt: hoursAgo(5), endedAt: hoursAgo(4.5), kicks },
+          ],
+        },
+        now,
+      );
+
+      expect(lines).toEqual([
+        'Contraction timing started 1h ago (ongoing): 3 contractions, lasting ~50s, every ~18 min; ' +
+          'last hour: 3 every ~18 min; 5-1-1 pattern not met; last contraction 0.3h ago.',
+        'Kick count 5h ago: 10 kicks in 20 min.',
+        'Kick count 30h ago: 1 kick in 120 min, 10 kicks not reached.',
+      ]);
+    });
+  });
+
+  describe('Milestone Formatting', () => {
+    it('should list milestones newest first with shortened notes', () => {
+      const lines = formatMilestoneLines(
+        [
+          { name: 'First smile', achievedDate: hoursAgo(24 * 10), notes: null },
+          { name: 'Rolled over', achievedDate: hoursAgo(24 * 3), notes: 'Back to tummy\nduring play' },
+        ],
+        now,
+      );
+
+      expect(lines).toEqual(['Rolled over (3 days ago): Back to tummy during play', 'First smile (10 days ago)']);
+    });
+
+    it('should truncate long text with an ellipsis', () => {
+      expect(truncate('a'.repeat(50), 10)).toBe(`${'a'.repeat(9)}…`);
+    });
+  });
+
+  describe('Token Budget', () => {
+    const sections = [
+      { title: 'Logged activity', lines: ['x'.repeat(80), 'y'.repeat(80)] },
+      { title: 'Recent milestones', lines: ['z'.repeat(40)] },
+    ];
+
+    it('should include everything when the budget allows', () => {
+      const block = fitSectionsToBudget(sections, 1000);
+
+      expect(block.split('\n')).toHaveLength(5);
+      expect(block.startsWith('Logged activity:')).toBe(true);
+    });
+
+    it('should stay within the budget and drop lower-priority lines first', () => {
+      const block = fitSectionsToBudget(sections, 40);
+
+      expect(estimateTokens(block)).toBeLessThanOrEqual(40);
+      expect(block).toContain('x'.repeat(80));
+      expect(block).not.toContain('Recent milestones');
+    });
+
+    it('should skip empty sections and return empty text when nothing fits', () => {
+      expect(fitSectionsToBudget([{ title: 'Empty', lines: [] }], 100)).toBe('');
+      expect(fitSectionsToBudget(sections, 5)).toBe('');
+    });
+  });
+});
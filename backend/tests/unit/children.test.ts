@@ -0,0 +1,86 @@
+/**
+ * Unit tests for multiple children per account
+ * Tests keeping the legacy profile baby fields and the first child in sync
+ */
+
+import { hasChildDetails, syncPrimaryChild, toProfileBabyFields } from '../../src/services/children';
+
+const mockFindFirstChild = jest.fn();
+const mockUpdateChild = jest.fn();
+const mockCreateChild = jest.fn();
+
+// Modules create their Prisma client on import, so the mocks are looked up per call
+jest.mock('@prisma/client', () => ({
+  ...jest.requireActual<object>('@prisma/client'),
+  PrismaClient: jest.fn(() => ({
+    child: {
+      findFirst: (...args: unknown[]): unknown => mockFindFirstChild(...args),
+      update: (...args: unknown[]): unknown => mockUpdateChild(...args),
+      create: (...args: unknown[]): unknown => mockCreateChild(...args),
+    },
+  })),
+}));
+
+describe('Children', () => {
+  const birthDate = new Date('2025-03-01T00:00:00Z');
+
+  describe('hasChildDetails', () => {
+    it('should need at least one detail to be set', () => {
+      expect(hasChildDetails({ name: 'Mia' })).toBe(true);
+      expect(hasChildDetails({ name: null, birthDate })).toBe(true);
+      expect(hasChildDetails({ name: null, gender: undefined })).toBe(false);
+      expect(hasChildDetails({})).toBe(false);
+    });
+  });
+
+  describe('toProfileBabyFields', () => {
+    it('should copy the first child to the profile fields', () => {
+      const child = { name: 'Mia', birthDate, dueDate: null, gender: 'FEMALE' as const, imageUrl: 'user-1/baby.jpg' };
+
+      expect(toProfileBabyFields(child)).toEqual({
+        babyName: 'Mia',
+        babyBirthDate: birthDate,
+        dueDate: null,
+        babyGender: 'FEMALE',
+        babyImageUrl: 'user-1/baby.jpg',
+      });
+    });
+
+    it('should clear the profile fields when no child is left', () => {
+      expect(Object.values(toProfileBabyFields(null)).every((value) => value === null)).toBe(true);
+    });
+  });
+
+  describe('syncPrimaryChild', () => {
+    beforeEach(() => {
+      mockFindFirstChild.mockReset();
+      mockUpdateChild.mockReset().mockResolvedValue({});
+      mockCreateChild.mockReset().mockResolvedValue({});
+    });
+
+    it('should update the oldest child when the user has one', async () => {
+      mockFindFirstChild.mockResolvedValue({ id: 'child-1' });
+
+      await syncPrimaryChild('user-1', { name: 'Mia' });
+
+      expect(mockFindFirstChild).toHaveBeenCalledWith({ where: { userId: 'user-1' }, orderBy: { createdAt: 'asc' } });
+      expect(mockUpdateChild).toHaveBeenCalledWith({ where: { id: 'child-1' }, data: { name: 'Mia' } });
+      expect(mockCreateChild).not.toHaveBeenCalled();
+    });
+
+    it('should create the first child from profile details', async () => {
+      mockFindFirstChild.mockResolvedValue(null);
+
+      await syncPrimaryChild('user-1', { name: 'Mia', birthDate });
+
+      expect(mockCreateChild).toHaveBeenCalledWith({ data: { userId: 'user-1', name: 'Mia', birthDate } });
+    });
+
+    it('should not create an empty child for a profile without baby details', async () => {
+      mockFindFirstChild.mockResolvedValue(null);
+
+      expect(await syncPrimaryChild('user-1', { name: null, imageUrl: null })).toBeNull();
+      expect(mockCreateChild).not.toHaveBeenCalled();
+    });
+  });
+});
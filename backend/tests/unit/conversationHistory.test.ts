@@ -0,0 +1,74 @@
+/**
+ * Unit tests for conversation history utilities
+ * Tests choosing recent messages within a token budget and batching older messages for summaries
+ */
+
+import {
+  MESSAGE_TOKEN_OVERHEAD,
+  chunkMessagesByTokens,
+  estimateMessageTokens,
+  selectRecentMessages,
+} from '../../src/utils/conversationHistory';
+
+// Message of about `tokens` tokens including overhead
+const message = (id: string, tokens: number) => ({ id, content: 'x'.repeat((tokens - MESSAGE_TOKEN_OVERHEAD) * 4) });
+
+describe('Conversation History Utilities', () => {
+  it('should count message overhead on top of the text', () => {
+    expect(estimateMessageTokens('')).toBe(MESSAGE_TOKEN_OVERHEAD);
+    expect(estimateMessageTokens('abcdefgh')).toBe(2 + MESSAGE_TOKEN_OVERHEAD);
+  });
+
+  describe('Selecting Recent Messages', () => {
+    it('should keep everything when the conversation fits the budget', () => {
+      const messages = [message('a', 10), message('b', 10), message('c', 10)];
+
+      const { recent, older } = selectRecentMessages(messages, 30);
+
+      expect(recent.map((m) => m.id)).toEqual(['a', 'b', 'c']);
+      expect(older).toEqual([]);
+    });
+
+    it('should keep the newest messages and leave out the older ones', () => {
+      const messages = [message('a', 10), message('b', 10), message('c', 10), message('d', 10)];
+
+      const { recent, older } = selectRecentMessages(messages, 25);
+
+      expect(recent.map((m) => m.id)).toEqual(['c', 'd']);
+      expect(older.map((m) => m.id)).toEqual(['a', 'b']);
+    });
+
+    it('should stop at the first message that does not fit, even if older ones would', () => {
+      const messages = [message('a', 5), message('b', 50), message('c', 10)];
+
+      const { recent, older } = selectRecentMessages(messages, 30);
+
+      expect(recent.map((m) => m.id)).toEqual(['c']);
+      expect(older.map((m) => m.id)).toEqual(['a', 'b']);
+    });
+
+    it('should leave out a newest message larger than the budget', () => {
+      const { recent, older } = selectRecentMessages([message('a', 5), message('b', 100)], 50);
+
+      expect(recent).toEqual([]);
+      expect(older.map((m) => m.id)).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('Batching Messages', () => {
+    it('should split messages into consecutive batches within the budget', () => {
+      const messages = [message('a', 10), message('b', 10), message('c', 10), message('d', 10), message('e', 10)];
+
+      const chunks = chunkMessagesByTokens(messages, 20);
+
+      expect(chunks.map((chunk) => chunk.map((m) => m.id))).toEqual([['a', 'b'], ['c', 'd'], ['e']]);
+    });
+
+    it('should give an oversized message a batch of its own', () => {
+      const chunks = chunkMessagesByTokens([message('a', 10), message('b', 100), message('c', 10)], 30);
+
+      expect(chunks.map((chunk) => chunk.map((m) => m.id))).toEqual([['a'], ['b'], ['c']]);
+      expect(chunkMessagesByTokens([], 30)).toEqual([]);
+    });
+  });
+});
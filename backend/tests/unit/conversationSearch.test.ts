@@ -0,0 +1,50 @@
+/**
+ * Unit tests for conversation search utilities
+ * Tests preparing text for embedding and snippet highlighting
+ */
+
+import {
+  MAX_EMBEDDING_CHARS,
+  buildSnippet,
+  getQueryTerms,
+  prepareEmbeddingText,
+} from '../../src/utils/conversationSearch';
+
+describe('Conversation Search Utilities', () => {
+  describe('Snippets', () => {
+    it('should ignore short and common words in the query', () => {
+      expect(getQueryTerms('How do I stop night feeds? Night wakings')).toEqual(['stop', 'night', 'feeds', 'wakings']);
+    });
+
+    it('should highlight words starting with a query term', () => {
+      const snippet = buildSnippet('Cluster feeding in the evening is normal. Feeds may come every hour.', 'feed');
+
+      expect(snippet.text).toBe('Cluster feeding in the evening is normal. Feeds may come every hour.');
+      expect(snippet.highlights.map(({ start, end }) => snippet.text.slice(start, end))).toEqual(['feed', 'Feed']);
+    });
+
+    it('should center long messages on the first match with ellipses', () => {
+      const content = `${'Lots of general advice about routines. '.repeat(10)}Teething can disturb sleep for a few nights. ${'More text. '.repeat(20)}`;
+
+      const snippet = buildSnippet(content, 'teething', 100);
+
+      expect(snippet.text.startsWith('…')).toBe(true);
+      expect(snippet.text.endsWith('…')).toBe(true);
+      expect(snippet.text.length).toBeLessThanOrEqual(102);
+      expect(snippet.highlights).toHaveLength(1);
+      const [{ start, end }] = snippet.highlights;
+      expect(snippet.text.slice(start, end)).toBe('Teething');
+    });
+
+    it('should start at the beginning when the message has no query term', () => {
+      const snippet = buildSnippet('Try a consistent bedtime routine.\nDim the lights early.', 'napping trouble', 20);
+
+      expect(snippet).toEqual({ text: 'Try a consistent bed…', highlights: [] });
+    });
+
+    it('should keep embedding input on one line and within the limit', () => {
+      expect(prepareEmbeddingText('  Sleep\n\nregression?  ')).toBe('Sleep regression?');
+      expect(prepareEmbeddingText('a'.repeat(MAX_EMBEDDING_CHARS + 10))).toHaveLength(MAX_EMBEDDING_CHARS);
+    });
+  });
+});
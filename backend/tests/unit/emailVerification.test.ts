@@ -0,0 +1,88 @@
+/**
+ * Unit tests for email verification
+ * Tests which verification tokens are accepted and what the verification email stores and sends
+ */
+
+import { MailMessage, setMailTransport } from '../../src/services/mailer';
+import {
+  EMAIL_VERIFICATION_TOKEN_TTL_MS,
+  isVerificationTokenUsable,
+  sendVerificationEmail,
+} from '../../src/services/emailVerification';
+import { hashToken } from '../../src/utils/tokens';
+
+const mockDeleteTokens = jest.fn();
+const mockCreateToken = jest.fn();
+
+// Modules create their Prisma client on import, so the mocks are looked up per call
+jest.mock('@prisma/client', () => ({
+  PrismaClient: jest.fn(() => ({
+    emailVerificationToken: {
+      deleteMany: (...args: unknown[]): unknown => mockDeleteTokens(...args),
+      create: (...args: unknown[]): unknown => mockCreateToken(...args),
+    },
+    $transaction: (operations: Promise<unknown>[]): Promise<unknown[]> => Promise.all(operations),
+  })),
+}));
+
+describe('Email Verification', () => {
+  const now = new Date('2025-06-01T12:00:00Z');
+  const tomorrow = new Date('2025-06-02T12:00:00Z');
+
+  describe('isVerificationTokenUsable', () => {
+    it('should accept an unused token sent to the current address', () => {
+      const token = { usedAt: null, expiresAt: tomorrow, email: 'sam@example.com' };
+
+      expect(isVerificationTokenUsable(token, 'sam@example.com', now)).toBe(true);
+    });
+
+    it('should reject a token sent to an address the user has since changed', () => {
+      const token = { usedAt: null, expiresAt: tomorrow, email: 'old@example.com' };
+
+      expect(isVerificationTokenUsable(token, 'new@example.com', now)).toBe(false);
+    });
+
+    it('should reject unknown, used and expired tokens', () => {
+      expect(isVerificationTokenUsable(null, undefined, now)).toBe(false);
+      expect(isVerificationTokenUsable({ usedAt: now, expiresAt: tomorrow, email: 'a@b.co' }, 'a@b.co', now)).toBe(false);
+      expect(isVerificationTokenUsable({ usedAt: null, expiresAt: now, email: 'a@b.co' }, 'a@b.co', now)).toBe(false);
+    });
+  });
+
+  describe('sendVerificationEmail', () => {
+    const sent: MailMessage[] = [];
+
+    beforeEach(() => {
+      sent.length = 0;
+      mockDeleteTokens.mockReset().mockResolvedValue({ count: 1 });
+      mockCreateToken.mockReset().mockResolvedValue({});
+      setMailTransport({
+        send: (message) => {
+          sent.push(message);
+          return Promise.resolve();
+        },
+      });
+    });
+
+    it('should email the token and store only its hash for the address', async () => {
+      await sendVerificationEmail('user-1', 'sam@example.com');
+
+      const { data } = mockCreateToken.mock.calls[0][0] as {
+        data: { userId: string; tokenHash: string; email: string; expiresAt: Date };
+      };
+      const token = /token=([0-9a-f]+)/.exec(sent[0].text)?.[1] ?? '';
+
+      expect(sent[0].to).toBe('sam@example.com');
+      expect(data).toMatchObject({ userId: 'user-1', email: 'sam@example.com' });
+      expect(data.tokenHash).toBe(hashToken(token));
+      expect(sent[0].text).not.toContain(data.tokenHash);
+      expect(data.expiresAt.getTime() - Date.now()).toBeLessThanOrEqual(EMAIL_VERIFICATION_TOKEN_TTL_MS);
+    });
+
+    it('should replace the unused tokens of earlier emails', async () => {
+      await sendVerificationEmail('user-1', 'sam@example.com');
+
+      expect(mockDeleteTokens).toHaveBeenCalledWith({ where: { userId: 'user-1', usedAt: null } });
+    });
+  });
+});
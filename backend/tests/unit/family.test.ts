@@ -0,0 +1,184 @@
+/**
+ * Unit tests for shared family accounts
+ * Tests role permissions, invite codes, which invitations can be accepted, concurrent joins
+ * and what happens to a family when its owner deletes their account
+ */
+
+import { FamilyRole, Prisma } from '@prisma/client';
+import {
+  acceptInvitation,
+  canEditFamilyContent,
+  checkInvitation,
+  isAssignableRole,
+  releaseFamilyOwnership,
+} from '../../src/services/family';
+import { generateInviteCode, hashToken, normalizeInviteCode } from '../../src/utils/tokens';
+
+const mockFindMembership = jest.fn();
+const mockFindInvitation = jest.fn();
+const mockTransaction = jest.fn();
+
+// Modules create their Prisma client on import, so the mocks are looked up per call
+jest.mock('@prisma/client', () => ({
+  ...jest.requireActual<object>('@prisma/client'),
+  PrismaClient: jest.fn(() => ({
+    familyMember: { findUnique: (...args: unknown[]): unknown => mockFindMembership(...args) },
+    familyInvitation: { findFirst: (...args: unknown[]): unknown => mockFindInvitation(...args) },
+    $transaction: (...args: unknown[]): unknown => mockTransaction(...args),
+  })),
+}));
+
+describe('Family Accounts', () => {
+  describe('Roles', () => {
+    it('should let owners, co-parents and users without a family edit content', () => {
+      expect(canEditFamilyContent(FamilyRole.OWNER)).toBe(true);
+      expect(canEditFamilyContent(FamilyRole.CO_PARENT)).toBe(true);
+      expect(canEditFamilyContent(null)).toBe(true);
+    });
+
+    it('should keep viewers read-only', () => {
+      expect(canEditFamilyContent(FamilyRole.VIEWER)).toBe(false);
+    });
+
+    it('should only grant co-parent and viewer roles', () => {
+      expect(isAssignableRole('CO_PARENT')).toBe(true);
+      expect(isAssignableRole('VIEWER')).toBe(true);
+      expect(isAssignableRole('OWNER')).toBe(false);
+      expect(isAssignableRole(undefined)).toBe(false);
+      expect(isAssignableRole('viewer')).toBe(false);
+    });
+  });
+
+  describe('Invite Codes', () => {
+    it('should use readable characters without look-alikes', () => {
+      const { token } = generateInviteCode();
+
+      expect(token).toMatch(/^[A-HJKMNP-Z2-9]{8}$/);
+    });
+
+    it('should match codes typed in lowercase or with separators', () => {
+      const { token, tokenHash } = generateInviteCode();
+      const typed = `${token.slice(0, 4).toLowerCase()}-${token.slice(4)} `;
+
+      expect(hashToken(normalizeInviteCode(typed))).toBe(tokenHash);
+    });
+  });
+
+  describe('checkInvitation', () => {
+    const now = new Date('2025-06-01T12:00:00Z');
+    const pending = {
+      acceptedAt: null,
+      revokedAt: null,
+      expiresAt: new Date('2025-06-08T12:00:00Z'),
+      email: null,
+    };
+
+    it('should accept a pending invite code for anyone', () => {
+      expect(checkInvitation(pending, 'sam@example.com', now)).toBe('valid');
+    });
+
+    it('should accept an email invitation only for the invited address', () => {
+      const invitation = { ...pending, email: 'sam@example.com' };
+
+      expect(checkInvitation(invitation, 'Sam@Example.com', now)).toBe('valid');
+      expect(checkInvitation(invitation, 'alex@example.com', now)).toBe('email_mismatch');
+    });
+
+    it('should reject unknown, accepted, revoked and expired invitations', () => {
+      expect(checkInvitation(null, 'sam@example.com', now)).toBe('invalid');
+      expect(checkInvitation({ ...pending, acceptedAt: now }, 'sam@example.com', now)).toBe('invalid');
+      expect(checkInvitation({ ...pending, revokedAt: now }, 'sam@example.com', now)).toBe('invalid');
+      expect(checkInvitation(pending, 'sam@example.com', new Date('2025-06-09T12:00:00Z'))).toBe('invalid');
+    });
+  });
+
+  describe('acceptInvitation', () => {
+    const user = { id: 'user-1', email: 'sam@example.com' };
+
+    beforeEach(() => {
+      mockFindMembership.mockReset().mockResolvedValue(null);
+      mockFindInvitation.mockReset().mockResolvedValue({
+        id: 'invitation-1',
+        familyId: 'family-1',
+        role: FamilyRole.CO_PARENT,
+        acceptedAt: null,
+        revokedAt: null,
+        expiresAt: new Date(Date.now() + 60_000),
+        email: null,
+      });
+      mockTransaction.mockReset();
+    });
+
+    it('should join the family of a pending invitation', async () => {
+      mockTransaction.mockResolvedValue(true);
+
+      expect(await acceptInvitation(user, 'ABCD-EFGH')).toEqual({
+        status: 'joined',
+        familyId: 'family-1',
+        role: FamilyRole.CO_PARENT,
+      });
+    });
+
+    it('should report a join that lost a race with another join as already in a family', async () => {
+      mockTransaction.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed on the fields: (`userId`)', {
+          code: 'P2002',
+          clientVersion: '5.7.0',
+        }),
+      );
+
+      expect(await acceptInvitation(user, 'ABCD-EFGH')).toEqual({ status: 'already_member' });
+    });
+
+    it('should pass on other database errors', async () => {
+      mockTransaction.mockRejectedValue(new Error('Connection lost'));
+
+      await expect(acceptInvitation(user, 'ABCD-EFGH')).rejects.toThrow('Connection lost');
+    });
+  });
+
+  describe('releaseFamilyOwnership', () => {
+    const tx = {
+      familyMember: { findUnique: jest.fn(), findFirst: jest.fn(), update: jest.fn() },
+      family: { delete: jest.fn() },
+    };
+    const release = (): ReturnType<typeof releaseFamilyOwnership> =>
+      releaseFamilyOwnership(tx as unknown as Prisma.TransactionClient, 'owner-1');
+
+    beforeEach(() => {
+      tx.familyMember.findUnique.mockReset().mockResolvedValue({ familyId: 'family-1', role: FamilyRole.OWNER });
+      tx.familyMember.findFirst.mockReset();
+      tx.familyMember.update.mockReset().mockResolvedValue({});
+      tx.family.delete.mockReset().mockResolvedValue({});
+    });
+
+    it('should make the co-parent who joined first the owner', async () => {
+      tx.familyMember.findFirst.mockResolvedValue({ id: 'member-2' });
+
+      expect(await release()).toBe('transferred');
+      expect(tx.familyMember.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { familyId: 'family-1', role: FamilyRole.CO_PARENT },
+          orderBy: { joinedAt: 'asc' },
+        }),
+      );
+      expect(tx.familyMember.update).toHaveBeenCalledWith({ where: { id: 'member-2' }, data: { role: FamilyRole.OWNER } });
+      expect(tx.family.delete).not.toHaveBeenCalled();
+    });
+
+    it('should disband a family without co-parents', async () => {
+      tx.familyMember.findFirst.mockResolvedValue(null);
+
+      expect(await release()).toBe('disbanded');
+      expect(tx.family.delete).toHaveBeenCalledWith({ where: { id: 'family-1' } });
+    });
+
+    it('should leave the family alone when a member other than the owner leaves', async () => {
+      tx.familyMember.findUnique.mockResolvedValue({ familyId: 'family-1', role: FamilyRole.CO_PARENT });
+
+      expect(await release()).toBe('none');
+      expect(tx.familyMember.update).not.toHaveBeenCalled();
+      expect(tx.family.delete).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Unit tests for growth percentile utilities
+ * Tests WHO LMS lookups, z-scores, percentiles and chart curves
+ */
+
+import { BabyGender } from '@prisma/client';
+import {
+  calculateAgeInMonths,
+  calculateGrowthPercentile,
+  calculateZScore,
+  getLmsParameters,
+  getPercentileCurves,
+  valueAtZScore,
+  zScoreToPercentile,
+} from '../../src/utils/growth';
+
+describe('Growth Percentile Utilities', () => {
+  describe('LMS Lookup', () => {
+    it('should return WHO parameters by sex and month', () => {
+      expect(getLmsParameters('weight', BabyGender.MALE, 0)).toEqual({ L: 0.3487, M: 3.3464, S: 0.14602 });
+      expect(getLmsParameters('length', BabyGender.FEMALE, 12)?.M).toBe(74.015);
+    });
+
+    it('should have no reference for other genders or ages outside the tables', () => {
+      expect(getLmsParameters('weight', BabyGender.OTHER, 6)).toBeNull();
+      expect(getLmsParameters('weight', null, 6)).toBeNull();
+      expect(getLmsParameters('weight', BabyGender.MALE, 25)).toBeNull();
+      expect(getLmsParameters('weight', BabyGender.MALE, -1)).toBeNull();
+    });
+
+    it('should interpolate between months for a mid-month age', () => {
+      const month4 = getLmsParameters('weight', BabyGender.MALE, 4)!;
+      const month5 = getLmsParameters('weight', BabyGender.MALE, 5)!;
+      const midMonth = getLmsParameters('weight', BabyGender.MALE, 4.5)!;
+
+      expect(midMonth.L).toBeCloseTo((month4.L + month5.L) / 2, 6);
+      expect(midMonth.M).toBeCloseTo((month4.M + month5.M) / 2, 6);
+      expect(midMonth.S).toBeCloseTo((month4.S + month5.S) / 2, 6);
+      expect(getLmsParameters('weight', BabyGender.MALE, 24)).not.toBeNull();
+    });
+
+    it('should compare a mid-month measurement with the reference for that age', () => {
+      // The month 4 median is above the 50th percentile at 4 months and 3 weeks
+      const median4 = getLmsParameters('weight', BabyGender.MALE, 4)!.M;
+      const percentile = calculateGrowthPercentile('weight', BabyGender.MALE, 4.7, median4)!;
+
+      expect(percentile.percentile).toBeLessThan(40);
+    });
+
+    it('should calculate ages in fractional months', () => {
+      const birthDate = new Date('2025-01-01T00:00:00Z');
+
+      expect(calculateAgeInMonths(birthDate, new Date('2025-01-01T00:00:00Z'))).toBe(0);
+      expect(calculateAgeInMonths(birthDate, new Date('2026-01-01T00:00:00Z'))).toBeCloseTo(11.99, 2);
+      expect(calculateAgeInMonths(birthDate, new Date('2025-05-16T12:00:00Z'))).toBeCloseTo(4.5, 1);
+    });
+  });
+
+  describe('Z-Scores and Percentiles', () => {
+    it('should place the median at z = 0 and the 50th percentile', () => {
+      const result = calculateGrowthPercentile('weight', BabyGender.FEMALE, 6, 7.297);
+
+      expect(result).toEqual({ zScore: 0, percentile: 50 });
+    });
+
+    it('should round-trip values through the LMS transformation', () => {
+      const lms = getLmsParameters('weight', BabyGender.MALE, 4)!;
+
+      expect(calculateZScore(valueAtZScore(lms, 1.5), lms)).toBeCloseTo(1.5, 6);
+      expect(calculateZScore(valueAtZScore(lms, -2), lms)).toBeCloseTo(-2, 6);
+    });
+
+    it('should match the WHO -2 SD value for boys at birth', () => {
+      // WHO weight-for-age table: boys at 0 months, -2 SD = 2.5 kg (2.459 unrounded)
+      const result = calculateGrowthPercentile('weight', BabyGender.MALE, 0, 2.459);
+
+      expect(result?.zScore).toBe(-2);
+      expect(result?.percentile).toBeCloseTo(2.3, 0);
+    });
+
+    it('should use the restricted WHO formula beyond 3 SD', () => {
+      const lms = getLmsParameters('weight', BabyGender.MALE, 6)!;
+      const sd3 = valueAtZScore(lms, 3);
+      const gap = sd3 - valueAtZScore(lms, 2);
+
+      expect(calculateZScore(sd3 + gap, lms)).toBeCloseTo(4, 6);
+    });
+
+    it('should convert z-scores to percentiles', () => {
+      expect(zScoreToPercentile(0)).toBeCloseTo(50, 4);
+      expect(zScoreToPercentile(1.881)).toBeCloseTo(97, 1);
+      expect(zScoreToPercentile(-1.036)).toBeCloseTo(15, 1);
+    });
+  });
+
+  describe('Percentile Curves', () => {
+    it('should return ordered curves for each month', () => {
+      const curves = getPercentileCurves('headCircumference', BabyGender.FEMALE, 3);
+
+      expect(curves.map((point) => point.ageMonths)).toEqual([0, 1, 2, 3]);
+      for (const point of curves) {
+        expect(point.p3).toBeLessThan(point.p15);
+        expect(point.p15).toBeLessThan(point.p50);
+        expect(point.p50).toBeLessThan(point.p85);
+        expect(point.p85).toBeLessThan(point.p97);
+      }
+      expect(curves[0].p50).toBe(33.88);
+    });
+
+    it('should return no curves without a WHO reference', () => {
+      expect(getPercentileCurves('weight', BabyGender.PREFER_NOT_TO_SAY)).toEqual([]);
+    });
+  });
+});
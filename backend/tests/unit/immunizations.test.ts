@@ -0,0 +1,115 @@
+/**
+ * Unit tests for immunization schedule utilities
+ * Tests schedule age validation, due date calculation and dose statuses
+ */
+
+import {
+  ImmunizationRecordInput,
+  ScheduleDose,
+  addScheduleAge,
+  computeDoseStatuses,
+  isScheduleAge,
+} from '../../src/utils/immunizations';
+
+const birthDate = new Date('2025-01-31T00:00:00.000Z');
+
+const dose = (id: string, vaccineCode: string, doseNumber: number, dueMonths: number, overdueMonths: number): ScheduleDose => ({
+  id,
+  vaccineCode,
+  vaccineName: vaccineCode,
+  doseNumber,
+  dueAge: { months: dueMonths },
+  overdueAge: { months: overdueMonths },
+  notes: null,
+});
+
+const record = (id: string, overrides: Partial<ImmunizationRecordInput> = {}): ImmunizationRecordInput => ({
+  id,
+  scheduleDoseId: null,
+  vaccineCode: 'DTaP',
+  doseNumber: 1,
+  administeredAt: new Date('2025-04-01T00:00:00.000Z'),
+  ...overrides,
+});
+
+describe('Immunization Schedule Utilities', () => {
+  describe('Schedule Ages', () => {
+    it('should accept days, weeks and months as non-negative integers', () => {
+      expect(isScheduleAge({ months: 2 })).toBe(true);
+      expect(isScheduleAge({ weeks: 8, days: 3 })).toBe(true);
+      expect(isScheduleAge({ days: 0 })).toBe(true);
+    });
+
+    it('should reject free text, empty objects and unknown units', () => {
+      expect(isScheduleAge('2 months')).toBe(false);
+      expect(isScheduleAge({})).toBe(false);
+      expect(isScheduleAge({ years: 1 })).toBe(false);
+      expect(isScheduleAge({ months: 1.5 })).toBe(false);
+      expect(isScheduleAge({ months: -1 })).toBe(false);
+      expect(isScheduleAge(null)).toBe(false);
+    });
+
+    it('should add calendar months, clamping to the end of shorter months', () => {
+      expect(addScheduleAge(birthDate, { months: 1 }).toISOString()).toBe('2025-02-28T00:00:00.000Z');
+      expect(addScheduleAge(birthDate, { months: 2 }).toISOString()).toBe('2025-03-31T00:00:00.000Z');
+      expect(addScheduleAge(birthDate, { months: 13 }).toISOString()).toBe('2026-02-28T00:00:00.000Z');
+    });
+
+    it('should add weeks and days', () => {
+      expect(addScheduleAge(birthDate, { weeks: 8 }).toISOString()).toBe('2025-03-28T00:00:00.000Z');
+      expect(addScheduleAge(birthDate, { months: 1, days: 1 }).toISOString()).toBe('2025-03-01T00:00:00.000Z');
+    });
+  });
+
+  describe('Dose Statuses', () => {
+    const doses = [
+      dose('hepb-1', 'HepB', 1, 0, 1),
+      dose('dtap-1', 'DTaP', 1, 2, 3),
+      dose('dtap-2', 'DTaP', 2, 4, 5),
+      dose('mmr-1', 'MMR', 1, 12, 16),
+    ];
+
+    it('should classify doses by due and overdue dates', () => {
+      // 4 months and a few days old
+      const now = new Date('2025-06-05T00:00:00.000Z');
+      const statuses = computeDoseStatuses(doses, [], birthDate, now, 30);
+
+      expect(statuses.map((entry) => [entry.scheduleDoseId, entry.status])).toEqual([
+        ['hepb-1', 'OVERDUE'],
+        ['dtap-1', 'OVERDUE'],
+        ['dtap-2', 'DUE'],
+        ['mmr-1', 'SCHEDULED'],
+      ]);
+    });
+
+    it('should mark doses due within the look-ahead window as upcoming', () => {
+      const now = new Date('2025-05-10T00:00:00.000Z');
+      const statuses = computeDoseStatuses([doses[2]], [], birthDate, now, 30);
+
+      expect(statuses[0].status).toBe('UPCOMING');
+      expect(statuses[0].dueDate.toISOString()).toBe('2025-05-31T00:00:00.000Z');
+    });
+
+    it('should match unlinked records by vaccine code and dose number', () => {
+      const now = new Date('2025-06-05T00:00:00.000Z');
+      const statuses = computeDoseStatuses(doses, [record('r1', { vaccineCode: 'dtap' })], birthDate, now);
+
+      const dtap1 = statuses.find((entry) => entry.scheduleDoseId === 'dtap-1')!;
+      expect(dtap1.status).toBe('COMPLETED');
+      expect(dtap1.recordId).toBe('r1');
+      expect(statuses.find((entry) => entry.scheduleDoseId === 'dtap-2')!.status).toBe('DUE');
+    });
+
+    it('should prefer linked records and use each record only once', () => {
+      const now = new Date('2025-06-05T00:00:00.000Z');
+      const records = [
+        record('unlinked'),
+        record('linked', { scheduleDoseId: 'dtap-1' }),
+      ];
+      const statuses = computeDoseStatuses(doses, records, birthDate, now);
+
+      expect(statuses.find((entry) => entry.scheduleDoseId === 'dtap-1')!.recordId).toBe('linked');
+      expect(statuses.filter((entry) => entry.status === 'COMPLETED')).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Unit tests for the job queue
+ * Tests that attempts are only recorded while the worker still holds its claim
+ */
+
+import { Job, JobStatus } from '@prisma/client';
+import { completeJob, failJob } from '../../src/jobs/queue';
+
+const mockUpdateJobs = jest.fn();
+const mockCreateRun = jest.fn();
+
+// Modules create their Prisma client on import, so the mocks are looked up per call
+jest.mock('@prisma/client', () => {
+  const tx = {
+    job: { updateMany: (...args: unknown[]): unknown => mockUpdateJobs(...args) },
+    jobRun: { create: (...args: unknown[]): unknown => mockCreateRun(...args) },
+  };
+
+  return {
+    ...jest.requireActual<object>('@prisma/client'),
+    PrismaClient: jest.fn(() => ({
+      $transaction: (callback: (client: typeof tx) => Promise<unknown>): Promise<unknown> => callback(tx),
+    })),
+  };
+});
+
+describe('Job Queue', () => {
+  const lockedAt = new Date('2025-06-01T12:00:00Z');
+  const startedAt = new Date('2025-06-01T12:00:01Z');
+  const job = {
+    id: 'job-1',
+    name: 'weekly-tips',
+    status: JobStatus.RUNNING,
+    attempts: 2,
+    maxAttempts: 5,
+    lockedAt,
+    lockedBy: 'worker-1',
+  } as Job;
+
+  beforeEach(() => {
+    mockUpdateJobs.mockReset().mockResolvedValue({ count: 1 });
+    mockCreateRun.mockReset().mockResolvedValue({});
+  });
+
+  it('should only complete the job while the worker holds its claim', async () => {
+    expect(await completeJob(job, 'worker-1', startedAt)).toBe(true);
+
+    expect(mockUpdateJobs.mock.calls[0][0]).toMatchObject({
+      where: { id: 'job-1', status: JobStatus.RUNNING, lockedBy: 'worker-1', lockedAt, attempts: 2 },
+      data: { status: JobStatus.COMPLETED },
+    });
+    expect(mockCreateRun).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not record a result after the job was reclaimed', async () => {
+    mockUpdateJobs.mockResolvedValue({ count: 0 });
+
+    expect(await completeJob(job, 'worker-1', startedAt)).toBe(false);
+    expect(mockCreateRun).not.toHaveBeenCalled();
+  });
+
+  it('should schedule a retry while attempts are left', async () => {
+    const outcome = await failJob(job, 'worker-1', startedAt, new Error('Timeout'));
+
+    expect(outcome.status).toBe('retrying');
+    expect(mockUpdateJobs.mock.calls[0][0]).toMatchObject({
+      where: { lockedBy: 'worker-1', attempts: 2 },
+      data: { status: JobStatus.PENDING, lastError: 'Timeout' },
+    });
+  });
+
+  it('should fail the job on its last attempt', async () => {
+    expect(await failJob({ ...job, attempts: 5 }, 'worker-1', startedAt, new Error('Timeout'))).toEqual({
+      status: 'failed',
+    });
+  });
+
+  it('should not record a failure after the job was reclaimed', async () => {
+    mockUpdateJobs.mockResolvedValue({ count: 0 });
+
+    expect(await failJob(job, 'worker-1', startedAt, new Error('Timeout'))).toEqual({ status: 'lock_lost' });
+    expect(mockCreateRun).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Unit tests for job scheduling utilities
+ * Tests cron parsing, next occurrence calculation and retry backoff
+ */
+
+import { getNextCronTime, getRetryDelayMs, parseCronExpression } from '../../src/utils/jobs';
+
+describe('Job Scheduling Utilities', () => {
+  describe('Cron Parsing', () => {
+    it('should expand wildcards, ranges, steps and lists', () => {
+      const schedule = parseCronExpression('*/15 9-11 1,15 * 1-5');
+
+      expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+      expect([...schedule.hours]).toEqual([9, 10, 11]);
+      expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+      expect(schedule.months.size).toBe(12);
+      expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('should treat 7 as Sunday', () => {
+      expect([...parseCronExpression('0 0 * * 7').daysOfWeek]).toEqual([0]);
+    });
+
+    it('should reject malformed expressions', () => {
+      expect(() => parseCronExpression('0 9 * *')).toThrow('5 fields');
+      expect(() => parseCronExpression('60 * * * *')).toThrow('out of range');
+      expect(() => parseCronExpression('0 9 * * MON')).toThrow('Invalid cron');
+      expect(() => parseCronExpression('*/0 * * * *')).toThrow('out of range');
+    });
+  });
+
+  describe('Next Occurrence', () => {
+    it('should return the next matching minute strictly after the given time', () => {
+      const after = new Date('2025-11-12T10:07:30.000Z');
+
+      expect(getNextCronTime('*/15 * * * *', after).toISOString()).toBe('2025-11-12T10:15:00.000Z');
+      expect(getNextCronTime('15 10 * * *', new Date('2025-11-12T10:15:00.000Z')).toISOString())
+        .toBe('2025-11-13T10:15:00.000Z');
+    });
+
+    it('should find the next weekday', () => {
+      // Wednesday 12 Nov 2025 -> Sunday 16 Nov, Monday 17 Nov
+      const after = new Date('2025-11-12T18:00:00.000Z');
+
+      expect(getNextCronTime('0 17 * * 0', after).toISOString()).toBe('2025-11-16T17:00:00.000Z');
+      expect(getNextCronTime('0 15 * * 1', after).toISOString()).toBe('2025-11-17T15:00:00.000Z');
+    });
+
+    it('should cross month and year boundaries', () => {
+      const after = new Date('2025-12-31T23:59:00.000Z');
+
+      expect(getNextCronTime('30 3 1 * *', after).toISOString()).toBe('2026-01-01T03:30:00.000Z');
+      expect(getNextCronTime('0 0 29 2 *', after).toISOString()).toBe('2028-02-29T00:00:00.000Z');
+    });
+
+    it('should match either day field when both are restricted', () => {
+      // 1st of the month or any Friday; Friday 14 Nov 2025 comes first
+      const after = new Date('2025-11-12T00:00:00.000Z');
+
+      expect(getNextCronTime('0 8 1 * 5', after).toISOString()).toBe('2025-11-14T08:00:00.000Z');
+    });
+
+    it('should throw for expressions that never match', () => {
+      expect(() => getNextCronTime('0 0 31 2 *', new Date('2025-01-01T00:00:00.000Z'))).toThrow('never matches');
+    });
+  });
+
+  describe('Retry Backoff', () => {
+    it('should double the delay with each attempt up to the maximum', () => {
+      expect(getRetryDelayMs(1)).toBe(30_000);
+      expect(getRetryDelayMs(2)).toBe(60_000);
+      expect(getRetryDelayMs(4)).toBe(240_000);
+      expect(getRetryDelayMs(20)).toBe(60 * 60 * 1000);
+      expect(getRetryDelayMs(3, 1000, 2500)).toBe(2500);
+    });
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Unit tests for language handling
+ * Tests language tag and Accept-Language parsing, and error message translation
+ */
+
+import { isSupportedLanguage, parseAcceptLanguage, parseLanguage } from '../../src/utils/language';
+import { localizeErrorBody, translateError } from '../../src/utils/errorCatalog';
+
+describe('Language Handling', () => {
+  describe('parseLanguage', () => {
+    it('should map regional tags to their base language', () => {
+      expect(parseLanguage('es')).toBe('es');
+      expect(parseLanguage('pt-BR')).toBe('pt');
+      expect(parseLanguage(' EN_us ')).toBe('en');
+    });
+
+    it('should return null for unset or unsupported languages', () => {
+      expect(parseLanguage(null)).toBeNull();
+      expect(parseLanguage(undefined)).toBeNull();
+      expect(parseLanguage('')).toBeNull();
+      expect(parseLanguage('fr-FR')).toBeNull();
+    });
+
+    it('should only accept exact codes as supported languages', () => {
+      expect(isSupportedLanguage('pt')).toBe(true);
+      expect(isSupportedLanguage('pt-BR')).toBe(false);
+      expect(isSupportedLanguage(1)).toBe(false);
+    });
+  });
+
+  describe('parseAcceptLanguage', () => {
+    it('should pick the supported language with the highest weight', () => {
+      expect(parseAcceptLanguage('pt-BR,pt;q=0.9,en;q=0.8')).toBe('pt');
+      expect(parseAcceptLanguage('en;q=0.5, es-MX;q=0.9')).toBe('es');
+    });
+
+    it('should skip unsupported and refused languages', () => {
+      expect(parseAcceptLanguage('fr-FR, de;q=0.9, es;q=0.3')).toBe('es');
+      expect(parseAcceptLanguage('es;q=0, en;q=0.2')).toBe('en');
+    });
+
+    it('should return null without a supported language', () => {
+      expect(parseAcceptLanguage(undefined)).toBeNull();
+      expect(parseAcceptLanguage('fr, *;q=0.1')).toBeNull();
+    });
+  });
+
+  describe('Error catalog', () => {
+    it('should translate known messages and keep unknown ones in English', () => {
+      expect(translateError('User not found', 'es')).toBe('Usuario no encontrado');
+      expect(translateError('User not found', 'en')).toBe('User not found');
+      expect(translateError('Something unexpected', 'pt')).toBe('Something unexpected');
+    });
+
+    it('should translate only the error and message fields of a body', () => {
+      const body = {
+        error: 'Failed to process audio',
+        message: 'Daily voice minute limit reached',
+        details: 'User not found',
+        limit: 10,
+      };
+
+      expect(localizeErrorBody(body, 'pt')).toEqual({
+        error: 'Não foi possível processar o áudio',
+        message: 'Você atingiu o limite diário de minutos de voz',
+        details: 'User not found',
+        limit: 10,
+      });
+    });
+
+    it('should leave codes and non-object bodies alone', () => {
+      expect(localizeErrorBody({ error: 'limit_reached' }, 'es')).toEqual({ error: 'limit_reached' });
+      expect(localizeErrorBody('User not found', 'es')).toBe('User not found');
+    });
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Unit tests for the LLM provider abstraction
+ * Tests per-task model configuration, the mock provider, and AI service calls through it
+ */
+
+import { LocalLlmProvider, MockLlmProvider, OpenAiLlmProvider, getLlmModel, setLlmProvider } from '../../src/services/llm';
+import { extractMemories, generateConversationTitle, streamChatResponse, transcribeAudio } from '../../src/services/openai';
+
+describe('LLM Provider', () => {
+  const originalEnv = process.env;
+  let provider: MockLlmProvider;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    provider = new MockLlmProvider();
+    setLlmProvider(provider);
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  describe('getLlmModel', () => {
+    it('should use the provider default when no model is configured', () => {
+      expect(getLlmModel('chat')).toBe('mock');
+
+      setLlmProvider(new OpenAiLlmProvider());
+      expect(getLlmModel('chat')).toBe('gpt-4-turbo-preview');
+      expect(getLlmModel('vision')).toBe('gpt-4o');
+    });
+
+    it('should use the model configured for the task', () => {
+      process.env.LLM_MODEL_TITLE = 'small-model';
+
+      expect(getLlmModel('title')).toBe('small-model');
+      expect(getLlmModel('summary')).toBe('mock');
+    });
+
+    it('should fall back to the older embedding and speech variables', () => {
+      process.env.OPENAI_EMBEDDING_MODEL = 'text-embedding-3-large';
+      process.env.OPENAI_TTS_MODEL = 'tts-1-hd';
+      expect(getLlmModel('embedding')).toBe('text-embedding-3-large');
+      expect(getLlmModel('speech')).toBe('tts-1-hd');
+
+      process.env.LLM_MODEL_EMBEDDING = 'nomic-embed-text';
+      expect(getLlmModel('embedding')).toBe('nomic-embed-text');
+    });
+  });
+
+  describe('OpenAiLlmProvider', () => {
+    it('should only need an API key when a request is made', async () => {
+      const openAi = new OpenAiLlmProvider({});
+
+      await expect(openAi.complete({ model: 'gpt-4o-mini', messages: [] })).rejects.toThrow('OPENAI_API_KEY');
+    });
+  });
+
+  describe('LocalLlmProvider', () => {
+    it('should not ask local embedding models for shortened vectors', async () => {
+      const embed = jest.spyOn(OpenAiLlmProvider.prototype, 'embed').mockResolvedValue([[0.1, 0.2]]);
+      const local = new LocalLlmProvider('http://localhost:11434/v1', 'http://localhost:8000/v1');
+
+      await local.embed({ model: 'nomic-embed-text', texts: ['night feeds'], dimensions: 512 });
+
+      expect(embed).toHaveBeenCalledWith({ model: 'nomic-embed-text', texts: ['night feeds'], dimensions: undefined });
+      embed.mockRestore();
+    });
+
+    it('should fail audio requests clearly without an audio server or OpenAI key', async () => {
+      delete process.env.OPENAI_API_KEY;
+      const consoleWarn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      const local = new LocalLlmProvider('http://localhost:11434/v1', undefined);
+      consoleWarn.mockRestore();
+
+      await expect(local.transcribe({ model: 'whisper-1', filePath: '/tmp/turn.wav' })).rejects.toThrow(
+        'LOCAL_LLM_AUDIO_BASE_URL or OPENAI_API_KEY',
+      );
+      await expect(local.synthesize('tts-1', 'Hello', { voice: 'alloy', speed: 1 })).rejects.toThrow('OPENAI_API_KEY');
+    });
+  });
+
+  describe('MockLlmProvider', () => {
+    it('should echo the last user message unless a reply is queued', async () => {
+      const messages = [{ role: 'user' as const, content: 'Is 3 naps normal?' }];
+
+      expect((await provider.complete({ model: 'mock', messages })).text).toBe('Mock reply: Is 3 naps normal?');
+      expect((await provider.complete({ model: 'mock', messages, json: true })).text).toBe('{}');
+
+      provider.replies.push('Yes, at 4 months.');
+      expect((await provider.complete({ model: 'mock', messages })).text).toBe('Yes, at 4 months.');
+      expect(provider.requests).toHaveLength(3);
+    });
+
+    it('should embed texts sharing words closer together', async () => {
+      const [sleep, sleepAgain, feeding] = await provider.embed({
+        model: 'mock',
+        texts: ['baby sleep schedule', 'sleep schedule for a baby', 'bottle feeding amounts'],
+      });
+      const similarity = (a: number[], b: number[]): number => a.reduce((sum, value, i) => sum + value * b[i], 0);
+
+      expect(similarity(sleep, sleep)).toBeCloseTo(1);
+      expect(similarity(sleep, sleepAgain)).toBeGreaterThan(similarity(sleep, feeding));
+    });
+  });
+
+  describe('AI service', () => {
+    it('should stream the chat reply token by token', async () => {
+      provider.replies.push('Try a consistent bedtime routine.');
+      const tokens: string[] = [];
+
+      const result = await streamChatResponse(
+        [{ role: 'user', content: 'How do I help my baby sleep?' }],
+        { mode: 'PARENTING' },
+        (token) => tokens.push(token),
+      );
+
+      expect(tokens.length).toBeGreaterThan(1);
+      expect(tokens.join('')).toBe(result.response);
+      expect(provider.requests[0].messages[0].role).toBe('system');
+    });
+
+    it('should clean up generated titles with the title model', async () => {
+      process.env.LLM_MODEL_TITLE = 'title-model';
+      provider.replies.push('"Sleep regression at 4 months"');
+
+      const title = await generateConversationTitle([{ role: 'user', content: 'My baby stopped sleeping' }]);
+
+      expect(title).toBe('Sleep regression at 4 months');
+      expect(provider.requests[0].model).toBe('title-model');
+    });
+
+    it('should request JSON for memory extraction', async () => {
+      provider.replies.push('{"memories": [{"category": "HEALTH", "content": "The baby is allergic to peanuts."}]}');
+
+      const memories = await extractMemories([{ role: 'user', content: 'She is allergic to peanuts' }], []);
+
+      expect(provider.requests[0].json).toBe(true);
+      expect(memories).toEqual([{ category: 'HEALTH', content: 'The baby is allergic to peanuts.' }]);
+    });
+
+    it('should transcribe with the mock provider', async () => {
+      provider.transcripts.push('When should my baby crawl?');
+
+      expect(await transcribeAudio('/tmp/turn.wav', 'en')).toBe('When should my baby crawl?');
+    });
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Unit tests for memory utilities
+ * Tests parsing extracted facts, spotting duplicates and choosing relevant memories
+ */
+
+import {
+  MAX_MEMORY_LENGTH,
+  MemoryRecord,
+  isDuplicateMemory,
+  parseExtractedMemories,
+  parseMemoryCategory,
+  selectRelevantMemories,
+} from '../../src/utils/memories';
+
+describe('Memory Utilities', () => {
+  describe('Parsing', () => {
+    it('should parse categories in any case', () => {
+      expect(parseMemoryCategory('health')).toBe('HEALTH');
+      expect(parseMemoryCategory(' Medical_Advice ')).toBe('MEDICAL_ADVICE');
+      expect(parseMemoryCategory('hobbies')).toBeNull();
+      expect(parseMemoryCategory(3)).toBeNull();
+    });
+
+    it('should parse extracted facts and default unknown categories to OTHER', () => {
+      const memories = parseExtractedMemories(JSON.stringify({
+        memories: [
+          { category: 'health', content: '  Baby is allergic\n to peanuts ' },
+          { category: 'hobbies', content: 'Family goes hiking on weekends' },
+          { category: 'ROUTINE', content: '' },
+          { category: 'ROUTINE' },
+        ],
+      }));
+
+      expect(memories).toEqual([
+        { category: 'HEALTH', content: 'Baby is allergic to peanuts' },
+        { category: 'OTHER', content: 'Family goes hiking on weekends' },
+      ]);
+    });
+
+    it('should return nothing for unusable responses and cap the number of facts', () => {
+      expect(parseExtractedMemories('not json')).toEqual([]);
+      expect(parseExtractedMemories('{"memories": "none"}')).toEqual([]);
+      expect(parseExtractedMemories('null')).toEqual([]);
+
+      const many = parseExtractedMemories(JSON.stringify({
+        memories: Array.from({ length: 8 }, (_, i) => ({ category: 'OTHER', content: `Fact ${i} ${'x'.repeat(400)}` })),
+      }));
+      expect(many).toHaveLength(5);
+      expect(many[0].content).toHaveLength(MAX_MEMORY_LENGTH);
+    });
+  });
+
+  describe('Duplicates', () => {
+    it('should treat the same fact with different case or punctuation as a duplicate', () => {
+      const existing = ['Baby is allergic to peanuts'];
+
+      expect(isDuplicateMemory('baby is allergic to peanuts.', existing)).toBe(true);
+      expect(isDuplicateMemory('Baby is allergic to eggs', existing)).toBe(false);
+      expect(isDuplicateMemory('Pediatrician is Dr. Lee', existing)).toBe(false);
+      expect(isDuplicateMemory('...', existing)).toBe(true);
+    });
+  });
+
+  describe('Selecting Relevant Memories', () => {
+    const at = (day: number): Date => new Date(Date.UTC(2025, 0, day));
+    const memories: MemoryRecord[] = [
+      { category: 'HEALTH', content: 'Baby is allergic to peanuts', updatedAt: at(1) },
+      { category: 'ROUTINE', content: 'Bedtime is at 7pm after a bath', updatedAt: at(2) },
+      { category: 'PREFERENCE', content: 'Prefers gentle sleep training methods', updatedAt: at(3) },
+      { category: 'FAMILY', content: 'Older sibling is named Sam', updatedAt: at(4) },
+    ];
+
+    it('should always include health and family facts and skip unrelated routine ones', () => {
+      const selected = selectRelevantMemories(memories, 'Which finger foods can we try?', 200);
+
+      expect(selected.map((memory) => memory.category)).toEqual(['HEALTH', 'FAMILY']);
+    });
+
+    it('should include memories that mention the message topic, most relevant first', () => {
+      const selected = selectRelevantMemories(memories, 'How do I handle sleep regression at bedtime?', 200);
+
+      expect(selected.map((memory) => memory.content)).toEqual([
+        'Baby is allergic to peanuts',
+        'Older sibling is named Sam',
+        'Prefers gentle sleep training methods', // Equally relevant, updated more recently
+        'Bedtime is at 7pm after a bath',
+      ]);
+    });
+
+    it('should stay within the token budget', () => {
+      const selected = selectRelevantMemories(memories, 'sleep at bedtime', 10);
+
+      expect(selected).toHaveLength(1);
+      expect(selected[0].category).toBe('HEALTH');
+      expect(selectRelevantMemories(memories, 'sleep', 0)).toEqual([]);
+    });
+  });
+});
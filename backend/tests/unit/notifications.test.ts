@@ -0,0 +1,97 @@
+/**
+ * Unit tests for notification preference utilities
+ * Tests preference parsing, category filtering and quiet hours
+ */
+
+import {
+  getLocalMinutes,
+  getQuietHoursEnd,
+  isCategoryEnabled,
+  isValidTimeZone,
+  parseNotificationPreferences,
+  parseTimeOfDay,
+} from '../../src/utils/notifications';
+
+describe('Notification Preference Utilities', () => {
+  describe('Preferences', () => {
+    it('should treat missing preferences as enabled', () => {
+      const preferences = parseNotificationPreferences(null);
+
+      expect(preferences).toEqual({
+        pushEnabled: true,
+        dailyMilestoneUpdates: true,
+        weeklyTipsGuidance: true,
+        milestoneReminders: true,
+      });
+    });
+
+    it('should respect opted-out categories', () => {
+      const preferences = parseNotificationPreferences({ weeklyTipsGuidance: false });
+
+      expect(isCategoryEnabled(preferences, 'weeklyTipsGuidance')).toBe(false);
+      expect(isCategoryEnabled(preferences, 'milestoneReminders')).toBe(true);
+    });
+
+    it('should block every category when push is disabled', () => {
+      const preferences = parseNotificationPreferences({ pushEnabled: false, milestoneReminders: true });
+
+      expect(isCategoryEnabled(preferences, 'milestoneReminders')).toBe(false);
+    });
+  });
+
+  describe('Times and Time Zones', () => {
+    it('should parse 24-hour times', () => {
+      expect(parseTimeOfDay('00:00')).toBe(0);
+      expect(parseTimeOfDay('21:30')).toBe(21 * 60 + 30);
+      expect(parseTimeOfDay('24:00')).toBeNull();
+      expect(parseTimeOfDay('7:00')).toBeNull();
+      expect(parseTimeOfDay(700)).toBeNull();
+    });
+
+    it('should validate IANA time zones', () => {
+      expect(isValidTimeZone('Europe/London')).toBe(true);
+      expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+      expect(isValidTimeZone('')).toBe(false);
+    });
+
+    it('should convert instants to local time of day', () => {
+      const now = new Date('2025-07-01T12:15:00.000Z');
+
+      expect(getLocalMinutes(now, 'UTC')).toBe(12 * 60 + 15);
+      expect(getLocalMinutes(now, 'America/New_York')).toBe(8 * 60 + 15);
+    });
+  });
+
+  describe('Quiet Hours', () => {
+    const overnight = { start: '21:00', end: '07:00', timeZone: 'America/New_York' };
+
+    it('should return the end of quiet hours that span midnight', () => {
+      // 23:30 in New York (EDT, UTC-4)
+      const now = new Date('2025-07-02T03:30:20.000Z');
+
+      expect(getQuietHoursEnd(overnight, now)?.toISOString()).toBe('2025-07-02T11:00:00.000Z');
+    });
+
+    it('should allow notifications outside quiet hours', () => {
+      // 12:00 in New York
+      expect(getQuietHoursEnd(overnight, new Date('2025-07-01T16:00:00.000Z'))).toBeNull();
+      // 07:00 exactly, quiet hours just ended
+      expect(getQuietHoursEnd(overnight, new Date('2025-07-01T11:00:00.000Z'))).toBeNull();
+    });
+
+    it('should handle quiet hours within one day', () => {
+      const nap = { start: '13:00', end: '15:00', timeZone: null };
+
+      expect(getQuietHoursEnd(nap, new Date('2025-07-01T14:00:00.000Z'))?.toISOString()).toBe('2025-07-01T15:00:00.000Z');
+      expect(getQuietHoursEnd(nap, new Date('2025-07-01T15:30:00.000Z'))).toBeNull();
+    });
+
+    it('should ignore equal or malformed times and unknown time zones', () => {
+      const now = new Date('2025-07-01T03:00:00.000Z');
+
+      expect(getQuietHoursEnd({ start: '22:00', end: '22:00', timeZone: null }, now)).toBeNull();
+      expect(getQuietHoursEnd({ start: 'late', end: '07:00', timeZone: null }, now)).toBeNull();
+      expect(getQuietHoursEnd({ start: '00:00', end: '07:00', timeZone: 'Nowhere/Land' }, now)).toBeNull();
+    });
+  });
+});
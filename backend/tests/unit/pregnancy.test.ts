@@ -0,0 +1,109 @@
+/**
+ * Unit tests for pregnancy utilities
+ * Tests gestational age from the due date, trimesters, week parsing and birth date conversion
+ */
+
+import {
+  PRENATAL_CHECKLIST_TEMPLATES,
+  describePregnancyProgress,
+  getPregnancyProgress,
+  getTrimester,
+  parsePregnancyWeek,
+  resolveBirthDate,
+} from '../../src/utils/pregnancy';
+
+describe('Pregnancy Utilities', () => {
+  describe('Pregnancy Progress', () => {
+    const dueDate = new Date('2026-03-01T00:00:00.000Z');
+
+    it('should count completed weeks and days back from 40 weeks', () => {
+      // 94 days before the due date: 186 days = 26 weeks 4 days
+      const progress = getPregnancyProgress(dueDate, new Date('2025-11-27T15:00:00.000Z'));
+
+      expect(progress.weeks).toBe(26);
+      expect(progress.days).toBe(4);
+      expect(progress.contentWeek).toBe(26);
+      expect(progress.trimester).toBe(2);
+      expect(progress.daysUntilDue).toBe(94);
+      expect(progress.percentComplete).toBe(66);
+    });
+
+    it('should be 40 weeks on the due date and keep counting after it', () => {
+      expect(getPregnancyProgress(dueDate, new Date('2026-03-01T20:00:00.000Z'))).toMatchObject({
+        weeks: 40,
+        days: 0,
+        daysUntilDue: 0,
+        percentComplete: 100,
+      });
+      expect(getPregnancyProgress(dueDate, new Date('2026-03-20T00:00:00.000Z'))).toMatchObject({
+        weeks: 42,
+        days: 5,
+        contentWeek: 42,
+        daysUntilDue: -19,
+        percentComplete: 100,
+      });
+    });
+
+    it('should clamp due dates more than 40 weeks away to week 1 content', () => {
+      const progress = getPregnancyProgress(dueDate, new Date('2025-05-01T00:00:00.000Z'));
+
+      expect(progress.weeks).toBe(0);
+      expect(progress.contentWeek).toBe(1);
+      expect(progress.trimester).toBe(1);
+    });
+
+    it('should describe progress in words', () => {
+      expect(describePregnancyProgress(getPregnancyProgress(dueDate, new Date('2025-11-27T00:00:00.000Z'))))
+        .toBe('26 weeks and 4 days pregnant (second trimester)');
+      expect(describePregnancyProgress(getPregnancyProgress(dueDate, new Date('2026-02-09T00:00:00.000Z'))))
+        .toBe('37 weeks and 1 day pregnant (third trimester)');
+      expect(describePregnancyProgress(getPregnancyProgress(dueDate, new Date('2025-06-01T00:00:00.000Z'))))
+        .toBe('1 week pregnant (first trimester)');
+    });
+  });
+
+  describe('Trimesters and Weeks', () => {
+    it('should split trimesters at weeks 14 and 28', () => {
+      expect(getTrimester(13)).toBe(1);
+      expect(getTrimester(14)).toBe(2);
+      expect(getTrimester(27)).toBe(2);
+      expect(getTrimester(28)).toBe(3);
+    });
+
+    it('should only accept whole weeks between 1 and 42', () => {
+      expect(parsePregnancyWeek('1')).toBe(1);
+      expect(parsePregnancyWeek('42')).toBe(42);
+      expect(parsePregnancyWeek('0')).toBeNull();
+      expect(parsePregnancyWeek('43')).toBeNull();
+      expect(parsePregnancyWeek('12.5')).toBeNull();
+      expect(parsePregnancyWeek('abc')).toBeNull();
+    });
+
+    it('should have unique checklist template keys', () => {
+      const keys = PRENATAL_CHECKLIST_TEMPLATES.map((template) => template.key);
+
+      expect(new Set(keys).size).toBe(keys.length);
+    });
+  });
+
+  describe('Birth Date Conversion', () => {
+    const now = new Date('2026-03-05T10:00:00.000Z');
+
+    it('should prefer the birth date entered by the parent', () => {
+      const birthDate = new Date('2026-02-27T00:00:00.000Z');
+
+      expect(resolveBirthDate(new Date('2026-03-01T00:00:00.000Z'), birthDate, now)).toBe(birthDate);
+    });
+
+    it('should convert a past due date into the birth date', () => {
+      const dueDate = new Date('2026-03-01T00:00:00.000Z');
+
+      expect(resolveBirthDate(dueDate, null, now)).toBe(dueDate);
+    });
+
+    it('should use today when the baby arrived before the due date', () => {
+      expect(resolveBirthDate(new Date('2026-03-20T00:00:00.000Z'), null, now)).toBe(now);
+      expect(resolveBirthDate(null, null, now)).toBeNull();
+    });
+  });
+});
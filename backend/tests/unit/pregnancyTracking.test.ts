@@ -0,0 +1,114 @@
+/**
+ * Unit tests for pregnancy tracking utilities
+ * Tests kick count status and contraction frequency, duration, regularity and the 5-1-1 pattern
+ */
+
+import { analyzeContractions, analyzeKickSession, ContractionRecord } from '../../src/utils/pregnancyTracking';
+
+const now = new Date('2025-11-16T12:00:00Z');
+
+/**
+ * Returns the timestamp a number of minutes before `now`
+ */
+function minutesAgo(minutes: number): Date {
+  return new Date(now.getTime() - minutes * 60 * 1000);
+}
+
+/**
+ * Builds contractions starting `everyMinutes` apart, the last one starting `lastStartedMinutesAgo`
+ */
+function contractionSeries(
+  count: number,
+  everyMinutes: number,
+  durationSeconds: number,
+  lastStartedMinutesAgo = 2,
+): ContractionRecord[] {
+  return Array.from({ length: count }, (_, i) => {
+    const startedAt = minutesAgo(lastStartedMinutesAgo + (count - 1 - i) * everyMinutes);
+    return { startedAt, endedAt: new Date(startedAt.getTime() + durationSeconds * 1000) };
+  });
+}
+
+describe('Pregnancy Tracking Utilities', () => {
+  describe('Kick Counts', () => {
+    it('should report the time to 10 kicks', () => {
+      const kicks = Array.from({ length: 12 }, (_, i) => minutesAgo(60 - (i + 1) * 3));
+
+      const analysis = analyzeKickSession({ startedAt: minutesAgo(60), endedAt: null, kicks }, now);
+
+      expect(analysis.kickCount).toBe(12);
+      expect(analysis.status).toBe('reached');
+      expect(analysis.timeToTargetMinutes).toBe(30);
+      expect(analysis.kicksPerHour).toBe(12);
+    });
+
+    it('should stay in progress until the 2-hour window is over', () => {
+      const session = { startedAt: minutesAgo(45), endedAt: null, kicks: [minutesAgo(40), minutesAgo(30)] };
+
+      expect(analyzeKickSession(session, now).status).toBe('in_progress');
+      expect(analyzeKickSession({ ...session, startedAt: minutesAgo(130) }, now).status).toBe('not_reached');
+    });
+
+    it('should not count 10 kicks reached after 2 hours or before the start', () => {
+      const late = Array.from({ length: 10 }, (_, i) => minutesAgo(150 - (i + 1) * 14));
+      const session = { startedAt: minutesAgo(150), endedAt: now, kicks: [minutesAgo(200), ...late] };
+
+      const analysis = analyzeKickSession(session, now);
+
+      expect(analysis.kickCount).toBe(10);
+      expect(analysis.timeToTargetMinutes).toBe(140);
+      expect(analysis.status).toBe('not_reached');
+    });
+  });
+
+  describe('Contractions', () => {
+    it('should average duration and start-to-start interval', () => {
+      const analysis = analyzeContractions(contractionSeries(4, 8, 45), now);
+
+      expect(analysis.count).toBe(4);
+      expect(analysis.averageDurationSeconds).toBe(45);
+      expect(analysis.averageIntervalMinutes).toBe(8);
+      expect(analysis.lastHour.regular).toBe(true);
+      expect(analysis.inProgress).toBe(false);
+      expect(analysis.lastContractionAt).toEqual(minutesAgo(2));
+    });
+
+    it('should flag irregular intervals and wait for enough data', () => {
+      const starts = [50, 38, 34, 15, 12];
+      const irregular = starts.map((minutes) => ({
+        startedAt: minutesAgo(minutes),
+        endedAt: new Date(minutesAgo(minutes).getTime() + 30 * 1000),
+      }));
+
+      expect(analyzeContractions(irregular, now).lastHour.regular).toBe(false);
+      expect(analyzeContractions(irregular.slice(0, 3), now).lastHour.regular).toBeNull();
+    });
+
+    it('should meet 5-1-1 after an hour of long contractions 5 minutes apart', () => {
+      const analysis = analyzeContractions(contractionSeries(14, 5, 70), now);
+
+      expect(analysis.fiveOneOne.met).toBe(true);
+      expect(analysis.fiveOneOne.sustainedMinutes).toBe(66);
+    });
+
+    it('should not meet 5-1-1 when contractions are short or too far apart', () => {
+      expect(analyzeContractions(contractionSeries(14, 5, 40), now).fiveOneOne).toEqual({ met: false, sustainedMinutes: 0 });
+      expect(analyzeContractions(contractionSeries(10, 7, 70), now).fiveOneOne.met).toBe(false);
+
+      // Only the latest run counts: a gap resets the pattern
+      const interrupted = [...contractionSeries(10, 5, 70, 40), ...contractionSeries(6, 5, 70)];
+      expect(analyzeContractions(interrupted, now).fiveOneOne).toEqual({ met: false, sustainedMinutes: 26 });
+    });
+
+    it('should report a contraction in progress without counting its duration', () => {
+      const contractions = [...contractionSeries(2, 6, 50, 8), { startedAt: minutesAgo(1), endedAt: null }];
+
+      const analysis = analyzeContractions(contractions, now);
+
+      expect(analysis.inProgress).toBe(true);
+      expect(analysis.count).toBe(3);
+      expect(analysis.averageDurationSeconds).toBe(50);
+      expect(analysis.averageIntervalMinutes).toBe(6.5);
+    });
+  });
+});
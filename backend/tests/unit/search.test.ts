@@ -0,0 +1,100 @@
+/**
+ * Unit tests for global search utilities
+ * Tests query parsing (type and date hints), scoring, photo tags and date facets
+ */
+
+import { buildDateFacets, getPhotoSearchText, parseSearchQuery, scoreFields } from '../../src/utils/search';
+
+const now = new Date('2026-01-15T12:00:00Z');
+
+describe('Global Search Utilities', () => {
+  describe('Query Parsing', () => {
+    it('should read a type and the most recent month from the query', () => {
+      const query = parseSearchQuery('the rash photo from March', now);
+
+      expect(query.terms).toEqual(['rash']);
+      expect(query.typeHints).toEqual(['photo']);
+      expect(query.dateRange).toEqual({
+        from: new Date('2025-03-01T00:00:00Z'),
+        to: new Date('2025-04-01T00:00:00Z'),
+      });
+    });
+
+    it('should use the current year for past months and accept explicit years', () => {
+      expect(parseSearchQuery('jan bath', now).dateRange?.from).toEqual(new Date('2026-01-01T00:00:00Z'));
+      expect(parseSearchQuery('Sept 2024 daycare', now).dateRange).toEqual({
+        from: new Date('2024-09-01T00:00:00Z'),
+        to: new Date('2024-10-01T00:00:00Z'),
+      });
+      expect(parseSearchQuery('vaccines 2025', now).dateRange).toEqual({
+        from: new Date('2025-01-01T00:00:00Z'),
+        to: new Date('2026-01-01T00:00:00Z'),
+      });
+    });
+
+    it('should keep content words without hints', () => {
+      expect(parseSearchQuery('that sleep regression chat', now)).toEqual({
+        terms: ['sleep', 'regression'],
+        typeHints: ['message'],
+        dateRange: null,
+      });
+      expect(parseSearchQuery('first steps', now)).toEqual({ terms: ['first', 'steps'], typeHints: [], dateRange: null });
+    });
+  });
+
+  describe('Scoring', () => {
+    it('should weigh the field a term is found in', () => {
+      const terms = ['steps'];
+
+      expect(scoreFields([{ text: 'First steps', weight: 3 }, { text: null, weight: 1 }], terms)).toBe(3);
+      expect(scoreFields([{ text: 'Walking', weight: 3 }, { text: 'Took steps today', weight: 1 }], terms)).toBe(1);
+      expect(scoreFields([{ text: 'Walking', weight: 3 }], terms)).toBe(0);
+    });
+
+    it('should rank records matching every term and the whole phrase higher', () => {
+      const terms = ['sleep', 'regression'];
+      const both = scoreFields([{ text: 'The 4-month sleep regression explained', weight: 1 }], terms);
+      const apart = scoreFields([{ text: 'Regression in naps and night sleep', weight: 1 }], terms);
+      const one = scoreFields([{ text: 'Sleep tips', weight: 1 }], terms);
+
+      expect(both).toBe(2);
+      expect(apart).toBe(1);
+      expect(one).toBe(0.5);
+    });
+
+    it('should only match terms at the start of words', () => {
+      expect(scoreFields([{ text: 'Nursing schedule', weight: 1 }], ['nurs'])).toBe(1);
+      expect(scoreFields([{ text: 'Crash course', weight: 1 }], ['rash'])).toBe(0);
+    });
+  });
+
+  describe('Photo Tags and Facets', () => {
+    it('should read categorization tags and fall back to analysis text', () => {
+      expect(getPhotoSearchText({
+        categories: ['bath time', 'smiling'],
+        objects: ['towel', 'smiling'],
+        mood: 'happy',
+        activity: null,
+        description: 'Baby smiling in the bath',
+      })).toEqual({ tags: ['bath time', 'smiling', 'towel', 'happy'], description: 'Baby smiling in the bath' });
+
+      expect(getPhotoSearchText({ analysis: 'Mild rash on the cheek' })).toEqual({
+        tags: [],
+        description: 'Mild rash on the cheek',
+      });
+      expect(getPhotoSearchText(null)).toEqual({ tags: [], description: null });
+    });
+
+    it('should count results per month, newest first', () => {
+      expect(buildDateFacets([
+        new Date('2025-03-02T10:00:00Z'),
+        null,
+        new Date('2025-11-20T10:00:00Z'),
+        new Date('2025-03-28T10:00:00Z'),
+      ])).toEqual([
+        { month: '2025-11', count: 1 },
+        { month: '2025-03', count: 2 },
+      ]);
+    });
+  });
+});
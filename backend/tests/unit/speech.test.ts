@@ -0,0 +1,120 @@
+/**
+ * Unit tests for spoken replies
+ * Tests markdown stripping, sentence splitting of streamed replies and the
+ * sentence-by-sentence synthesis queue with the fake TTS provider
+ */
+
+import {
+  MAX_SPEECH_CHUNK_LENGTH,
+  extractSentences,
+  isTtsVoice,
+  prepareSpeechText,
+} from '../../src/utils/speech';
+import { FakeTtsProvider, SpeechChunk, SpeechStream } from '../../src/services/tts';
+
+describe('Spoken Replies', () => {
+  describe('Speech text', () => {
+    it('should strip markdown but keep the words', () => {
+      expect(prepareSpeechText('**Tip:** see [this guide](https://example.com) for `details`'))
+        .toBe('Tip: see this guide for details');
+      expect(prepareSpeechText('## Sleep\n- Keep a routine\n- Dim the *lights*')).toBe('Sleep Keep a routine Dim the lights');
+    });
+
+    it('should accept only supported voices', () => {
+      expect(isTtsVoice('nova')).toBe(true);
+      expect(isTtsVoice('robot')).toBe(false);
+      expect(isTtsVoice(1)).toBe(false);
+    });
+  });
+
+  describe('Sentence splitting', () => {
+    it('should keep unfinished text for the next piece of the stream', () => {
+      const { sentences, rest } = extractSentences('Babies often wake at night. Try a consistent bed', false);
+
+      expect(sentences).toEqual(['Babies often wake at night.']);
+      expect(rest).toBe(' Try a consistent bed');
+    });
+
+    it('should not end sentences at abbreviations', () => {
+      const { sentences } = extractSentences('Ask Dr. Patel about vitamin D drops. More soon', false);
+
+      expect(sentences).toEqual(['Ask Dr. Patel about vitamin D drops.']);
+    });
+
+    it('should join short sentences with the next one', () => {
+      const first = extractSentences('Yes. ', false);
+      expect(first.sentences).toEqual([]);
+
+      const second = extractSentences(`${first.rest}That is completely normal at this age. `, false);
+      expect(second.sentences).toEqual(['Yes. That is completely normal at this age.']);
+    });
+
+    it('should split long sentences at a comma', () => {
+      const sentence = `${'word '.repeat(50)}and more, ${'then '.repeat(40)}done.`;
+      const { sentences } = extractSentences(sentence, true);
+
+      expect(sentences.length).toBeGreaterThan(1);
+      expect(sentences.every((piece) => piece.length <= MAX_SPEECH_CHUNK_LENGTH)).toBe(true);
+      expect(sentences[0].endsWith('more,')).toBe(true);
+    });
+
+    it('should flush the remaining text at the end of the reply', () => {
+      expect(extractSentences('Sleep well', true)).toEqual({ sentences: ['Sleep well'], rest: '' });
+    });
+  });
+
+  describe('Speech stream', () => {
+    const reply = 'Teething can start around six months. Offer a cold teether to chew on. Call your doctor if a fever appears.';
+
+    it('should synthesize each sentence in order with the chosen voice', async () => {
+      const provider = new FakeTtsProvider();
+      const chunks: SpeechChunk[] = [];
+      const speech = new SpeechStream({ voice: 'nova', speed: 1.25 }, (chunk) => chunks.push(chunk), provider);
+
+      // Feed the reply in small pieces like streamed tokens
+      for (const token of reply.match(/.{1,7}/g) ?? []) {
+        speech.push(token);
+      }
+      const result = await speech.finish();
+
+      expect(result).toEqual({ chunks: 3 });
+      expect(chunks.map((chunk) => chunk.index)).toEqual([0, 1, 2]);
+      expect(chunks.map((chunk) => chunk.text)).toEqual([
+        'Teething can start around six months.',
+        'Offer a cold teether to chew on.',
+        'Call your doctor if a fever appears.',
+      ]);
+      expect(provider.requests.every((request) => request.options.voice === 'nova' && request.options.speed === 1.25))
+        .toBe(true);
+    });
+
+    it('should stop speaking after a synthesis error', async () => {
+      const provider = new FakeTtsProvider();
+      provider.failingTexts.add('Offer a cold teether to chew on.');
+      const chunks: SpeechChunk[] = [];
+      const speech = new SpeechStream({ voice: 'alloy', speed: 1 }, (chunk) => chunks.push(chunk), provider);
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      speech.push(reply);
+      const result = await speech.finish();
+
+      expect(result).toEqual({ chunks: 1, error: 'Synthesis failed' });
+      expect(chunks.map((chunk) => chunk.text)).toEqual(['Teething can start around six months.']);
+      consoleError.mockRestore();
+    });
+
+    it('should deliver no more chunks after cancel', async () => {
+      const provider = new FakeTtsProvider();
+      const chunks: SpeechChunk[] = [];
+      const speech = new SpeechStream({ voice: 'alloy', speed: 1 }, (chunk) => chunks.push(chunk), provider);
+
+      speech.push(reply);
+      speech.cancel();
+      speech.push(' And one more sentence to speak.');
+      const result = await speech.finish();
+
+      expect(result).toEqual({ chunks: 0, cancelled: true });
+      expect(chunks).toEqual([]);
+    });
+  });
+});
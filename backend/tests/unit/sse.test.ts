@@ -0,0 +1,81 @@
+/**
+ * Unit tests for Server-Sent Events
+ * Tests event formatting and streaming a chat reply as token events
+ */
+
+import { MockLlmProvider, setLlmProvider } from '../../src/services/llm';
+import { streamChatResponse } from '../../src/services/openai';
+import { formatSseEvent, writeSseEvent } from '../../src/utils/sse';
+
+/**
+ * Parses the text written to an event stream back into events
+ */
+function parseSseEvents(text: string): { event: string; data: unknown }[] {
+  return text
+    .split('\n\n')
+    .filter((block) => block.length > 0)
+    .map((block) => {
+      const [eventLine, dataLine] = block.split('\n');
+      return { event: eventLine.replace('event: ', ''), data: JSON.parse(dataLine.replace('data: ', '')) as unknown };
+    });
+}
+
+describe('Server-Sent Events', () => {
+  let provider: MockLlmProvider;
+
+  beforeEach(() => {
+    provider = new MockLlmProvider();
+    setLlmProvider(provider);
+  });
+
+  describe('formatSseEvent', () => {
+    it('should write the event name and JSON data followed by a blank line', () => {
+      expect(formatSseEvent('token', { content: 'Hi' })).toBe('event: token\ndata: {"content":"Hi"}\n\n');
+    });
+
+    it('should keep newlines in the payload inside one data line', () => {
+      const text = formatSseEvent('token', { content: 'First line\n\nSecond line' });
+
+      expect(text.split('\n')).toHaveLength(4);
+      expect(parseSseEvents(text)).toEqual([{ event: 'token', data: { content: 'First line\n\nSecond line' } }]);
+    });
+  });
+
+  describe('Streaming a reply', () => {
+    it('should send the reply as token events that add up to the saved text', async () => {
+      provider.replies.push('Try a warm bath before bed.');
+      let written = '';
+      const res = { write: (chunk: string): boolean => ((written += chunk), true) };
+
+      const { response } = await streamChatResponse(
+        [{ role: 'user', content: 'How do I help my baby sleep?' }],
+        { mode: 'PARENTING' },
+        (token) => writeSseEvent(res, 'token', { content: token }),
+      );
+
+      const events = parseSseEvents(written);
+      expect(events.length).toBeGreaterThan(1);
+      expect(events.every((event) => event.event === 'token')).toBe(true);
+      expect(events.map((event) => (event.data as { content: string }).content).join('')).toBe(response);
+    });
+
+    it('should stop streaming when the client disconnects', async () => {
+      provider.replies.push('One two three four five');
+      const abortController = new AbortController();
+      const tokens: string[] = [];
+
+      const streaming = streamChatResponse(
+        [{ role: 'user', content: 'Count for me' }],
+        { mode: 'PARENTING' },
+        (token) => {
+          tokens.push(token);
+          abortController.abort();
+        },
+        abortController.signal,
+      );
+
+      await expect(streaming).rejects.toThrow('aborted');
+      expect(tokens).toHaveLength(1);
+    });
+  });
+});
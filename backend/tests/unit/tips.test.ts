@@ -0,0 +1,110 @@
+/**
+ * Unit tests for weekly tip utilities
+ * Tests age and week calculations, cohort keys and validation of generated tips
+ */
+
+import {
+  buildTipCohort,
+  getAgeInWeeks,
+  getWeekStart,
+  parseGeneratedTips,
+  parseStoredText,
+  TIPS_PER_DIGEST,
+} from '../../src/utils/tips';
+
+describe('Weekly Tip Utilities', () => {
+  describe('Age and Week Calculations', () => {
+    it('should count completed weeks and never go negative', () => {
+      const birthDate = new Date('2025-10-01T00:00:00.000Z');
+
+      expect(getAgeInWeeks(birthDate, new Date('2025-10-07T23:00:00.000Z'))).toBe(0);
+      expect(getAgeInWeeks(birthDate, new Date('2025-10-08T00:00:00.000Z'))).toBe(1);
+      expect(getAgeInWeeks(birthDate, new Date('2025-11-12T12:00:00.000Z'))).toBe(6);
+      expect(getAgeInWeeks(birthDate, new Date('2025-09-01T00:00:00.000Z'))).toBe(0);
+    });
+
+    it('should return Monday 00:00 UTC of the week', () => {
+      // Wednesday, Sunday and Monday of the same week
+      expect(getWeekStart(new Date('2025-11-12T18:30:00.000Z')).toISOString()).toBe('2025-11-10T00:00:00.000Z');
+      expect(getWeekStart(new Date('2025-11-16T23:59:00.000Z')).toISOString()).toBe('2025-11-10T00:00:00.000Z');
+      expect(getWeekStart(new Date('2025-11-10T00:00:00.000Z')).toISOString()).toBe('2025-11-10T00:00:00.000Z');
+    });
+  });
+
+  describe('Stored Text', () => {
+    it('should unwrap JSON-encoded strings', () => {
+      expect(parseStoredText('Gentle parenting')).toBe('Gentle parenting');
+      expect(parseStoredText('"Gentle parenting"')).toBe('Gentle parenting');
+      expect(parseStoredText(JSON.stringify(JSON.stringify(' Attachment ')))).toBe('Attachment');
+    });
+
+    it('should return null for empty or non-text values', () => {
+      expect(parseStoredText(null)).toBeNull();
+      expect(parseStoredText('""')).toBeNull();
+      expect(parseStoredText('   ')).toBeNull();
+      expect(parseStoredText({ style: 'gentle' })).toBeNull();
+    });
+  });
+
+  describe('Cohorts', () => {
+    const base = {
+      ageWeeks: 12,
+      concerns: ['Sleep', 'feeding'],
+      parentingPhilosophy: 'Gentle parenting',
+      upcomingMilestones: ['Rolls over'],
+    };
+
+    it('should give the same key regardless of concern order, case and duplicates', () => {
+      const cohort = buildTipCohort(base);
+      const reordered = buildTipCohort({
+        ...base,
+        concerns: ['FEEDING ', 'sleep', 'Sleep'],
+        parentingPhilosophy: ' gentle parenting ',
+      });
+
+      expect(reordered.cohortKey).toBe(cohort.cohortKey);
+      expect(cohort.concerns).toEqual(['feeding', 'Sleep']);
+      expect(cohort.cohortKey).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('should give different keys for different ages or milestones', () => {
+      const cohort = buildTipCohort(base);
+
+      expect(buildTipCohort({ ...base, ageWeeks: 13 }).cohortKey).not.toBe(cohort.cohortKey);
+      expect(buildTipCohort({ ...base, upcomingMilestones: ['Sits up'] }).cohortKey).not.toBe(cohort.cohortKey);
+      expect(buildTipCohort({ ...base, parentingPhilosophy: '' }).parentingPhilosophy).toBeNull();
+    });
+  });
+
+  describe('Generated Tips', () => {
+    it('should keep valid tips and default unknown categories', () => {
+      const tips = parseGeneratedTips(JSON.stringify({
+        tips: [
+          { title: ' Tummy time ', body: 'A few minutes after each nap.', category: 'play' },
+          { title: 'Night feeds', body: 'Keep the lights low.', category: 'nutrition' },
+          { title: '', body: 'No title' },
+        ],
+      }));
+
+      expect(tips).toEqual([
+        { title: 'Tummy time', body: 'A few minutes after each nap.', category: 'play' },
+        { title: 'Night feeds', body: 'Keep the lights low.', category: 'development' },
+      ]);
+    });
+
+    it('should cap the number and length of tips', () => {
+      const tips = parseGeneratedTips(JSON.stringify({
+        tips: Array.from({ length: 5 }, (_, i) => ({ title: `Tip ${i}`, body: 'x'.repeat(1000), category: 'sleep' })),
+      }));
+
+      expect(tips).toHaveLength(TIPS_PER_DIGEST);
+      expect(tips[0].body).toHaveLength(400);
+    });
+
+    it('should return no tips for unusable responses', () => {
+      expect(parseGeneratedTips('not json')).toEqual([]);
+      expect(parseGeneratedTips('{"advice": []}')).toEqual([]);
+      expect(parseGeneratedTips('null')).toEqual([]);
+    });
+  });
+});
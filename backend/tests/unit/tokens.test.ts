@@ -0,0 +1,43 @@
+/**
+ * Unit tests for one-time tokens
+ * Tests token generation, hashing for storage and the usable check for password reset links
+ */
+
+import { generateOneTimeToken, hashToken, isOneTimeTokenUsable } from '../../src/utils/tokens';
+
+describe('One-Time Tokens', () => {
+  const now = new Date('2025-06-01T12:00:00Z');
+  const inOneHour = new Date('2025-06-01T13:00:00Z');
+
+  describe('generateOneTimeToken', () => {
+    it('should store only the hash of the token', () => {
+      const { token, tokenHash } = generateOneTimeToken();
+
+      expect(token).toMatch(/^[0-9a-f]{64}$/);
+      expect(tokenHash).not.toBe(token);
+      expect(tokenHash).toBe(hashToken(token));
+    });
+
+    it('should generate a different token every time', () => {
+      expect(generateOneTimeToken().token).not.toBe(generateOneTimeToken().token);
+    });
+
+    it('should hash the same token the same way so it can be looked up', () => {
+      expect(hashToken('abc')).toBe(hashToken('abc'));
+      expect(hashToken('abc')).not.toBe(hashToken('abd'));
+    });
+  });
+
+  describe('isOneTimeTokenUsable', () => {
+    it('should accept an unused token before it expires', () => {
+      expect(isOneTimeTokenUsable({ usedAt: null, expiresAt: inOneHour }, now)).toBe(true);
+    });
+
+    it('should reject unknown, used and expired tokens', () => {
+      expect(isOneTimeTokenUsable(null, now)).toBe(false);
+      expect(isOneTimeTokenUsable({ usedAt: now, expiresAt: inOneHour }, now)).toBe(false);
+      expect(isOneTimeTokenUsable({ usedAt: null, expiresAt: now }, now)).toBe(false);
+      expect(isOneTimeTokenUsable({ usedAt: null, expiresAt: inOneHour }, new Date('2025-06-01T13:00:01Z'))).toBe(false);
+    });
+  });
+});
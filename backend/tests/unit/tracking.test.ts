@@ -0,0 +1,187 @@
+/**
+ * Unit tests for activity tracking utilities
+ * Tests date handling, daily aggregation and weekly summaries
+ */
+
+import { DiaperType, FeedType } from '@prisma/client';
+import {
+  addDays,
+  isDateKey,
+  startOfDay,
+  summarizeDays,
+  summarizeWeek,
+  toDateKey,
+  FeedRecord,
+} from '../../src/utils/tracking';
+
+/**
+ * Builds a feed record with defaults for fields a test doesn't care about
+ */
+function feed(overrides: Partial<FeedRecord> & { startedAt: Date }): FeedRecord {
+  return {
+    type: FeedType.BREAST,
+    endedAt: null,
+    durationMinutes: null,
+    volumeMl: null,
+    ...overrides,
+  };
+}
+
+describe('Activity Tracking Utilities', () => {
+  describe('Date Helpers', () => {
+    it('should validate YYYY-MM-DD dates', () => {
+      expect(isDateKey('2025-11-08')).toBe(true);
+      expect(isDateKey('2025-02-30')).toBe(false);
+      expect(isDateKey('2025-1-8')).toBe(false);
+    });
+
+    it('should use the parent time zone for the calendar day', () => {
+      const date = new Date('2025-11-08T02:00:00.000Z');
+
+      expect(toDateKey(date)).toBe('2025-11-08');
+      // UTC-5: still the evening of the 7th
+      expect(toDateKey(date, 300)).toBe('2025-11-07');
+      expect(startOfDay('2025-11-07', 300).toISOString()).toBe('2025-11-07T05:00:00.000Z');
+    });
+
+    it('should add days across month boundaries', () => {
+      expect(addDays('2025-11-30', 1)).toBe('2025-12-01');
+      expect(addDays('2025-03-01', -1)).toBe('2025-02-28');
+    });
+  });
+
+  describe('Daily Summaries', () => {
+    const empty = { feeds: [], sleeps: [], diapers: [] };
+
+    it('should return one empty summary per day', () => {
+      const days = summarizeDays(empty, '2025-11-01', 3);
+
+      expect(days.map((day) => day.date)).toEqual(['2025-11-01', '2025-11-02', '2025-11-03']);
+      expect(days[0].feeds.total).toBe(0);
+      expect(days[0].sleep.totalHours).toBe(0);
+    });
+
+    it('should count feeds by type with nursing minutes and bottle volume', () => {
+      const days = summarizeDays(
+        {
+          ...empty,
+          feeds: [
+            feed({ startedAt: new Date('2025-11-01T08:00:00Z'), durationMinutes: 15 }),
+            feed({
+              startedAt: new Date('2025-11-01T11:00:00Z'),
+              endedAt: new Date('2025-11-01T11:20:00Z'),
+            }),
+            feed({ type: FeedType.BOTTLE, startedAt: new Date('2025-11-01T14:00:00Z'), volumeMl: 120 }),
+            feed({ type: FeedType.SOLIDS, startedAt: new Date('2025-11-02T12:00:00Z') }),
+          ],
+        },
+        '2025-11-01',
+        2,
+      );
+
+      expect(days[0].feeds).toEqual({
+        total: 3,
+        breast: 2,
+        bottle: 1,
+        solids: 0,
+        breastMinutes: 35,
+        bottleVolumeMl: 120,
+      });
+      expect(days[1].feeds.solids).toBe(1);
+    });
+
+    it('should count diaper changes by type', () => {
+      const days = summarizeDays(
+        {
+          ...empty,
+          diapers: [
+            { type: DiaperType.WET, changedAt: new Date('2025-11-01T06:00:00Z') },
+            { type: DiaperType.WET, changedAt: new Date('2025-11-01T09:00:00Z') },
+            { type: DiaperType.MIXED, changedAt: new Date('2025-11-01T12:00:00Z') },
+          ],
+        },
+        '2025-11-01',
+        1,
+      );
+
+      expect(days[0].diapers).toEqual({ total: 3, wet: 2, dirty: 0, mixed: 1, dry: 0 });
+    });
+
+    it('should split overnight sleep at midnight', () => {
+      const days = summarizeDays(
+        {
+          ...empty,
+          sleeps: [
+            { startedAt: new Date('2025-11-01T21:00:00Z'), endedAt: new Date('2025-11-02T05:00:00Z') },
+          ],
+        },
+        '2025-11-01',
+        2,
+      );
+
+      expect(days[0].sleep).toEqual({ totalHours: 3, sessions: 1, longestStretchHours: 8 });
+      expect(days[1].sleep).toEqual({ totalHours: 5, sessions: 0, longestStretchHours: 0 });
+    });
+
+    it('should split sleep at local midnight when a time zone is given', () => {
+      // 21:00-05:00 UTC is 16:00-00:00 in UTC-5, so it all falls on the 1st
+      const days = summarizeDays(
+        {
+          ...empty,
+          sleeps: [
+            { startedAt: new Date('2025-11-01T21:00:00Z'), endedAt: new Date('2025-11-02T05:00:00Z') },
+          ],
+        },
+        '2025-11-01',
+        2,
+        300,
+      );
+
+      expect(days[0].sleep.totalHours).toBe(8);
+      expect(days[1].sleep.totalHours).toBe(0);
+    });
+
+    it('should count ongoing sleep up to now', () => {
+      const days = summarizeDays(
+        {
+          ...empty,
+          sleeps: [{ startedAt: new Date('2025-11-01T10:00:00Z'), endedAt: null }],
+        },
+        '2025-11-01',
+        1,
+        0,
+        new Date('2025-11-01T11:30:00Z'),
+      );
+
+      expect(days[0].sleep.totalHours).toBe(1.5);
+    });
+  });
+
+  describe('Weekly Summaries', () => {
+    it('should total and average seven days', () => {
+      const week = summarizeWeek(
+        {
+          feeds: [
+            feed({ startedAt: new Date('2025-11-03T08:00:00Z'), durationMinutes: 10 }),
+            feed({ startedAt: new Date('2025-11-09T08:00:00Z'), durationMinutes: 10 }),
+            // Outside the week
+            feed({ startedAt: new Date('2025-11-10T08:00:00Z'), durationMinutes: 10 }),
+          ],
+          sleeps: [
+            { startedAt: new Date('2025-11-04T00:00:00Z'), endedAt: new Date('2025-11-04T14:00:00Z') },
+          ],
+          diapers: [],
+        },
+        '2025-11-03',
+      );
+
+      expect(week.startDate).toBe('2025-11-03');
+      expect(week.endDate).toBe('2025-11-09');
+      expect(week.days).toHaveLength(7);
+      expect(week.totals.feeds).toBe(2);
+      expect(week.totals.breastMinutes).toBe(20);
+      expect(week.totals.sleepHours).toBe(14);
+      expect(week.averages.sleepHoursPerDay).toBe(2);
+    });
+  });
+});
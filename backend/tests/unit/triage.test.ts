@@ -0,0 +1,214 @@
+/**
+ * Unit tests for medical red-flag triage
+ * Tests age-aware fever rules, emergency phrases, pregnancy rules, temperature parsing and other languages
+ */
+
+import {
+  TriageSubject,
+  buildTriageSubject,
+  findTemperatures,
+  formatTriageMessage,
+  triageMessage,
+} from '../../src/utils/triage';
+
+const baby = (babyAgeDays: number): TriageSubject => ({ babyAgeDays, pregnant: false });
+const pregnant: TriageSubject = { babyAgeDays: null, pregnant: true };
+const unknown: TriageSubject = { babyAgeDays: null, pregnant: false };
+
+describe('Medical Triage', () => {
+  describe('Temperatures', () => {
+    it('should read Celsius and Fahrenheit temperatures', () => {
+      expect(findTemperatures('her temp is 38.5')).toEqual([38.5]);
+      expect(findTemperatures('thermometer says 100.4')).toEqual([38]);
+      expect(findTemperatures('it was 102°f this morning')).toEqual([38.9]);
+      expect(findTemperatures('39,2 c under the arm')).toEqual([39.2]);
+    });
+
+    it('should ignore numbers that are not body temperatures', () => {
+      expect(findTemperatures('she drank 120 ml at 10 weeks')).toEqual([]);
+      expect(findTemperatures('fever started 12 hours ago after 60 ml')).toEqual([]);
+    });
+
+    it('should not read ages and amounts next to a temperature as temperatures', () => {
+      expect(findTemperatures("she's 38 days old and her temperature is 37.0")).toEqual([37]);
+      expect(findTemperatures("i'm 39 weeks pregnant, temp is 37.2")).toEqual([37.2]);
+      expect(findTemperatures('temp is normal, he drank 40 ml and weighs 39 kg')).toEqual([]);
+    });
+  });
+
+  describe('Fever by Age', () => {
+    it('should treat any fever under 3 months as an emergency', () => {
+      expect(triageMessage('My 6 week old has a temp of 38.1', baby(42))).toMatchObject({
+        level: 'EMERGENCY',
+        rule: 'fever_under_3_months',
+      });
+      expect(triageMessage('I think the baby has a fever', baby(20))?.rule).toBe('fever_under_3_months');
+    });
+
+    it("should not mistake the baby's age or the week of pregnancy for a fever", () => {
+      expect(triageMessage("She's 38 days old and her temperature is 37.0", baby(38))).toBeNull();
+      expect(triageMessage("I'm 39 weeks pregnant, temp is 37.2", pregnant)).toBeNull();
+    });
+
+    it('should not flag normal temperatures or a negated fever in young babies', () => {
+      expect(triageMessage('Her temperature is 37.2, is that normal?', baby(30))).toBeNull();
+      expect(triageMessage('No fever, just a runny nose', baby(30))).toBeNull();
+      expect(triageMessage('He has been fever-free since yesterday', baby(30))).toBeNull();
+    });
+
+    it('should use a higher threshold as the baby gets older', () => {
+      expect(triageMessage('temp is 38.5', baby(120))).toBeNull();
+      expect(triageMessage('temp is 39.1', baby(120))).toMatchObject({ level: 'URGENT', rule: 'fever_3_to_6_months' });
+      expect(triageMessage('temp is 39.5', baby(400))).toBeNull();
+      expect(triageMessage('temp is 104 F', baby(400))).toMatchObject({ level: 'URGENT', rule: 'very_high_fever' });
+    });
+  });
+
+  describe('Emergencies at Any Age', () => {
+    it('should flag breathing difficulty, unresponsiveness and poisoning', () => {
+      expect(triageMessage("She's struggling to breathe and her lips look blue", unknown)).toMatchObject({
+        level: 'EMERGENCY',
+        rule: 'breathing_difficulty',
+        callEmergencyServices: true,
+      });
+      expect(triageMessage("I can't wake him up", baby(300))?.rule).toBe('unresponsive');
+      expect(triageMessage('He had a seizure a minute ago', baby(700))?.rule).toBe('unresponsive');
+      expect(triageMessage('My toddler swallowed a button battery', baby(500))).toMatchObject({
+        rule: 'poisoning',
+        callEmergencyServices: false,
+      });
+    });
+
+    it('should flag a child turning blue or gray', () => {
+      expect(triageMessage('His lips are turning blue', baby(200))?.rule).toBe('breathing_difficulty');
+      expect(triageMessage('She turned blue for a few seconds', baby(200))?.rule).toBe('breathing_difficulty');
+      expect(triageMessage('The baby looks gray and is barely moving', baby(20))?.rule).toBe('breathing_difficulty');
+    });
+
+    it('should not flag blue or gray things that are not the child', () => {
+      expect(triageMessage('The poop is gray, is that normal?', baby(200))).toBeNull();
+      expect(triageMessage('His onesie is blue and it bleeds in the wash', baby(200))).toBeNull();
+      expect(triageMessage('Her eyes look blue, will they change color?', baby(30))).toBeNull();
+    });
+
+    it('should not flag everyday questions', () => {
+      expect(triageMessage('How do I get her to breathe calmly before bed? Tips for a limp from a bumped knee?', baby(700))).toBeNull();
+      expect(triageMessage('He ate a whole banana, is that too much?', baby(300))).toBeNull();
+      expect(triageMessage('I drank a glass of alcohol, can I still breastfeed?', baby(60))).toBeNull();
+    });
+
+    it('should pick the most severe match', () => {
+      expect(triageMessage('temp is 40.2 and he is not breathing right', baby(400))?.rule).toBe('breathing_difficulty');
+    });
+  });
+
+  describe('Pregnancy', () => {
+    it('should apply pregnancy rules only when pregnant', () => {
+      expect(triageMessage("The baby hasn't been moving since this morning", pregnant)).toMatchObject({
+        level: 'URGENT',
+        rule: 'pregnancy_reduced_movement',
+      });
+      expect(triageMessage('Heavy bleeding started an hour ago', pregnant)?.level).toBe('EMERGENCY');
+      expect(triageMessage('Bad headache and my vision is blurry', pregnant)?.rule).toBe('pregnancy_preeclampsia_signs');
+      expect(triageMessage('I have a temp of 38.4', pregnant)?.rule).toBe('pregnancy_fever');
+      expect(triageMessage("The baby hasn't been moving much, should I buy a bouncer?", baby(200))).toBeNull();
+    });
+  });
+
+  describe('Spanish', () => {
+    it('should flag emergencies described in Spanish', () => {
+      expect(triageMessage('Mi bebé no respira bien', baby(200))).toMatchObject({
+        rule: 'breathing_difficulty',
+        language: 'es',
+        title: 'Dificultad para respirar',
+      });
+      expect(triageMessage('Está teniendo una convulsión', baby(400))?.rule).toBe('unresponsive');
+      expect(triageMessage('Se tragó unas pastillas de mi bolso', baby(700))?.rule).toBe('poisoning');
+      expect(triageMessage('Tiene los labios morados', baby(300))?.rule).toBe('breathing_difficulty');
+    });
+
+    it('should read Spanish fevers by age', () => {
+      expect(triageMessage('Tiene fiebre de 38,2', baby(30))).toMatchObject({ rule: 'fever_under_3_months', language: 'es' });
+      expect(triageMessage('Tiene fiebre', baby(30))?.rule).toBe('fever_under_3_months');
+      expect(triageMessage('Sin fiebre, solo mocos', baby(30))).toBeNull();
+      expect(triageMessage('La temperatura es 39,5 grados', baby(120))?.rule).toBe('fever_3_to_6_months');
+      expect(triageMessage('Tengo fiebre y estoy de 39 semanas', pregnant)).toBeNull();
+    });
+
+    it('should apply Spanish pregnancy rules', () => {
+      expect(triageMessage('El bebé no se mueve desde esta mañana', pregnant)?.rule).toBe('pregnancy_reduced_movement');
+      expect(triageMessage('Tengo un sangrado abundante', pregnant)?.rule).toBe('pregnancy_heavy_bleeding');
+      expect(triageMessage('Veo borroso desde hace una hora', pregnant)?.rule).toBe('pregnancy_preeclampsia_signs');
+    });
+
+    it('should not flag everyday Spanish questions', () => {
+      expect(triageMessage('¿Cuántas siestas necesita un bebé de 6 meses?', baby(180))).toBeNull();
+      expect(triageMessage('No responde a su nombre todavía, ¿es normal?', baby(300))).toBeNull();
+    });
+  });
+
+  describe('Portuguese', () => {
+    it('should flag emergencies described in Portuguese', () => {
+      expect(triageMessage('Meu bebê não está respirando', baby(200))).toMatchObject({
+        rule: 'breathing_difficulty',
+        language: 'pt',
+        title: 'Dificuldade para respirar',
+      });
+      expect(triageMessage('Ele teve uma convulsão agora', baby(400))?.rule).toBe('unresponsive');
+      expect(triageMessage('Ela engoliu uma pilha de relógio', baby(700))?.rule).toBe('poisoning');
+      expect(triageMessage('Ele não fez xixi desde ontem', baby(200))?.rule).toBe('dehydration');
+    });
+
+    it('should read Portuguese fevers by age', () => {
+      expect(triageMessage('Está com febre de 38,5', baby(45))).toMatchObject({ rule: 'fever_under_3_months', language: 'pt' });
+      expect(triageMessage('Sem febre, mas está irritado', baby(45))).toBeNull();
+      expect(triageMessage('A febre chegou a 40,1', baby(700))?.rule).toBe('very_high_fever');
+      expect(triageMessage('Ele tem 38 dias e está com tosse', baby(38))).toBeNull();
+    });
+
+    it('should apply Portuguese pregnancy rules', () => {
+      expect(triageMessage('O bebê parou de mexer', pregnant)?.rule).toBe('pregnancy_reduced_movement');
+      expect(triageMessage('Estou com visão embaçada', pregnant)?.rule).toBe('pregnancy_preeclampsia_signs');
+    });
+
+    it('should not flag everyday Portuguese questions', () => {
+      expect(triageMessage('Quantas mamadas por dia são normais?', baby(60))).toBeNull();
+      expect(triageMessage('Ele ainda não responde pelo nome', baby(300))).toBeNull();
+    });
+  });
+
+  it("should write the card in the parent's preferred language", () => {
+    expect(triageMessage('He is not breathing', baby(200), 'es')).toMatchObject({
+      language: 'es',
+      title: 'Dificultad para respirar',
+    });
+    expect(triageMessage('No respira', baby(200), 'en')?.title).toBe('Trouble breathing');
+
+    const result = triageMessage('Ela engoliu uns comprimidos', baby(700))!;
+    const text = formatTriageMessage(result);
+    expect(text.split('\n')[0]).toBe('⚠️ Possível intoxicação: procure ajuda agora');
+    expect(text).toContain('0800 722 6001');
+
+    const urgent = triageMessage('Fiebre de 40 desde anoche', baby(700))!;
+    expect(formatTriageMessage(urgent).split('\n')[0]).toBe('⚠️ Fiebre muy alta: llama hoy');
+  });
+
+  it('should build the subject from the profile', () => {
+    const now = new Date('2025-06-01T12:00:00Z');
+
+    expect(buildTriageSubject({ mode: 'PARENTING', babyBirthDate: new Date('2025-05-01T12:00:00Z') }, now)).toEqual({
+      babyAgeDays: 31,
+      pregnant: false,
+    });
+    expect(buildTriageSubject({ mode: 'PREGNANCY', babyBirthDate: null }, now)).toEqual(pregnant);
+  });
+
+  it('should format the urgent-care reply with its steps', () => {
+    const result = triageMessage('She swallowed some pills', baby(700))!;
+    const text = formatTriageMessage(result);
+
+    expect(text.split('\n')[0]).toBe('⚠️ Possible poisoning: get help now');
+    expect(text).toContain('Poison Control');
+    expect(text).toContain(`- ${result.actions[0]}`);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Unit tests for voice activity detection
+ * Tests turn start and end on synthetic PCM, noise adaptation, and WAV encoding
+ */
+
+import { VoiceActivityDetector, VadEvent, encodeWav, pcmRms } from '../../src/utils/voiceActivity';
+
+const SAMPLE_RATE = 16000;
+
+/**
+ * Builds 16-bit PCM: a 220 Hz tone of the given amplitude (0 for silence)
+ */
+const pcm = (ms: number, amplitude: number): Buffer => {
+  const samples = (SAMPLE_RATE * ms) / 1000;
+  const buffer = Buffer.alloc(samples * 2);
+  for (let i = 0; i < samples; i++) {
+    buffer.writeInt16LE(Math.round(amplitude * Math.sin((2 * Math.PI * 220 * i) / SAMPLE_RATE)), i * 2);
+  }
+  return buffer;
+};
+
+/**
+ * Feeds audio in 100 ms chunks and collects the events
+ */
+const feed = (detector: VoiceActivityDetector, audio: Buffer): VadEvent[] => {
+  const events: VadEvent[] = [];
+  const chunkBytes = (SAMPLE_RATE / 10) * 2;
+  for (let offset = 0; offset < audio.length; offset += chunkBytes) {
+    events.push(...detector.process(audio.subarray(offset, offset + chunkBytes)));
+  }
+  return events;
+};
+
+describe('Voice Activity Detection', () => {
+  it('should measure the level of PCM audio', () => {
+    expect(pcmRms(pcm(100, 0))).toBe(0);
+    expect(pcmRms(pcm(100, 10000))).toBeCloseTo(10000 / Math.SQRT2, -2);
+  });
+
+  it('should start a turn on speech and end it after silence', () => {
+    const detector = new VoiceActivityDetector(SAMPLE_RATE);
+    const events = feed(detector, Buffer.concat([pcm(500, 50), pcm(1500, 8000), pcm(1200, 50)]));
+
+    expect(events).toEqual([
+      { type: 'speech_start', atMs: 500 },
+      expect.objectContaining({ type: 'speech_end', reason: 'silence' }),
+    ]);
+    expect(detector.speaking).toBe(false);
+  });
+
+  it('should keep the turn open during short pauses', () => {
+    const detector = new VoiceActivityDetector(SAMPLE_RATE);
+    const events = feed(detector, Buffer.concat([pcm(300, 50), pcm(800, 8000), pcm(400, 50), pcm(800, 8000)]));
+
+    expect(events.map((event) => event.type)).toEqual(['speech_start']);
+    expect(detector.speaking).toBe(true);
+  });
+
+  it('should ignore clicks shorter than the speech start time', () => {
+    const detector = new VoiceActivityDetector(SAMPLE_RATE);
+    expect(feed(detector, Buffer.concat([pcm(300, 50), pcm(60, 8000), pcm(1000, 50)]))).toEqual([]);
+  });
+
+  it('should require speech to stand out from steady background noise', () => {
+    const quietRoom = new VoiceActivityDetector(SAMPLE_RATE);
+    expect(feed(quietRoom, Buffer.concat([pcm(500, 50), pcm(500, 1500)])).map((event) => event.type))
+      .toEqual(['speech_start']);
+
+    // Next to a humming fan the same soft voice doesn't count, a clear one does
+    const nextToFan = new VoiceActivityDetector(SAMPLE_RATE);
+    expect(feed(nextToFan, Buffer.concat([pcm(500, 600), pcm(500, 1500)]))).toEqual([]);
+    expect(feed(nextToFan, pcm(500, 12000)).map((event) => event.type)).toEqual(['speech_start']);
+  });
+
+  it('should end turns that run too long', () => {
+    const detector = new VoiceActivityDetector(SAMPLE_RATE, { maxTurnMs: 1000 });
+    const events = feed(detector, pcm(1500, 8000));
+
+    expect(events[1]).toEqual(expect.objectContaining({ type: 'speech_end', reason: 'max_length' }));
+  });
+
+  it('should wrap PCM in a WAV header', () => {
+    const audio = pcm(100, 1000);
+    const wav = encodeWav(audio, SAMPLE_RATE);
+
+    expect(wav.length).toBe(audio.length + 44);
+    expect(wav.toString('ascii', 0, 4)).toBe('RIFF');
+    expect(wav.toString('ascii', 8, 12)).toBe('WAVE');
+    expect(wav.readUInt32LE(24)).toBe(SAMPLE_RATE);
+    expect(wav.readUInt32LE(40)).toBe(audio.length);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Unit tests for voice recordings
+ * Tests the retention setting and deleting recordings past it
+ */
+
+import { deleteVoiceAudio, getVoiceAudioRetentionDays, pruneVoiceAudio } from '../../src/services/voiceAudio';
+
+const mockFindMessages = jest.fn();
+const mockUpdateMessages = jest.fn();
+const mockDeleteFromS3 = jest.fn();
+
+// Modules create their Prisma client on import, so the mocks are looked up per call
+jest.mock('@prisma/client', () => ({
+  ...jest.requireActual<object>('@prisma/client'),
+  PrismaClient: jest.fn(() => ({
+    message: {
+      findMany: (...args: unknown[]): unknown => mockFindMessages(...args),
+      updateMany: (...args: unknown[]): unknown => mockUpdateMessages(...args),
+    },
+  })),
+}));
+
+jest.mock('../../src/utils/s3', () => ({
+  deleteFromS3: (...args: unknown[]): unknown => mockDeleteFromS3(...args),
+  uploadToS3: jest.fn(),
+}));
+
+describe('Voice Audio', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    mockFindMessages.mockReset().mockResolvedValue([
+      { id: 'message-1', mediaUrls: ['user-1/voice-1.wav'] },
+      { id: 'message-2', mediaUrls: ['user-1/voice-2.wav'] },
+    ]);
+    mockUpdateMessages.mockReset().mockResolvedValue({ count: 2 });
+    mockDeleteFromS3.mockReset().mockResolvedValue(undefined);
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  describe('getVoiceAudioRetentionDays', () => {
+    it('should default to 30 days when unset or invalid', () => {
+      expect(getVoiceAudioRetentionDays()).toBe(30);
+
+      process.env.VOICE_AUDIO_RETENTION_DAYS = 'forever';
+      expect(getVoiceAudioRetentionDays()).toBe(30);
+
+      process.env.VOICE_AUDIO_RETENTION_DAYS = '-1';
+      expect(getVoiceAudioRetentionDays()).toBe(30);
+    });
+
+    it('should allow 0 to keep no recordings', () => {
+      process.env.VOICE_AUDIO_RETENTION_DAYS = '0';
+
+      expect(getVoiceAudioRetentionDays()).toBe(0);
+    });
+  });
+
+  describe('deleteVoiceAudio', () => {
+    it('should delete the recordings of voice messages and clear their keys', async () => {
+      expect(await deleteVoiceAudio({ sessionId: 'voice-session-1' })).toBe(2);
+
+      expect(mockFindMessages.mock.calls[0][0]).toMatchObject({
+        where: { sessionId: 'voice-session-1', contentType: 'VOICE', mediaUrls: { isEmpty: false } },
+      });
+      expect(mockUpdateMessages).toHaveBeenCalledWith({
+        where: { id: { in: ['message-1', 'message-2'] } },
+        data: { mediaUrls: [] },
+      });
+    });
+
+    it('should keep the keys of recordings that could not be deleted', async () => {
+      mockDeleteFromS3.mockImplementation((key: string) =>
+        key === 'user-1/voice-2.wav' ? Promise.reject(new Error('Access denied')) : Promise.resolve(),
+      );
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      expect(await deleteVoiceAudio({ sessionId: 'voice-session-1' })).toBe(1);
+      expect(mockUpdateMessages).toHaveBeenCalledWith({
+        where: { id: { in: ['message-1'] } },
+        data: { mediaUrls: [] },
+      });
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('pruneVoiceAudio', () => {
+    it('should delete recordings older than the retention period', async () => {
+      process.env.VOICE_AUDIO_RETENTION_DAYS = '7';
+      const now = new Date('2025-06-08T12:00:00Z');
+
+      const { deleted, cutoff } = await pruneVoiceAudio(now);
+
+      expect(deleted).toBe(2);
+      expect(cutoff).toEqual(new Date('2025-06-01T12:00:00Z'));
+      expect(mockFindMessages.mock.calls[0][0]).toMatchObject({ where: { timestamp: { lt: cutoff } } });
+    });
+  });
+});
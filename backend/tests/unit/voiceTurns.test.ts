@@ -0,0 +1,64 @@
+/**
+ * Unit tests for voice turn utilities
+ * Tests the messages saved for a voice turn, including interrupted replies
+ */
+
+import { TriageLevel } from '@prisma/client';
+import { VoiceTurn, buildVoiceTurnMessages } from '../../src/utils/voiceTurns';
+
+describe('Voice Turn Utilities', () => {
+  const savedAt = new Date('2025-06-01T12:00:00.000Z');
+  const turn: VoiceTurn = {
+    userId: 'user-1',
+    sessionId: 'voice-session-1',
+    transcript: 'When should my baby crawl?',
+    responseText: 'Most babies start crawling between 6 and 10 months.',
+    mediaUrls: ['user-1/voice.wav'],
+    triage: null,
+    savedAt,
+  };
+
+  it('should save both messages as voice messages in the voice session', () => {
+    const [question, reply] = buildVoiceTurnMessages(turn);
+
+    expect(question).toMatchObject({
+      userId: 'user-1',
+      sessionId: 'voice-session-1',
+      role: 'USER',
+      content: 'When should my baby crawl?',
+      contentType: 'VOICE',
+      mediaUrls: ['user-1/voice.wav'],
+      timestamp: savedAt,
+    });
+    expect(reply).toMatchObject({
+      userId: 'user-1',
+      sessionId: 'voice-session-1',
+      role: 'ASSISTANT',
+      content: 'Most babies start crawling between 6 and 10 months.',
+      contentType: 'VOICE',
+    });
+  });
+
+  it('should keep the part of an interrupted reply generated so far', () => {
+    const messages = buildVoiceTurnMessages({ ...turn, responseText: 'Most babies start' });
+
+    expect(messages).toHaveLength(2);
+    expect(messages[1].content).toBe('Most babies start');
+  });
+
+  it('should save only the question when the reply was interrupted before any text', () => {
+    const messages = buildVoiceTurnMessages({ ...turn, responseText: '' });
+
+    expect(messages.map((message) => message.role)).toEqual(['USER']);
+  });
+
+  it('should mark triaged questions and leave room for the urgent-care reply', () => {
+    const [question, reply] = buildVoiceTurnMessages({
+      ...turn,
+      triage: { level: TriageLevel.EMERGENCY, rule: 'breathing' },
+    });
+
+    expect(question).toMatchObject({ triageLevel: TriageLevel.EMERGENCY, triageRule: 'breathing' });
+    expect((reply.timestamp as Date).getTime() - savedAt.getTime()).toBe(2);
+  });
+});